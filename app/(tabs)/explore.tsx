@@ -7,23 +7,37 @@ import {
   FlatList,
   RefreshControl,
   TextInput,
+  ActivityIndicator,
+  TouchableOpacity,
 } from 'react-native';
 import { useLocationStations } from '@/hooks/useLocationStations';
+import { OfflineBanner } from '@/components/common/OfflineBanner';
 import { StationCard } from '@/components/station/StationCard';
 import { LoadingIndicator } from '@/components/common/LoadingIndicator';
 import { ErrorDisplay } from '@/components/common/ErrorDisplay';
 import { EmptyState } from '@/components/common/EmptyState';
 import { MaterialIcons } from '@expo/vector-icons';
 import { router } from 'expo-router';
+import { hasKnownHours, isOpenAt } from '@/utils/operatingHours';
 
 import { exploreScreen as styles } from '@/styles';
 
 export default function ExploreScreen() {
   const [searchQuery, setSearchQuery] = useState('');
   const [refreshing, setRefreshing] = useState(false);
-
-  const { stations, location, loading, error, refreshStations } =
-    useLocationStations(5); // 5 km radius
+  const [openNowOnly, setOpenNowOnly] = useState(false);
+
+  const {
+    stations,
+    location,
+    loading,
+    loadingMore,
+    error,
+    cachedAt,
+    offline,
+    refreshStations,
+    loadMore,
+  } = useLocationStations(5); // 5 km radius
 
   // Pull to refresh function
   const onRefresh = useCallback(async () => {
@@ -39,11 +53,20 @@ export default function ExploreScreen() {
 
   // Improved search function that checks multiple fields
   const getFilteredStations = () => {
-    if (!searchQuery.trim()) return stations;
+    const now = new Date();
+    const openStations = openNowOnly
+      ? stations.filter(
+          // Stations with unknown hours might be open, so they stay listed
+          (station) =>
+            !hasKnownHours(station.operating_hours) || isOpenAt(station, now)
+        )
+      : stations;
+
+    if (!searchQuery.trim()) return openStations;
 
     const query = searchQuery.toLowerCase().trim();
 
-    return stations.filter((station) => {
+    return openStations.filter((station) => {
       // Search by name (most specific)
       if (station.name.toLowerCase().includes(query)) return true;
 
@@ -65,6 +88,7 @@ export default function ExploreScreen() {
   };
 
   const filteredStations = getFilteredStations();
+  const isFiltering = openNowOnly || searchQuery.trim() !== '';
 
   const renderContent = () => {
     if (loading && !refreshing) {
@@ -89,6 +113,15 @@ export default function ExploreScreen() {
       );
     }
 
+    if (filteredStations.length === 0 && !searchQuery.trim()) {
+      return (
+        <EmptyState
+          title='No Open Stations'
+          message='None of the nearby stations are open right now. Turn off "Open now" to see them all.'
+        />
+      );
+    }
+
     if (filteredStations.length === 0) {
       return (
         <EmptyState
@@ -113,13 +146,34 @@ export default function ExploreScreen() {
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
         }
+        onEndReached={isFiltering ? undefined : loadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          loadingMore ? (
+            <ActivityIndicator
+              size='small'
+              color='#2a9d8f'
+              style={{ marginVertical: 16 }}
+            />
+          ) : null
+        }
       />
     );
   };
 
   return (
     <View style={styles.container}>
-      <Text style={styles.title}>Nearby Gas Stations</Text>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>Nearby Gas Stations</Text>
+        <TouchableOpacity
+          style={styles.routeButton}
+          onPress={() => router.push('/route')}
+        >
+          <MaterialIcons name='directions' size={18} color='#2a9d8f' />
+          <Text style={styles.routeButtonText}>On My Route</Text>
+        </TouchableOpacity>
+      </View>
+      <OfflineBanner offline={offline} cachedAt={cachedAt} />
 
       <View style={styles.searchContainer}>
         <MaterialIcons
@@ -145,6 +199,27 @@ export default function ExploreScreen() {
         ) : null}
       </View>
 
+      <View style={styles.filterRow}>
+        <TouchableOpacity
+          style={[styles.filterChip, openNowOnly && styles.selectedFilterChip]}
+          onPress={() => setOpenNowOnly((value) => !value)}
+        >
+          <MaterialIcons
+            name='schedule'
+            size={16}
+            color={openNowOnly ? '#fff' : '#2a9d8f'}
+          />
+          <Text
+            style={[
+              styles.filterChipText,
+              openNowOnly && styles.selectedFilterChipText,
+            ]}
+          >
+            Open now
+          </Text>
+        </TouchableOpacity>
+      </View>
+
       {renderContent()}
     </View>
   );
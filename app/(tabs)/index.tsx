@@ -1,5 +1,5 @@
 // app/(tabs)/index.tsx
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -11,23 +11,62 @@ import {
 import { router } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useBestPrices } from '@/hooks/useBestPrices';
+import { usePriceAdjustments } from '@/hooks/usePriceAdjustments';
+import { useDiscounts } from '@/hooks/useDiscounts';
+import { useVehicles } from '@/context/VehicleContext';
 import BestPriceCard from '@/components/price/BestPriceCard';
+import { PriceAdjustmentBanner } from '@/components/price/PriceAdjustmentBanner';
 import { EmptyState } from '@/components/common/EmptyState';
 import { ErrorDisplay } from '@/components/common/ErrorDisplay';
 import { LoadingIndicator } from '@/components/common/LoadingIndicator';
+import { OfflineBanner } from '@/components/common/OfflineBanner';
 import { FUEL_TYPES } from '@/utils/constants';
+import { getFullTankCost } from '@/utils/vehicles';
+import {
+  DEFAULT_FILL_UP_LITERS,
+  DEFAULT_FUEL_ECONOMY,
+  PriceRankingMode,
+} from '@/utils/netSavings';
 
 // Make sure the import path is correct
 import { mainScreenStyle as styles } from '@/styles';
 
+// Planned fill-ups offered when ranking by net savings
+const FILL_UP_OPTIONS = [10, 20, 30];
+
 export default function BestPricesScreen() {
-  const { bestPrices, loading, error, locationName, refreshPrices } =
-    useBestPrices();
-  const [selectedFuelType, setSelectedFuelType] = useState<string>(
-    FUEL_TYPES[0]
-  );
+  const { activeVehicle, defaultFuelType } = useVehicles();
+  const [rankingMode, setRankingMode] = useState<PriceRankingMode>('price');
+  const [fillUpLiters, setFillUpLiters] = useState(DEFAULT_FILL_UP_LITERS);
+  const fuelEconomy = activeVehicle?.fuel_economy ?? DEFAULT_FUEL_ECONOMY;
+  const { heldPrograms } = useDiscounts();
+  const [useEffectivePrice, setUseEffectivePrice] = useState(false);
+
+  const {
+    bestPrices,
+    loading,
+    error,
+    locationName,
+    cachedAt,
+    offline,
+    refreshPrices,
+  } = useBestPrices({
+    mode: rankingMode,
+    fillUpLiters,
+    fuelEconomy,
+    discountPrograms: heldPrograms,
+    useEffectivePrice,
+  });
+  const { getAnnouncement, getProjectedPrice } = usePriceAdjustments();
+  const [selectedFuelType, setSelectedFuelType] =
+    useState<string>(defaultFuelType);
   const [refreshing, setRefreshing] = useState(false);
 
+  // Switch to the active vehicle's fuel when it changes
+  useEffect(() => {
+    setSelectedFuelType(defaultFuelType);
+  }, [defaultFuelType]);
+
   // Handle pull-to-refresh
   const onRefresh = async () => {
     setRefreshing(true);
@@ -93,6 +132,90 @@ export default function BestPricesScreen() {
     );
   };
 
+  // Render the ranking mode switch, the fill-up size for net savings and
+  // the discount card toggle
+  const renderRankingControls = () => {
+    const fillUpOptions = activeVehicle
+      ? Array.from(new Set([...FILL_UP_OPTIONS, activeVehicle.tank_capacity]))
+      : FILL_UP_OPTIONS;
+
+    return (
+      <View style={styles.rankingContainer}>
+        <View style={styles.rankingSwitch}>
+          {(['price', 'net_savings'] as PriceRankingMode[]).map((mode) => (
+            <TouchableOpacity
+              key={mode}
+              style={[
+                styles.rankingOption,
+                rankingMode === mode && styles.rankingOptionSelected,
+              ]}
+              onPress={() => setRankingMode(mode)}
+            >
+              <Text
+                style={[
+                  styles.rankingOptionText,
+                  rankingMode === mode && styles.rankingOptionTextSelected,
+                ]}
+              >
+                {mode === 'price' ? 'Lowest Price' : 'Net Savings'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {rankingMode === 'net_savings' && (
+          <>
+            <View style={styles.fillUpRow}>
+              <Text style={styles.fillUpLabel}>Filling up</Text>
+              {fillUpOptions.map((liters) => (
+                <TouchableOpacity
+                  key={liters}
+                  style={[
+                    styles.fillUpOption,
+                    fillUpLiters === liters && styles.filterItemSelected,
+                  ]}
+                  onPress={() => setFillUpLiters(liters)}
+                >
+                  <Text
+                    style={[
+                      styles.filterItemText,
+                      fillUpLiters === liters && styles.filterItemTextSelected,
+                    ]}
+                  >
+                    {liters === activeVehicle?.tank_capacity
+                      ? 'Full tank'
+                      : `${liters} L`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.rankingNote}>
+              Counts the round trip at {fuelEconomy} km/L
+              {activeVehicle ? ` (${activeVehicle.name})` : ''}
+            </Text>
+          </>
+        )}
+
+        {/* Only offered once the user holds a running discount program */}
+        {heldPrograms.length > 0 && (
+          <TouchableOpacity
+            style={styles.discountToggle}
+            onPress={() => setUseEffectivePrice(!useEffectivePrice)}
+          >
+            <MaterialIcons
+              name={useEffectivePrice ? 'check-box' : 'check-box-outline-blank'}
+              size={20}
+              color='#2a9d8f'
+            />
+            <Text style={styles.discountToggleText}>
+              Rank with my discount cards
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
   // Main content renderer
   const renderContent = () => {
     if (loading && !refreshing) {
@@ -126,6 +249,16 @@ export default function BestPricesScreen() {
             price={item}
             rank={index + 1}
             onPress={() => handlePricePress(item.stationId)}
+            projectedPrice={getProjectedPrice(
+              item.brand,
+              item.fuelType,
+              item.price
+            )}
+            fullTankCost={getFullTankCost(
+              activeVehicle,
+              item.fuelType,
+              item.price
+            )}
           />
         )}
         contentContainerStyle={styles.listContainer}
@@ -146,7 +279,10 @@ export default function BestPricesScreen() {
         </View>
       </View>
 
+      <OfflineBanner offline={offline} cachedAt={cachedAt} />
+      <PriceAdjustmentBanner announcement={getAnnouncement(selectedFuelType)} />
       {renderFuelTypeFilter()}
+      {renderRankingControls()}
       {renderContent()}
     </View>
   );
@@ -1,15 +1,247 @@
-// app/(tabs)/map.tsx - Map Tab (Placeholder)
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+// app/(tabs)/map.tsx - Map Tab
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import MapView, { Marker, Region } from 'react-native-maps';
+import { router } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useBestPrices } from '@/hooks/useBestPrices';
+import { useServiceContext } from '@/context/ServiceContext';
+import { useVehicles } from '@/context/VehicleContext';
+import { GasStation } from '@/core/models/GasStation';
+import { StationCard } from '@/components/station/StationCard';
+import { FUEL_TYPES } from '@/utils/constants';
+import { formatCurrency, getShortFuelTypeName } from '@/utils/formatters';
+import {
+  PRICE_TIER_COLORS,
+  StationCluster,
+  clusterStations,
+  getClusterRegion,
+  getPriceTier,
+  regionToBoundingBox,
+} from '@/utils/mapClustering';
+
+// Initial span of roughly 10km around the user
+const INITIAL_DELTA = 0.1;
 
 export default function MapScreen() {
+  const insets = useSafeAreaInsets();
+  const mapRef = useRef<MapView>(null);
+  const { stationService } = useServiceContext();
+  const { userLocation, nearbyStations, stationPrices, loading } =
+    useBestPrices();
+
+  const { defaultFuelType } = useVehicles();
+
+  const [selectedFuelType, setSelectedFuelType] = useState(defaultFuelType);
+  const [stations, setStations] = useState<GasStation[]>([]);
+  const [region, setRegion] = useState<Region>({
+    ...userLocation,
+    latitudeDelta: INITIAL_DELTA,
+    longitudeDelta: INITIAL_DELTA,
+  });
+  const [selectedStation, setSelectedStation] = useState<GasStation | null>(
+    null
+  );
+  const [regionChanged, setRegionChanged] = useState(false);
+  const [searchingArea, setSearchingArea] = useState(false);
+
+  // Switch to the active vehicle's fuel when it changes
+  useEffect(() => {
+    setSelectedFuelType(defaultFuelType);
+  }, [defaultFuelType]);
+
+  // Center on the user once their location is known
+  useEffect(() => {
+    const userRegion = {
+      ...userLocation,
+      latitudeDelta: INITIAL_DELTA,
+      longitudeDelta: INITIAL_DELTA,
+    };
+    setRegion(userRegion);
+    mapRef.current?.animateToRegion(userRegion, 500);
+  }, [userLocation]);
+
+  // Show nearby stations until the user searches another area
+  useEffect(() => {
+    setStations(nearbyStations);
+  }, [nearbyStations]);
+
+  const clusters = useMemo(
+    () => clusterStations(stations, region),
+    [stations, region]
+  );
+
+  // Price range across plotted stations for the selected fuel type
+  const fuelPrices = stationPrices[selectedFuelType] || {};
+  const visiblePrices = stations
+    .map((station) => fuelPrices[station.id])
+    .filter((price): price is number => price !== undefined);
+  const minPrice = visiblePrices.length ? Math.min(...visiblePrices) : 0;
+  const maxPrice = visiblePrices.length ? Math.max(...visiblePrices) : 0;
+
+  const handleRegionChangeComplete = (nextRegion: Region) => {
+    setRegion(nextRegion);
+    setRegionChanged(true);
+  };
+
+  const handleSearchArea = async () => {
+    setSearchingArea(true);
+    try {
+      const results = await stationService.getStationsInBounds(
+        regionToBoundingBox(region)
+      );
+      setStations(results);
+      setSelectedStation(null);
+      setRegionChanged(false);
+    } catch (err) {
+      console.error('Error searching map area:', err);
+    } finally {
+      setSearchingArea(false);
+    }
+  };
+
+  const handleClusterPress = (cluster: StationCluster) => {
+    if (cluster.stations.length === 1) {
+      setSelectedStation(cluster.stations[0]);
+      return;
+    }
+
+    mapRef.current?.animateToRegion(getClusterRegion(cluster), 400);
+  };
+
+  const renderMarker = (cluster: StationCluster) => {
+    if (cluster.stations.length > 1) {
+      return (
+        <Marker
+          key={cluster.id}
+          coordinate={cluster.coordinates}
+          onPress={() => handleClusterPress(cluster)}
+          tracksViewChanges={false}
+        >
+          <View style={styles.clusterMarker}>
+            <Text style={styles.clusterText}>{cluster.stations.length}</Text>
+          </View>
+        </Marker>
+      );
+    }
+
+    const station = cluster.stations[0];
+    const price = fuelPrices[station.id];
+    const tier = getPriceTier(price, minPrice, maxPrice);
+
+    return (
+      <Marker
+        key={cluster.id}
+        coordinate={cluster.coordinates}
+        onPress={() => handleClusterPress(cluster)}
+        tracksViewChanges={false}
+      >
+        <View
+          style={[
+            styles.priceMarker,
+            { backgroundColor: PRICE_TIER_COLORS[tier] },
+            selectedStation?.id === station.id && styles.selectedMarker,
+          ]}
+        >
+          <Text style={styles.priceMarkerText}>
+            {price !== undefined ? formatCurrency(price) : station.brand}
+          </Text>
+        </View>
+      </Marker>
+    );
+  };
+
   return (
     <View style={styles.container}>
-      <Text style={styles.title}>Map</Text>
-      <Text style={styles.comingSoon}>
-        The map feature is coming soon. You'll be able to see all gas stations
-        on a map and find the best prices near you.
-      </Text>
+      <MapView
+        ref={mapRef}
+        style={StyleSheet.absoluteFill}
+        initialRegion={region}
+        onRegionChangeComplete={handleRegionChangeComplete}
+        onPress={() => setSelectedStation(null)}
+        showsUserLocation
+        showsMyLocationButton
+      >
+        {clusters.map(renderMarker)}
+      </MapView>
+
+      {/* Fuel type selector */}
+      <View style={[styles.topBar, { top: insets.top + 8 }]}>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.fuelTypeList}
+        >
+          {FUEL_TYPES.map((fuelType) => (
+            <TouchableOpacity
+              key={fuelType}
+              style={[
+                styles.fuelTypeChip,
+                selectedFuelType === fuelType && styles.selectedChip,
+              ]}
+              onPress={() => setSelectedFuelType(fuelType)}
+            >
+              <Text
+                style={[
+                  styles.fuelTypeText,
+                  selectedFuelType === fuelType && styles.selectedChipText,
+                ]}
+              >
+                {getShortFuelTypeName(fuelType)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        {regionChanged && (
+          <TouchableOpacity
+            style={styles.searchAreaButton}
+            onPress={handleSearchArea}
+            disabled={searchingArea}
+          >
+            {searchingArea ? (
+              <ActivityIndicator size='small' color='#2a9d8f' />
+            ) : (
+              <>
+                <MaterialIcons name='search' size={18} color='#2a9d8f' />
+                <Text style={styles.searchAreaText}>Search this area</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {loading && (
+        <View style={styles.loadingBadge}>
+          <ActivityIndicator size='small' color='#2a9d8f' />
+        </View>
+      )}
+
+      {/* Bottom sheet with the selected station */}
+      {selectedStation && (
+        <View style={styles.bottomSheet}>
+          <View style={styles.sheetHandle} />
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={() => setSelectedStation(null)}
+          >
+            <MaterialIcons name='close' size={20} color='#666' />
+          </TouchableOpacity>
+          <StationCard
+            station={selectedStation}
+            distance={selectedStation.distance}
+            onPress={() => router.push(`/station/${selectedStation.id}`)}
+          />
+        </View>
+      )}
     </View>
   );
 }
@@ -18,18 +250,128 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: '#f5f5f5',
+  },
+  topBar: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+  },
+  fuelTypeList: {
+    paddingHorizontal: 12,
+  },
+  fuelTypeChip: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginRight: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.15,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  selectedChip: {
+    backgroundColor: '#2a9d8f',
+  },
+  fuelTypeText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  selectedChipText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  searchAreaButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginTop: 12,
+    minWidth: 150,
+    justifyContent: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 3,
+    elevation: 3,
+  },
+  searchAreaText: {
+    marginLeft: 6,
+    color: '#2a9d8f',
+    fontWeight: 'bold',
+  },
+  loadingBadge: {
+    position: 'absolute',
+    bottom: 24,
+    right: 16,
+    backgroundColor: '#fff',
+    borderRadius: 20,
+    padding: 8,
+    elevation: 3,
+  },
+  clusterMarker: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(42, 157, 143, 0.85)',
+    borderWidth: 2,
+    borderColor: '#fff',
     alignItems: 'center',
     justifyContent: 'center',
-    padding: 20,
   },
-  title: {
-    fontSize: 24,
+  clusterText: {
+    color: '#fff',
     fontWeight: 'bold',
-    marginBottom: 16,
   },
-  comingSoon: {
-    fontSize: 16,
-    textAlign: 'center',
-    color: '#666',
+  priceMarker: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
+  selectedMarker: {
+    borderColor: '#333',
+  },
+  priceMarkerText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  bottomSheet: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: '#f5f5f5',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingTop: 8,
+    paddingHorizontal: 8,
+    paddingBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+    elevation: 8,
+  },
+  sheetHandle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#ccc',
+    marginBottom: 8,
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 8,
+    right: 12,
+    zIndex: 1,
+    padding: 4,
   },
 });
@@ -1,27 +1,143 @@
 // app/(tabs)/profile.tsx
-import React from 'react';
-import { View, Text, StyleSheet, Button, TouchableOpacity } from 'react-native';
-import { router, Link } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
+import { useAuth } from '@/context/AuthContext';
+import { useVehicles } from '@/context/VehicleContext';
+import AuthForm from '@/components/profile/AuthForm';
+import FavoritesSection from '@/components/profile/FavoritesSection';
+import ReputationCard from '@/components/profile/ReputationCard';
 
 export default function ProfileScreen() {
-  return (
-    <View style={styles.container}>
-      <Text style={styles.title}>Profile</Text>
-      <Text style={styles.comingSoon}>
-        The profile feature is coming soon. You'll be able to save your favorite
-        stations and set price alerts.
-      </Text>
-
-      <View style={styles.buttonContainer}>
-        <Button
-          title='Login'
-          onPress={() => {
-            // This would navigate to a login screen in a real app
-            alert('Login functionality coming soon.');
-          }}
+  const { user, loading, signOut } = useAuth();
+  const { activeVehicle, defaultFuelType } = useVehicles();
+  const [signingOut, setSigningOut] = useState(false);
+
+  const handleSignOut = async () => {
+    setSigningOut(true);
+    try {
+      await signOut();
+    } catch (err) {
+      Alert.alert(
+        'Error',
+        err instanceof Error ? err.message : 'Failed to sign out'
+      );
+    } finally {
+      setSigningOut(false);
+    }
+  };
+
+  const renderAccount = () => {
+    if (loading) {
+      return (
+        <ActivityIndicator
+          size='large'
+          color='#2a9d8f'
+          style={styles.loading}
         />
+      );
+    }
+
+    if (!user) {
+      return (
+        <>
+          <Text style={styles.comingSoon}>
+            Sign in to report prices, vote on community reports and sync your
+            favorite stations across devices.
+          </Text>
+          <AuthForm />
+        </>
+      );
+    }
+
+    return (
+      <View style={styles.accountCard}>
+        <MaterialIcons name='account-circle' size={56} color='#2a9d8f' />
+        <Text style={styles.displayName}>{user.display_name}</Text>
+        <Text style={styles.email}>{user.email}</Text>
+
+        <View style={styles.preferenceRow}>
+          <Text style={styles.preferenceLabel}>Default fuel</Text>
+          <Text style={styles.preferenceValue}>
+            {user.preferences.default_fuel_type}
+          </Text>
+        </View>
+        <View style={styles.preferenceRow}>
+          <Text style={styles.preferenceLabel}>Search radius</Text>
+          <Text style={styles.preferenceValue}>
+            {user.preferences.radius_preference} km
+          </Text>
+        </View>
+
+        <ReputationCard />
+
+        <TouchableOpacity
+          style={styles.alertsButton}
+          onPress={() => router.push('/alerts')}
+        >
+          <MaterialIcons name='notifications' size={18} color='#2a9d8f' />
+          <Text style={styles.alertsButtonText}>Price Alerts</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.alertsButton}
+          onPress={() => router.push('/discounts')}
+        >
+          <MaterialIcons name='loyalty' size={18} color='#2a9d8f' />
+          <Text style={styles.alertsButtonText}>Discount Cards</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.signOutButton, signingOut && styles.disabledButton]}
+          onPress={handleSignOut}
+          disabled={signingOut}
+        >
+          {signingOut ? (
+            <ActivityIndicator size='small' color='#fff' />
+          ) : (
+            <Text style={styles.signOutButtonText}>Sign Out</Text>
+          )}
+        </TouchableOpacity>
       </View>
+    );
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Text style={styles.title}>Profile</Text>
+
+      {renderAccount()}
+
+      {!loading && (
+        <TouchableOpacity
+          style={styles.vehicleButton}
+          onPress={() => router.push('/vehicles')}
+        >
+          <MaterialIcons name='directions-car' size={24} color='#2a9d8f' />
+          <View style={styles.vehicleTextContainer}>
+            <Text style={styles.vehicleTitle}>
+              {activeVehicle ? activeVehicle.name : 'My Vehicles'}
+            </Text>
+            <Text style={styles.vehicleDescription}>
+              {activeVehicle
+                ? `${activeVehicle.fuel_type} · ${activeVehicle.tank_capacity} L tank`
+                : 'Add your vehicle to see what a full tank costs'}
+            </Text>
+          </View>
+          <MaterialIcons name='chevron-right' size={24} color='#999' />
+        </TouchableOpacity>
+      )}
+
+      {!loading && <FavoritesSection fuelType={defaultFuelType} />}
 
       {/* Admin Dashboard Access */}
       <View style={styles.adminSection}>
@@ -57,13 +173,13 @@ export default function ProfileScreen() {
         </TouchableOpacity>
         <Text style={styles.adminNote}>*For testing and debugging</Text>
       </View>
-    </View>
+    </ScrollView>
   );
 }
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
+    flexGrow: 1,
     backgroundColor: '#f5f5f5',
     alignItems: 'center',
     justifyContent: 'center',
@@ -80,11 +196,107 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 24,
   },
-  buttonContainer: {
-    width: '100%',
-    maxWidth: 200,
+  loading: {
     marginBottom: 40,
   },
+  accountCard: {
+    width: '100%',
+    maxWidth: 300,
+    padding: 16,
+    marginBottom: 32,
+    borderRadius: 8,
+    backgroundColor: '#fff',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  displayName: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginTop: 8,
+    color: '#333',
+  },
+  email: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  preferenceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    width: '100%',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  preferenceLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  preferenceValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  alertsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#2a9d8f',
+    borderRadius: 6,
+    paddingVertical: 10,
+    width: '100%',
+    marginTop: 16,
+  },
+  alertsButtonText: {
+    color: '#2a9d8f',
+    fontWeight: 'bold',
+    fontSize: 14,
+    marginLeft: 6,
+  },
+  vehicleButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '100%',
+    maxWidth: 300,
+    padding: 16,
+    marginBottom: 24,
+    borderRadius: 8,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  vehicleTextContainer: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  vehicleTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  vehicleDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  signOutButton: {
+    backgroundColor: '#e74c3c',
+    borderRadius: 6,
+    paddingVertical: 12,
+    width: '100%',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#aaa',
+  },
+  signOutButtonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
   adminSection: {
     width: '100%',
     maxWidth: 300,
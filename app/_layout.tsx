@@ -13,6 +13,11 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { ServiceProvider } from '@/context/ServiceContext';
+import { AuthProvider } from '@/context/AuthContext';
+import { FavoritesProvider } from '@/context/FavoritesContext';
+import { VehicleProvider } from '@/context/VehicleContext';
+import { PriceAlertWatcher } from '@/components/alerts/PriceAlertWatcher';
+import { OutboxWatcher } from '@/components/outbox/OutboxWatcher';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -35,17 +40,28 @@ export default function RootLayout() {
 
   return (
     <ServiceProvider>
-      <SafeAreaProvider>
-        <ThemeProvider
-          value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}
-        >
-          <Stack>
-            <Stack.Screen name='(tabs)' options={{ headerShown: false }} />
-            <Stack.Screen name='+not-found' />
-          </Stack>
-          <StatusBar style='auto' />
-        </ThemeProvider>
-      </SafeAreaProvider>
+      <AuthProvider>
+        <FavoritesProvider>
+          <VehicleProvider>
+            <PriceAlertWatcher />
+            <OutboxWatcher />
+            <SafeAreaProvider>
+              <ThemeProvider
+                value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}
+              >
+                <Stack>
+                  <Stack.Screen
+                    name='(tabs)'
+                    options={{ headerShown: false }}
+                  />
+                  <Stack.Screen name='+not-found' />
+                </Stack>
+                <StatusBar style='auto' />
+              </ThemeProvider>
+            </SafeAreaProvider>
+          </VehicleProvider>
+        </FavoritesProvider>
+      </AuthProvider>
     </ServiceProvider>
   );
 }
@@ -0,0 +1,480 @@
+// app/admin/discount-programs.tsx
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  SafeAreaView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { discountProgramService } from '@/core/services/DiscountProgramService';
+import { DiscountProgram, DiscountType } from '@/core/models/DiscountProgram';
+import {
+  describeDiscount,
+  DiscountProgramInput,
+  isProgramActive,
+  validateDiscountProgram,
+} from '@/utils/discounts';
+import { formatDate } from '@/utils/formatters';
+import { normalizeBrandName } from '@/utils/brandNormalization';
+import { FUEL_TYPES } from '@/utils/constants';
+
+export default function DiscountProgramsScreen() {
+  const [programs, setPrograms] = useState<DiscountProgram[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [brand, setBrand] = useState('');
+  // null means every fuel type
+  const [fuelType, setFuelType] = useState<string | null>(null);
+  const [discountType, setDiscountType] = useState<DiscountType>('per_liter');
+  const [amount, setAmount] = useState('');
+  const [validFrom, setValidFrom] = useState('');
+  const [validUntil, setValidUntil] = useState('');
+
+  const fetchPrograms = async () => {
+    try {
+      setLoading(true);
+      setPrograms(await discountProgramService.getPrograms());
+    } catch (error) {
+      console.error('Error fetching discount programs:', error);
+      Alert.alert('Error', 'Failed to load discount programs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPrograms();
+  }, []);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setBrand('');
+    setFuelType(null);
+    setDiscountType('per_liter');
+    setAmount('');
+    setValidFrom('');
+    setValidUntil('');
+  };
+
+  const handleEdit = (program: DiscountProgram) => {
+    setEditingId(program.id);
+    setName(program.name);
+    setBrand(program.brand);
+    setFuelType(program.fuel_type);
+    setDiscountType(program.discount_type);
+    setAmount(String(program.amount));
+    setValidFrom(program.valid_from || '');
+    setValidUntil(program.valid_until || '');
+  };
+
+  const handleSave = async () => {
+    const input: DiscountProgramInput = {
+      name: name.trim(),
+      brand: brand.trim() ? normalizeBrandName(brand.trim()) : '',
+      fuel_type: fuelType,
+      discount_type: discountType,
+      amount: parseFloat(amount),
+      valid_from: validFrom.trim() || null,
+      valid_until: validUntil.trim() || null,
+    };
+
+    const validationError = validateDiscountProgram(input);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await discountProgramService.saveProgram(input, editingId || undefined);
+      resetForm();
+      fetchPrograms();
+    } catch (error) {
+      console.error('Error saving discount program:', error);
+      Alert.alert('Error', 'Failed to save discount program');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = (program: DiscountProgram) => {
+    Alert.alert(
+      'Delete Program',
+      `Delete ${program.name}? Users holding it will stop seeing its discount.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setDeletingId(program.id);
+              await discountProgramService.deleteProgram(program.id);
+              if (editingId === program.id) resetForm();
+              fetchPrograms();
+            } catch (error) {
+              console.error('Error deleting discount program:', error);
+              Alert.alert('Error', 'Failed to delete discount program');
+            } finally {
+              setDeletingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const describeValidity = (program: DiscountProgram) => {
+    if (!program.valid_from && !program.valid_until) return 'No end date';
+    if (!program.valid_until) return `From ${formatDate(program.valid_from)}`;
+    if (!program.valid_from) return `Until ${formatDate(program.valid_until)}`;
+    return `${formatDate(program.valid_from)} to ${formatDate(
+      program.valid_until
+    )}`;
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView style={styles.container}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <MaterialIcons name='arrow-back' size={24} color='#333' />
+          <Text style={styles.backButtonText}>Back to Admin</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.title}>Discount Programs</Text>
+        <Text style={styles.subtitle}>
+          Loyalty cards and fleet discounts users can pick in their profile.
+          Leave the dates blank for a program with no start or end.
+        </Text>
+
+        <View style={styles.card}>
+          <Text style={styles.label}>Program Name:</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder='e.g. Petron Value Card'
+            editable={!saving}
+          />
+
+          <Text style={styles.label}>Brand:</Text>
+          <TextInput
+            style={styles.input}
+            value={brand}
+            onChangeText={setBrand}
+            placeholder='e.g. Petron'
+            editable={!saving}
+          />
+
+          <Text style={styles.label}>Fuel Type:</Text>
+          <View style={styles.chipRow}>
+            {[null, ...FUEL_TYPES].map((type) => (
+              <TouchableOpacity
+                key={type ?? 'all'}
+                style={[styles.chip, fuelType === type && styles.chipSelected]}
+                onPress={() => setFuelType(type)}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    fuelType === type && styles.chipTextSelected,
+                  ]}
+                >
+                  {type ?? 'All fuels'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Discount:</Text>
+          <View style={styles.amountRow}>
+            {(['per_liter', 'percent'] as DiscountType[]).map((type) => (
+              <TouchableOpacity
+                key={type}
+                style={[
+                  styles.toggle,
+                  discountType === type && styles.toggleSelected,
+                ]}
+                onPress={() => setDiscountType(type)}
+              >
+                <Text
+                  style={[
+                    styles.toggleText,
+                    discountType === type && styles.toggleTextSelected,
+                  ]}
+                >
+                  {type === 'per_liter' ? '₱/L' : '%'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            <TextInput
+              style={[styles.input, styles.amountInput]}
+              value={amount}
+              onChangeText={setAmount}
+              placeholder={discountType === 'per_liter' ? '0.00' : '0'}
+              keyboardType='decimal-pad'
+              editable={!saving}
+            />
+          </View>
+
+          <Text style={styles.label}>Valid (YYYY-MM-DD):</Text>
+          <View style={styles.amountRow}>
+            <TextInput
+              style={[styles.input, styles.dateInput]}
+              value={validFrom}
+              onChangeText={setValidFrom}
+              placeholder='From'
+              editable={!saving}
+            />
+            <TextInput
+              style={[styles.input, styles.dateInput]}
+              value={validUntil}
+              onChangeText={setValidUntil}
+              placeholder='Until'
+              editable={!saving}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.button, saving && styles.buttonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color='#fff' size='small' />
+            ) : (
+              <Text style={styles.buttonText}>
+                {editingId ? 'Save Changes' : 'Add Program'}
+              </Text>
+            )}
+          </TouchableOpacity>
+
+          {editingId && (
+            <TouchableOpacity style={styles.cancelButton} onPress={resetForm}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>Programs</Text>
+        {loading ? (
+          <ActivityIndicator size='large' color='#2a9d8f' />
+        ) : programs.length === 0 ? (
+          <Text style={styles.emptyText}>No programs added yet.</Text>
+        ) : (
+          programs.map((program) => (
+            <TouchableOpacity
+              key={program.id}
+              style={styles.row}
+              onPress={() => handleEdit(program)}
+            >
+              <View style={styles.rowContent}>
+                <Text style={styles.rowTitle}>
+                  {program.name} · {program.brand}
+                </Text>
+                <Text style={styles.rowDetail}>
+                  {describeDiscount(program)} · {describeValidity(program)}
+                  {!isProgramActive(program, new Date()) && ' (not running)'}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.deleteButton}
+                onPress={() => confirmDelete(program)}
+                disabled={deletingId === program.id}
+              >
+                {deletingId === program.id ? (
+                  <ActivityIndicator size='small' color='#c62828' />
+                ) : (
+                  <MaterialIcons name='delete' size={20} color='#c62828' />
+                )}
+              </TouchableOpacity>
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 24,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#2a9d8f',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  toggle: {
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  toggleSelected: {
+    backgroundColor: '#2a9d8f',
+  },
+  toggleText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  toggleTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  amountInput: {
+    flex: 1,
+  },
+  dateInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  button: {
+    backgroundColor: '#2a9d8f',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    padding: 8,
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 14,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+    marginBottom: 24,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  rowDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  deleteButton: {
+    marginLeft: 12,
+    padding: 4,
+  },
+});
@@ -0,0 +1,354 @@
+// app/admin/duplicate-stations.tsx
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  SafeAreaView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { stationMergeService } from '@/core/services';
+import { GasStation } from '@/core/models/GasStation';
+import { DuplicateCandidate, getPairKey } from '@/utils/stationDuplicates';
+
+type Candidate = DuplicateCandidate<GasStation>;
+
+export default function DuplicateStationsScreen() {
+  const [city, setCity] = useState('Quezon City');
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searchedCity, setSearchedCity] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const keyOf = (candidate: Candidate) =>
+    getPairKey(candidate.first.id, candidate.second.id);
+
+  const removeCandidate = (candidate: Candidate) => {
+    const key = keyOf(candidate);
+    setCandidates((current) => current.filter((item) => keyOf(item) !== key));
+  };
+
+  const findDuplicates = async () => {
+    if (!city.trim()) {
+      Alert.alert('Error', 'Please enter a city name');
+      return;
+    }
+
+    try {
+      setSearching(true);
+      setCandidates(await stationMergeService.findCandidates(city.trim()));
+      setSearchedCity(city.trim());
+    } catch (error) {
+      console.error('Error finding duplicate stations:', error);
+      Alert.alert('Error', 'Failed to find duplicate stations');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const mergeInto = async (candidate: Candidate, survivor: GasStation) => {
+    const duplicate =
+      survivor.id === candidate.first.id ? candidate.second : candidate.first;
+
+    try {
+      setBusyKey(keyOf(candidate));
+      await stationMergeService.mergeStations(survivor.id, duplicate.id);
+      // Other pairs with the deleted station no longer apply
+      setCandidates((current) =>
+        current.filter(
+          (item) =>
+            item.first.id !== duplicate.id && item.second.id !== duplicate.id
+        )
+      );
+    } catch (error) {
+      console.error('Error merging stations:', error);
+      Alert.alert('Error', 'Failed to merge stations');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const confirmMerge = (candidate: Candidate, survivor: GasStation) => {
+    const duplicate =
+      survivor.id === candidate.first.id ? candidate.second : candidate.first;
+
+    Alert.alert(
+      'Merge Stations',
+      `"${duplicate.name}" will be deleted. Its price reports, status reports and favorites will move to "${survivor.name}".`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          style: 'destructive',
+          onPress: () => mergeInto(candidate, survivor),
+        },
+      ]
+    );
+  };
+
+  const dismiss = async (candidate: Candidate) => {
+    try {
+      setBusyKey(keyOf(candidate));
+      await stationMergeService.dismissPair(
+        candidate.first.id,
+        candidate.second.id
+      );
+      removeCandidate(candidate);
+    } catch (error) {
+      console.error('Error dismissing duplicate pair:', error);
+      Alert.alert('Error', 'Failed to dismiss pair');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const renderStation = (candidate: Candidate, station: GasStation) => (
+    <View style={styles.stationColumn}>
+      <Text style={styles.stationName}>{station.name}</Text>
+      <Text style={styles.stationDetail}>{station.brand}</Text>
+      <Text style={styles.stationDetail}>{station.address}</Text>
+      <TouchableOpacity
+        style={styles.keepButton}
+        onPress={() => confirmMerge(candidate, station)}
+      >
+        <MaterialIcons name='check' size={16} color='#fff' />
+        <Text style={styles.keepButtonText}>Keep This</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView style={styles.container}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <MaterialIcons name='arrow-back' size={24} color='#333' />
+          <Text style={styles.backButtonText}>Back to Admin</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.title}>Duplicate Stations</Text>
+        <Text style={styles.subtitle}>
+          Stations close together with the same brand and a similar name. Keep
+          one of each pair to merge the other into it.
+        </Text>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>City Name:</Text>
+          <TextInput
+            style={styles.input}
+            value={city}
+            onChangeText={setCity}
+            placeholder='Enter city name (e.g., Quezon City)'
+            editable={!searching}
+          />
+        </View>
+
+        <TouchableOpacity
+          style={[styles.searchButton, searching && styles.buttonDisabled]}
+          onPress={findDuplicates}
+          disabled={searching}
+        >
+          {searching ? (
+            <ActivityIndicator size='small' color='#fff' />
+          ) : (
+            <>
+              <MaterialIcons name='search' size={20} color='#fff' />
+              <Text style={styles.searchButtonText}>Find Duplicates</Text>
+            </>
+          )}
+        </TouchableOpacity>
+
+        {searchedCity && candidates.length === 0 && (
+          <Text style={styles.emptyText}>
+            No likely duplicates in {searchedCity}.
+          </Text>
+        )}
+
+        {candidates.map((candidate) => (
+          <View key={keyOf(candidate)} style={styles.pairCard}>
+            <View style={styles.pairHeader}>
+              <Text style={styles.pairScore}>
+                {Math.round(candidate.score * 100)}% match
+              </Text>
+              <Text style={styles.pairDistance}>
+                {Math.round(candidate.distanceKm * 1000)} m apart
+              </Text>
+            </View>
+
+            {busyKey === keyOf(candidate) ? (
+              <ActivityIndicator size='small' color='#2a9d8f' />
+            ) : (
+              <>
+                <View style={styles.stationRow}>
+                  {renderStation(candidate, candidate.first)}
+                  {renderStation(candidate, candidate.second)}
+                </View>
+
+                <TouchableOpacity
+                  style={styles.dismissButton}
+                  onPress={() => dismiss(candidate)}
+                >
+                  <MaterialIcons name='close' size={16} color='#666' />
+                  <Text style={styles.dismissText}>Not a Duplicate</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 24,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    fontSize: 16,
+  },
+  searchButton: {
+    backgroundColor: '#2a9d8f',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 14,
+    borderRadius: 8,
+    marginBottom: 24,
+  },
+  buttonDisabled: {
+    backgroundColor: '#999',
+  },
+  searchButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  pairCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  pairHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  pairScore: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2a9d8f',
+  },
+  pairDistance: {
+    fontSize: 14,
+    color: '#666',
+  },
+  stationRow: {
+    flexDirection: 'row',
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    paddingTop: 12,
+  },
+  stationColumn: {
+    flex: 1,
+    paddingRight: 8,
+  },
+  stationName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  stationDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 2,
+  },
+  keepButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    backgroundColor: '#2a9d8f',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    marginTop: 8,
+  },
+  keepButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '500',
+    marginLeft: 4,
+  },
+  dismissButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    marginTop: 12,
+  },
+  dismissText: {
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 4,
+  },
+});
@@ -0,0 +1,438 @@
+// app/admin/import-prices.tsx
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Alert,
+  SafeAreaView,
+} from 'react-native';
+import { router } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import {
+  doePriceImportService,
+  DoeImportPreview,
+} from '@/core/services/DoePriceImportService';
+import { priceCycleService } from '@/core/services/PriceCycleService';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+
+// Limit how many rows of each diff group are rendered
+const MAX_PREVIEW_ROWS = 50;
+
+export default function ImportPricesScreen() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [weekOf, setWeekOf] = useState('');
+  const [preview, setPreview] = useState<DoeImportPreview | null>(null);
+  const [parsing, setParsing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: 'application/pdf',
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets?.length) {
+        return;
+      }
+
+      const asset = result.assets[0];
+      setFileName(asset.name);
+      setPreview(null);
+      setError(null);
+      setParsing(true);
+
+      // Read the picked file from its local URI
+      const response = await fetch(asset.uri);
+      const data = new Uint8Array(await response.arrayBuffer());
+
+      const parseResult = await doePriceImportService.parsePdf(
+        data,
+        weekOf.trim() || null
+      );
+
+      if (parseResult.rows.length === 0) {
+        setError(
+          'No price rows were found in this file. Make sure it is a DOE Prevailing Retail Pump Prices report.'
+        );
+        return;
+      }
+
+      setWeekOf(parseResult.weekOf || '');
+      setPreview(await doePriceImportService.previewImport(parseResult));
+    } catch (err) {
+      console.error('Error reading DOE report:', err);
+      setError(
+        `Failed to read report: ${
+          err instanceof Error ? err.message : 'Unknown error'
+        }`
+      );
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    const targetWeek = weekOf.trim();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(targetWeek)) {
+      Alert.alert('Error', 'Please enter the report week as YYYY-MM-DD');
+      return;
+    }
+
+    setImporting(true);
+    setError(null);
+
+    try {
+      const count = await doePriceImportService.commitImport(
+        preview.parseResult.rows,
+        targetWeek
+      );
+
+      // A newer DOE week starts its price cycle straight away
+      let cycleMessage = '';
+      try {
+        const plan = await priceCycleService.runScheduler(targetWeek);
+        if (plan.action === 'open') {
+          cycleMessage = ' A new price cycle has been started.';
+        }
+      } catch (cycleError) {
+        console.error('Error updating price cycle after import:', cycleError);
+        cycleMessage = ' The price cycle could not be updated.';
+      }
+
+      Alert.alert(
+        'Success',
+        `Imported ${count} prices for the week of ${formatDate(
+          targetWeek
+        )}.${cycleMessage}`
+      );
+      setPreview(null);
+      setFileName(null);
+    } catch (err) {
+      console.error('Import error:', err);
+      setError(
+        `Failed to import prices: ${
+          err instanceof Error ? err.message : 'Unknown error'
+        }`
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const renderDelta = (delta: number) => {
+    const color = delta > 0 ? '#c62828' : '#2e7d32';
+    const sign = delta > 0 ? '+' : '';
+    return (
+      <Text style={[styles.delta, { color }]}>
+        {sign}
+        {delta.toFixed(2)}
+      </Text>
+    );
+  };
+
+  const renderPreview = () => {
+    if (!preview) return null;
+
+    const { diff, comparison, parseResult } = preview;
+
+    return (
+      <View style={styles.previewContainer}>
+        <Text style={styles.previewTitle}>Preview</Text>
+        <Text style={styles.previewDetail}>
+          {parseResult.rows.length} rows parsed
+          {parseResult.skippedLines.length > 0 &&
+            `, ${parseResult.skippedLines.length} lines skipped`}
+        </Text>
+        <Text style={styles.previewDetail}>
+          {comparison.weekOf
+            ? `Compared with ${
+                comparison.isSameWeek ? 'existing data for' : 'the week of'
+              } ${formatDate(comparison.weekOf)}`
+            : 'No existing prices to compare with'}
+        </Text>
+
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryItem}>+{diff.added.length} new</Text>
+          <Text style={styles.summaryItem}>~{diff.changed.length} changed</Text>
+          <Text style={styles.summaryItem}>={diff.unchanged.length} same</Text>
+          <Text style={styles.summaryItem}>-{diff.removed.length} missing</Text>
+        </View>
+
+        {diff.changed.length > 0 && (
+          <>
+            <Text style={styles.groupTitle}>Changed</Text>
+            {diff.changed.slice(0, MAX_PREVIEW_ROWS).map((change) => (
+              <View
+                key={`${change.next.area}-${change.next.brand}-${change.next.fuel_type}`}
+                style={styles.diffRow}
+              >
+                <Text style={styles.diffLabel}>
+                  {change.next.area} · {change.next.brand} ·{' '}
+                  {change.next.fuel_type}
+                </Text>
+                <Text style={styles.diffValue}>
+                  {formatCurrency(change.previous.common_price)} →{' '}
+                  {formatCurrency(change.next.common_price)}
+                </Text>
+                {renderDelta(change.commonDelta)}
+              </View>
+            ))}
+          </>
+        )}
+
+        {diff.added.length > 0 && (
+          <>
+            <Text style={styles.groupTitle}>New</Text>
+            {diff.added.slice(0, MAX_PREVIEW_ROWS).map((row) => (
+              <View
+                key={`${row.area}-${row.brand}-${row.fuel_type}`}
+                style={styles.diffRow}
+              >
+                <Text style={styles.diffLabel}>
+                  {row.area} · {row.brand} · {row.fuel_type}
+                </Text>
+                <Text style={styles.diffValue}>
+                  {formatCurrency(row.min_price)} -{' '}
+                  {formatCurrency(row.max_price)} (
+                  {formatCurrency(row.common_price)})
+                </Text>
+              </View>
+            ))}
+          </>
+        )}
+
+        {diff.removed.length > 0 && (
+          <>
+            <Text style={styles.groupTitle}>Not in this report</Text>
+            {diff.removed.slice(0, MAX_PREVIEW_ROWS).map((price) => (
+              <View key={price.id} style={styles.diffRow}>
+                <Text style={[styles.diffLabel, styles.removedText]}>
+                  {price.area} · {price.brand} · {price.fuel_type}
+                </Text>
+              </View>
+            ))}
+          </>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView style={styles.container}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <MaterialIcons name='arrow-back' size={24} color='#333' />
+          <Text style={styles.backButtonText}>Back to Admin</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.title}>Import DOE Prices</Text>
+        <Text style={styles.subtitle}>
+          Import a DOE Prevailing Retail Pump Prices report (PDF). Review the
+          changes before they are saved.
+        </Text>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Week Of (YYYY-MM-DD):</Text>
+          <TextInput
+            style={styles.input}
+            value={weekOf}
+            onChangeText={setWeekOf}
+            placeholder='Detected from the report'
+            editable={!parsing && !importing}
+          />
+        </View>
+
+        <TouchableOpacity
+          style={[styles.button, parsing && styles.buttonDisabled]}
+          onPress={handlePickFile}
+          disabled={parsing || importing}
+        >
+          {parsing ? (
+            <ActivityIndicator color='#fff' size='small' />
+          ) : (
+            <Text style={styles.buttonText}>
+              {fileName ? 'Choose Another PDF' : 'Choose PDF'}
+            </Text>
+          )}
+        </TouchableOpacity>
+
+        {fileName && <Text style={styles.fileName}>{fileName}</Text>}
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        {renderPreview()}
+
+        {preview && (
+          <TouchableOpacity
+            style={[styles.button, importing && styles.buttonDisabled]}
+            onPress={handleImport}
+            disabled={importing}
+          >
+            {importing ? (
+              <ActivityIndicator color='#fff' size='small' />
+            ) : (
+              <Text style={styles.buttonText}>
+                Import {preview.parseResult.rows.length} Prices
+              </Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 24,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    fontSize: 16,
+  },
+  button: {
+    backgroundColor: '#2a9d8f',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  buttonDisabled: {
+    backgroundColor: '#aaa',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  fileName: {
+    textAlign: 'center',
+    color: '#666',
+    marginBottom: 16,
+    fontStyle: 'italic',
+  },
+  errorContainer: {
+    backgroundColor: '#ffebee',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: '#ffcdd2',
+  },
+  errorText: {
+    color: '#c62828',
+  },
+  previewContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  previewTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  previewDetail: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginVertical: 12,
+  },
+  summaryItem: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  groupTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  diffRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  diffLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  diffValue: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  delta: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  removedText: {
+    color: '#999',
+  },
+});
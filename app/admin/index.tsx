@@ -44,6 +44,20 @@ export default function AdminDashboardScreen() {
             <MaterialIcons name='chevron-right' size={24} color='#999' />
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => router.push('/admin/duplicate-stations')}
+          >
+            <MaterialIcons name='merge-type' size={24} color='#2a9d8f' />
+            <View style={styles.menuItemTextContainer}>
+              <Text style={styles.menuItemTitle}>Duplicate Stations</Text>
+              <Text style={styles.menuItemDescription}>
+                Review stations imported twice and merge them
+              </Text>
+            </View>
+            <MaterialIcons name='chevron-right' size={24} color='#999' />
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={styles.menuItem}
             onPress={() => router.push('/admin/test-api')}
@@ -65,10 +79,7 @@ export default function AdminDashboardScreen() {
 
           <TouchableOpacity
             style={styles.menuItem}
-            onPress={() => {
-              // This would navigate to a price import screen in a real app
-              alert('Price import functionality coming soon.');
-            }}
+            onPress={() => router.push('/admin/import-prices')}
           >
             <MaterialIcons name='attach-money' size={24} color='#2a9d8f' />
             <View style={styles.menuItemTextContainer}>
@@ -80,6 +91,34 @@ export default function AdminDashboardScreen() {
             <MaterialIcons name='chevron-right' size={24} color='#999' />
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => router.push('/admin/price-adjustments')}
+          >
+            <MaterialIcons name='trending-up' size={24} color='#2a9d8f' />
+            <View style={styles.menuItemTextContainer}>
+              <Text style={styles.menuItemTitle}>Price Adjustments</Text>
+              <Text style={styles.menuItemDescription}>
+                Enter announced increases and rollbacks for next week
+              </Text>
+            </View>
+            <MaterialIcons name='chevron-right' size={24} color='#999' />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => router.push('/admin/discount-programs')}
+          >
+            <MaterialIcons name='loyalty' size={24} color='#2a9d8f' />
+            <View style={styles.menuItemTextContainer}>
+              <Text style={styles.menuItemTitle}>Discount Programs</Text>
+              <Text style={styles.menuItemDescription}>
+                Manage loyalty cards and fleet discounts
+              </Text>
+            </View>
+            <MaterialIcons name='chevron-right' size={24} color='#999' />
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={styles.menuItem}
             onPress={() => {
@@ -96,6 +135,20 @@ export default function AdminDashboardScreen() {
             </View>
             <MaterialIcons name='chevron-right' size={24} color='#999' />
           </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => router.push('/admin/review-accounts')}
+          >
+            <MaterialIcons name='flag' size={24} color='#2a9d8f' />
+            <View style={styles.menuItemTextContainer}>
+              <Text style={styles.menuItemTitle}>Review Flagged Accounts</Text>
+              <Text style={styles.menuItemDescription}>
+                Shadow-ban or clear accounts flagged for abuse
+              </Text>
+            </View>
+            <MaterialIcons name='chevron-right' size={24} color='#999' />
+          </TouchableOpacity>
         </View>
 
         <TouchableOpacity
@@ -13,26 +13,48 @@ import {
 import { router } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { adminService } from '@/core/services/AdminService';
-import { supabase } from '@/utils/supabase';
-import { formatDate } from '@/utils/formatters';
+import { priceCycleService } from '@/core/services/PriceCycleService';
+import { PriceCycle } from '@/core/models/PriceCycle';
+import {
+  buildCycleTimeline,
+  CycleTimelineEntry,
+  CycleTimelineStatus,
+} from '@/utils/priceCycle';
+
+const STATUS_COLORS: Record<CycleTimelineStatus, string> = {
+  active: '#4caf50',
+  upcoming: '#2196F3',
+  past: '#999',
+};
+
+const STATUS_LABELS: Record<CycleTimelineStatus, string> = {
+  active: 'Active',
+  upcoming: 'Scheduled',
+  past: 'Ended',
+};
+
+// Cycle boundaries are Tuesday 6 AM, so show the day and time
+const formatCycleTime = (date: string) =>
+  new Date(date).toLocaleString('en-PH', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
 
 export default function ManageCyclesScreen() {
-  const [cycles, setCycles] = useState<any[]>([]);
+  const [cycles, setCycles] = useState<PriceCycle[]>([]);
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
+  const [scheduling, setScheduling] = useState(false);
   const [activePrices, setActivePrices] = useState<number>(0);
 
   // Fetch cycles
   const fetchCycles = async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('price_reporting_cycles')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setCycles(data || []);
+      setCycles(await priceCycleService.getCycles());
 
       // Get count of active community prices for debugging
       const activePrices = await adminService.getActiveCommunityPrices();
@@ -49,6 +71,39 @@ export default function ManageCyclesScreen() {
     fetchCycles();
   }, []);
 
+  // Open a cycle now if the schedule says one is due
+  const runScheduler = async () => {
+    try {
+      setScheduling(true);
+      const plan = await priceCycleService.runScheduler();
+
+      Alert.alert(
+        'Schedule Checked',
+        plan.action === 'open'
+          ? 'A new price cycle was due and has been started.'
+          : 'The active cycle is up to date.'
+      );
+      fetchCycles();
+    } catch (error) {
+      console.error('Error running cycle scheduler:', error);
+      Alert.alert('Error', 'Failed to check the cycle schedule');
+    } finally {
+      setScheduling(false);
+    }
+  };
+
+  // Manual override: start a new cycle right away
+  const confirmStartNewCycle = () => {
+    Alert.alert(
+      'Start New Cycle Now?',
+      'Cycles normally start every Tuesday at 6 AM or when new DOE prices are imported. Starting one now expires all current community reports.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Start Now', style: 'destructive', onPress: startNewCycle },
+      ]
+    );
+  };
+
   // Start a new cycle using our SQL function
   const startNewCycle = async () => {
     try {
@@ -72,6 +127,63 @@ export default function ManageCyclesScreen() {
     }
   };
 
+  const renderTimelineEntry = (entry: CycleTimelineEntry) => (
+    <View key={entry.key} style={styles.timelineRow}>
+      <View style={styles.timelineMarker}>
+        <View
+          style={[
+            styles.timelineDot,
+            { backgroundColor: STATUS_COLORS[entry.status] },
+          ]}
+        />
+        <View style={styles.timelineLine} />
+      </View>
+
+      <View
+        style={[
+          styles.cycleCard,
+          entry.status === 'upcoming' && styles.upcomingCard,
+        ]}
+      >
+        <View style={styles.cycleHeader}>
+          <Text style={styles.cycleDates}>
+            {formatCycleTime(entry.start_date)} -{' '}
+            {formatCycleTime(entry.end_date)}
+          </Text>
+          <View
+            style={[
+              styles.activeIndicator,
+              { backgroundColor: STATUS_COLORS[entry.status] },
+            ]}
+          >
+            <Text style={styles.activeText}>{STATUS_LABELS[entry.status]}</Text>
+          </View>
+        </View>
+
+        <View style={styles.cycleDetails}>
+          {entry.cycle ? (
+            <>
+              <Text style={styles.cycleDetail}>
+                Created: {new Date(entry.cycle.created_at).toLocaleString()}
+              </Text>
+              <Text style={styles.cycleDetail}>
+                DOE Import:{' '}
+                {entry.doe_import_date
+                  ? new Date(entry.doe_import_date).toLocaleString()
+                  : 'Not yet imported'}
+              </Text>
+            </>
+          ) : (
+            <Text style={styles.cycleDetail}>
+              Starts automatically, or earlier if this week's DOE prices are
+              imported first.
+            </Text>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+
   return (
     <SafeAreaView style={styles.safeArea}>
       <ScrollView style={styles.container}>
@@ -85,23 +197,45 @@ export default function ManageCyclesScreen() {
 
         <Text style={styles.title}>Manage Price Cycles</Text>
         <Text style={styles.subtitle}>
-          Price cycles determine when community prices are reset.
+          Community prices reset automatically every Tuesday at 6 AM, or as soon
+          as a new DOE week is imported.
         </Text>
 
-        <TouchableOpacity
-          style={[styles.createButton, creating && styles.buttonDisabled]}
-          onPress={startNewCycle}
-          disabled={creating}
-        >
-          {creating ? (
-            <ActivityIndicator size='small' color='#fff' />
-          ) : (
-            <>
-              <MaterialIcons name='add' size={20} color='#fff' />
-              <Text style={styles.createButtonText}>Start New Cycle</Text>
-            </>
-          )}
-        </TouchableOpacity>
+        <View style={styles.actionRow}>
+          <TouchableOpacity
+            style={[
+              styles.createButton,
+              styles.secondaryButton,
+              scheduling && styles.buttonDisabled,
+            ]}
+            onPress={runScheduler}
+            disabled={scheduling}
+          >
+            {scheduling ? (
+              <ActivityIndicator size='small' color='#2a9d8f' />
+            ) : (
+              <>
+                <MaterialIcons name='schedule' size={20} color='#2a9d8f' />
+                <Text style={styles.secondaryButtonText}>Check Schedule</Text>
+              </>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.createButton, creating && styles.buttonDisabled]}
+            onPress={confirmStartNewCycle}
+            disabled={creating}
+          >
+            {creating ? (
+              <ActivityIndicator size='small' color='#fff' />
+            ) : (
+              <>
+                <MaterialIcons name='add' size={20} color='#fff' />
+                <Text style={styles.createButtonText}>Start Now</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
 
         {activePrices > 0 && (
           <View style={styles.warningBox}>
@@ -121,39 +255,12 @@ export default function ManageCyclesScreen() {
           />
         ) : (
           <View style={styles.cyclesContainer}>
-            <Text style={styles.sectionTitle}>Price Cycles</Text>
+            <Text style={styles.sectionTitle}>Cycle Timeline</Text>
 
-            {cycles.length === 0 ? (
+            {cycles.length === 0 && (
               <Text style={styles.noCycles}>No price cycles found.</Text>
-            ) : (
-              cycles.map((cycle) => (
-                <View key={cycle.id} style={styles.cycleCard}>
-                  <View style={styles.cycleHeader}>
-                    <Text style={styles.cycleDates}>
-                      {formatDate(cycle.start_date)} -{' '}
-                      {formatDate(cycle.end_date)}
-                    </Text>
-                    {cycle.is_active && (
-                      <View style={styles.activeIndicator}>
-                        <Text style={styles.activeText}>Active</Text>
-                      </View>
-                    )}
-                  </View>
-
-                  <View style={styles.cycleDetails}>
-                    <Text style={styles.cycleDetail}>
-                      Created: {new Date(cycle.created_at).toLocaleString()}
-                    </Text>
-                    {cycle.doe_import_date && (
-                      <Text style={styles.cycleDetail}>
-                        DOE Import:{' '}
-                        {new Date(cycle.doe_import_date).toLocaleString()}
-                      </Text>
-                    )}
-                  </View>
-                </View>
-              ))
             )}
+            {buildCycleTimeline(cycles, new Date()).map(renderTimelineEntry)}
           </View>
         )}
       </ScrollView>
@@ -191,14 +298,30 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 24,
   },
+  actionRow: {
+    flexDirection: 'row',
+    marginBottom: 24,
+  },
   createButton: {
+    flex: 1,
     backgroundColor: '#2a9d8f',
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
     padding: 14,
     borderRadius: 8,
-    marginBottom: 24,
+  },
+  secondaryButton: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#2a9d8f',
+    marginRight: 12,
+  },
+  secondaryButtonText: {
+    color: '#2a9d8f',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
   },
   buttonDisabled: {
     backgroundColor: '#999',
@@ -241,7 +364,28 @@ const styles = StyleSheet.create({
     color: '#666',
     fontStyle: 'italic',
   },
+  timelineRow: {
+    flexDirection: 'row',
+  },
+  timelineMarker: {
+    width: 20,
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  timelineDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginTop: 20,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#ddd',
+    marginTop: 4,
+  },
   cycleCard: {
+    flex: 1,
     backgroundColor: '#fff',
     borderRadius: 8,
     padding: 16,
@@ -252,6 +396,9 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 2,
   },
+  upcomingCard: {
+    opacity: 0.7,
+  },
   cycleHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -259,8 +406,10 @@ const styles = StyleSheet.create({
     marginBottom: 12,
   },
   cycleDates: {
-    fontSize: 16,
+    fontSize: 14,
     fontWeight: '600',
+    flex: 1,
+    marginRight: 8,
   },
   activeIndicator: {
     backgroundColor: '#4caf50',
@@ -0,0 +1,533 @@
+// app/admin/price-adjustments.tsx
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  SafeAreaView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { priceAdjustmentService } from '@/core/services/PriceAdjustmentService';
+import { PriceAdjustment } from '@/core/models/PriceAdjustment';
+import {
+  getNextAdjustmentDate,
+  parseAdjustmentCsv,
+  ProjectedDoePrice,
+} from '@/utils/priceAdjustments';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+import { normalizeBrandName } from '@/utils/brandNormalization';
+import { FUEL_TYPES } from '@/utils/constants';
+
+// Limit how many projected prices are rendered
+const MAX_PROJECTION_ROWS = 50;
+
+export default function PriceAdjustmentsScreen() {
+  const [adjustments, setAdjustments] = useState<PriceAdjustment[]>([]);
+  const [projections, setProjections] = useState<ProjectedDoePrice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const [effectiveDate, setEffectiveDate] = useState(
+    getNextAdjustmentDate(new Date())
+  );
+  const [fuelType, setFuelType] = useState(FUEL_TYPES[0]);
+  const [brand, setBrand] = useState('');
+  const [amount, setAmount] = useState('');
+  const [isRollback, setIsRollback] = useState(false);
+
+  // Fetch upcoming adjustments and the prices they lead to
+  const fetchAdjustments = async () => {
+    try {
+      setLoading(true);
+      const [upcoming, projected] = await Promise.all([
+        priceAdjustmentService.getUpcomingAdjustments(),
+        priceAdjustmentService.getProjectedDoePrices(),
+      ]);
+      setAdjustments(upcoming);
+      setProjections(projected);
+    } catch (error) {
+      console.error('Error fetching price adjustments:', error);
+      Alert.alert('Error', 'Failed to load price adjustments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAdjustments();
+  }, []);
+
+  const handleSave = async () => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate.trim())) {
+      Alert.alert('Error', 'Please enter the effective date as YYYY-MM-DD');
+      return;
+    }
+
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) {
+      Alert.alert('Error', 'Please enter the change per liter');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await priceAdjustmentService.saveAdjustments([
+        {
+          effective_date: effectiveDate.trim(),
+          fuel_type: fuelType,
+          brand: brand.trim() ? normalizeBrandName(brand.trim()) : null,
+          amount: isRollback ? -value : value,
+        },
+      ]);
+      setAmount('');
+      fetchAdjustments();
+    } catch (error) {
+      console.error('Error saving price adjustment:', error);
+      Alert.alert('Error', 'Failed to save price adjustment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImportCsv = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets?.length) {
+        return;
+      }
+
+      setSaving(true);
+
+      // Read the picked file from its local URI
+      const response = await fetch(result.assets[0].uri);
+      const { rows, errors } = parseAdjustmentCsv(await response.text());
+
+      if (rows.length === 0) {
+        Alert.alert(
+          'Nothing to Import',
+          errors[0] ||
+            'No adjustments were found. The file needs effective_date, fuel_type, brand and amount columns.'
+        );
+        return;
+      }
+
+      const count = await priceAdjustmentService.saveAdjustments(rows);
+      Alert.alert(
+        'Success',
+        `Imported ${count} adjustment${count === 1 ? '' : 's'}.${
+          errors.length > 0
+            ? ` ${errors.length} line${
+                errors.length === 1 ? ' was' : 's were'
+              } skipped.`
+            : ''
+        }`
+      );
+      fetchAdjustments();
+    } catch (error) {
+      console.error('Error importing price adjustments:', error);
+      Alert.alert('Error', 'Failed to import price adjustments');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = (adjustment: PriceAdjustment) => {
+    Alert.alert(
+      'Delete Adjustment',
+      `Delete the ${adjustment.fuel_type} adjustment for ${
+        adjustment.brand || 'all brands'
+      }?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setDeletingId(adjustment.id);
+              await priceAdjustmentService.deleteAdjustment(adjustment.id);
+              fetchAdjustments();
+            } catch (error) {
+              console.error('Error deleting price adjustment:', error);
+              Alert.alert('Error', 'Failed to delete price adjustment');
+            } finally {
+              setDeletingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderAmount = (value: number) => (
+    <Text style={[styles.amount, { color: value > 0 ? '#c62828' : '#2e7d32' }]}>
+      {value > 0 ? '+' : '-'}
+      {formatCurrency(Math.abs(value))}/L
+    </Text>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView style={styles.container}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <MaterialIcons name='arrow-back' size={24} color='#333' />
+          <Text style={styles.backButtonText}>Back to Admin</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.title}>Price Adjustments</Text>
+        <Text style={styles.subtitle}>
+          Enter the increases and rollbacks oil companies announce for next
+          week. Leave the brand blank when it applies to every brand.
+        </Text>
+
+        <View style={styles.card}>
+          <Text style={styles.label}>Effective Date (YYYY-MM-DD):</Text>
+          <TextInput
+            style={styles.input}
+            value={effectiveDate}
+            onChangeText={setEffectiveDate}
+            editable={!saving}
+          />
+
+          <Text style={styles.label}>Fuel Type:</Text>
+          <View style={styles.chipRow}>
+            {FUEL_TYPES.map((type) => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.chip, fuelType === type && styles.chipSelected]}
+                onPress={() => setFuelType(type)}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    fuelType === type && styles.chipTextSelected,
+                  ]}
+                >
+                  {type}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Brand:</Text>
+          <TextInput
+            style={styles.input}
+            value={brand}
+            onChangeText={setBrand}
+            placeholder='All brands'
+            editable={!saving}
+          />
+
+          <Text style={styles.label}>Change per Liter:</Text>
+          <View style={styles.amountRow}>
+            <TouchableOpacity
+              style={[styles.toggle, !isRollback && styles.increaseSelected]}
+              onPress={() => setIsRollback(false)}
+            >
+              <Text
+                style={[
+                  styles.toggleText,
+                  !isRollback && styles.toggleTextSelected,
+                ]}
+              >
+                Increase
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.toggle, isRollback && styles.rollbackSelected]}
+              onPress={() => setIsRollback(true)}
+            >
+              <Text
+                style={[
+                  styles.toggleText,
+                  isRollback && styles.toggleTextSelected,
+                ]}
+              >
+                Rollback
+              </Text>
+            </TouchableOpacity>
+            <TextInput
+              style={[styles.input, styles.amountInput]}
+              value={amount}
+              onChangeText={setAmount}
+              placeholder='0.00'
+              keyboardType='decimal-pad'
+              editable={!saving}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.button, saving && styles.buttonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color='#fff' size='small' />
+            ) : (
+              <Text style={styles.buttonText}>Save Adjustment</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.secondaryButton, saving && styles.buttonDisabled]}
+            onPress={handleImportCsv}
+            disabled={saving}
+          >
+            <MaterialIcons name='upload-file' size={20} color='#2a9d8f' />
+            <Text style={styles.secondaryButtonText}>Import CSV</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.sectionTitle}>Upcoming</Text>
+        {loading ? (
+          <ActivityIndicator size='large' color='#2a9d8f' />
+        ) : adjustments.length === 0 ? (
+          <Text style={styles.emptyText}>No adjustments announced yet.</Text>
+        ) : (
+          adjustments.map((adjustment) => (
+            <View key={adjustment.id} style={styles.row}>
+              <View style={styles.rowContent}>
+                <Text style={styles.rowTitle}>
+                  {adjustment.fuel_type} · {adjustment.brand || 'All brands'}
+                </Text>
+                <Text style={styles.rowDetail}>
+                  From {formatDate(adjustment.effective_date)}
+                </Text>
+              </View>
+              {renderAmount(adjustment.amount)}
+              <TouchableOpacity
+                style={styles.deleteButton}
+                onPress={() => confirmDelete(adjustment)}
+                disabled={deletingId === adjustment.id}
+              >
+                {deletingId === adjustment.id ? (
+                  <ActivityIndicator size='small' color='#c62828' />
+                ) : (
+                  <MaterialIcons name='delete' size={20} color='#c62828' />
+                )}
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+
+        {!loading && projections.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Projected DOE Prices</Text>
+            {projections.slice(0, MAX_PROJECTION_ROWS).map((projection) => (
+              <View
+                key={`${projection.area}-${projection.brand}-${projection.fuel_type}`}
+                style={styles.row}
+              >
+                <View style={styles.rowContent}>
+                  <Text style={styles.rowTitle}>
+                    {projection.area} · {projection.brand} ·{' '}
+                    {projection.fuel_type}
+                  </Text>
+                  <Text style={styles.rowDetail}>
+                    {formatCurrency(projection.currentPrice)} →{' '}
+                    {formatCurrency(projection.projectedPrice)}
+                  </Text>
+                </View>
+                {renderAmount(projection.adjustment)}
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 24,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#2a9d8f',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  toggle: {
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  increaseSelected: {
+    backgroundColor: '#c62828',
+  },
+  rollbackSelected: {
+    backgroundColor: '#2e7d32',
+  },
+  toggleText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  toggleTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  amountInput: {
+    flex: 1,
+  },
+  button: {
+    backgroundColor: '#2a9d8f',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#2a9d8f',
+  },
+  secondaryButtonText: {
+    color: '#2a9d8f',
+    fontSize: 16,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+    marginBottom: 24,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  rowDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  amount: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  deleteButton: {
+    marginLeft: 12,
+    padding: 4,
+  },
+});
@@ -0,0 +1,320 @@
+// app/admin/review-accounts.tsx
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  SafeAreaView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { moderationService } from '@/core/services';
+import { AccountFlag, AccountStatus } from '@/core/models/AccountFlag';
+
+export default function ReviewAccountsScreen() {
+  const [flags, setFlags] = useState<AccountFlag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [scanning, setScanning] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  // Fetch flagged accounts
+  const fetchFlags = async () => {
+    try {
+      setLoading(true);
+      setFlags(await moderationService.getReviewQueue());
+    } catch (error) {
+      console.error('Error fetching flagged accounts:', error);
+      Alert.alert('Error', 'Failed to load flagged accounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchFlags();
+  }, []);
+
+  const scanForVoteRings = async () => {
+    try {
+      setScanning(true);
+      const rings = await moderationService.scanForVoteRings();
+
+      Alert.alert(
+        'Scan Complete',
+        rings.length === 0
+          ? 'No vote rings found.'
+          : `Found ${rings.length} vote ring${
+              rings.length > 1 ? 's' : ''
+            }. Their members have been flagged.`
+      );
+      fetchFlags();
+    } catch (error) {
+      console.error('Error scanning for vote rings:', error);
+      Alert.alert('Error', 'Failed to scan for vote rings');
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const updateStatus = async (userId: string, status: AccountStatus) => {
+    try {
+      setUpdatingId(userId);
+      await moderationService.setAccountStatus(userId, status);
+      fetchFlags();
+    } catch (error) {
+      console.error('Error updating account status:', error);
+      Alert.alert('Error', 'Failed to update account');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const confirmShadowBan = (flag: AccountFlag) => {
+    Alert.alert(
+      'Shadow-ban Account',
+      `${
+        flag.display_name || 'This user'
+      } will still be able to report, but their prices will no longer count towards community prices. They will not be told.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Shadow-ban',
+          style: 'destructive',
+          onPress: () => updateStatus(flag.user_id, 'shadow_banned'),
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView style={styles.container}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <MaterialIcons name='arrow-back' size={24} color='#333' />
+          <Text style={styles.backButtonText}>Back to Admin</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.title}>Flagged Accounts</Text>
+        <Text style={styles.subtitle}>
+          Accounts that hit rate limits or trade votes with each other.
+        </Text>
+
+        <TouchableOpacity
+          style={[styles.scanButton, scanning && styles.buttonDisabled]}
+          onPress={scanForVoteRings}
+          disabled={scanning}
+        >
+          {scanning ? (
+            <ActivityIndicator size='small' color='#fff' />
+          ) : (
+            <>
+              <MaterialIcons name='group-work' size={20} color='#fff' />
+              <Text style={styles.scanButtonText}>Scan for Vote Rings</Text>
+            </>
+          )}
+        </TouchableOpacity>
+
+        {loading ? (
+          <ActivityIndicator
+            style={styles.loader}
+            size='large'
+            color='#2a9d8f'
+          />
+        ) : flags.length === 0 ? (
+          <Text style={styles.emptyText}>No accounts need review.</Text>
+        ) : (
+          flags.map((flag) => (
+            <View key={flag.user_id} style={styles.flagCard}>
+              <View style={styles.flagHeader}>
+                <Text style={styles.flagName}>
+                  {flag.display_name || flag.user_id}
+                </Text>
+                {flag.status === 'shadow_banned' && (
+                  <View style={styles.bannedIndicator}>
+                    <Text style={styles.bannedText}>Shadow-banned</Text>
+                  </View>
+                )}
+              </View>
+
+              <View style={styles.flagDetails}>
+                {flag.reasons.map((reason) => (
+                  <Text key={reason} style={styles.flagReason}>
+                    • {reason}
+                  </Text>
+                ))}
+                <Text style={styles.flagDate}>
+                  Flagged: {new Date(flag.flagged_at).toLocaleString()}
+                </Text>
+              </View>
+
+              <View style={styles.flagActions}>
+                {updatingId === flag.user_id ? (
+                  <ActivityIndicator size='small' color='#2a9d8f' />
+                ) : (
+                  <>
+                    {flag.status !== 'shadow_banned' && (
+                      <TouchableOpacity
+                        style={styles.actionButton}
+                        onPress={() => confirmShadowBan(flag)}
+                      >
+                        <MaterialIcons name='block' size={18} color='#e63946' />
+                        <Text style={[styles.actionText, styles.banText]}>
+                          Shadow-ban
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() => updateStatus(flag.user_id, 'cleared')}
+                    >
+                      <MaterialIcons
+                        name='check-circle'
+                        size={18}
+                        color='#2a9d8f'
+                      />
+                      <Text style={styles.actionText}>
+                        {flag.status === 'shadow_banned' ? 'Lift Ban' : 'Clear'}
+                      </Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 24,
+  },
+  scanButton: {
+    backgroundColor: '#2a9d8f',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 14,
+    borderRadius: 8,
+    marginBottom: 24,
+  },
+  buttonDisabled: {
+    backgroundColor: '#999',
+  },
+  scanButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  loader: {
+    marginTop: 32,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  flagCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  flagHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  flagName: {
+    fontSize: 16,
+    fontWeight: '600',
+    flex: 1,
+  },
+  bannedIndicator: {
+    backgroundColor: '#e63946',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+  },
+  bannedText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  flagDetails: {
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    paddingTop: 12,
+  },
+  flagReason: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 4,
+  },
+  flagDate: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  flagActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 16,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#2a9d8f',
+    marginLeft: 4,
+  },
+  banText: {
+    color: '#e63946',
+  },
+});
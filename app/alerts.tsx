@@ -0,0 +1,373 @@
+// app/alerts.tsx
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  SafeAreaView,
+  Switch,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAuth } from '@/context/AuthContext';
+import { useVehicles } from '@/context/VehicleContext';
+import { usePriceAlertRules } from '@/hooks/usePriceAlerts';
+import { priceAlertService } from '@/core/services/PriceAlertService';
+import { PriceAlertType } from '@/core/models/PriceAlert';
+import { describeAlertRule } from '@/utils/priceAlerts';
+import { FUEL_TYPES } from '@/utils/constants';
+import { getShortFuelTypeName } from '@/utils/formatters';
+
+const ALERT_TYPE_LABELS: Record<PriceAlertType, string> = {
+  price_below: 'Favorite drops below',
+  doe_change: 'DOE weekly change',
+};
+
+export default function PriceAlertsScreen() {
+  const { user, updateProfile } = useAuth();
+  const { rules, loading, error, addRule, toggleRule, deleteRule } =
+    usePriceAlertRules();
+
+  const [type, setType] = useState<PriceAlertType>('price_below');
+  const { defaultFuelType } = useVehicles();
+  const [fuelType, setFuelType] = useState(defaultFuelType);
+  const [threshold, setThreshold] = useState('');
+  const [area, setArea] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const notificationsEnabled = !!user?.preferences.notifications_enabled;
+
+  const handleToggleNotifications = async (value: boolean) => {
+    if (!user) return;
+
+    if (value) {
+      const granted = await priceAlertService.requestNotificationPermission();
+      if (!granted) {
+        Alert.alert(
+          'Notifications Disabled',
+          'Allow notifications for this app in your device settings to receive price alerts.'
+        );
+        return;
+      }
+    }
+
+    try {
+      await updateProfile({
+        preferences: { ...user.preferences, notifications_enabled: value },
+      });
+    } catch {
+      Alert.alert('Error', 'Failed to update notification settings');
+    }
+  };
+
+  const handleAddRule = async () => {
+    const value = parseFloat(threshold);
+    if (isNaN(value) || value <= 0) {
+      Alert.alert('Error', 'Please enter a valid amount');
+      return;
+    }
+
+    if (type === 'doe_change' && !area.trim()) {
+      Alert.alert('Error', 'Please enter the area to watch');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await addRule({
+        type,
+        fuel_type: fuelType,
+        threshold: value,
+        area: type === 'doe_change' ? area.trim() : null,
+      });
+      setThreshold('');
+    } catch (err) {
+      console.error('Error creating price alert:', err);
+      Alert.alert('Error', 'Failed to create price alert');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderBackButton = () => (
+    <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+      <MaterialIcons name='arrow-back' size={24} color='#333' />
+      <Text style={styles.backButtonText}>Back</Text>
+    </TouchableOpacity>
+  );
+
+  if (!user) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.container}>
+          {renderBackButton()}
+          <Text style={styles.title}>Price Alerts</Text>
+          <Text style={styles.subtitle}>
+            Sign in on the Profile tab to set up price alerts.
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView style={styles.container}>
+        {renderBackButton()}
+
+        <Text style={styles.title}>Price Alerts</Text>
+
+        <View style={styles.settingRow}>
+          <Text style={styles.settingLabel}>Notifications</Text>
+          <Switch
+            value={notificationsEnabled}
+            onValueChange={handleToggleNotifications}
+          />
+        </View>
+
+        {/* New rule form */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>New Alert</Text>
+
+          <View style={styles.chipRow}>
+            {(Object.keys(ALERT_TYPE_LABELS) as PriceAlertType[]).map(
+              (item) => (
+                <TouchableOpacity
+                  key={item}
+                  style={[styles.chip, type === item && styles.selectedChip]}
+                  onPress={() => setType(item)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      type === item && styles.selectedChipText,
+                    ]}
+                  >
+                    {ALERT_TYPE_LABELS[item]}
+                  </Text>
+                </TouchableOpacity>
+              )
+            )}
+          </View>
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.chipRow}>
+              {FUEL_TYPES.map((item) => (
+                <TouchableOpacity
+                  key={item}
+                  style={[
+                    styles.chip,
+                    fuelType === item && styles.selectedChip,
+                  ]}
+                  onPress={() => setFuelType(item)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      fuelType === item && styles.selectedChipText,
+                    ]}
+                  >
+                    {getShortFuelTypeName(item)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+
+          {type === 'doe_change' && (
+            <TextInput
+              style={styles.input}
+              value={area}
+              onChangeText={setArea}
+              placeholder='Area (e.g. Quezon City)'
+            />
+          )}
+
+          <TextInput
+            style={styles.input}
+            value={threshold}
+            onChangeText={setThreshold}
+            placeholder={
+              type === 'price_below'
+                ? 'Price per liter (₱)'
+                : 'Change per liter (₱)'
+            }
+            keyboardType='decimal-pad'
+          />
+
+          <TouchableOpacity
+            style={[styles.button, saving && styles.buttonDisabled]}
+            onPress={handleAddRule}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color='#fff' size='small' />
+            ) : (
+              <Text style={styles.buttonText}>Add Alert</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {/* Existing rules */}
+        <Text style={styles.sectionTitle}>Your Alerts</Text>
+        {loading && <ActivityIndicator color='#2a9d8f' />}
+        {error && <Text style={styles.errorText}>{error}</Text>}
+        {!loading && rules.length === 0 && (
+          <Text style={styles.subtitle}>You have no price alerts yet.</Text>
+        )}
+
+        {rules.map((rule) => (
+          <View key={rule.id} style={styles.ruleRow}>
+            <Text style={styles.ruleText}>{describeAlertRule(rule)}</Text>
+            <Switch
+              value={rule.enabled}
+              onValueChange={() => toggleRule(rule)}
+            />
+            <TouchableOpacity
+              style={styles.deleteButton}
+              onPress={() => deleteRule(rule.id)}
+            >
+              <MaterialIcons name='delete-outline' size={22} color='#e74c3c' />
+            </TouchableOpacity>
+          </View>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 16,
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 16,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+  },
+  settingLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 24,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#2a9d8f',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  selectedChipText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  button: {
+    backgroundColor: '#2a9d8f',
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: '#aaa',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  errorText: {
+    color: '#c62828',
+    marginBottom: 12,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  ruleText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    marginRight: 8,
+  },
+  deleteButton: {
+    marginLeft: 8,
+    padding: 4,
+  },
+});
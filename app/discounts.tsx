@@ -0,0 +1,166 @@
+// app/discounts.tsx
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  SafeAreaView,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAuth } from '@/context/AuthContext';
+import { useDiscounts } from '@/hooks/useDiscounts';
+import { describeDiscount, isProgramActive } from '@/utils/discounts';
+
+export default function DiscountsScreen() {
+  const { user } = useAuth();
+  const { programs, heldIds, toggleProgram } = useDiscounts();
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  // Ended programs are only listed while the user still holds them
+  const now = new Date();
+  const listedPrograms = programs.filter(
+    (program) => isProgramActive(program, now) || heldIds.includes(program.id)
+  );
+
+  const handleToggle = async (programId: string) => {
+    setSavingId(programId);
+    try {
+      await toggleProgram(programId);
+    } catch (err) {
+      console.error('Error saving discount programs:', err);
+      Alert.alert('Error', 'Failed to save your discount cards');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView style={styles.container}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <MaterialIcons name='arrow-back' size={24} color='#333' />
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.title}>Discount Cards</Text>
+        <Text style={styles.subtitle}>
+          Pick the loyalty cards and fleet programs you use. Prices show what
+          you pay after your best discount, next to the pump price.
+        </Text>
+
+        {!user ? (
+          <Text style={styles.emptyText}>
+            Sign in to save your discount cards.
+          </Text>
+        ) : listedPrograms.length === 0 ? (
+          <Text style={styles.emptyText}>
+            No discount programs are available yet.
+          </Text>
+        ) : (
+          listedPrograms.map((program) => {
+            const isHeld = heldIds.includes(program.id);
+            const isActive = isProgramActive(program, now);
+
+            return (
+              <TouchableOpacity
+                key={program.id}
+                style={[styles.programRow, isHeld && styles.heldProgramRow]}
+                onPress={() => handleToggle(program.id)}
+                disabled={savingId !== null}
+              >
+                {savingId === program.id ? (
+                  <ActivityIndicator size='small' color='#2a9d8f' />
+                ) : (
+                  <MaterialIcons
+                    name={isHeld ? 'check-box' : 'check-box-outline-blank'}
+                    size={22}
+                    color='#2a9d8f'
+                  />
+                )}
+                <View style={styles.programInfo}>
+                  <Text style={styles.programName}>{program.name}</Text>
+                  <Text style={styles.programDetail}>
+                    {program.brand} · {describeDiscount(program)}
+                    {!isActive && ' · Ended'}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  programRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#fff',
+  },
+  heldProgramRow: {
+    borderColor: '#2a9d8f',
+  },
+  programInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  programName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  programDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,123 @@
+// app/price-trends.tsx
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  SafeAreaView,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useVehicles } from '@/context/VehicleContext';
+import PriceTrendSection from '@/components/price/PriceTrendSection';
+
+const DEFAULT_AREA = 'NCR';
+
+export default function PriceTrendsScreen() {
+  const params = useLocalSearchParams<{ area?: string }>();
+  const { defaultFuelType } = useVehicles();
+  const [area, setArea] = useState(params.area || DEFAULT_AREA);
+  const [areaInput, setAreaInput] = useState(area);
+
+  const handleSubmitArea = () => {
+    const trimmed = areaInput.trim();
+    if (trimmed) setArea(trimmed);
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView style={styles.container}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <MaterialIcons name='arrow-back' size={24} color='#333' />
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.title}>Area Price Trends</Text>
+
+        <View style={styles.searchRow}>
+          <TextInput
+            style={styles.input}
+            value={areaInput}
+            onChangeText={setAreaInput}
+            onSubmitEditing={handleSubmitArea}
+            placeholder='Area (e.g. Quezon City)'
+            returnKeyType='search'
+          />
+          <TouchableOpacity style={styles.button} onPress={handleSubmitArea}>
+            <MaterialIcons name='search' size={22} color='#fff' />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{area}</Text>
+          <PriceTrendSection area={area} initialFuelType={defaultFuelType} />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 16,
+    color: '#333',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    fontSize: 16,
+    marginRight: 8,
+  },
+  button: {
+    backgroundColor: '#2a9d8f',
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 24,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+});
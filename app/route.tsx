@@ -0,0 +1,380 @@
+// app/route.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  SafeAreaView,
+} from 'react-native';
+import { router } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useVehicles } from '@/context/VehicleContext';
+import { useDiscounts } from '@/hooks/useDiscounts';
+import { EffectivePriceLabel } from '@/components/price/EffectivePriceLabel';
+import { RouteQuery, useRouteStations } from '@/hooks/useRouteStations';
+import { FUEL_TYPES } from '@/utils/constants';
+import { formatCurrency, getShortFuelTypeName } from '@/utils/formatters';
+
+type RouteInputMode = 'addresses' | 'polyline';
+
+// Corridor widths offered, in kilometers either side of the route
+const CORRIDOR_OPTIONS = [1, 2, 5];
+
+export default function RouteScreen() {
+  const { defaultFuelType } = useVehicles();
+  const { getEffectivePrice } = useDiscounts();
+  const { stations, routeLength, loading, error, searchRoute } =
+    useRouteStations();
+
+  const [mode, setMode] = useState<RouteInputMode>('addresses');
+  const [origin, setOrigin] = useState('');
+  const [destination, setDestination] = useState('');
+  const [polyline, setPolyline] = useState('');
+  const [corridorKm, setCorridorKm] = useState(2);
+  const [fuelType, setFuelType] = useState(defaultFuelType);
+  const [searched, setSearched] = useState(false);
+
+  // Follow the active vehicle when it loads or changes
+  useEffect(() => {
+    setFuelType(defaultFuelType);
+  }, [defaultFuelType]);
+
+  const canSearch =
+    mode === 'addresses'
+      ? origin.trim() !== '' && destination.trim() !== ''
+      : polyline.trim() !== '';
+
+  const handleSearch = (nextFuelType = fuelType, nextCorridor = corridorKm) => {
+    if (!canSearch) return;
+
+    const query: RouteQuery =
+      mode === 'addresses'
+        ? { origin: origin.trim(), destination: destination.trim() }
+        : { polyline: polyline.trim() };
+
+    setSearched(true);
+    searchRoute(query, nextCorridor, nextFuelType);
+  };
+
+  // Re-run an existing search when its options change
+  const handleFuelTypeChange = (item: string) => {
+    setFuelType(item);
+    if (searched) handleSearch(item, corridorKm);
+  };
+
+  const handleCorridorChange = (km: number) => {
+    setCorridorKm(km);
+    if (searched) handleSearch(fuelType, km);
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView style={styles.container}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <MaterialIcons name='arrow-back' size={24} color='#333' />
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.title}>Stations On My Route</Text>
+        <Text style={styles.subtitle}>
+          The cheapest stations close to the road between two places.
+        </Text>
+
+        <View style={styles.card}>
+          <View style={styles.chipRow}>
+            {(['addresses', 'polyline'] as RouteInputMode[]).map((item) => (
+              <TouchableOpacity
+                key={item}
+                style={[styles.chip, mode === item && styles.selectedChip]}
+                onPress={() => setMode(item)}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    mode === item && styles.selectedChipText,
+                  ]}
+                >
+                  {item === 'addresses' ? 'From / To' : 'Route Line'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {mode === 'addresses' ? (
+            <>
+              <TextInput
+                style={styles.input}
+                value={origin}
+                onChangeText={setOrigin}
+                placeholder='From (e.g. Makati City)'
+              />
+              <TextInput
+                style={styles.input}
+                value={destination}
+                onChangeText={setDestination}
+                placeholder='To (e.g. Tagaytay City)'
+              />
+              <Text style={styles.hint}>
+                Places are joined in a straight line. Paste a route line from
+                your maps app for winding roads.
+              </Text>
+            </>
+          ) : (
+            <TextInput
+              style={[styles.input, styles.polylineInput]}
+              value={polyline}
+              onChangeText={setPolyline}
+              placeholder='Encoded polyline'
+              autoCapitalize='none'
+              autoCorrect={false}
+              multiline
+            />
+          )}
+
+          <Text style={styles.label}>Distance from the road</Text>
+          <View style={styles.chipRow}>
+            {CORRIDOR_OPTIONS.map((km) => (
+              <TouchableOpacity
+                key={km}
+                style={[styles.chip, corridorKm === km && styles.selectedChip]}
+                onPress={() => handleCorridorChange(km)}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    corridorKm === km && styles.selectedChipText,
+                  ]}
+                >
+                  {km} km
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Fuel type</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.chipRow}>
+              {FUEL_TYPES.map((item) => (
+                <TouchableOpacity
+                  key={item}
+                  style={[
+                    styles.chip,
+                    fuelType === item && styles.selectedChip,
+                  ]}
+                  onPress={() => handleFuelTypeChange(item)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      fuelType === item && styles.selectedChipText,
+                    ]}
+                  >
+                    {getShortFuelTypeName(item)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.button,
+              (!canSearch || loading) && styles.buttonDisabled,
+            ]}
+            onPress={() => handleSearch()}
+            disabled={!canSearch || loading}
+          >
+            {loading ? (
+              <ActivityIndicator color='#fff' size='small' />
+            ) : (
+              <Text style={styles.buttonText}>Find Stations</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {/* Results */}
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        {!loading && !error && routeLength !== null && (
+          <Text style={styles.summary}>
+            {stations.length} station{stations.length === 1 ? '' : 's'} along{' '}
+            {routeLength.toFixed(1)} km
+          </Text>
+        )}
+
+        {!loading &&
+          stations.map((item) => (
+            <TouchableOpacity
+              key={item.station.id}
+              style={styles.stationRow}
+              onPress={() => router.push(`/station/${item.station.id}`)}
+            >
+              <View style={styles.stationInfo}>
+                <Text style={styles.stationName}>{item.station.name}</Text>
+                <Text style={styles.stationDetail}>
+                  {item.distanceAlongRoute.toFixed(1)} km along ·{' '}
+                  {item.distanceFromRoute.toFixed(1)} km off the road
+                </Text>
+                <EffectivePriceLabel
+                  effectivePrice={getEffectivePrice(
+                    item.station.brand,
+                    fuelType,
+                    item.price
+                  )}
+                />
+              </View>
+              <Text style={styles.stationPrice}>
+                {formatCurrency(item.price ?? 0)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#2a9d8f',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  selectedChipText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  polylineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  button: {
+    backgroundColor: '#2a9d8f',
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    backgroundColor: '#aaa',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  summary: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  stationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  stationInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  stationName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  stationDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  stationPrice: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2a9d8f',
+  },
+});
@@ -1,27 +1,39 @@
 // app/station/[id].tsx
-import React, { useState, useEffect } from 'react';
-import { ScrollView, View, Text, Alert } from 'react-native';
+import React, { useEffect } from 'react';
+import { ScrollView, View, Text, Alert, TouchableOpacity } from 'react-native';
 import { useLocalSearchParams, router } from 'expo-router';
-import { supabase } from '@/utils/supabase';
+import { useAuth } from '@/context/AuthContext';
+import { useFavorites } from '@/context/FavoritesContext';
+import { useVehicles } from '@/context/VehicleContext';
 
 // Custom hooks
 import { useStationById } from '@/hooks/useStationService';
 import { usePriceReporting } from '@/hooks/usePriceService';
 import { useStationPrices } from '@/hooks/useStationPrice';
 import { usePriceCycle } from '@/hooks/usePriceCycle';
+import { useOutbox } from '@/hooks/useOutbox';
+import { useDiscounts } from '@/hooks/useDiscounts';
+import { useStationReports } from '@/hooks/useStationReports';
 
 // Components
 import { LoadingIndicator } from '@/components/common/LoadingIndicator';
 import { ErrorDisplay } from '@/components/common/ErrorDisplay';
+import { OfflineBanner } from '@/components/common/OfflineBanner';
 import StationHeader from '@/components/station/StationHeader';
 import OfficialPricesSection from '@/components/station/OfficialPriceSection';
 import CommunityPricesSection from '@/components/station/CommunityPricesSection';
 import PriceReportingModal from '@/components/price/PriceReportingModal';
+import PriceTrendSection from '@/components/price/PriceTrendSection';
 import ActionButtons from '@/components/station/ActionButtons';
 import StationInfoSection from '@/components/station/StatusInfoSecition';
+import FullTankCost from '@/components/station/FullTankCost';
+import StationStatusSection from '@/components/station/StationStatusSection';
 
 // Constants and styles
 import { FUEL_TYPES } from '@/utils/constants';
+import { normalizeFuelType } from '@/utils/formatters';
+import { getFullTankCost } from '@/utils/vehicles';
+import { VoteDirection } from '@/core/models/PriceVote';
 import { stationDetailsStyles as styles } from '@/styles/screens/StationDetailsScreen';
 
 /**
@@ -31,36 +43,39 @@ export default function StationDetailsScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const { data: station, loading, error } = useStationById(id);
   const { currentCycle, daysRemaining } = usePriceCycle();
-  const [currentUser, setCurrentUser] = useState<any>(null);
+  const { user } = useAuth();
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const { activeVehicle, defaultFuelType } = useVehicles();
+  const { getEffectivePrice } = useDiscounts();
 
   // Custom hooks for data
   const {
     doePrices,
     loading: loadingPrices,
     weekOf,
+    cachedAt,
+    offline,
   } = useStationPrices(station);
 
-  // Get the authenticated user
-  useEffect(() => {
-    const getUser = async () => {
-      const { data } = await supabase.auth.getUser();
-      if (data?.user) {
-        setCurrentUser(data.user);
-      }
-    };
-
-    getUser();
-  }, []);
+  // Price reporting is attributed to the signed-in user
+  const priceReporting = usePriceReporting({
+    stationId: station?.id,
+    cycleId: currentCycle?.id ?? null,
+  });
+  const outbox = useOutbox(station?.id);
+  const stationReports = useStationReports(station?.id);
 
-  // Use the price reporting hook with the current user
-  const priceReporting = usePriceReporting(currentUser);
+  // Queued items sent in the background change the community prices
+  const sentCount = outbox.items.filter(
+    (item) => item.status === 'sent'
+  ).length;
 
   // Load station prices when station data is available
   useEffect(() => {
     if (station) {
-      priceReporting.getStationPrices(station.id);
+      priceReporting.getStationPrices(station.id, sentCount > 0);
     }
-  }, [station, priceReporting.getStationPrices]);
+  }, [station, sentCount, priceReporting.getStationPrices]);
 
   if (loading) {
     return <LoadingIndicator message='Loading station details...' />;
@@ -75,16 +90,31 @@ export default function StationDetailsScreen() {
     );
   }
 
-  // Event handlers
-  const handleConfirmPrice = (reportId: string | null) => {
-    if (reportId && checkIfUserLoggedIn()) {
-      priceReporting.voteOnPrice(reportId, true);
-    }
-  };
+  // Prices after the user's discounts at this station's brand
+  const getStationEffectivePrice = (fuelType: string, price: number | null) =>
+    getEffectivePrice(station.brand, fuelType, price);
 
-  const handleDisputePrice = (reportId: string | null) => {
-    if (reportId && checkIfUserLoggedIn()) {
-      priceReporting.voteOnPrice(reportId, false);
+  // Full tank for the active vehicle, at the community price if there is one
+  const vehicleFuelType = normalizeFuelType(defaultFuelType);
+  const communityTankCost = getFullTankCost(
+    activeVehicle,
+    defaultFuelType,
+    priceReporting.stationPrices.find(
+      (price) => normalizeFuelType(price.fuelType) === vehicleFuelType
+    )?.communityPrice
+  );
+  const doeTankCost = getFullTankCost(
+    activeVehicle,
+    defaultFuelType,
+    doePrices.find(
+      (price) => normalizeFuelType(price.fuel_type) === vehicleFuelType
+    )?.common_price
+  );
+
+  // Event handlers
+  const handleVote = (reportId: string, vote: VoteDirection | null) => {
+    if (checkIfUserLoggedIn()) {
+      priceReporting.voteOnPrice(reportId, vote);
     }
   };
 
@@ -101,21 +131,18 @@ export default function StationDetailsScreen() {
   };
 
   const checkIfUserLoggedIn = () => {
-    // For testing without authentication, always return true
-    return true;
-
-    // When you implement auth, replace with this:
-    /*
-    if (!currentUser) {
+    if (!user) {
       Alert.alert(
         'Login Required',
         'You need to be logged in to report prices.',
-        [{ text: 'OK' }]
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Sign In', onPress: () => router.push('/profile') },
+        ]
       );
       return false;
     }
     return true;
-    */
   };
 
   const handleGetDirections = () => {
@@ -126,17 +153,41 @@ export default function StationDetailsScreen() {
     );
   };
 
-  const handleSaveStation = () => {
-    // TODO: Implement save station functionality
-    Alert.alert(
-      'Coming Soon',
-      'Save station feature will be available in a future update.'
-    );
+  const handleSaveStation = async () => {
+    try {
+      await toggleFavorite(station.id);
+    } catch {
+      Alert.alert(
+        'Error',
+        'Could not update your favorites. Please try again.'
+      );
+    }
   };
 
   return (
     <ScrollView style={styles.container}>
-      <StationHeader station={station} onBack={() => router.back()} />
+      <StationHeader
+        station={station}
+        onBack={() => router.back()}
+        reportedStatus={stationReports.reportedStatus}
+      />
+      <OfflineBanner offline={offline} cachedAt={cachedAt} />
+      <FullTankCost
+        vehicle={activeVehicle}
+        cost={communityTankCost ?? doeTankCost}
+        source={communityTankCost !== null ? 'community' : 'doe'}
+      />
+
+      <StationStatusSection
+        reports={stationReports.reports}
+        loading={stationReports.loading}
+        submitting={stationReports.submitting}
+        fuelTypes={FUEL_TYPES}
+        userVotes={stationReports.userVotes}
+        currentUserId={user?.id}
+        onVote={stationReports.voteOnReport}
+        onSubmit={stationReports.submitReport}
+      />
 
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>DOE Reference Data</Text>
@@ -144,6 +195,7 @@ export default function StationDetailsScreen() {
           prices={doePrices}
           loading={loadingPrices}
           weekOf={weekOf}
+          getEffectivePrice={getStationEffectivePrice}
         />
       </View>
 
@@ -152,14 +204,41 @@ export default function StationDetailsScreen() {
         loading={priceReporting.isLoading}
         cycle={{ currentCycle, daysRemaining }}
         onAddPrice={handleAddPrice}
-        onConfirm={handleConfirmPrice}
-        onDispute={handleDisputePrice}
+        onVote={handleVote}
         onUpdate={handleUpdatePrice}
+        userVotes={priceReporting.userVotes}
+        outboxItems={outbox.items}
+        onRetryOutboxItem={outbox.retryItem}
+        onRemoveOutboxItem={outbox.removeItem}
+        getEffectivePrice={getStationEffectivePrice}
       />
 
+      <View style={styles.section}>
+        <View style={styles.sectionHeaderControls}>
+          <Text style={styles.sectionTitle}>Price History</Text>
+          <TouchableOpacity
+            onPress={() =>
+              router.push({
+                pathname: '/price-trends',
+                params: { area: station.city },
+              })
+            }
+          >
+            <Text style={styles.sectionLink}>{station.city} trend</Text>
+          </TouchableOpacity>
+        </View>
+        <PriceTrendSection
+          area={station.city}
+          brand={station.brand}
+          stationIds={[station.id]}
+          initialFuelType={defaultFuelType}
+        />
+      </View>
+
       <ActionButtons
         onGetDirections={handleGetDirections}
         onSaveStation={handleSaveStation}
+        isSaved={isFavorite(station.id)}
       />
 
       <StationInfoSection
@@ -173,10 +252,11 @@ export default function StationDetailsScreen() {
           visible={priceReporting.isReportModalVisible}
           onClose={priceReporting.closeReportModal}
           onSubmit={priceReporting.submitPriceReport}
+          onCheckPrice={priceReporting.checkPrice}
           stationName={priceReporting.currentStation.name}
           stationId={priceReporting.currentStation.id}
           initialPrice={priceReporting.initialPrice}
-          selectedFuelType={priceReporting.currentFuelType || undefined}
+          selectedFuelType={priceReporting.currentFuelType || defaultFuelType}
           fuelTypes={FUEL_TYPES}
           isLoading={priceReporting.isLoading}
         />
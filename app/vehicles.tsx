@@ -0,0 +1,386 @@
+// app/vehicles.tsx
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  SafeAreaView,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAuth } from '@/context/AuthContext';
+import { useVehicles } from '@/context/VehicleContext';
+import { Vehicle } from '@/core/models/Vehicle';
+import { validateVehicle } from '@/utils/vehicles';
+import { FUEL_TYPES } from '@/utils/constants';
+import { getShortFuelTypeName } from '@/utils/formatters';
+
+export default function VehiclesScreen() {
+  const { user } = useAuth();
+  const {
+    vehicles,
+    activeVehicle,
+    loading,
+    saveVehicle,
+    removeVehicle,
+    setActiveVehicle,
+  } = useVehicles();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [fuelType, setFuelType] = useState(FUEL_TYPES[0]);
+  const [tankCapacity, setTankCapacity] = useState('');
+  const [fuelEconomy, setFuelEconomy] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setFuelType(FUEL_TYPES[0]);
+    setTankCapacity('');
+    setFuelEconomy('');
+  };
+
+  const handleEdit = (vehicle: Vehicle) => {
+    setEditingId(vehicle.id);
+    setName(vehicle.name);
+    setFuelType(vehicle.fuel_type);
+    setTankCapacity(String(vehicle.tank_capacity));
+    setFuelEconomy(String(vehicle.fuel_economy));
+  };
+
+  const handleSave = async () => {
+    const input = {
+      name: name.trim(),
+      fuel_type: fuelType,
+      tank_capacity: parseFloat(tankCapacity),
+      fuel_economy: parseFloat(fuelEconomy),
+    };
+
+    const validationError = validateVehicle(input);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveVehicle(input, editingId || undefined);
+      resetForm();
+    } catch (err) {
+      console.error('Error saving vehicle:', err);
+      Alert.alert('Error', 'Failed to save vehicle');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetActive = async (vehicleId: string) => {
+    try {
+      await setActiveVehicle(vehicleId);
+    } catch {
+      Alert.alert('Error', 'Failed to switch vehicle');
+    }
+  };
+
+  const confirmRemove = (vehicle: Vehicle) => {
+    Alert.alert('Remove Vehicle', `Remove ${vehicle.name}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await removeVehicle(vehicle.id);
+            if (editingId === vehicle.id) resetForm();
+          } catch (err) {
+            console.error('Error removing vehicle:', err);
+            Alert.alert('Error', 'Failed to remove vehicle');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView style={styles.container}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <MaterialIcons name='arrow-back' size={24} color='#333' />
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.title}>My Vehicles</Text>
+        <Text style={styles.subtitle}>
+          Prices are shown for your active vehicle's fuel, with what a full tank
+          costs.
+          {!user && ' Sign in to keep your vehicles across devices.'}
+        </Text>
+
+        {/* Vehicle list */}
+        {loading && <ActivityIndicator color='#2a9d8f' />}
+        {vehicles.map((vehicle) => {
+          const isActive = activeVehicle?.id === vehicle.id;
+
+          return (
+            <TouchableOpacity
+              key={vehicle.id}
+              style={[styles.vehicleRow, isActive && styles.activeVehicleRow]}
+              onPress={() => handleSetActive(vehicle.id)}
+            >
+              <MaterialIcons
+                name={isActive ? 'radio-button-checked' : 'radio-button-off'}
+                size={22}
+                color='#2a9d8f'
+              />
+              <View style={styles.vehicleInfo}>
+                <Text style={styles.vehicleName}>{vehicle.name}</Text>
+                <Text style={styles.vehicleDetail}>
+                  {getShortFuelTypeName(vehicle.fuel_type)} ·{' '}
+                  {vehicle.tank_capacity} L · {vehicle.fuel_economy} km/L
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => handleEdit(vehicle)}
+              >
+                <MaterialIcons name='edit' size={20} color='#666' />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => confirmRemove(vehicle)}
+              >
+                <MaterialIcons
+                  name='delete-outline'
+                  size={22}
+                  color='#e74c3c'
+                />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          );
+        })}
+
+        {/* Add or edit form */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>
+            {editingId ? 'Edit Vehicle' : 'Add Vehicle'}
+          </Text>
+
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder='Name (e.g. Family Car)'
+          />
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.chipRow}>
+              {FUEL_TYPES.map((item) => (
+                <TouchableOpacity
+                  key={item}
+                  style={[
+                    styles.chip,
+                    fuelType === item && styles.selectedChip,
+                  ]}
+                  onPress={() => setFuelType(item)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      fuelType === item && styles.selectedChipText,
+                    ]}
+                  >
+                    {getShortFuelTypeName(item)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[styles.input, styles.halfInput]}
+              value={tankCapacity}
+              onChangeText={setTankCapacity}
+              placeholder='Tank (liters)'
+              keyboardType='decimal-pad'
+            />
+            <TextInput
+              style={[styles.input, styles.halfInput]}
+              value={fuelEconomy}
+              onChangeText={setFuelEconomy}
+              placeholder='Economy (km/L)'
+              keyboardType='decimal-pad'
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.button, saving && styles.buttonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color='#fff' size='small' />
+            ) : (
+              <Text style={styles.buttonText}>
+                {editingId ? 'Save Changes' : 'Add Vehicle'}
+              </Text>
+            )}
+          </TouchableOpacity>
+
+          {editingId && (
+            <TouchableOpacity style={styles.cancelButton} onPress={resetForm}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 16,
+  },
+  vehicleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#fff',
+  },
+  activeVehicleRow: {
+    borderColor: '#2a9d8f',
+  },
+  vehicleInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  vehicleName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  vehicleDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  iconButton: {
+    marginLeft: 8,
+    padding: 4,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginTop: 16,
+    marginBottom: 24,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#2a9d8f',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  selectedChipText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  halfInput: {
+    width: '48%',
+  },
+  button: {
+    backgroundColor: '#2a9d8f',
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: '#aaa',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    padding: 12,
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,51 @@
+// __tests__/utils/abuseProtection.test.ts
+import { detectVoteRings, VoteEdge } from '../../utils/abuseProtection';
+
+// Helper function to create repeated upvotes from one user to another
+const upvotes = (voter: string, reporter: string, count: number) =>
+  Array.from(
+    { length: count },
+    (): VoteEdge => ({
+      voter_id: voter,
+      reporter_id: reporter,
+      is_upvote: true,
+    })
+  );
+
+describe('abuseProtection', () => {
+  describe('detectVoteRings', () => {
+    it('should find accounts that only upvote each other', () => {
+      const rings = detectVoteRings([
+        ...upvotes('a', 'b', 4),
+        ...upvotes('b', 'a', 4),
+        ...upvotes('b', 'c', 3),
+        ...upvotes('c', 'b', 3),
+      ]);
+
+      expect(rings).toEqual([
+        { memberIds: ['a', 'b', 'c'], insideUpvotes: 14 },
+      ]);
+    });
+
+    it('should ignore mutual votes from users who vote widely', () => {
+      const rings = detectVoteRings([
+        ...upvotes('a', 'b', 3),
+        ...upvotes('b', 'a', 3),
+        ...upvotes('a', 'x', 2),
+        ...upvotes('a', 'y', 2),
+      ]);
+
+      expect(rings).toEqual([]);
+    });
+
+    it('should ignore one-way support and downvotes', () => {
+      const rings = detectVoteRings([
+        ...upvotes('a', 'b', 5),
+        ...upvotes('b', 'a', 2),
+        { voter_id: 'b', reporter_id: 'a', is_upvote: false },
+      ]);
+
+      expect(rings).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+// __tests__/utils/cache.test.ts
+import {
+  cachedFetch,
+  getLocationCacheKey,
+  isCacheFresh,
+} from '../../utils/cache';
+import { loadData, saveData } from '../../utils/storage';
+
+// Keep cache entries in memory instead of AsyncStorage
+jest.mock('../../utils/storage', () => {
+  const store: Record<string, unknown> = {};
+  return {
+    loadData: jest.fn(async (key: string) => store[key] ?? null),
+    saveData: jest.fn(async (key: string, value: unknown) => {
+      store[key] = value;
+    }),
+    __store: store,
+  };
+});
+
+const store = jest.requireMock('../../utils/storage').__store as Record<
+  string,
+  unknown
+>;
+
+const MINUTE = 60 * 1000;
+
+// Helper function to seed a cache entry of a given age
+const seedCache = (key: string, data: unknown, ageMs: number) => {
+  store[`cache:${key}`] = {
+    data,
+    cachedAt: new Date(Date.now() - ageMs).toISOString(),
+  };
+};
+
+// Let background revalidation settle
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('cache', () => {
+  beforeEach(() => {
+    Object.keys(store).forEach((key) => delete store[key]);
+    jest.clearAllMocks();
+  });
+
+  describe('isCacheFresh', () => {
+    it('should compare the entry age against the TTL', () => {
+      const now = Date.parse('2025-03-18T10:00:00Z');
+      const entry = { data: null, cachedAt: '2025-03-18T09:30:00Z' };
+
+      expect(isCacheFresh(entry, 60 * MINUTE, now)).toBe(true);
+      expect(isCacheFresh(entry, 15 * MINUTE, now)).toBe(false);
+      expect(isCacheFresh({ data: null, cachedAt: 'bad' }, MINUTE, now)).toBe(
+        false
+      );
+    });
+  });
+
+  describe('getLocationCacheKey', () => {
+    it('should round coordinates so nearby positions share a key', () => {
+      expect(
+        getLocationCacheKey('stations', { latitude: 14.5991, longitude: 121.0 })
+      ).toBe(
+        getLocationCacheKey('stations', {
+          latitude: 14.6012,
+          longitude: 120.9971,
+        })
+      );
+    });
+  });
+
+  describe('cachedFetch', () => {
+    it('should fetch and store when nothing is cached', async () => {
+      const fetcher = jest.fn(async () => ['fresh']);
+
+      const result = await cachedFetch('prices', MINUTE, fetcher);
+
+      expect(result.data).toEqual(['fresh']);
+      expect(result.offline).toBe(false);
+      expect(saveData).toHaveBeenCalledTimes(1);
+    });
+
+    it('should serve fresh cache without fetching', async () => {
+      seedCache('prices', ['cached'], 0);
+      const fetcher = jest.fn(async () => ['fresh']);
+
+      const result = await cachedFetch('prices', MINUTE, fetcher);
+
+      expect(result.data).toEqual(['cached']);
+      expect(fetcher).not.toHaveBeenCalled();
+    });
+
+    it('should return stale cache and revalidate in the background', async () => {
+      seedCache('prices', ['stale'], 5 * MINUTE);
+      const onRevalidate = jest.fn();
+
+      const result = await cachedFetch(
+        'prices',
+        MINUTE,
+        async () => ['fresh'],
+        { onRevalidate }
+      );
+      await flushPromises();
+
+      expect(result.data).toEqual(['stale']);
+      expect(onRevalidate).toHaveBeenCalledWith(
+        expect.objectContaining({ data: ['fresh'], offline: false })
+      );
+    });
+
+    it('should fall back to cache when a forced refresh fails', async () => {
+      seedCache('prices', ['cached'], 0);
+
+      const result = await cachedFetch(
+        'prices',
+        MINUTE,
+        async () => {
+          throw new Error('Network request failed');
+        },
+        { forceRefresh: true }
+      );
+
+      expect(result.data).toEqual(['cached']);
+      expect(result.offline).toBe(true);
+    });
+
+    it('should rethrow when offline with nothing cached', async () => {
+      await expect(
+        cachedFetch('prices', MINUTE, async () => {
+          throw new Error('Network request failed');
+        })
+      ).rejects.toThrow('Network request failed');
+      expect(loadData).toHaveBeenCalledWith('cache:prices');
+    });
+  });
+});
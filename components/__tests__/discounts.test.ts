@@ -0,0 +1,147 @@
+// __tests__/utils/discounts.test.ts
+import {
+  applyDiscount,
+  describeDiscount,
+  getEffectivePrice,
+  getHeldPrograms,
+  isProgramActive,
+  validateDiscountProgram,
+} from '../../utils/discounts';
+import { DiscountProgram } from '../../core/models/DiscountProgram';
+
+const program = (overrides: Partial<DiscountProgram>): DiscountProgram => ({
+  id: 'p1',
+  name: 'Value Card',
+  brand: 'Petron',
+  fuel_type: null,
+  discount_type: 'per_liter',
+  amount: 1,
+  valid_from: null,
+  valid_until: null,
+  created_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('discount utilities', () => {
+  describe('validateDiscountProgram', () => {
+    const { id, created_at, ...input } = program({});
+
+    it('should accept a valid program', () => {
+      expect(validateDiscountProgram(input)).toBeNull();
+    });
+
+    it('should reject a percentage of 100 or more', () => {
+      expect(
+        validateDiscountProgram({
+          ...input,
+          discount_type: 'percent',
+          amount: 100,
+        })
+      ).not.toBeNull();
+    });
+
+    it('should reject an end date before the start date', () => {
+      expect(
+        validateDiscountProgram({
+          ...input,
+          valid_from: '2024-06-01',
+          valid_until: '2024-05-31',
+        })
+      ).not.toBeNull();
+    });
+  });
+
+  describe('isProgramActive', () => {
+    const june = program({
+      valid_from: '2024-06-01',
+      valid_until: '2024-06-30',
+    });
+
+    it('should use the Philippine date', () => {
+      // 17:00 UTC on May 31 is already June 1 in Manila
+      expect(isProgramActive(june, new Date('2024-05-31T17:00:00Z'))).toBe(
+        true
+      );
+      expect(isProgramActive(june, new Date('2024-05-31T15:00:00Z'))).toBe(
+        false
+      );
+    });
+
+    it('should include the last day', () => {
+      expect(isProgramActive(june, new Date('2024-06-30T12:00:00Z'))).toBe(
+        true
+      );
+      expect(isProgramActive(june, new Date('2024-07-01T12:00:00Z'))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('getHeldPrograms', () => {
+    it('should keep held programs that are running', () => {
+      const programs = [
+        program({ id: 'a' }),
+        program({ id: 'b' }),
+        program({ id: 'c', valid_until: '2020-01-01' }),
+      ];
+
+      const held = getHeldPrograms(
+        programs,
+        ['a', 'c'],
+        new Date('2024-06-15T00:00:00Z')
+      );
+
+      expect(held.map((item) => item.id)).toEqual(['a']);
+    });
+  });
+
+  describe('applyDiscount', () => {
+    it('should take pesos off per liter', () => {
+      expect(applyDiscount(program({ amount: 1.5 }), 60)).toBe(58.5);
+    });
+
+    it('should take a percentage off', () => {
+      expect(
+        applyDiscount(program({ discount_type: 'percent', amount: 3 }), 60)
+      ).toBe(58.2);
+    });
+  });
+
+  describe('getEffectivePrice', () => {
+    it('should pick the biggest discount for the brand and fuel', () => {
+      const programs = [
+        program({ id: 'card', amount: 1 }),
+        program({ id: 'fleet', fuel_type: 'Diesel', amount: 2 }),
+        program({ id: 'other', brand: 'Shell', amount: 5 }),
+      ];
+
+      const result = getEffectivePrice(programs, 'PETRON', 'Diesel', 60);
+
+      expect(result?.price).toBe(58);
+      expect(result?.program.id).toBe('fleet');
+    });
+
+    it('should skip programs for other fuels', () => {
+      const programs = [program({ fuel_type: 'Diesel', amount: 2 })];
+
+      expect(getEffectivePrice(programs, 'Petron', 'RON 95', 60)).toBeNull();
+    });
+
+    it('should return null for a missing price', () => {
+      expect(
+        getEffectivePrice([program({})], 'Petron', 'Diesel', 0)
+      ).toBeNull();
+    });
+  });
+
+  describe('describeDiscount', () => {
+    it('should describe per-liter and percentage discounts', () => {
+      expect(describeDiscount(program({ fuel_type: 'Diesel' }))).toBe(
+        '₱1.00/L off Diesel'
+      );
+      expect(
+        describeDiscount(program({ discount_type: 'percent', amount: 3 }))
+      ).toBe('3% off');
+    });
+  });
+});
@@ -0,0 +1,152 @@
+// __tests__/utils/doePriceParser.test.ts
+import {
+  diffDoePrices,
+  groupTextItemsIntoLines,
+  parseDoePriceLines,
+  parseReportDate,
+} from '../../utils/doePriceParser';
+import { FuelPrice } from '../../core/models/FuelPrice';
+
+// Text as it comes out of a DOE NCR report after line grouping
+const SAMPLE_REPORT = [
+  'DEPARTMENT OF ENERGY',
+  'PREVAILING RETAIL PUMP PRICES OF PETROLEUM PRODUCTS IN NCR',
+  'as of March 18, 2025',
+  'QUEZON CITY',
+  'PETRON',
+  'RON 95 58.10 61.45 59.90',
+  'Diesel 51.00 53.20 52.30',
+  'Diesel Plus - - -',
+  'SHELL',
+  'Gasoline (RON 91) 57.25',
+  'CITY OF MANILA',
+  'Caltex Diesel 50.80 52.90',
+  'Caltex Kerosene 70.10 72.00 71.50',
+];
+
+const createStoredPrice = (overrides: Partial<FuelPrice> = {}): FuelPrice => ({
+  id: 'stored-1',
+  area: 'Quezon City',
+  brand: 'Petron',
+  fuel_type: 'Diesel',
+  min_price: 51,
+  max_price: 53.2,
+  common_price: 52.3,
+  week_of: '2025-03-11',
+  updated_at: new Date(),
+  ...overrides,
+});
+
+describe('doePriceParser', () => {
+  describe('parseReportDate', () => {
+    it('should parse single dates and week ranges', () => {
+      expect(parseReportDate('as of March 18, 2025')).toBe('2025-03-18');
+      expect(parseReportDate('Monitoring period: April 1-7, 2025')).toBe(
+        '2025-04-01'
+      );
+      expect(parseReportDate('NCR')).toBeNull();
+    });
+  });
+
+  describe('groupTextItemsIntoLines', () => {
+    it('should order items top to bottom and left to right', () => {
+      const lines = groupTextItemsIntoLines([
+        { str: '52.30', x: 300, y: 500 },
+        { str: 'Diesel', x: 50, y: 501 },
+        { str: 'QUEZON CITY', x: 50, y: 520 },
+        { str: ' ', x: 10, y: 400 },
+      ]);
+
+      expect(lines).toEqual(['QUEZON CITY', 'Diesel 52.30']);
+    });
+  });
+
+  describe('parseDoePriceLines', () => {
+    it('should detect the report week', () => {
+      const result = parseDoePriceLines(SAMPLE_REPORT);
+      expect(result.weekOf).toBe('2025-03-18');
+      expect(result.rows.every((row) => row.week_of === '2025-03-18')).toBe(
+        true
+      );
+    });
+
+    it('should attribute rows to the current area and brand', () => {
+      const result = parseDoePriceLines(SAMPLE_REPORT);
+
+      const petronDiesel = result.rows.find(
+        (row) => row.brand === 'Petron' && row.fuel_type === 'Diesel'
+      );
+      expect(petronDiesel).toEqual({
+        area: 'Quezon City',
+        brand: 'Petron',
+        fuel_type: 'Diesel',
+        min_price: 51,
+        max_price: 53.2,
+        common_price: 52.3,
+        week_of: '2025-03-18',
+      });
+
+      const shellRon91 = result.rows.find((row) => row.brand === 'Shell');
+      expect(shellRon91?.fuel_type).toBe('Gasoline (RON 91)');
+      expect(shellRon91?.common_price).toBe(57.25);
+      expect(shellRon91?.min_price).toBe(57.25);
+    });
+
+    it('should read brands inline and normalize city headings', () => {
+      const result = parseDoePriceLines(SAMPLE_REPORT);
+      const caltex = result.rows.filter((row) => row.brand === 'Caltex');
+
+      expect(caltex).toHaveLength(2);
+      expect(caltex.every((row) => row.area === 'Manila City')).toBe(true);
+
+      // Two cells are a range without a common price
+      const caltexDiesel = caltex.find((row) => row.fuel_type === 'Diesel');
+      expect(caltexDiesel?.max_price).toBe(52.9);
+      expect(caltexDiesel?.common_price).toBe(0);
+    });
+
+    it('should treat placeholder cells as missing prices', () => {
+      const result = parseDoePriceLines(SAMPLE_REPORT);
+      const dieselPlus = result.rows.find(
+        (row) => row.fuel_type === 'Diesel Plus'
+      );
+
+      expect(dieselPlus?.common_price).toBe(0);
+      expect(dieselPlus?.min_price).toBe(0);
+    });
+
+    it('should skip product rows without an area or brand', () => {
+      const result = parseDoePriceLines(
+        ['Diesel 51.00 53.20 52.30', 'QUEZON CITY', 'Diesel 51.00'],
+        '2025-03-11'
+      );
+
+      expect(result.rows).toHaveLength(0);
+      expect(result.skippedLines).toHaveLength(2);
+      expect(result.weekOf).toBe('2025-03-11');
+    });
+  });
+
+  describe('diffDoePrices', () => {
+    it('should group rows into added, changed, unchanged and removed', () => {
+      const { rows } = parseDoePriceLines(SAMPLE_REPORT);
+      const existing = [
+        createStoredPrice(),
+        createStoredPrice({
+          id: 'stored-2',
+          fuel_type: 'Gasoline (RON 95)',
+          common_price: 60.4,
+        }),
+        createStoredPrice({ id: 'stored-3', brand: 'Seaoil' }),
+      ];
+
+      const diff = diffDoePrices(existing, rows);
+
+      expect(diff.unchanged.map((row) => row.fuel_type)).toEqual(['Diesel']);
+      expect(diff.changed).toHaveLength(1);
+      expect(diff.changed[0].commonDelta).toBe(-0.5);
+      expect(diff.removed.map((price) => price.id)).toEqual(['stored-3']);
+      expect(diff.added).toHaveLength(rows.length - 2);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+// __tests__/utils/favorites.test.ts
+import {
+  addFavorite,
+  mergeFavorites,
+  moveFavorite,
+  removeFavorite,
+} from '../../utils/favorites';
+
+describe('favorites', () => {
+  describe('mergeFavorites', () => {
+    it('should keep the user order and append guest-only stations', () => {
+      expect(mergeFavorites(['a', 'b'], ['c', 'a', 'd'])).toEqual([
+        'a',
+        'b',
+        'c',
+        'd',
+      ]);
+    });
+  });
+
+  describe('addFavorite / removeFavorite', () => {
+    it('should not add duplicates', () => {
+      const favorites = ['a'];
+      expect(addFavorite(favorites, 'a')).toBe(favorites);
+      expect(addFavorite(favorites, 'b')).toEqual(['a', 'b']);
+    });
+
+    it('should remove a station', () => {
+      expect(removeFavorite(['a', 'b', 'c'], 'b')).toEqual(['a', 'c']);
+    });
+  });
+
+  describe('moveFavorite', () => {
+    it('should move a station to a new position', () => {
+      expect(moveFavorite(['a', 'b', 'c'], 2, 0)).toEqual(['c', 'a', 'b']);
+      expect(moveFavorite(['a', 'b', 'c'], 0, 1)).toEqual(['b', 'a', 'c']);
+    });
+
+    it('should clamp the target and ignore invalid sources', () => {
+      expect(moveFavorite(['a', 'b', 'c'], 0, 10)).toEqual(['b', 'c', 'a']);
+      expect(moveFavorite(['a', 'b'], 5, 0)).toEqual(['a', 'b']);
+    });
+  });
+});
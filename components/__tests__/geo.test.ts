@@ -0,0 +1,38 @@
+// __tests__/utils/geo.test.ts
+import { calculateDistance, getBoundingBox } from '../../utils/geo';
+
+const MANILA = { latitude: 14.5995, longitude: 120.9842 };
+
+describe('geo', () => {
+  describe('getBoundingBox', () => {
+    it('should contain every point within the radius', () => {
+      const bounds = getBoundingBox(MANILA, 5);
+
+      // Points 5km due north and due east sit on the edges of the box
+      expect(
+        calculateDistance(MANILA, {
+          latitude: bounds.north,
+          longitude: MANILA.longitude,
+        })
+      ).toBeCloseTo(5, 1);
+      expect(
+        calculateDistance(MANILA, {
+          latitude: MANILA.latitude,
+          longitude: bounds.east,
+        })
+      ).toBeCloseTo(5, 1);
+    });
+
+    it('should widen the longitude span away from the equator', () => {
+      const equator = getBoundingBox({ latitude: 0, longitude: 0 }, 10);
+      const north = getBoundingBox({ latitude: 60, longitude: 0 }, 10);
+
+      expect(north.east - north.west).toBeGreaterThan(
+        equator.east - equator.west
+      );
+      expect(north.north - north.south).toBeCloseTo(
+        equator.north - equator.south
+      );
+    });
+  });
+});
@@ -0,0 +1,111 @@
+// __tests__/utils/mapClustering.test.ts
+import {
+  clusterStations,
+  getClusterRegion,
+  getPriceTier,
+  regionToBoundingBox,
+  MapRegion,
+} from '../../utils/mapClustering';
+import { GasStation } from '../../core/models/GasStation';
+
+// Helper function to create a station at a given position
+const createTestStation = (
+  id: string,
+  latitude: number,
+  longitude: number
+): GasStation => ({
+  id,
+  name: `Station ${id}`,
+  brand: 'Petron',
+  address: '123 Test St',
+  city: 'Quezon City',
+  coordinates: { latitude, longitude },
+  amenities: [],
+  operating_hours: {
+    open: '00:00',
+    close: '23:59',
+    is24_hours: true,
+    days_open: [],
+  },
+  status: 'active',
+});
+
+const ZOOMED_OUT: MapRegion = {
+  latitude: 14.6,
+  longitude: 121.0,
+  latitudeDelta: 0.6,
+  longitudeDelta: 0.6,
+};
+
+const ZOOMED_IN: MapRegion = {
+  ...ZOOMED_OUT,
+  latitudeDelta: 0.02,
+  longitudeDelta: 0.02,
+};
+
+describe('mapClustering', () => {
+  describe('regionToBoundingBox', () => {
+    it('should convert a region center and span to bounds', () => {
+      const bounds = regionToBoundingBox(ZOOMED_OUT);
+
+      expect(bounds.north).toBeCloseTo(14.9);
+      expect(bounds.south).toBeCloseTo(14.3);
+      expect(bounds.east).toBeCloseTo(121.3);
+      expect(bounds.west).toBeCloseTo(120.7);
+    });
+  });
+
+  describe('clusterStations', () => {
+    const stations = [
+      createTestStation('a', 14.6001, 121.0001),
+      createTestStation('b', 14.6002, 121.0002),
+      createTestStation('c', 14.75, 121.2),
+      createTestStation('no-coords', 0, 0),
+    ];
+
+    it('should group nearby stations when zoomed out', () => {
+      const clusters = clusterStations(stations, ZOOMED_OUT);
+
+      expect(clusters).toHaveLength(2);
+      const grouped = clusters.find((c) => c.stations.length === 2);
+      expect(grouped?.stations.map((s) => s.id)).toEqual(['a', 'b']);
+      expect(grouped?.coordinates.latitude).toBeCloseTo(14.60015);
+    });
+
+    it('should show every station when zoomed in', () => {
+      const clusters = clusterStations(stations, ZOOMED_IN);
+
+      expect(clusters.map((c) => c.id)).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('getClusterRegion', () => {
+    it('should fit all stations of a cluster', () => {
+      const region = getClusterRegion({
+        id: 'cluster',
+        coordinates: { latitude: 14.65, longitude: 121.05 },
+        stations: [
+          createTestStation('a', 14.6, 121.0),
+          createTestStation('b', 14.7, 121.1),
+        ],
+      });
+
+      expect(region.latitude).toBeCloseTo(14.65);
+      expect(region.longitudeDelta).toBeCloseTo(0.15);
+    });
+  });
+
+  describe('getPriceTier', () => {
+    it('should split the price range into thirds', () => {
+      expect(getPriceTier(55, 55, 61)).toBe('cheap');
+      expect(getPriceTier(58, 55, 61)).toBe('average');
+      expect(getPriceTier(61, 55, 61)).toBe('expensive');
+    });
+
+    it('should handle missing prices and a flat range', () => {
+      expect(getPriceTier(undefined, 55, 61)).toBe('unknown');
+      expect(getPriceTier(0, 55, 61)).toBe('unknown');
+      expect(getPriceTier(58, 58, 58)).toBe('cheap');
+    });
+  });
+});
@@ -0,0 +1,142 @@
+// __tests__/utils/netSavings.test.ts
+import {
+  describeNetSavings,
+  findNetSavingsReference,
+  getEffectiveCost,
+  rankByNetSavings,
+} from '../../utils/netSavings';
+
+const OPTIONS = { fillUpLiters: 20, fuelEconomy: 10 };
+
+// Helper function to create a price item
+const createItem = (
+  id: string,
+  price: number | null,
+  distance?: number
+): { id: string; price: number | null; distance?: number } => ({
+  id,
+  price,
+  distance,
+});
+
+describe('netSavings', () => {
+  describe('getEffectiveCost', () => {
+    it('should add the fuel burned on the round trip', () => {
+      // 20 L plus 2 km there and back at 10 km/L
+      expect(getEffectiveCost(60, 1, OPTIONS)).toBe(1212);
+    });
+  });
+
+  describe('rankByNetSavings', () => {
+    it('should rank a nearby station above a slightly cheaper distant one', () => {
+      const ranked = rankByNetSavings(
+        [createItem('far', 59.7, 12), createItem('near', 60, 0.3)],
+        OPTIONS
+      );
+
+      expect(ranked.map((item) => item.id)).toEqual(['near', 'far']);
+      expect(ranked[0].netSavings?.isReference).toBe(true);
+      expect(ranked[1].netSavings?.savings).toBeLessThan(0);
+    });
+
+    it('should measure savings against the nearest priced station', () => {
+      const ranked = rankByNetSavings(
+        [createItem('near', 60, 0.5), createItem('cheap', 57, 2)],
+        OPTIONS
+      );
+
+      expect(ranked[0].id).toBe('cheap');
+      expect(ranked[0].netSavings).toEqual({
+        effectiveCost: 1162.8,
+        savings: 43.2,
+        detourKm: 3,
+        isReference: false,
+      });
+    });
+
+    it('should put prices without a distance and invalid prices last', () => {
+      const ranked = rankByNetSavings(
+        [
+          createItem('no-price', 0, 0.2),
+          createItem('unknown', 55),
+          createItem('near', 60, 0.5),
+        ],
+        OPTIONS
+      );
+
+      expect(ranked.map((item) => item.id)).toEqual([
+        'near',
+        'unknown',
+        'no-price',
+      ]);
+      expect(ranked[1].netSavings).toBeUndefined();
+    });
+
+    it('should measure savings against a given reference station', () => {
+      // The nearest priced station didn't make the shortlist
+      const ranked = rankByNetSavings(
+        [createItem('cheap', 57, 2), createItem('mid', 59, 1)],
+        OPTIONS,
+        { price: 60, distance: 0.5 }
+      );
+
+      expect(ranked[0].netSavings?.savings).toBe(43.2);
+      expect(ranked[1].netSavings?.isReference).toBe(false);
+    });
+  });
+
+  describe('findNetSavingsReference', () => {
+    it('should pick the nearest station with a valid price', () => {
+      expect(
+        findNetSavingsReference(
+          [
+            { id: 'unpriced', distance: 0.2 },
+            { id: 'zero', distance: 0.3 },
+            { id: 'near', distance: 0.5 },
+            { id: 'far', distance: 4 },
+            { id: 'unknown' },
+          ],
+          { zero: 0, near: 60, far: 57, unknown: 55 }
+        )
+      ).toEqual({ price: 60, distance: 0.5 });
+      expect(
+        findNetSavingsReference([{ id: 'a', distance: 1 }], {})
+      ).toBeNull();
+    });
+  });
+
+  describe('describeNetSavings', () => {
+    it('should explain a saving after a detour', () => {
+      expect(
+        describeNetSavings({
+          effectiveCost: 1162.8,
+          savings: 42.4,
+          detourKm: 3.1,
+          isReference: false,
+        })
+      ).toBe('Saves ₱42 even after 3.1 km detour');
+    });
+
+    it('should explain when the detour costs more than it saves', () => {
+      expect(
+        describeNetSavings({
+          effectiveCost: 1265.6,
+          savings: -59.6,
+          detourKm: 11,
+          isReference: false,
+        })
+      ).toBe('Costs ₱60 more after 11.0 km detour');
+    });
+
+    it('should mark the nearest station', () => {
+      expect(
+        describeNetSavings({
+          effectiveCost: 1206,
+          savings: 0,
+          detourKm: 0,
+          isReference: true,
+        })
+      ).toBe('Nearest station with a price');
+    });
+  });
+});
@@ -0,0 +1,191 @@
+// __tests__/utils/operatingHours.test.ts
+import {
+  formatWeeklyHours,
+  getOpenStatus,
+  getOpeningPeriods,
+  isHoliday,
+  isOpenAt,
+  periodsFromGoogle,
+} from '../../utils/operatingHours';
+import { GasStation, OpeningPeriod } from '../../core/models/GasStation';
+
+const station = (
+  operatingHours: Partial<GasStation['operating_hours']>,
+  status: GasStation['status'] = 'active'
+): GasStation => ({
+  id: 'station-1',
+  name: 'Test Station',
+  brand: 'Petron',
+  address: 'EDSA',
+  city: 'Makati',
+  coordinates: { latitude: 14.55, longitude: 121.02 },
+  amenities: [],
+  operating_hours: {
+    open: '09:00',
+    close: '17:00',
+    is24_hours: false,
+    days_open: [],
+    ...operatingHours,
+  },
+  status,
+});
+
+// Weekdays 6 AM to 10 PM, Friday and Saturday until 2 AM, Sunday 8 to 8
+const periods: OpeningPeriod[] = [
+  ...[1, 2, 3, 4].map((day) => ({ day, open: '06:00', close: '22:00' })),
+  { day: 5, open: '06:00', close: '02:00' },
+  { day: 6, open: '06:00', close: '02:00' },
+  { day: 0, open: '08:00', close: '20:00' },
+];
+
+// Manila local time as a Date; 2024-06-10 is a Monday
+const manila = (value: string) => new Date(`${value}+08:00`);
+
+describe('operating hours utilities', () => {
+  describe('periodsFromGoogle', () => {
+    it('should keep each day and overnight closing', () => {
+      expect(
+        periodsFromGoogle([
+          { open: { day: 1, time: '0600' }, close: { day: 1, time: '2200' } },
+          { open: { day: 6, time: '0600' }, close: { day: 0, time: '0200' } },
+        ])
+      ).toEqual([
+        { day: 1, open: '06:00', close: '22:00' },
+        { day: 6, open: '06:00', close: '02:00' },
+      ]);
+    });
+
+    it('should split a period longer than a day at midnight', () => {
+      expect(
+        periodsFromGoogle([
+          { open: { day: 1, time: '0600' }, close: { day: 3, time: '2200' } },
+        ])
+      ).toEqual([
+        { day: 1, open: '06:00', close: '00:00' },
+        { day: 2, open: '00:00', close: '00:00' },
+        { day: 3, open: '00:00', close: '22:00' },
+      ]);
+    });
+
+    it('should give no periods for around-the-clock hours', () => {
+      expect(periodsFromGoogle([{ open: { day: 0, time: '0000' } }])).toEqual(
+        []
+      );
+    });
+  });
+
+  describe('getOpeningPeriods', () => {
+    it('should fall back to the single pair on each listed day', () => {
+      expect(
+        getOpeningPeriods({
+          open: '07:00',
+          close: '19:00',
+          is24_hours: false,
+          days_open: ['monday', 'Saturday'],
+        })
+      ).toEqual([
+        { day: 1, open: '07:00', close: '19:00' },
+        { day: 6, open: '07:00', close: '19:00' },
+      ]);
+    });
+  });
+
+  describe('isOpenAt', () => {
+    const late = station({ periods });
+
+    it('should follow each day’s own hours', () => {
+      expect(isOpenAt(late, manila('2024-06-10T21:00:00'))).toBe(true);
+      expect(isOpenAt(late, manila('2024-06-10T23:00:00'))).toBe(false);
+      expect(isOpenAt(late, manila('2024-06-16T07:00:00'))).toBe(false);
+    });
+
+    it('should stay open past midnight', () => {
+      // Saturday 1 AM is still Friday night
+      expect(isOpenAt(late, manila('2024-06-15T01:00:00'))).toBe(true);
+      // Sunday 1 AM is still Saturday night, across the week boundary
+      expect(isOpenAt(late, manila('2024-06-16T01:00:00'))).toBe(true);
+      expect(isOpenAt(late, manila('2024-06-16T03:00:00'))).toBe(false);
+    });
+
+    it('should use Sunday hours on a holiday', () => {
+      // Wednesday, June 12 is Independence Day
+      expect(isOpenAt(late, manila('2024-06-12T07:00:00'))).toBe(false);
+      expect(isOpenAt(late, manila('2024-06-12T19:00:00'))).toBe(true);
+      expect(isOpenAt(late, manila('2024-06-12T21:00:00'))).toBe(false);
+    });
+
+    it('should treat a closed station as closed', () => {
+      expect(
+        isOpenAt(
+          station({ is24_hours: true }, 'temporary_closed'),
+          manila('2024-06-10T12:00:00')
+        )
+      ).toBe(false);
+      expect(
+        isOpenAt(station({ is24_hours: true }), manila('2024-06-10T03:00:00'))
+      ).toBe(true);
+    });
+  });
+
+  describe('getOpenStatus', () => {
+    it('should flag a station closing within the hour', () => {
+      const late = station({ periods });
+
+      expect(getOpenStatus(late, manila('2024-06-10T21:30:00'))).toBe(
+        'closing_soon'
+      );
+      expect(getOpenStatus(late, manila('2024-06-10T12:00:00'))).toBe('open');
+    });
+
+    it('should join periods that run into each other', () => {
+      const backToBack = station({
+        periods: [
+          { day: 1, open: '18:00', close: '00:00' },
+          { day: 2, open: '00:00', close: '06:00' },
+        ],
+      });
+
+      expect(getOpenStatus(backToBack, manila('2024-06-10T23:30:00'))).toBe(
+        'open'
+      );
+    });
+
+    it('should give no status when the hours are unknown', () => {
+      expect(
+        getOpenStatus(
+          station({ is_unknown: true }),
+          manila('2024-06-10T21:30:00')
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('isHoliday', () => {
+    it('should include fixed and extra holidays', () => {
+      expect(isHoliday(manila('2024-12-25T10:00:00'))).toBe(true);
+      expect(isHoliday(manila('2024-03-28T10:00:00'))).toBe(false);
+      expect(isHoliday(manila('2024-03-28T10:00:00'), ['2024-03-28'])).toBe(
+        true
+      );
+    });
+  });
+
+  describe('formatWeeklyHours', () => {
+    it('should list each day starting on Monday', () => {
+      const lines = formatWeeklyHours(
+        station({ periods: [{ day: 1, open: '06:00', close: '22:00' }] })
+          .operating_hours
+      );
+
+      expect(lines).toHaveLength(7);
+      expect(lines[0]).toMatch(/^Monday: 6:00\sAM - 10:00\sPM$/);
+      expect(lines[6]).toBe('Sunday: Closed');
+    });
+
+    it('should not list days when the hours are unknown', () => {
+      expect(
+        formatWeeklyHours(station({ is_unknown: true }).operating_hours)
+      ).toEqual(['Hours unknown']);
+    });
+  });
+});
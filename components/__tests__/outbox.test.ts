@@ -0,0 +1,226 @@
+// __tests__/utils/outbox.test.ts
+import {
+  enqueueOutboxItem,
+  getDueOutboxItems,
+  getRetryDelay,
+  MAX_OUTBOX_ATTEMPTS,
+  OutboxItem,
+  OutboxPayload,
+  pruneOutbox,
+  recordOutboxFailure,
+  resolveOutboxConflict,
+} from '../../utils/outbox';
+
+const NOW = Date.parse('2025-03-18T10:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+// Helper function to create a queued item
+const createItem = (
+  id: string,
+  payload: OutboxPayload,
+  overrides: Partial<OutboxItem> = {}
+): OutboxItem => ({
+  id,
+  user_id: 'user-1',
+  payload,
+  status: 'pending',
+  attempts: 0,
+  created_at: new Date(NOW - HOUR).toISOString(),
+  next_attempt_at: new Date(NOW - HOUR).toISOString(),
+  cycle_id: 'cycle-1',
+  error: null,
+  sent_at: null,
+  ...overrides,
+});
+
+const vote = (isUpvote: boolean | null): OutboxPayload => ({
+  kind: 'vote',
+  report_id: 'report-1',
+  station_id: 'station-1',
+  vote: isUpvote === null ? null : isUpvote ? 'up' : 'down',
+});
+
+const report: OutboxPayload = {
+  kind: 'report',
+  station_id: 'station-1',
+  fuel_type: 'Diesel',
+  price: 58.5,
+};
+
+describe('outbox', () => {
+  describe('enqueueOutboxItem', () => {
+    it('should collapse repeated votes into the latest direction', () => {
+      const queue = enqueueOutboxItem([], createItem('a', vote(true)));
+      const updated = enqueueOutboxItem(queue, createItem('b', vote(false)));
+
+      expect(updated).toHaveLength(1);
+      expect(updated[0].id).toBe('a');
+      expect(updated[0].payload).toEqual(vote(false));
+    });
+
+    it('should replace an unsent vote with its withdrawal', () => {
+      const queue = enqueueOutboxItem([], createItem('a', vote(true)));
+      const updated = enqueueOutboxItem(queue, createItem('b', vote(null)));
+
+      expect(updated).toHaveLength(1);
+      expect(updated[0].payload).toEqual(vote(null));
+    });
+
+    it('should ignore a duplicate unsent report', () => {
+      const queue = enqueueOutboxItem([], createItem('a', report));
+
+      expect(enqueueOutboxItem(queue, createItem('b', report))).toBe(queue);
+    });
+
+    it('should queue a new vote once the previous one was sent', () => {
+      const queue = [createItem('a', vote(true), { status: 'sent' })];
+
+      expect(
+        enqueueOutboxItem(queue, createItem('b', vote(false)))
+      ).toHaveLength(2);
+    });
+  });
+
+  describe('getDueOutboxItems', () => {
+    it('should return pending items that are due, oldest first', () => {
+      const queue = [
+        createItem('later', report, {
+          created_at: new Date(NOW - HOUR).toISOString(),
+        }),
+        createItem('earlier', vote(true), {
+          created_at: new Date(NOW - 2 * HOUR).toISOString(),
+        }),
+        createItem('waiting', report, {
+          next_attempt_at: new Date(NOW + HOUR).toISOString(),
+        }),
+        createItem('failed', report, { status: 'failed' }),
+      ];
+
+      expect(
+        getDueOutboxItems(queue, NOW, 'user-1').map((item) => item.id)
+      ).toEqual(['earlier', 'later']);
+    });
+
+    it('should only return items queued by the given user', () => {
+      const queue = [
+        createItem('mine', report),
+        createItem('theirs', vote(true), { user_id: 'user-2' }),
+      ];
+
+      expect(
+        getDueOutboxItems(queue, NOW, 'user-1').map((item) => item.id)
+      ).toEqual(['mine']);
+      expect(
+        getDueOutboxItems(queue, NOW, 'user-2').map((item) => item.id)
+      ).toEqual(['theirs']);
+    });
+  });
+
+  describe('resolveOutboxConflict', () => {
+    it('should fail votes on reports that expired or were removed', () => {
+      const item = createItem('a', vote(true));
+
+      expect(
+        resolveOutboxConflict(item, {
+          activeCycleId: null,
+          reportExpiresAt: new Date(NOW - 1).toISOString(),
+          now: NOW,
+        }).action
+      ).toBe('fail');
+      expect(
+        resolveOutboxConflict(item, {
+          activeCycleId: null,
+          reportExpiresAt: null,
+          now: NOW,
+        }).action
+      ).toBe('fail');
+      expect(
+        resolveOutboxConflict(item, {
+          activeCycleId: null,
+          reportExpiresAt: new Date(NOW + HOUR).toISOString(),
+          now: NOW,
+        }).action
+      ).toBe('send');
+    });
+
+    it('should fail reports made in a cycle that has ended', () => {
+      const item = createItem('a', report);
+
+      expect(
+        resolveOutboxConflict(item, { activeCycleId: 'cycle-2', now: NOW })
+      ).toEqual({
+        action: 'fail',
+        reason: 'The price cycle ended before sending',
+      });
+      expect(
+        resolveOutboxConflict(item, { activeCycleId: 'cycle-1', now: NOW })
+          .action
+      ).toBe('send');
+    });
+
+    it('should fail reports older than a day', () => {
+      const item = createItem('a', report, {
+        created_at: new Date(NOW - 25 * HOUR).toISOString(),
+      });
+
+      expect(
+        resolveOutboxConflict(item, { activeCycleId: 'cycle-1', now: NOW })
+          .action
+      ).toBe('fail');
+    });
+  });
+
+  describe('recordOutboxFailure', () => {
+    it('should back off between retries', () => {
+      expect(getRetryDelay(1)).toBe(30 * 1000);
+      expect(getRetryDelay(3)).toBe(2 * 60 * 1000);
+      expect(getRetryDelay(20)).toBe(30 * 60 * 1000);
+
+      const [item] = recordOutboxFailure(
+        [createItem('a', report)],
+        'a',
+        'Network request failed',
+        NOW
+      );
+
+      expect(item.status).toBe('pending');
+      expect(item.attempts).toBe(1);
+      expect(item.next_attempt_at).toBe(
+        new Date(NOW + 30 * 1000).toISOString()
+      );
+    });
+
+    it('should mark the item failed after the last attempt', () => {
+      const [item] = recordOutboxFailure(
+        [createItem('a', report, { attempts: MAX_OUTBOX_ATTEMPTS - 1 })],
+        'a',
+        'Network request failed',
+        NOW
+      );
+
+      expect(item.status).toBe('failed');
+      expect(item.error).toBe('Network request failed');
+    });
+  });
+
+  describe('pruneOutbox', () => {
+    it('should drop sent items after an hour', () => {
+      const queue = [
+        createItem('old', report, {
+          status: 'sent',
+          sent_at: new Date(NOW - 2 * HOUR).toISOString(),
+        }),
+        createItem('recent', vote(true), {
+          status: 'sent',
+          sent_at: new Date(NOW - 10 * 60 * 1000).toISOString(),
+        }),
+        createItem('pending', report),
+      ];
+
+      expect(pruneOutbox(queue, NOW).map((item) => item.id)).toEqual([
+        'recent',
+        'pending',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+// __tests__/utils/priceAdjustments.test.ts
+import {
+  describeAdjustment,
+  findAdjustment,
+  getNextAdjustmentDate,
+  getUpcomingAdjustments,
+  parseAdjustmentCsv,
+  projectDoePrices,
+  projectPrice,
+  summarizeAdjustments,
+} from '../../utils/priceAdjustments';
+import { PriceAdjustment } from '../../core/models/PriceAdjustment';
+import { FuelPrice } from '../../core/models/FuelPrice';
+
+// Helper function to create an adjustment
+const createAdjustment = (
+  overrides: Partial<PriceAdjustment> = {}
+): PriceAdjustment => ({
+  id: 'adj-1',
+  effective_date: '2025-03-18',
+  fuel_type: 'Diesel',
+  brand: null,
+  amount: 1.2,
+  created_at: '2025-03-17T02:00:00Z',
+  ...overrides,
+});
+
+// Monday 10 AM Manila time, the day before the adjustment
+const MONDAY = new Date('2025-03-17T02:00:00Z');
+
+describe('priceAdjustments', () => {
+  describe('parseAdjustmentCsv', () => {
+    it('should parse signed amounts and industry-wide rows', () => {
+      const result = parseAdjustmentCsv(
+        [
+          'effective_date,fuel_type,brand,amount',
+          '2025-03-18,Diesel,All,+1.20',
+          '2025-03-18,RON 95,Petron,-0.80',
+        ].join('\n')
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.rows).toEqual([
+        {
+          effective_date: '2025-03-18',
+          fuel_type: 'Diesel',
+          brand: null,
+          amount: 1.2,
+        },
+        {
+          effective_date: '2025-03-18',
+          fuel_type: 'Gasoline (RON 95)',
+          brand: 'Petron',
+          amount: -0.8,
+        },
+      ]);
+    });
+
+    it('should report bad rows and missing columns', () => {
+      expect(
+        parseAdjustmentCsv(
+          'effective_date,fuel_type,brand,amount\n03/18/2025,Diesel,,1'
+        ).errors
+      ).toEqual(['Line 2: date must be YYYY-MM-DD']);
+      expect(parseAdjustmentCsv('date,fuel\n').errors[0]).toContain(
+        'Missing columns'
+      );
+    });
+  });
+
+  describe('findAdjustment', () => {
+    it('should prefer a brand announcement over an industry-wide one', () => {
+      const adjustments = [
+        createAdjustment(),
+        createAdjustment({ id: 'adj-2', brand: 'Shell', amount: 1.35 }),
+      ];
+
+      expect(findAdjustment(adjustments, 'Shell', 'diesel')?.id).toBe('adj-2');
+      expect(findAdjustment(adjustments, 'Petron', 'Diesel')?.id).toBe('adj-1');
+      expect(findAdjustment(adjustments, 'Petron', 'Kerosene')).toBeNull();
+    });
+  });
+
+  describe('projectPrice', () => {
+    it('should add the adjustment to the current price', () => {
+      expect(projectPrice([createAdjustment()], 'Petron', 'Diesel', 58.5)).toBe(
+        59.7
+      );
+      expect(
+        projectPrice([createAdjustment()], 'Petron', 'Diesel', null)
+      ).toBeNull();
+    });
+  });
+
+  describe('projectDoePrices', () => {
+    it('should project the latest DOE week', () => {
+      const doePrice: FuelPrice = {
+        id: 'price-1',
+        area: 'Quezon City',
+        brand: 'Petron',
+        fuel_type: 'Diesel',
+        min_price: 57,
+        max_price: 60,
+        common_price: 58.5,
+        week_of: '2025-03-11',
+        updated_at: new Date('2025-03-11T00:00:00Z'),
+      };
+
+      expect(projectDoePrices([doePrice], [createAdjustment()])).toEqual([
+        {
+          area: 'Quezon City',
+          brand: 'Petron',
+          fuel_type: 'Diesel',
+          currentPrice: 58.5,
+          projectedPrice: 59.7,
+          adjustment: 1.2,
+        },
+      ]);
+    });
+  });
+
+  describe('getUpcomingAdjustments', () => {
+    it('should drop adjustments already in effect', () => {
+      const adjustments = [
+        createAdjustment(),
+        createAdjustment({ id: 'old', effective_date: '2025-03-11' }),
+      ];
+
+      expect(
+        getUpcomingAdjustments(adjustments, MONDAY).map((a) => a.id)
+      ).toEqual(['adj-1']);
+    });
+  });
+
+  describe('getNextAdjustmentDate', () => {
+    it('should default to the coming Tuesday', () => {
+      expect(getNextAdjustmentDate(MONDAY)).toBe('2025-03-18');
+    });
+
+    it('should move to the following week once Tuesday 6 AM has passed', () => {
+      // Tuesday 7 AM Manila time
+      expect(getNextAdjustmentDate(new Date('2025-03-17T23:00:00Z'))).toBe(
+        '2025-03-25'
+      );
+    });
+  });
+
+  describe('summarizeAdjustments', () => {
+    it('should describe an increase announced for tomorrow', () => {
+      const summary = summarizeAdjustments([createAdjustment()], 'Diesel')!;
+
+      expect(describeAdjustment(summary, MONDAY)).toBe(
+        'Prices go up ₱1.20/L on Diesel tomorrow — fill up today'
+      );
+    });
+
+    it('should show the range when brands differ', () => {
+      const summary = summarizeAdjustments(
+        [
+          createAdjustment({ amount: -0.8 }),
+          createAdjustment({ id: 'adj-2', brand: 'Shell', amount: -1.1 }),
+        ],
+        'Diesel'
+      )!;
+
+      expect(summary.direction).toBe('rollback');
+      expect(describeAdjustment(summary, MONDAY)).toBe(
+        'Prices drop ₱0.80-₱1.10/L on Diesel tomorrow — wait to fill up if you can'
+      );
+    });
+
+    it('should return null when nothing is announced', () => {
+      expect(summarizeAdjustments([createAdjustment()], 'Kerosene')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,185 @@
+// __tests__/utils/priceAlerts.test.ts
+import {
+  AlertEvaluationContext,
+  evaluateAlertRules,
+  evaluateDoeChangeRule,
+  evaluatePriceBelowRule,
+  getAverageDoePrice,
+} from '../../utils/priceAlerts';
+import { PriceAlertRule } from '../../core/models/PriceAlert';
+
+// Helper function to create a rule with customizable parameters
+const createTestRule = (
+  overrides: Partial<PriceAlertRule> = {}
+): PriceAlertRule => ({
+  id: 'rule-1',
+  user_id: 'user-1',
+  type: 'price_below',
+  fuel_type: 'Diesel',
+  threshold: 55,
+  area: null,
+  enabled: true,
+  created_at: '2025-03-01T00:00:00Z',
+  last_triggered_at: null,
+  ...overrides,
+});
+
+const createContext = (
+  overrides: Partial<AlertEvaluationContext> = {}
+): AlertEvaluationContext => ({
+  favoriteStationIds: ['station-1', 'station-2'],
+  stationNames: { 'station-1': 'Petron EDSA', 'station-2': 'Shell Katipunan' },
+  communityReports: [
+    {
+      id: 'r1',
+      station_id: 'station-1',
+      fuel_type: 'Diesel',
+      price: 54.5,
+      reported_at: '2025-03-18T08:00:00Z',
+    },
+    {
+      id: 'r2',
+      station_id: 'station-2',
+      fuel_type: 'Diesel',
+      price: 53.9,
+      reported_at: '2025-03-18T09:00:00Z',
+    },
+    {
+      id: 'r3',
+      station_id: 'station-3',
+      fuel_type: 'Diesel',
+      price: 50,
+      reported_at: '2025-03-18T09:00:00Z',
+    },
+  ],
+  currentDoePrices: [
+    {
+      area: 'Quezon City',
+      fuel_type: 'Diesel',
+      common_price: 54,
+      week_of: '2025-03-18',
+    },
+    {
+      area: 'Quezon City',
+      fuel_type: 'Diesel',
+      common_price: 56,
+      week_of: '2025-03-18',
+    },
+    {
+      area: 'Manila City',
+      fuel_type: 'Diesel',
+      common_price: 55,
+      week_of: '2025-03-18',
+    },
+  ],
+  previousDoePrices: [
+    {
+      area: 'Quezon City',
+      fuel_type: 'Diesel',
+      common_price: 53,
+      week_of: '2025-03-11',
+    },
+    {
+      area: 'Manila City',
+      fuel_type: 'Diesel',
+      common_price: 55.2,
+      week_of: '2025-03-11',
+    },
+  ],
+  ...overrides,
+});
+
+describe('priceAlerts', () => {
+  describe('evaluatePriceBelowRule', () => {
+    it('should report the cheapest favorite under the threshold', () => {
+      const trigger = evaluatePriceBelowRule(createTestRule(), createContext());
+
+      expect(trigger?.stationId).toBe('station-2');
+      expect(trigger?.price).toBe(53.9);
+      expect(trigger?.message).toContain('Shell Katipunan');
+    });
+
+    it('should ignore non-favorites and other fuel types', () => {
+      expect(
+        evaluatePriceBelowRule(
+          createTestRule({ threshold: 53 }),
+          createContext()
+        )
+      ).toBeNull();
+      expect(
+        evaluatePriceBelowRule(
+          createTestRule({ fuel_type: 'Gasoline (RON 95)' }),
+          createContext()
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('evaluateDoeChangeRule', () => {
+    it('should fire when the area average moves past the threshold', () => {
+      const trigger = evaluateDoeChangeRule(
+        createTestRule({
+          type: 'doe_change',
+          area: 'Quezon City',
+          threshold: 1.5,
+        }),
+        createContext()
+      );
+
+      expect(trigger?.change).toBe(2);
+      expect(trigger?.price).toBe(55);
+      expect(trigger?.title).toContain('up');
+    });
+
+    it('should not fire for small moves or missing weeks', () => {
+      const rule = createTestRule({
+        type: 'doe_change',
+        area: 'Manila',
+        threshold: 0.5,
+      });
+
+      expect(evaluateDoeChangeRule(rule, createContext())).toBeNull();
+      expect(
+        evaluateDoeChangeRule(
+          { ...rule, area: 'Quezon City' },
+          createContext({ previousDoePrices: [] })
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('getAverageDoePrice', () => {
+    it('should average valid prices for an area and fuel type', () => {
+      const { currentDoePrices } = createContext();
+      expect(
+        getAverageDoePrice(currentDoePrices, 'Quezon City', 'Diesel')
+      ).toBe(55);
+      expect(
+        getAverageDoePrice(currentDoePrices, 'Makati City', 'Diesel')
+      ).toBeNull();
+    });
+  });
+
+  describe('evaluateAlertRules', () => {
+    it('should skip disabled rules', () => {
+      const triggers = evaluateAlertRules(
+        [
+          createTestRule(),
+          createTestRule({ id: 'rule-2', enabled: false }),
+          createTestRule({
+            id: 'rule-3',
+            type: 'doe_change',
+            area: 'Quezon City',
+            threshold: 1,
+          }),
+        ],
+        createContext()
+      );
+
+      expect(triggers.map((trigger) => trigger.ruleId)).toEqual([
+        'rule-1',
+        'rule-3',
+      ]);
+    });
+  });
+});
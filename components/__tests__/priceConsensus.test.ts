@@ -0,0 +1,89 @@
+// __tests__/utils/priceConsensus.test.ts
+import {
+  buildPriceConsensus,
+  ConsensusReport,
+  weightedMedian,
+} from '../../utils/priceConsensus';
+
+// Helper function to create an active report
+const createReport = (
+  id: string,
+  price: number,
+  overrides: Partial<ConsensusReport> = {}
+): ConsensusReport => ({
+  id,
+  user_id: `user-${id}`,
+  price,
+  reported_at: '2025-03-18T08:00:00Z',
+  confidence: 0.5,
+  ...overrides,
+});
+
+describe('priceConsensus', () => {
+  describe('weightedMedian', () => {
+    it('should follow the heavier values', () => {
+      expect(
+        weightedMedian([
+          { value: 58, weight: 0.2 },
+          { value: 59, weight: 0.2 },
+          { value: 60, weight: 0.9 },
+        ])
+      ).toBe(60);
+      expect(
+        weightedMedian([
+          { value: 58, weight: 1 },
+          { value: 60, weight: 1 },
+        ])
+      ).toBe(59);
+      expect(weightedMedian([])).toBeNull();
+    });
+  });
+
+  describe('buildPriceConsensus', () => {
+    it('should return null without reports', () => {
+      expect(buildPriceConsensus([])).toBeNull();
+    });
+
+    it('should exclude outliers from the consensus but not the range', () => {
+      const consensus = buildPriceConsensus([
+        createReport('a', 58.5),
+        createReport('b', 58.75),
+        createReport('c', 58.5),
+        createReport('d', 45, { confidence: 0.9 }),
+      ])!;
+
+      expect(consensus.price).toBe(58.5);
+      expect(consensus.outlierIds).toEqual(['d']);
+      expect(consensus.minPrice).toBe(45);
+      expect(consensus.maxPrice).toBe(58.75);
+    });
+
+    it('should count each reporter once', () => {
+      const consensus = buildPriceConsensus([
+        createReport('a', 58, { user_id: 'user-1' }),
+        createReport('b', 60, {
+          user_id: 'user-1',
+          reported_at: '2025-03-18T09:00:00Z',
+        }),
+        createReport('c', 60, { user_id: 'user-2' }),
+      ])!;
+
+      expect(consensus.reportCount).toBe(3);
+      expect(consensus.reporterCount).toBe(2);
+      expect(consensus.agreeingCount).toBe(2);
+      expect(consensus.agreement).toBe(1);
+      expect(consensus.price).toBe(60);
+    });
+
+    it('should pick the most confident report at the consensus price', () => {
+      const consensus = buildPriceConsensus([
+        createReport('a', 59, { confidence: 0.3 }),
+        createReport('b', 59, { confidence: 0.8 }),
+        createReport('c', 59.8),
+      ])!;
+
+      expect(consensus.reportId).toBe('b');
+      expect(consensus.agreeingCount).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+// __tests__/utils/priceCycle.test.ts
+import {
+  buildCycleTimeline,
+  getCycleStart,
+  getDoeWeekWindow,
+  planCycleRollover,
+} from '../../utils/priceCycle';
+import { PriceCycle } from '../../core/models/PriceCycle';
+
+// Tuesday 2025-03-18 6 AM in Manila
+const BOUNDARY = '2025-03-17T22:00:00.000Z';
+const NEXT_BOUNDARY = '2025-03-24T22:00:00.000Z';
+
+// Helper function to create a stored cycle
+const createCycle = (overrides: Partial<PriceCycle> = {}): PriceCycle => ({
+  id: 'cycle-1',
+  start_date: '2025-03-10T22:00:00.000Z',
+  end_date: BOUNDARY,
+  is_active: true,
+  doe_import_date: '2025-03-11T02:00:00.000Z',
+  created_at: '2025-03-10T22:00:00.000Z',
+  ...overrides,
+});
+
+describe('priceCycle', () => {
+  describe('getCycleStart', () => {
+    it('should find the latest Tuesday 6 AM in Manila', () => {
+      // Thursday afternoon Manila time
+      expect(
+        getCycleStart(new Date('2025-03-20T07:00:00Z')).toISOString()
+      ).toBe(BOUNDARY);
+      // Exactly on the boundary
+      expect(getCycleStart(new Date(BOUNDARY)).toISOString()).toBe(BOUNDARY);
+    });
+
+    it('should keep Tuesday before 6 AM in the previous week', () => {
+      // Tuesday 5 AM Manila time
+      expect(
+        getCycleStart(new Date('2025-03-17T21:00:00Z')).toISOString()
+      ).toBe('2025-03-10T22:00:00.000Z');
+    });
+  });
+
+  describe('getDoeWeekWindow', () => {
+    it('should map a Tuesday report date to that Tuesday', () => {
+      const window = getDoeWeekWindow('2025-03-18');
+
+      expect(window.start.toISOString()).toBe(BOUNDARY);
+      expect(window.end.toISOString()).toBe(NEXT_BOUNDARY);
+    });
+  });
+
+  describe('planCycleRollover', () => {
+    it('should open a cycle when there is none', () => {
+      expect(planCycleRollover(null, new Date('2025-03-19T00:00:00Z'))).toEqual(
+        {
+          action: 'open',
+          reason: 'no_active_cycle',
+          startDate: BOUNDARY,
+          endDate: NEXT_BOUNDARY,
+        }
+      );
+    });
+
+    it('should open a cycle once the active one has ended', () => {
+      const plan = planCycleRollover(
+        createCycle(),
+        new Date('2025-03-18T01:00:00Z')
+      );
+
+      expect(plan).toMatchObject({ action: 'open', reason: 'schedule' });
+    });
+
+    it('should leave a current cycle alone', () => {
+      expect(
+        planCycleRollover(createCycle(), new Date('2025-03-15T01:00:00Z'))
+      ).toEqual({ action: 'none' });
+    });
+
+    it('should open early when next week is imported', () => {
+      const now = new Date('2025-03-17T10:00:00Z');
+
+      expect(planCycleRollover(createCycle(), now, '2025-03-18')).toEqual({
+        action: 'open',
+        reason: 'doe_import',
+        startDate: now.toISOString(),
+        endDate: NEXT_BOUNDARY,
+      });
+    });
+
+    it('should record an import for the week already running', () => {
+      const cycle = createCycle({
+        start_date: BOUNDARY,
+        end_date: NEXT_BOUNDARY,
+        doe_import_date: null,
+      });
+
+      expect(
+        planCycleRollover(cycle, new Date('2025-03-18T03:00:00Z'), '2025-03-18')
+      ).toEqual({ action: 'record_import' });
+    });
+
+    it('should ignore an import of a week before the active cycle', () => {
+      const cycle = createCycle({
+        start_date: BOUNDARY,
+        end_date: NEXT_BOUNDARY,
+        doe_import_date: null,
+      });
+
+      expect(
+        planCycleRollover(cycle, new Date('2025-03-19T03:00:00Z'), '2025-03-11')
+      ).toEqual({ action: 'none' });
+    });
+  });
+
+  describe('buildCycleTimeline', () => {
+    it('should list upcoming cycles before stored ones', () => {
+      const timeline = buildCycleTimeline(
+        [
+          createCycle({ is_active: false }),
+          createCycle({
+            id: 'cycle-2',
+            start_date: BOUNDARY,
+            end_date: NEXT_BOUNDARY,
+          }),
+        ],
+        new Date('2025-03-19T00:00:00Z'),
+        2
+      );
+
+      expect(timeline.map((entry) => entry.status)).toEqual([
+        'upcoming',
+        'upcoming',
+        'active',
+        'past',
+      ]);
+      expect(timeline[1].start_date).toBe(NEXT_BOUNDARY);
+      expect(timeline[2].key).toBe('cycle-2');
+    });
+  });
+});
@@ -0,0 +1,120 @@
+// __tests__/utils/priceHistory.test.ts
+import {
+  buildPriceTrend,
+  findMissingWeeks,
+  getTrendPriceRange,
+  median,
+} from '../../utils/priceHistory';
+import { FuelPrice } from '../../core/models/FuelPrice';
+
+// Helper function to create a DOE price row
+const createTestPrice = (
+  weekOf: string,
+  common: number,
+  overrides: Partial<FuelPrice> = {}
+): FuelPrice => ({
+  id: `${weekOf}-${common}`,
+  area: 'Quezon City',
+  brand: 'Petron',
+  fuel_type: 'Diesel',
+  min_price: common - 1,
+  max_price: common + 1,
+  common_price: common,
+  week_of: weekOf,
+  updated_at: new Date(weekOf),
+  ...overrides,
+});
+
+describe('priceHistory', () => {
+  describe('median', () => {
+    it('should handle odd, even and empty lists', () => {
+      expect(median([3, 1, 2])).toBe(2);
+      expect(median([4, 1, 3, 2])).toBe(2.5);
+      expect(median([])).toBeNull();
+    });
+  });
+
+  describe('buildPriceTrend', () => {
+    it('should order weeks and compute week-over-week changes', () => {
+      const trend = buildPriceTrend(
+        [
+          createTestPrice('2025-03-18', 56),
+          createTestPrice('2025-03-04', 54),
+          createTestPrice('2025-03-11', 55.5),
+        ],
+        [],
+        'Diesel'
+      );
+
+      expect(trend.map((point) => point.weekOf)).toEqual([
+        '2025-03-04',
+        '2025-03-11',
+        '2025-03-18',
+      ]);
+      expect(trend.map((point) => point.change)).toEqual([null, 1.5, 0.5]);
+    });
+
+    it('should combine several rows for the same week', () => {
+      const [point] = buildPriceTrend(
+        [
+          createTestPrice('2025-03-18', 55),
+          createTestPrice('2025-03-18', 57, { brand: 'Shell', max_price: 60 }),
+          createTestPrice('2025-03-18', 50, { fuel_type: 'Kerosene' }),
+        ],
+        [],
+        'Diesel'
+      );
+
+      expect(point.minPrice).toBe(54);
+      expect(point.maxPrice).toBe(60);
+      expect(point.commonPrice).toBe(56);
+    });
+
+    it('should assign community reports to the week they fall in', () => {
+      const trend = buildPriceTrend(
+        [createTestPrice('2025-03-11', 55), createTestPrice('2025-03-18', 56)],
+        [
+          { price: 54, reported_at: '2025-03-12T08:00:00Z' },
+          { price: 55, reported_at: '2025-03-13T08:00:00Z' },
+          { price: 57, reported_at: '2025-03-19T08:00:00Z' },
+          { price: 52, reported_at: '2025-03-01T08:00:00Z' },
+          { price: 58, reported_at: '2025-04-01T08:00:00Z' },
+        ],
+        'Diesel'
+      );
+
+      expect(trend[0].communityMedian).toBe(54.5);
+      expect(trend[0].communityCount).toBe(2);
+      expect(trend[1].communityMedian).toBe(57);
+      expect(trend[1].communityCount).toBe(1);
+    });
+  });
+
+  describe('getTrendPriceRange', () => {
+    it('should span every plotted value', () => {
+      const trend = buildPriceTrend(
+        [createTestPrice('2025-03-11', 55)],
+        [{ price: 58, reported_at: '2025-03-12T08:00:00Z' }],
+        'Diesel'
+      );
+
+      expect(getTrendPriceRange(trend)).toEqual({ low: 54, high: 58 });
+      expect(getTrendPriceRange([])).toBeNull();
+    });
+  });
+
+  describe('findMissingWeeks', () => {
+    it('should list weeks skipped between published weeks', () => {
+      expect(
+        findMissingWeeks(['2025-03-25', '2025-03-04', '2025-04-01'])
+      ).toEqual(['2025-03-11', '2025-03-18']);
+    });
+
+    it('should tolerate weeks published a day or two off schedule', () => {
+      expect(
+        findMissingWeeks(['2025-03-04', '2025-03-12', '2025-03-18'])
+      ).toEqual([]);
+      expect(findMissingWeeks([])).toEqual([]);
+    });
+  });
+});
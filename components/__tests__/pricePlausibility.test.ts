@@ -0,0 +1,75 @@
+// __tests__/utils/pricePlausibility.test.ts
+import {
+  checkPricePlausibility,
+  PlausibilityContext,
+} from '../../utils/pricePlausibility';
+
+// Helper function to build a context with DOE data only
+const createContext = (
+  overrides: Partial<PlausibilityContext> = {}
+): PlausibilityContext => ({
+  fuelType: 'Diesel',
+  doeRange: { minPrice: 55, maxPrice: 62 },
+  communityPrices: [],
+  nearbyBrandPrices: [],
+  ...overrides,
+});
+
+describe('checkPricePlausibility', () => {
+  it('should accept a price inside the DOE range', () => {
+    expect(checkPricePlausibility(58.5, createContext())).toEqual({
+      verdict: 'accept',
+      reasons: [],
+    });
+  });
+
+  it('should reject prices outside the absolute bounds', () => {
+    expect(checkPricePlausibility(5, createContext()).verdict).toBe('reject');
+    expect(checkPricePlausibility(500, createContext()).verdict).toBe('reject');
+    expect(checkPricePlausibility(NaN, createContext()).verdict).toBe('reject');
+  });
+
+  it('should reject prices far outside the DOE range', () => {
+    const result = checkPricePlausibility(40, createContext());
+
+    expect(result.verdict).toBe('reject');
+    expect(result.reasons[0]).toContain('far below the DOE range');
+  });
+
+  it('should warn about prices just outside the DOE range', () => {
+    expect(checkPricePlausibility(66, createContext()).verdict).toBe('warn');
+    // Within the tolerance for price moves since publication
+    expect(checkPricePlausibility(63.5, createContext()).verdict).toBe(
+      'accept'
+    );
+  });
+
+  it('should warn when far from other reports for the station', () => {
+    const result = checkPricePlausibility(
+      61,
+      createContext({ communityPrices: [55, 55.5, 56] })
+    );
+
+    expect(result.verdict).toBe('warn');
+    expect(result.reasons[0]).toContain('above other recent reports');
+  });
+
+  it('should warn when far from nearby stations of the same brand', () => {
+    const result = checkPricePlausibility(
+      56,
+      createContext({ doeRange: null, nearbyBrandPrices: [62, 62.5] })
+    );
+
+    expect(result.verdict).toBe('warn');
+    expect(result.reasons[0]).toContain('below nearby stations');
+  });
+
+  it('should ignore a single peer report', () => {
+    expect(
+      checkPricePlausibility(
+        56,
+        createContext({ communityPrices: [62], nearbyBrandPrices: [62] })
+      ).verdict
+    ).toBe('accept');
+  });
+});
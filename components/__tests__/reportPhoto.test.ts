@@ -0,0 +1,40 @@
+// __tests__/utils/reportPhoto.test.ts
+import {
+  applyPhotoEvidence,
+  getPhotoResize,
+  getReportPhotoPath,
+} from '../../utils/reportPhoto';
+
+describe('reportPhoto', () => {
+  describe('getPhotoResize', () => {
+    it('should scale the longest side down to the limit', () => {
+      expect(getPhotoResize(4032, 3024, 1280)).toEqual({
+        width: 1280,
+        height: 960,
+      });
+      expect(getPhotoResize(3024, 4032, 1280)).toEqual({
+        width: 960,
+        height: 1280,
+      });
+    });
+
+    it('should leave small photos alone', () => {
+      expect(getPhotoResize(800, 600, 1280)).toBeNull();
+      expect(getPhotoResize(0, 0, 1280)).toBeNull();
+    });
+  });
+
+  describe('getReportPhotoPath', () => {
+    it('should name the photo after the report', () => {
+      expect(getReportPhotoPath('abc-123')).toBe('reports/abc-123.jpg');
+    });
+  });
+
+  describe('applyPhotoEvidence', () => {
+    it('should boost photo-backed reports without passing 1', () => {
+      expect(applyPhotoEvidence(0.5, true)).toBeCloseTo(0.6);
+      expect(applyPhotoEvidence(0.5, false)).toBe(0.5);
+      expect(applyPhotoEvidence(0.95, true)).toBe(1);
+    });
+  });
+});
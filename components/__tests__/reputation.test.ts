@@ -0,0 +1,42 @@
+// __tests__/utils/reputation.test.ts
+import {
+  applyReputation,
+  getReputationLevel,
+  ReputationSummary,
+} from '../../utils/reputation';
+
+// Helper function to create a reputation summary
+const createSummary = (
+  overrides: Partial<ReputationSummary> = {}
+): ReputationSummary => ({
+  score: 50,
+  reportCount: 10,
+  confirmedCount: 0,
+  disputedCount: 0,
+  ...overrides,
+});
+
+describe('reputation', () => {
+  describe('applyReputation', () => {
+    it('should rank equal reports by reporter reputation', () => {
+      expect(applyReputation(0.6, 90)).toBeGreaterThan(applyReputation(0.6));
+      expect(applyReputation(0.6, 10)).toBeLessThan(applyReputation(0.6));
+    });
+  });
+
+  describe('getReputationLevel', () => {
+    it('should show reporters with few reports as new', () => {
+      expect(
+        getReputationLevel(createSummary({ score: 90, reportCount: 2 }))
+      ).toBe('New');
+    });
+
+    it('should label scores once there are enough reports', () => {
+      expect(getReputationLevel(createSummary({ score: 80 }))).toBe('Trusted');
+      expect(getReputationLevel(createSummary({ score: 50 }))).toBe(
+        'Established'
+      );
+      expect(getReputationLevel(createSummary({ score: 0 }))).toBe('Low');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+// __tests__/utils/route.test.ts
+import {
+  decodePolyline,
+  findAlongRoute,
+  getRouteBoundingBox,
+  getRouteLength,
+  locateOnRoute,
+  rankRouteStations,
+} from '../../utils/route';
+
+// A straight road heading north from Makati, about 11 km long
+const path = [
+  { latitude: 14.55, longitude: 121.02 },
+  { latitude: 14.6, longitude: 121.02 },
+  { latitude: 14.65, longitude: 121.02 },
+];
+
+describe('route utilities', () => {
+  describe('decodePolyline', () => {
+    it('should decode the reference polyline', () => {
+      const points = decodePolyline('_p~iF~ps|U_ulLnnqC_mqNvxq`@');
+
+      expect(points).toEqual([
+        { latitude: 38.5, longitude: -120.2 },
+        { latitude: 40.7, longitude: -120.95 },
+        { latitude: 43.252, longitude: -126.453 },
+      ]);
+    });
+
+    it('should return no points for an empty string', () => {
+      expect(decodePolyline('')).toEqual([]);
+    });
+
+    it('should reject a truncated polyline', () => {
+      expect(() => decodePolyline('_p~iF~ps')).toThrow();
+    });
+  });
+
+  describe('getRouteLength', () => {
+    it('should add up the segment lengths', () => {
+      expect(getRouteLength(path)).toBeCloseTo(11.1, 1);
+    });
+  });
+
+  describe('locateOnRoute', () => {
+    it('should measure a point beside the road', () => {
+      // About 1 km east of the middle point
+      const position = locateOnRoute(
+        { latitude: 14.6, longitude: 121.0293 },
+        path
+      );
+
+      expect(position.distanceFromRoute).toBeCloseTo(1, 1);
+      expect(position.distanceAlongRoute).toBeCloseTo(5.56, 1);
+    });
+
+    it('should measure a point past the end from the last point', () => {
+      const position = locateOnRoute(
+        { latitude: 14.66, longitude: 121.02 },
+        path
+      );
+
+      expect(position.distanceFromRoute).toBeCloseTo(1.11, 1);
+      expect(position.distanceAlongRoute).toBeCloseTo(11.1, 1);
+    });
+  });
+
+  describe('getRouteBoundingBox', () => {
+    it('should cover the whole route plus the corridor', () => {
+      const box = getRouteBoundingBox(path, 2);
+
+      expect(box.south).toBeLessThan(14.55);
+      expect(box.north).toBeGreaterThan(14.65);
+      expect(box.west).toBeLessThan(121.02);
+      expect(box.east).toBeGreaterThan(121.02);
+    });
+  });
+
+  describe('findAlongRoute', () => {
+    it('should keep places in the corridor in route order', () => {
+      const places = [
+        { id: 'far', coordinates: { latitude: 14.6, longitude: 121.1 } },
+        { id: 'late', coordinates: { latitude: 14.64, longitude: 121.021 } },
+        { id: 'early', coordinates: { latitude: 14.56, longitude: 121.019 } },
+      ];
+
+      const result = findAlongRoute(places, path, 2);
+
+      expect(result.map((place) => place.id)).toEqual(['early', 'late']);
+    });
+  });
+
+  describe('rankRouteStations', () => {
+    it('should rank by price, then by route position, unpriced last', () => {
+      const stations = [
+        { id: 'a', price: 60, distanceAlongRoute: 5 },
+        { id: 'b', price: null, distanceAlongRoute: 1 },
+        { id: 'c', price: 58, distanceAlongRoute: 9 },
+        { id: 'd', price: 60, distanceAlongRoute: 2 },
+        { id: 'e', price: null, distanceAlongRoute: 0.5 },
+      ];
+
+      expect(rankRouteStations(stations).map((s) => s.id)).toEqual([
+        'c',
+        'd',
+        'a',
+        'e',
+        'b',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+// __tests__/utils/stationDuplicates.test.ts
+import {
+  findDuplicateCandidates,
+  findDuplicateOf,
+  getNameSimilarity,
+  getNameTokens,
+  getPairKey,
+  isExactDuplicate,
+  scoreDuplicatePair,
+  stringSimilarity,
+} from '../../utils/stationDuplicates';
+
+// Each 0.0001 degrees of latitude is about 11 meters
+const station = (
+  id: string,
+  name: string,
+  brand: string,
+  latitudeOffset: number = 0
+) => ({
+  id,
+  name,
+  brand,
+  coordinates: { latitude: 14.6305 + latitudeOffset, longitude: 121.0335 },
+});
+
+describe('station duplicate utilities', () => {
+  describe('stringSimilarity', () => {
+    it('should score by edit distance', () => {
+      expect(stringSimilarity('kamuning', 'kamuning')).toBe(1);
+      expect(stringSimilarity('kamuning', 'kamunin')).toBeCloseTo(0.875);
+      expect(stringSimilarity('cubao', 'kamuning')).toBeLessThan(0.5);
+    });
+  });
+
+  describe('getNameTokens', () => {
+    it('should drop punctuation, brand and generic words', () => {
+      expect(getNameTokens('Petron - EDSA Kamuning', 'Petron')).toEqual([
+        'edsa',
+        'kamuning',
+      ]);
+      expect(
+        getNameTokens('Pilipinas Shell Gas Station Cubao', 'Shell')
+      ).toEqual(['cubao']);
+    });
+  });
+
+  describe('getNameSimilarity', () => {
+    it('should match a name that adds the street', () => {
+      expect(
+        getNameSimilarity(
+          { name: 'Petron - EDSA Kamuning', brand: 'Petron' },
+          { name: 'Petron Kamuning', brand: 'Petron' }
+        )
+      ).toBe(1);
+    });
+
+    it('should tell different branches apart', () => {
+      expect(
+        getNameSimilarity(
+          { name: 'Shell Cubao', brand: 'Shell' },
+          { name: 'Shell Kamuning', brand: 'Shell' }
+        )
+      ).toBeLessThan(0.5);
+    });
+  });
+
+  describe('scoreDuplicatePair', () => {
+    it('should skip stations too far apart or of different brands', () => {
+      expect(
+        scoreDuplicatePair(
+          station('a', 'Petron Kamuning', 'Petron'),
+          station('b', 'Petron Kamuning', 'Petron', 0.003)
+        )
+      ).toBeNull();
+      expect(
+        scoreDuplicatePair(
+          station('a', 'Petron Kamuning', 'Petron'),
+          station('b', 'Shell Kamuning', 'Shell')
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('isExactDuplicate', () => {
+    it('should match the same name a few steps away', () => {
+      expect(
+        isExactDuplicate(
+          station('a', 'Petron Kamuning', 'Petron'),
+          station('b', 'PETRON - Kamuning Station', 'Petron', 0.0002)
+        )
+      ).toBe(true);
+    });
+
+    it('should not match names that only look alike', () => {
+      const northbound = station('a', 'Shell EDSA Northbound', 'Shell');
+      const southbound = station('b', 'Shell EDSA Southbound', 'Shell', 0.0004);
+
+      expect(scoreDuplicatePair(northbound, southbound)?.score).toBeGreaterThan(
+        0.7
+      );
+      expect(isExactDuplicate(northbound, southbound)).toBe(false);
+    });
+
+    it('should not match the same name further away', () => {
+      expect(
+        isExactDuplicate(
+          station('a', 'Petron Kamuning', 'Petron'),
+          station('b', 'Petron Kamuning', 'Petron', 0.001)
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('findDuplicateOf', () => {
+    it('should find a re-import under the same name', () => {
+      const existing = [
+        station('a', 'Petron Kamuning', 'Petron', 0.0004),
+        station('b', 'Shell Kamuning', 'Shell'),
+      ];
+
+      expect(
+        findDuplicateOf(station('new', 'Petron - Kamuning', 'Petron'), existing)
+          ?.id
+      ).toBe('a');
+      expect(
+        findDuplicateOf(
+          station('new', 'Petron - EDSA Kamuning', 'Petron'),
+          existing
+        )
+      ).toBeNull();
+      expect(
+        findDuplicateOf(station('new', 'Petron Cubao', 'Petron'), existing)
+      ).toBeNull();
+    });
+  });
+
+  describe('findDuplicateCandidates', () => {
+    const stations = [
+      station('a', 'Petron - EDSA Kamuning', 'Petron'),
+      station('b', 'Shell Cubao', 'Shell', 0.0002),
+      station('c', 'Petron Kamuning', 'Petron', 0.0003),
+      station('d', 'Petron Kamuning', 'Petron', 0.01),
+    ];
+
+    it('should pair nearby stations with matching names', () => {
+      const candidates = findDuplicateCandidates(stations);
+
+      expect(candidates).toHaveLength(1);
+      expect(getPairKey(candidates[0].first.id, candidates[0].second.id)).toBe(
+        getPairKey('a', 'c')
+      );
+    });
+
+    it('should leave out dismissed pairs', () => {
+      expect(findDuplicateCandidates(stations, [getPairKey('c', 'a')])).toEqual(
+        []
+      );
+    });
+  });
+});
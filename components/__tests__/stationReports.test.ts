@@ -0,0 +1,102 @@
+// __tests__/utils/stationReports.test.ts
+import {
+  describeStationReport,
+  getOutOfStockByStation,
+  getReportedStatus,
+  getReportExpiry,
+  isOutOfStock,
+  isReportConfirmed,
+} from '../../utils/stationReports';
+import { StationReport } from '../../core/models/StationReport';
+
+const now = new Date('2024-06-10T12:00:00Z');
+
+const report = (overrides: Partial<StationReport>): StationReport => ({
+  id: 'r1',
+  station_id: 'station-1',
+  user_id: 'user-1',
+  report_type: 'out_of_stock',
+  fuel_type: 'Diesel',
+  reported_at: '2024-06-10T10:00:00Z',
+  expires_at: '2024-06-10T22:00:00Z',
+  upvotes: 2,
+  downvotes: 0,
+  ...overrides,
+});
+
+describe('station report utilities', () => {
+  describe('getReportExpiry', () => {
+    it('should keep closures longer than out-of-stock reports', () => {
+      expect(getReportExpiry('out_of_stock', '2024-06-10T10:00:00Z')).toBe(
+        '2024-06-10T22:00:00.000Z'
+      );
+      expect(
+        getReportExpiry('permanently_closed', '2024-06-10T10:00:00Z')
+      ).toBe('2024-06-17T10:00:00.000Z');
+    });
+  });
+
+  describe('isReportConfirmed', () => {
+    it('should need a confirmation besides the reporter', () => {
+      expect(isReportConfirmed(report({ upvotes: 1 }), now)).toBe(false);
+      expect(isReportConfirmed(report({ upvotes: 2 }), now)).toBe(true);
+    });
+
+    it('should not trust disputed or expired reports', () => {
+      expect(isReportConfirmed(report({ downvotes: 2 }), now)).toBe(false);
+      expect(
+        isReportConfirmed(report({ expires_at: '2024-06-10T11:00:00Z' }), now)
+      ).toBe(false);
+    });
+  });
+
+  describe('getReportedStatus', () => {
+    it('should prefer a permanent closure over a temporary one', () => {
+      const reports = [
+        report({ id: 'a', report_type: 'temporary_closed', fuel_type: null }),
+        report({ id: 'b', report_type: 'permanently_closed', fuel_type: null }),
+      ];
+
+      expect(getReportedStatus(reports, now)).toBe('permanently_closed');
+    });
+
+    it('should ignore unconfirmed and out-of-stock reports', () => {
+      const reports = [
+        report({ report_type: 'temporary_closed', upvotes: 1 }),
+        report({ id: 'b' }),
+      ];
+
+      expect(getReportedStatus(reports, now)).toBeNull();
+    });
+  });
+
+  describe('getOutOfStockByStation', () => {
+    it('should list confirmed fuels per station', () => {
+      const outOfStock = getOutOfStockByStation(
+        [
+          report({ id: 'a' }),
+          report({ id: 'b', fuel_type: 'diesel' }),
+          report({ id: 'c', station_id: 'station-2', upvotes: 1 }),
+        ],
+        now
+      );
+
+      expect(Object.keys(outOfStock)).toEqual(['station-1']);
+      expect(outOfStock['station-1']).toHaveLength(1);
+      expect(isOutOfStock(outOfStock, 'station-1', 'Diesel')).toBe(true);
+      expect(isOutOfStock(outOfStock, 'station-1', 'RON 95')).toBe(false);
+      expect(isOutOfStock(outOfStock, 'station-2', 'Diesel')).toBe(false);
+    });
+  });
+
+  describe('describeStationReport', () => {
+    it('should name the fuel for out-of-stock reports', () => {
+      expect(describeStationReport(report({}))).toBe('Out of fuel: Diesel');
+      expect(
+        describeStationReport(
+          report({ report_type: 'temporary_closed', fuel_type: null })
+        )
+      ).toBe('Temporarily closed');
+    });
+  });
+});
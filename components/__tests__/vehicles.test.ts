@@ -0,0 +1,135 @@
+// __tests__/utils/vehicles.test.ts
+import {
+  getActiveVehicle,
+  getFullTankCost,
+  mergeVehicleProfiles,
+  removeVehicle,
+  saveVehicle,
+  validateVehicle,
+} from '../../utils/vehicles';
+import { Vehicle } from '../../core/models/Vehicle';
+
+// Helper function to create a vehicle
+const createVehicle = (overrides: Partial<Vehicle> = {}): Vehicle => ({
+  id: 'car',
+  name: 'Vios',
+  fuel_type: 'Gasoline (RON 91)',
+  tank_capacity: 42,
+  fuel_economy: 14,
+  ...overrides,
+});
+
+describe('vehicles', () => {
+  describe('validateVehicle', () => {
+    it('should accept a complete vehicle', () => {
+      const { id, ...input } = createVehicle();
+      expect(validateVehicle(input)).toBeNull();
+    });
+
+    it('should reject a missing tank capacity', () => {
+      const { id, ...input } = createVehicle({ tank_capacity: 0 });
+      expect(validateVehicle(input)).toMatch(/tank capacity/);
+    });
+
+    it('should reject a blank name', () => {
+      const { id, ...input } = createVehicle({ name: '  ' });
+      expect(validateVehicle(input)).toMatch(/name/);
+    });
+  });
+
+  describe('saveVehicle', () => {
+    it('should make the first vehicle active', () => {
+      const profile = saveVehicle(
+        { vehicles: [], active_vehicle_id: null },
+        createVehicle()
+      );
+
+      expect(profile.active_vehicle_id).toBe('car');
+      expect(profile.vehicles).toHaveLength(1);
+    });
+
+    it('should replace a vehicle with the same id', () => {
+      const profile = saveVehicle(
+        { vehicles: [createVehicle()], active_vehicle_id: 'car' },
+        createVehicle({ name: 'Vios 2020' })
+      );
+
+      expect(profile.vehicles.map((item) => item.name)).toEqual(['Vios 2020']);
+    });
+  });
+
+  describe('removeVehicle', () => {
+    it('should make the next vehicle active when the active one is removed', () => {
+      const profile = removeVehicle(
+        {
+          vehicles: [createVehicle(), createVehicle({ id: 'van' })],
+          active_vehicle_id: 'car',
+        },
+        'car'
+      );
+
+      expect(profile.active_vehicle_id).toBe('van');
+    });
+
+    it('should clear the active vehicle when none are left', () => {
+      const profile = removeVehicle(
+        { vehicles: [createVehicle()], active_vehicle_id: 'car' },
+        'car'
+      );
+
+      expect(profile).toEqual({ vehicles: [], active_vehicle_id: null });
+    });
+  });
+
+  describe('getActiveVehicle', () => {
+    it('should fall back to the first vehicle', () => {
+      expect(
+        getActiveVehicle({
+          vehicles: [createVehicle()],
+          active_vehicle_id: 'gone',
+        })?.id
+      ).toBe('car');
+    });
+
+    it('should return null without vehicles', () => {
+      expect(
+        getActiveVehicle({ vehicles: [], active_vehicle_id: null })
+      ).toBeNull();
+    });
+  });
+
+  describe('mergeVehicleProfiles', () => {
+    it("should keep the user's active vehicle and add guest vehicles", () => {
+      const merged = mergeVehicleProfiles(
+        { vehicles: [createVehicle()], active_vehicle_id: 'car' },
+        {
+          vehicles: [createVehicle(), createVehicle({ id: 'van' })],
+          active_vehicle_id: 'van',
+        }
+      );
+
+      expect(merged.vehicles.map((item) => item.id)).toEqual(['car', 'van']);
+      expect(merged.active_vehicle_id).toBe('car');
+    });
+  });
+
+  describe('getFullTankCost', () => {
+    it('should multiply the tank capacity by the price', () => {
+      expect(getFullTankCost(createVehicle(), 'Gasoline (RON 91)', 58.5)).toBe(
+        2457
+      );
+    });
+
+    it('should match fuel types by their normalized name', () => {
+      expect(getFullTankCost(createVehicle(), 'RON 91', 58.5)).toBe(2457);
+    });
+
+    it('should return null for another fuel or a missing price', () => {
+      expect(getFullTankCost(createVehicle(), 'Diesel', 55)).toBeNull();
+      expect(
+        getFullTankCost(createVehicle(), 'Gasoline (RON 91)', 0)
+      ).toBeNull();
+      expect(getFullTankCost(null, 'Gasoline (RON 91)', 58.5)).toBeNull();
+    });
+  });
+});
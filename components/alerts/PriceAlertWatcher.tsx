@@ -0,0 +1,12 @@
+// components/alerts/PriceAlertWatcher.tsx
+import { usePriceAlertChecker } from '@/hooks/usePriceAlerts';
+
+/**
+ * Renders nothing; runs price alert checks for the signed-in user
+ */
+export function PriceAlertWatcher() {
+  usePriceAlertChecker();
+  return null;
+}
+
+export default PriceAlertWatcher;
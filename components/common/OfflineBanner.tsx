@@ -0,0 +1,53 @@
+// components/common/OfflineBanner.tsx
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+
+interface OfflineBannerProps {
+  offline: boolean;
+  cachedAt: string | null;
+}
+
+/**
+ * Notice shown when cached data is displayed because the network is
+ * unreachable
+ */
+export const OfflineBanner: React.FC<OfflineBannerProps> = ({
+  offline,
+  cachedAt,
+}) => {
+  if (!offline) return null;
+
+  const dataTime = cachedAt
+    ? new Date(cachedAt).toLocaleString('en-PH', {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      })
+    : null;
+
+  return (
+    <View style={styles.container}>
+      <MaterialIcons name='cloud-off' size={16} color='#8a6d3b' />
+      <Text style={styles.text}>
+        {dataTime ? `Offline, data from ${dataTime}` : 'Offline'}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fcf8e3',
+    paddingVertical: 6,
+    paddingHorizontal: 16,
+  },
+  text: {
+    marginLeft: 6,
+    fontSize: 13,
+    color: '#8a6d3b',
+  },
+});
@@ -0,0 +1,113 @@
+// components/outbox/OutboxItemRow.tsx
+import React from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { formatCurrency } from '@/utils/formatters';
+import { OutboxItem, OutboxStatus } from '@/utils/outbox';
+
+interface OutboxItemRowProps {
+  item: OutboxItem;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+// Icon, label and colour for each queue state
+const STATUS_DISPLAY: Record<
+  OutboxStatus,
+  { icon: keyof typeof MaterialIcons.glyphMap; label: string; color: string }
+> = {
+  pending: { icon: 'schedule', label: 'Waiting to send', color: '#f4a261' },
+  sent: { icon: 'check-circle', label: 'Sent', color: '#2a9d8f' },
+  failed: { icon: 'error-outline', label: 'Not sent', color: '#F44336' },
+};
+
+/**
+ * A queued price report with its send status
+ */
+export const OutboxItemRow: React.FC<OutboxItemRowProps> = ({
+  item,
+  onRetry,
+  onRemove,
+}) => {
+  if (item.payload.kind !== 'report') return null;
+
+  const status = STATUS_DISPLAY[item.status];
+  const reportedAt = new Date(item.created_at).toLocaleString('en-PH', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+  return (
+    <View style={styles.row}>
+      <MaterialIcons name={status.icon} size={18} color={status.color} />
+      <View style={styles.details}>
+        <Text style={styles.title}>
+          {item.payload.fuel_type}: {formatCurrency(item.payload.price)}
+        </Text>
+        <Text style={[styles.status, { color: status.color }]}>
+          {status.label}, reported {reportedAt}
+        </Text>
+        {item.status !== 'sent' && item.error && (
+          <Text style={styles.error}>{item.error}</Text>
+        )}
+      </View>
+      {item.status === 'failed' && (
+        <Pressable style={styles.action} onPress={() => onRetry(item.id)}>
+          <Text style={styles.actionText}>Retry</Text>
+        </Pressable>
+      )}
+      {item.status !== 'sent' && (
+        <Pressable style={styles.action} onPress={() => onRemove(item.id)}>
+          <Text style={styles.discardText}>Discard</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  details: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  status: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  error: {
+    fontSize: 12,
+    color: '#666',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  action: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 12,
+    color: '#2196F3',
+    fontWeight: '500',
+  },
+  discardText: {
+    fontSize: 12,
+    color: '#999',
+    fontWeight: '500',
+  },
+});
+
+export default OutboxItemRow;
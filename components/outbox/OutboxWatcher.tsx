@@ -0,0 +1,12 @@
+// components/outbox/OutboxWatcher.tsx
+import { useOutboxSync } from '@/hooks/useOutbox';
+
+/**
+ * Renders nothing; sends queued price reports and votes in the background
+ */
+export function OutboxWatcher() {
+  useOutboxSync();
+  return null;
+}
+
+export default OutboxWatcher;
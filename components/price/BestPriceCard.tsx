@@ -4,17 +4,23 @@ import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { formatCurrency, isValidPrice } from '@/utils/formatters';
 import { BestPriceItem } from '@/hooks/useBestPrices';
+import { describeNetSavings } from '@/utils/netSavings';
+import { EffectivePriceLabel } from './EffectivePriceLabel';
 
 interface BestPriceCardProps {
   price: BestPriceItem;
   rank: number;
   onPress: () => void;
+  projectedPrice?: number | null;
+  fullTankCost?: number | null;
 }
 
 const BestPriceCard: React.FC<BestPriceCardProps> = ({
   price,
   rank,
   onPress,
+  projectedPrice,
+  fullTankCost,
 }) => {
   const getBackgroundColor = () => {
     // Different background colors based on rank for valid prices
@@ -84,6 +90,15 @@ const BestPriceCard: React.FC<BestPriceCardProps> = ({
     return fuelType;
   };
 
+  // Announced adjustments only change valid prices
+  const showProjection =
+    !isZeroPrice &&
+    projectedPrice !== undefined &&
+    projectedPrice !== null &&
+    projectedPrice !== price.price;
+  const projectionRises = (projectedPrice ?? 0) > (price.price ?? 0);
+  const projectionColor = projectionRises ? '#e65100' : '#2e7d32';
+
   // Determine if we have enough station data to show the detail page
   const hasStationDetails = !!price.stationId;
 
@@ -142,6 +157,25 @@ const BestPriceCard: React.FC<BestPriceCardProps> = ({
           </View>
         </View>
 
+        {/* Price after the user's discount, next to the pump price */}
+        {!isZeroPrice && (
+          <EffectivePriceLabel effectivePrice={price.effectivePrice} />
+        )}
+
+        {/* Price after an announced adjustment, next to the current one */}
+        {showProjection && (
+          <View style={styles.projectedContainer}>
+            <MaterialIcons
+              name={projectionRises ? 'arrow-upward' : 'arrow-downward'}
+              size={12}
+              color={projectionColor}
+            />
+            <Text style={[styles.projectedText, { color: projectionColor }]}>
+              {formatCurrency(projectedPrice)} after the adjustment
+            </Text>
+          </View>
+        )}
+
         <View style={styles.detailsContainer}>
           <View style={styles.locationInfo}>
             <Text style={styles.area}>{price.area}</Text>
@@ -161,6 +195,25 @@ const BestPriceCard: React.FC<BestPriceCardProps> = ({
           </Text>
         )}
 
+        {/* Net saving once the drive there is counted */}
+        {price.netSavings && (
+          <Text
+            style={[
+              styles.netSavingsText,
+              price.netSavings.savings >= 1 && styles.netSavingsPositive,
+              price.netSavings.savings <= -1 && styles.netSavingsNegative,
+            ]}
+          >
+            {describeNetSavings(price.netSavings)}
+          </Text>
+        )}
+
+        {!isZeroPrice && !!fullTankCost && (
+          <Text style={styles.fullTankText}>
+            Full tank costs {formatCurrency(fullTankCost)} here
+          </Text>
+        )}
+
         {/* Special message for unpriced stations to encourage users */}
         {isZeroPrice && (
           <Text style={styles.visitMessage}>Visit for current prices</Text>
@@ -237,6 +290,16 @@ const styles = StyleSheet.create({
     color: '#999',
     fontStyle: 'italic',
   },
+  projectedContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  projectedText: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginLeft: 2,
+  },
   stationName: {
     fontSize: 16,
     fontWeight: '500',
@@ -276,6 +339,23 @@ const styles = StyleSheet.create({
     color: '#999',
     marginTop: 2,
   },
+  netSavingsText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#666',
+    marginTop: 2,
+  },
+  netSavingsPositive: {
+    color: '#2e7d32',
+  },
+  netSavingsNegative: {
+    color: '#c62828',
+  },
+  fullTankText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
   visitMessage: {
     fontSize: 12,
     fontStyle: 'italic',
@@ -0,0 +1,47 @@
+// components/price/EffectivePriceLabel.tsx
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { EffectivePrice } from '@/utils/discounts';
+import { formatCurrency } from '@/utils/formatters';
+
+interface EffectivePriceLabelProps {
+  effectivePrice?: EffectivePrice | null;
+}
+
+/**
+ * Price after the user's loyalty card or fleet discount, shown next to a
+ * pump price
+ */
+export const EffectivePriceLabel: React.FC<EffectivePriceLabelProps> = ({
+  effectivePrice,
+}) => {
+  if (!effectivePrice) return null;
+
+  return (
+    <View style={styles.container}>
+      <MaterialIcons name='loyalty' size={12} color='#6a1b9a' />
+      <Text style={styles.text} numberOfLines={1}>
+        {formatCurrency(effectivePrice.price)} with{' '}
+        {effectivePrice.program.name}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  text: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#6a1b9a',
+    marginLeft: 4,
+    flexShrink: 1,
+  },
+});
+
+export default EffectivePriceLabel;
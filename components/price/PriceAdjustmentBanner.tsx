@@ -0,0 +1,64 @@
+// components/price/PriceAdjustmentBanner.tsx
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { AdjustmentSummary } from '@/utils/priceAdjustments';
+
+interface PriceAdjustmentBannerProps {
+  announcement: {
+    direction: AdjustmentSummary['direction'];
+    message: string;
+  } | null;
+}
+
+/**
+ * Notice for an announced price increase or rollback
+ */
+export const PriceAdjustmentBanner: React.FC<PriceAdjustmentBannerProps> = ({
+  announcement,
+}) => {
+  if (!announcement) return null;
+
+  const isIncrease = announcement.direction === 'increase';
+
+  return (
+    <View
+      style={[styles.container, isIncrease ? styles.increase : styles.rollback]}
+    >
+      <MaterialIcons
+        name={isIncrease ? 'trending-up' : 'trending-down'}
+        size={18}
+        color={isIncrease ? '#e65100' : '#2e7d32'}
+      />
+      <Text
+        style={[styles.text, { color: isIncrease ? '#e65100' : '#2e7d32' }]}
+      >
+        {announcement.message}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderLeftWidth: 4,
+  },
+  increase: {
+    backgroundColor: '#fff3e0',
+    borderLeftColor: '#f57c00',
+  },
+  rollback: {
+    backgroundColor: '#e8f5e9',
+    borderLeftColor: '#43a047',
+  },
+  text: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+});
@@ -3,6 +3,10 @@ import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { Ionicons, MaterialIcons } from '@expo/vector-icons';
 import { formatCurrency, isValidPrice } from '@/utils/formatters';
+import { OutboxItem } from '@/utils/outbox';
+import { VoteDirection } from '@/core/models/PriceVote';
+import { EffectivePrice } from '@/utils/discounts';
+import { EffectivePriceLabel } from './EffectivePriceLabel';
 
 interface PriceCardProps {
   fuelType: string;
@@ -17,12 +21,29 @@ interface PriceCardProps {
     disputedCount: number;
     lastUpdated: string;
     reporterName?: string;
+    reporterCount?: number;
+    agreeingCount?: number;
+    minReportedPrice?: number;
+    maxReportedPrice?: number;
   } | null;
   onConfirm?: () => void;
   onDispute?: () => void;
   onUpdate?: () => void;
+  // The user's latest queued vote on this price, if any
+  voteItem?: OutboxItem | null;
+  // The user's current vote, highlighted on the buttons
+  userVote?: VoteDirection | null;
+  // Community price after the user's discount, if one applies
+  effectivePrice?: EffectivePrice | null;
 }
 
+// Label and colour for each state of a queued vote
+const VOTE_STATUS_DISPLAY = {
+  pending: { label: 'Vote waiting to send', color: '#f4a261' },
+  sent: { label: 'Vote sent', color: '#2a9d8f' },
+  failed: { label: 'Vote not sent', color: '#F44336' },
+};
+
 const PriceCard: React.FC<PriceCardProps> = ({
   fuelType,
   communityPrice,
@@ -31,6 +52,9 @@ const PriceCard: React.FC<PriceCardProps> = ({
   onConfirm,
   onDispute,
   onUpdate,
+  voteItem,
+  userVote = null,
+  effectivePrice,
 }) => {
   // Format fuel type to handle different diesel types
   const formatFuelType = (fuelType: string) => {
@@ -71,15 +95,39 @@ const PriceCard: React.FC<PriceCardProps> = ({
 
           {isValidPrice(communityPrice) && verificationData && (
             <View style={styles.voteContainer}>
-              <TouchableOpacity style={styles.voteButton} onPress={onConfirm}>
-                <Ionicons name='thumbs-up' size={16} color='#4CAF50' />
+              <TouchableOpacity
+                style={[
+                  styles.voteButton,
+                  userVote === 'up' && styles.upvoteSelected,
+                ]}
+                onPress={onConfirm}
+                accessibilityState={{ selected: userVote === 'up' }}
+              >
+                <Ionicons
+                  name={userVote === 'up' ? 'thumbs-up' : 'thumbs-up-outline'}
+                  size={16}
+                  color='#4CAF50'
+                />
                 <Text style={styles.voteCount}>
                   {verificationData.confirmedCount}
                 </Text>
               </TouchableOpacity>
 
-              <TouchableOpacity style={styles.voteButton} onPress={onDispute}>
-                <Ionicons name='thumbs-down' size={16} color='#F44336' />
+              <TouchableOpacity
+                style={[
+                  styles.voteButton,
+                  userVote === 'down' && styles.downvoteSelected,
+                ]}
+                onPress={onDispute}
+                accessibilityState={{ selected: userVote === 'down' }}
+              >
+                <Ionicons
+                  name={
+                    userVote === 'down' ? 'thumbs-down' : 'thumbs-down-outline'
+                  }
+                  size={16}
+                  color='#F44336'
+                />
                 <Text style={styles.voteCount}>
                   {verificationData.disputedCount}
                 </Text>
@@ -88,6 +136,22 @@ const PriceCard: React.FC<PriceCardProps> = ({
           )}
         </View>
 
+        <EffectivePriceLabel effectivePrice={effectivePrice} />
+
+        {voteItem && (
+          <Text
+            style={[
+              styles.voteStatusText,
+              { color: VOTE_STATUS_DISPLAY[voteItem.status].color },
+            ]}
+          >
+            {VOTE_STATUS_DISPLAY[voteItem.status].label}
+            {voteItem.status === 'failed' && voteItem.error
+              ? `: ${voteItem.error}`
+              : ''}
+          </Text>
+        )}
+
         {isValidPrice(communityPrice) && verificationData && (
           <View style={styles.reportInfoContainer}>
             <Text style={styles.reportInfoText}>
@@ -95,6 +159,21 @@ const PriceCard: React.FC<PriceCardProps> = ({
                 ? `Reported by ${verificationData.reporterName}, ${verificationData.lastUpdated}`
                 : `Reported ${verificationData.lastUpdated}`}
             </Text>
+            {!!verificationData.reporterCount &&
+              verificationData.reporterCount > 1 && (
+                <Text style={styles.consensusText}>
+                  {verificationData.agreeingCount} of{' '}
+                  {verificationData.reporterCount} reporters agree
+                  {verificationData.minReportedPrice !==
+                  verificationData.maxReportedPrice
+                    ? `, reports range ${formatCurrency(
+                        verificationData.minReportedPrice
+                      )} to ${formatCurrency(
+                        verificationData.maxReportedPrice
+                      )}`
+                    : ''}
+                </Text>
+              )}
           </View>
         )}
 
@@ -222,11 +301,22 @@ const styles = StyleSheet.create({
     borderRadius: 4,
     marginLeft: 8,
   },
+  upvoteSelected: {
+    backgroundColor: '#e8f5e9',
+  },
+  downvoteSelected: {
+    backgroundColor: '#ffebee',
+  },
   voteCount: {
     fontSize: 14,
     marginLeft: 4,
     fontWeight: '500',
   },
+  voteStatusText: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginBottom: 6,
+  },
   reportInfoContainer: {
     marginBottom: 8,
     backgroundColor: '#f5f5f5',
@@ -238,6 +328,11 @@ const styles = StyleSheet.create({
     color: '#444',
     fontStyle: 'italic',
   },
+  consensusText: {
+    fontSize: 12,
+    color: '#444',
+    marginTop: 2,
+  },
   updateButton: {
     flexDirection: 'row',
     alignItems: 'center',
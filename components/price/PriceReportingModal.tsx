@@ -10,19 +10,31 @@ import {
   ActivityIndicator,
   KeyboardAvoidingView,
   Platform,
+  Image,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import {
+  checkPricePlausibility,
+  PlausibilityResult,
+} from '@/utils/pricePlausibility';
+import { PickedPhoto } from '@/core/services/ReportPhotoService';
 
 export interface PriceReportData {
   stationId: string;
   fuelType: string;
   price: number;
+  // Photo of the pump display or price board, compressed before upload
+  photo?: PickedPhoto | null;
 }
 
 interface PriceReportingModalProps {
   visible: boolean;
   onClose: () => void;
   onSubmit: (data: PriceReportData) => void;
+  // Compares the price with DOE ranges and other reports; without it only
+  // the absolute bounds are checked
+  onCheckPrice?: (data: PriceReportData) => Promise<PlausibilityResult>;
   stationName: string;
   stationId: string;
   initialPrice?: string;
@@ -39,6 +51,7 @@ const PriceReportingModal: React.FC<PriceReportingModalProps> = ({
   visible,
   onClose,
   onSubmit,
+  onCheckPrice,
   stationName,
   stationId,
   initialPrice = '',
@@ -54,6 +67,10 @@ const PriceReportingModal: React.FC<PriceReportingModalProps> = ({
   const [price, setPrice] = useState<string>('');
   const [fuelType, setFuelType] = useState<string>(fuelTypes[0]);
   const [error, setError] = useState<string>('');
+  const [checking, setChecking] = useState(false);
+  // Reasons shown on the confirmation step for an unusual price
+  const [warnings, setWarnings] = useState<string[] | null>(null);
+  const [photo, setPhoto] = useState<PickedPhoto | null>(null);
 
   // Reset form when modal opens or props change
   useEffect(() => {
@@ -61,6 +78,8 @@ const PriceReportingModal: React.FC<PriceReportingModalProps> = ({
       setPrice(initialPrice);
       setFuelType(selectedFuelType || fuelTypes[0]);
       setError('');
+      setWarnings(null);
+      setPhoto(null);
     }
   }, [visible, initialPrice, selectedFuelType, fuelTypes]);
 
@@ -72,30 +91,109 @@ const PriceReportingModal: React.FC<PriceReportingModalProps> = ({
     }
   };
 
-  const validateForm = (): boolean => {
-    if (!price || parseFloat(price) <= 0) {
-      setError('Please enter a valid price');
-      return false;
-    }
+  const pickPhoto = async (source: 'camera' | 'library') => {
+    try {
+      if (source === 'camera') {
+        const permission = await ImagePicker.requestCameraPermissionsAsync();
+        if (!permission.granted) {
+          setError('Allow camera access to take a photo of the price.');
+          return;
+        }
+      }
 
-    if (parseFloat(price) < 20 || parseFloat(price) > 100) {
-      setError('Price seems unrealistic. Please check your input.');
-      return false;
-    }
+      const options: ImagePicker.ImagePickerOptions = {
+        mediaTypes: ['images'],
+        quality: 1,
+      };
+      const result =
+        source === 'camera'
+          ? await ImagePicker.launchCameraAsync(options)
+          : await ImagePicker.launchImageLibraryAsync(options);
 
-    return true;
+      if (!result.canceled && result.assets.length > 0) {
+        const { uri, width, height } = result.assets[0];
+        setPhoto({ uri, width, height });
+        setError('');
+      }
+    } catch (err) {
+      console.error('Error picking photo:', err);
+      setError('Could not open the photo. Please try again.');
+    }
   };
 
-  const handleSubmit = () => {
-    if (!validateForm()) return;
+  const getReportData = (): PriceReportData => ({
+    stationId,
+    fuelType,
+    price: parseFloat(price),
+    photo,
+  });
+
+  const handleSubmit = async () => {
+    const data = getReportData();
+    setChecking(true);
+
+    try {
+      const result = onCheckPrice
+        ? await onCheckPrice(data)
+        : checkPricePlausibility(data.price, {
+            fuelType,
+            doeRange: null,
+            communityPrices: [],
+            nearbyBrandPrices: [],
+          });
+
+      if (result.verdict === 'reject') {
+        setError(result.reasons.join('. '));
+      } else if (result.verdict === 'warn') {
+        setWarnings(result.reasons);
+      } else {
+        onSubmit(data);
+      }
+    } finally {
+      setChecking(false);
+    }
+  };
 
-    onSubmit({
-      stationId,
-      fuelType,
-      price: parseFloat(price),
-    });
+  const handleConfirm = () => {
+    setWarnings(null);
+    onSubmit(getReportData());
   };
 
+  const renderConfirmation = (reasons: string[]) => (
+    <View style={styles.warningContainer}>
+      <View style={styles.warningHeader}>
+        <Ionicons name='warning-outline' size={20} color='#f4a261' />
+        <Text style={styles.warningTitle}>
+          This price looks unusual. Are you sure?
+        </Text>
+      </View>
+      {reasons.map((reason) => (
+        <Text key={reason} style={styles.warningText}>
+          • {reason}
+        </Text>
+      ))}
+      <View style={styles.warningActions}>
+        <TouchableOpacity
+          style={styles.editButton}
+          onPress={() => setWarnings(null)}
+        >
+          <Text style={styles.editButtonText}>Edit Price</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.submitButton, styles.confirmButton]}
+          onPress={handleConfirm}
+          disabled={isLoading}
+        >
+          {isLoading ? (
+            <ActivityIndicator size='small' color='#fff' />
+          ) : (
+            <Text style={styles.submitButtonText}>Submit Anyway</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
   return (
     <Modal
       visible={visible}
@@ -117,68 +215,112 @@ const PriceReportingModal: React.FC<PriceReportingModalProps> = ({
 
           <Text style={styles.stationName}>{stationName}</Text>
 
-          <View style={styles.formGroup}>
-            <Text style={styles.label}>Fuel Type</Text>
-            <View style={styles.fuelTypeContainer}>
-              {fuelTypes.map((type) => (
-                <TouchableOpacity
-                  key={type}
-                  style={[
-                    styles.fuelTypeButton,
-                    fuelType === type && styles.selectedFuelType,
-                  ]}
-                  onPress={() => setFuelType(type)}
-                >
-                  <Text
-                    style={[
-                      styles.fuelTypeText,
-                      fuelType === type && styles.selectedFuelTypeText,
-                    ]}
-                  >
-                    {type}
-                  </Text>
-                </TouchableOpacity>
-              ))}
-            </View>
-          </View>
+          {warnings ? (
+            renderConfirmation(warnings)
+          ) : (
+            <>
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Fuel Type</Text>
+                <View style={styles.fuelTypeContainer}>
+                  {fuelTypes.map((type) => (
+                    <TouchableOpacity
+                      key={type}
+                      style={[
+                        styles.fuelTypeButton,
+                        fuelType === type && styles.selectedFuelType,
+                      ]}
+                      onPress={() => setFuelType(type)}
+                    >
+                      <Text
+                        style={[
+                          styles.fuelTypeText,
+                          fuelType === type && styles.selectedFuelTypeText,
+                        ]}
+                      >
+                        {type}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
 
-          <View style={styles.formGroup}>
-            <Text style={styles.label}>Current Price (₱)</Text>
-            <TextInput
-              style={styles.priceInput}
-              value={price}
-              onChangeText={handlePriceChange}
-              placeholder='0.00'
-              keyboardType='decimal-pad'
-              returnKeyType='done'
-            />
-            {error ? <Text style={styles.errorText}>{error}</Text> : null}
-          </View>
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Current Price (₱)</Text>
+                <TextInput
+                  style={styles.priceInput}
+                  value={price}
+                  onChangeText={handlePriceChange}
+                  placeholder='0.00'
+                  keyboardType='decimal-pad'
+                  returnKeyType='done'
+                />
+                {error ? <Text style={styles.errorText}>{error}</Text> : null}
+              </View>
 
-          <View style={styles.disclaimerContainer}>
-            <Ionicons
-              name='information-circle-outline'
-              size={16}
-              color='#666'
-            />
-            <Text style={styles.disclaimerText}>
-              By submitting, you confirm this is the current price you observed
-              at this station. Community prices are reset weekly when new
-              official data is published.
-            </Text>
-          </View>
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Photo (optional)</Text>
+                {photo ? (
+                  <View style={styles.photoPreview}>
+                    <Image
+                      source={{ uri: photo.uri }}
+                      style={styles.photoThumbnail}
+                    />
+                    <Text style={styles.photoHint}>
+                      Reports with a photo are trusted more.
+                    </Text>
+                    <TouchableOpacity
+                      style={styles.closeButton}
+                      onPress={() => setPhoto(null)}
+                    >
+                      <Ionicons name='trash-outline' size={20} color='#666' />
+                    </TouchableOpacity>
+                  </View>
+                ) : (
+                  <View style={styles.photoButtons}>
+                    <TouchableOpacity
+                      style={styles.photoButton}
+                      onPress={() => pickPhoto('camera')}
+                    >
+                      <Ionicons name='camera-outline' size={18} color='#333' />
+                      <Text style={styles.photoButtonText}>Take Photo</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.photoButton}
+                      onPress={() => pickPhoto('library')}
+                    >
+                      <Ionicons name='images-outline' size={18} color='#333' />
+                      <Text style={styles.photoButtonText}>Choose Photo</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
 
-          <TouchableOpacity
-            style={styles.submitButton}
-            onPress={handleSubmit}
-            disabled={isLoading}
-          >
-            {isLoading ? (
-              <ActivityIndicator size='small' color='#fff' />
-            ) : (
-              <Text style={styles.submitButtonText}>Submit Price</Text>
-            )}
-          </TouchableOpacity>
+              <View style={styles.disclaimerContainer}>
+                <Ionicons
+                  name='information-circle-outline'
+                  size={16}
+                  color='#666'
+                />
+                <Text style={styles.disclaimerText}>
+                  By submitting, you confirm this is the current price you
+                  observed at this station. Community prices are reset weekly
+                  when new official data is published.
+                </Text>
+              </View>
+
+              <TouchableOpacity
+                style={styles.submitButton}
+                onPress={handleSubmit}
+                disabled={isLoading || checking || !price}
+              >
+                {isLoading || checking ? (
+                  <ActivityIndicator size='small' color='#fff' />
+                ) : (
+                  <Text style={styles.submitButtonText}>Submit Price</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          )}
         </View>
       </KeyboardAvoidingView>
     </Modal>
@@ -263,6 +405,42 @@ const styles = StyleSheet.create({
     padding: 12,
     fontSize: 18,
   },
+  photoButtons: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+  },
+  photoButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    margin: 4,
+  },
+  photoButtonText: {
+    fontSize: 14,
+    color: '#333',
+    marginLeft: 6,
+  },
+  photoPreview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  photoThumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  photoHint: {
+    fontSize: 12,
+    color: '#666',
+    flex: 1,
+    marginHorizontal: 12,
+  },
   errorText: {
     color: '#F44336',
     fontSize: 12,
@@ -287,6 +465,49 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     alignItems: 'center',
   },
+  warningContainer: {
+    backgroundColor: '#fff8e1',
+    padding: 12,
+    borderRadius: 8,
+  },
+  warningHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  warningTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginLeft: 8,
+    flex: 1,
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
+  warningActions: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  editButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  editButtonText: {
+    color: '#333',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  confirmButton: {
+    flex: 1,
+  },
   submitButtonText: {
     color: '#fff',
     fontSize: 16,
@@ -0,0 +1,182 @@
+// components/price/PriceTrendChart.tsx
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Line, Polyline } from 'react-native-svg';
+import { getTrendPriceRange, PriceTrendPoint } from '@/utils/priceHistory';
+import { formatCurrency } from '@/utils/formatters';
+
+const CHART_PADDING = 12;
+
+const TREND_COLORS = {
+  min: '#8ecae6',
+  common: '#2a9d8f',
+  max: '#e76f51',
+  community: '#f4a261',
+};
+
+interface PriceTrendChartProps {
+  points: PriceTrendPoint[];
+  height?: number;
+}
+
+/**
+ * Line chart of weekly DOE min/common/max prices with community medians
+ * drawn as dots
+ */
+const PriceTrendChart: React.FC<PriceTrendChartProps> = ({
+  points,
+  height = 160,
+}) => {
+  const [width, setWidth] = useState(0);
+  const range = getTrendPriceRange(points);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  if (!range || points.length === 0) {
+    return (
+      <Text style={styles.emptyText}>No price history for this range.</Text>
+    );
+  }
+
+  // Avoid dividing by zero when every price is the same
+  const spread = range.high - range.low || 1;
+  const plotWidth = Math.max(width - CHART_PADDING * 2, 0);
+  const plotHeight = height - CHART_PADDING * 2;
+
+  const toX = (index: number) =>
+    CHART_PADDING +
+    (points.length === 1
+      ? plotWidth / 2
+      : (index / (points.length - 1)) * plotWidth);
+  const toY = (value: number) =>
+    CHART_PADDING + ((range.high - value) / spread) * plotHeight;
+
+  const buildLine = (key: 'minPrice' | 'commonPrice' | 'maxPrice') =>
+    points
+      .map((point, index) =>
+        point[key] === null ? null : `${toX(index)},${toY(point[key]!)}`
+      )
+      .filter(Boolean)
+      .join(' ');
+
+  return (
+    <View>
+      <View style={styles.axisRow}>
+        <Text style={styles.axisLabel}>{formatCurrency(range.high)}</Text>
+      </View>
+
+      <View style={{ height }} onLayout={handleLayout}>
+        {width > 0 && (
+          <Svg width={width} height={height}>
+            <Line
+              x1={CHART_PADDING}
+              y1={height - CHART_PADDING}
+              x2={width - CHART_PADDING}
+              y2={height - CHART_PADDING}
+              stroke='#eee'
+              strokeWidth={1}
+            />
+            <Polyline
+              points={buildLine('maxPrice')}
+              fill='none'
+              stroke={TREND_COLORS.max}
+              strokeWidth={1.5}
+            />
+            <Polyline
+              points={buildLine('minPrice')}
+              fill='none'
+              stroke={TREND_COLORS.min}
+              strokeWidth={1.5}
+            />
+            <Polyline
+              points={buildLine('commonPrice')}
+              fill='none'
+              stroke={TREND_COLORS.common}
+              strokeWidth={2.5}
+            />
+            {points.map((point, index) =>
+              point.communityMedian === null ? null : (
+                <Circle
+                  key={point.weekOf}
+                  cx={toX(index)}
+                  cy={toY(point.communityMedian)}
+                  r={4}
+                  fill={TREND_COLORS.community}
+                />
+              )
+            )}
+          </Svg>
+        )}
+      </View>
+
+      <View style={styles.axisRow}>
+        <Text style={styles.axisLabel}>{formatCurrency(range.low)}</Text>
+      </View>
+      <View style={[styles.axisRow, styles.weekRow]}>
+        <Text style={styles.axisLabel}>{points[0].weekOf}</Text>
+        <Text style={styles.axisLabel}>{points[points.length - 1].weekOf}</Text>
+      </View>
+
+      <View style={styles.legend}>
+        {[
+          { label: 'Min', color: TREND_COLORS.min },
+          { label: 'Common', color: TREND_COLORS.common },
+          { label: 'Max', color: TREND_COLORS.max },
+          { label: 'Community', color: TREND_COLORS.community },
+        ].map((item) => (
+          <View key={item.label} style={styles.legendItem}>
+            <View
+              style={[styles.legendSwatch, { backgroundColor: item.color }]}
+            />
+            <Text style={styles.legendText}>{item.label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  axisRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  weekRow: {
+    marginTop: 4,
+  },
+  axisLabel: {
+    fontSize: 11,
+    color: '#888',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 12,
+    marginBottom: 4,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#666',
+  },
+});
+
+export default PriceTrendChart;
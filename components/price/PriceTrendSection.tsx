@@ -0,0 +1,223 @@
+// components/price/PriceTrendSection.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { usePriceTrend } from '@/hooks/usePriceTrend';
+import { TREND_RANGES, TrendRange } from '@/utils/priceHistory';
+import { FUEL_TYPES } from '@/utils/constants';
+import { formatCurrency, getShortFuelTypeName } from '@/utils/formatters';
+import PriceTrendChart from './PriceTrendChart';
+
+// Number of week-over-week changes listed under the chart
+const MAX_CHANGES_SHOWN = 6;
+
+interface PriceTrendSectionProps {
+  area: string;
+  // Shows this brand's DOE prices instead of the area-wide spread
+  brand?: string;
+  stationIds?: string[];
+  initialFuelType?: string;
+}
+
+/**
+ * Fuel and range pickers, a trend chart and recent week-over-week changes
+ */
+const PriceTrendSection: React.FC<PriceTrendSectionProps> = ({
+  area,
+  brand,
+  stationIds,
+  initialFuelType = FUEL_TYPES[0],
+}) => {
+  const [fuelType, setFuelType] = useState(initialFuelType);
+  const [weeks, setWeeks] = useState<TrendRange>(12);
+
+  // Follow the default when it changes, e.g. the active vehicle loads
+  useEffect(() => {
+    setFuelType(initialFuelType);
+  }, [initialFuelType]);
+  const { points, missingWeeks, loading, error } = usePriceTrend({
+    area,
+    fuelType,
+    weeks,
+    brand,
+    stationIds,
+  });
+
+  const recentChanges = points
+    .filter((point) => point.change !== null)
+    .slice(-MAX_CHANGES_SHOWN)
+    .reverse();
+
+  const renderChange = (change: number) => {
+    const color = change > 0 ? '#e74c3c' : change < 0 ? '#2a9d8f' : '#666';
+    const icon =
+      change > 0 ? 'arrow-upward' : change < 0 ? 'arrow-downward' : 'remove';
+
+    return (
+      <View style={styles.changeValue}>
+        <MaterialIcons name={icon} size={14} color={color} />
+        <Text style={[styles.changeText, { color }]}>
+          {formatCurrency(Math.abs(change))}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={styles.chipRow}>
+          {FUEL_TYPES.map((item) => (
+            <TouchableOpacity
+              key={item}
+              style={[styles.chip, fuelType === item && styles.selectedChip]}
+              onPress={() => setFuelType(item)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  fuelType === item && styles.selectedChipText,
+                ]}
+              >
+                {getShortFuelTypeName(item)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+
+      <View style={styles.chipRow}>
+        {TREND_RANGES.map((range) => (
+          <TouchableOpacity
+            key={range}
+            style={[styles.chip, weeks === range && styles.selectedChip]}
+            onPress={() => setWeeks(range)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                weeks === range && styles.selectedChipText,
+              ]}
+            >
+              {range} weeks
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size='small' color='#2a9d8f' />
+      ) : error ? (
+        <Text style={styles.errorText}>{error}</Text>
+      ) : (
+        <>
+          <PriceTrendChart points={points} />
+
+          {missingWeeks.length > 0 && (
+            <Text style={styles.gapText}>
+              No DOE data for {missingWeeks.length === 1 ? 'week' : 'weeks'} of{' '}
+              {missingWeeks.join(', ')}
+            </Text>
+          )}
+
+          {recentChanges.length > 0 && (
+            <View style={styles.changes}>
+              <Text style={styles.changesTitle}>Week-over-week</Text>
+              {recentChanges.map((point) => (
+                <View key={point.weekOf} style={styles.changeRow}>
+                  <Text style={styles.changeWeek}>{point.weekOf}</Text>
+                  <Text style={styles.changePrice}>
+                    {formatCurrency(point.commonPrice)}
+                  </Text>
+                  {renderChange(point.change!)}
+                </View>
+              ))}
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chipRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#2a9d8f',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  selectedChipText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  errorText: {
+    color: '#c62828',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  gapText: {
+    fontSize: 12,
+    color: '#888',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  changes: {
+    marginTop: 16,
+  },
+  changesTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  changeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  changeWeek: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+  },
+  changePrice: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+    marginRight: 12,
+  },
+  changeValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minWidth: 70,
+    justifyContent: 'flex-end',
+  },
+  changeText: {
+    fontSize: 13,
+    marginLeft: 2,
+  },
+});
+
+export default PriceTrendSection;
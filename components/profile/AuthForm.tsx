@@ -0,0 +1,231 @@
+// components/profile/AuthForm.tsx
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useAuth } from '@/context/AuthContext';
+
+type AuthMode = 'signIn' | 'signUp' | 'magicLink';
+
+const MODE_LABELS: Record<AuthMode, string> = {
+  signIn: 'Sign In',
+  signUp: 'Sign Up',
+  magicLink: 'Magic Link',
+};
+
+// Supabase's default minimum password length
+const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * Sign in, sign up and magic link form shown on the profile tab
+ */
+const AuthForm: React.FC = () => {
+  const { signIn, signUp, sendMagicLink } = useAuth();
+  const [mode, setMode] = useState<AuthMode>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const switchMode = (nextMode: AuthMode) => {
+    setMode(nextMode);
+    setError('');
+  };
+
+  const validateForm = (): boolean => {
+    if (!/^\S+@\S+\.\S+$/.test(email.trim())) {
+      setError('Please enter a valid email address');
+      return false;
+    }
+
+    if (mode !== 'magicLink' && password.length < MIN_PASSWORD_LENGTH) {
+      setError(
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`
+      );
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) return;
+
+    setSubmitting(true);
+    setError('');
+
+    try {
+      if (mode === 'signIn') {
+        await signIn(email, password);
+      } else if (mode === 'signUp') {
+        const { needsConfirmation } = await signUp(
+          email,
+          password,
+          displayName
+        );
+        if (needsConfirmation) {
+          Alert.alert(
+            'Check Your Email',
+            'We sent you a confirmation link to finish creating your account.'
+          );
+        }
+      } else {
+        await sendMagicLink(email);
+        Alert.alert(
+          'Check Your Email',
+          'We sent you a link to sign in. Open it on this device.'
+        );
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.tabs}>
+        {(Object.keys(MODE_LABELS) as AuthMode[]).map((item) => (
+          <TouchableOpacity
+            key={item}
+            style={[styles.tab, mode === item && styles.activeTab]}
+            onPress={() => switchMode(item)}
+            disabled={submitting}
+          >
+            <Text
+              style={[styles.tabText, mode === item && styles.activeTabText]}
+            >
+              {MODE_LABELS[item]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {mode === 'signUp' && (
+        <TextInput
+          style={styles.input}
+          value={displayName}
+          onChangeText={setDisplayName}
+          placeholder='Display name (optional)'
+          autoCapitalize='words'
+          editable={!submitting}
+        />
+      )}
+
+      <TextInput
+        style={styles.input}
+        value={email}
+        onChangeText={(text) => {
+          setEmail(text);
+          setError('');
+        }}
+        placeholder='Email'
+        keyboardType='email-address'
+        autoCapitalize='none'
+        autoComplete='email'
+        editable={!submitting}
+      />
+
+      {mode !== 'magicLink' && (
+        <TextInput
+          style={styles.input}
+          value={password}
+          onChangeText={(text) => {
+            setPassword(text);
+            setError('');
+          }}
+          placeholder='Password'
+          secureTextEntry
+          autoCapitalize='none'
+          editable={!submitting}
+        />
+      )}
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      <TouchableOpacity
+        style={[styles.submitButton, submitting && styles.disabledButton]}
+        onPress={handleSubmit}
+        disabled={submitting}
+      >
+        {submitting ? (
+          <ActivityIndicator size='small' color='#fff' />
+        ) : (
+          <Text style={styles.submitButtonText}>
+            {mode === 'magicLink' ? 'Send Magic Link' : MODE_LABELS[mode]}
+          </Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    maxWidth: 300,
+    marginBottom: 32,
+  },
+  tabs: {
+    flexDirection: 'row',
+    marginBottom: 16,
+    borderRadius: 8,
+    backgroundColor: '#e0e0e0',
+    padding: 2,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: 'center',
+    borderRadius: 6,
+  },
+  activeTab: {
+    backgroundColor: '#fff',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  activeTabText: {
+    color: '#2a9d8f',
+    fontWeight: 'bold',
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  errorText: {
+    color: '#e74c3c',
+    marginBottom: 12,
+  },
+  submitButton: {
+    backgroundColor: '#2a9d8f',
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disabledButton: {
+    backgroundColor: '#aaa',
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default AuthForm;
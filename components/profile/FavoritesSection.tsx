@@ -0,0 +1,217 @@
+// components/profile/FavoritesSection.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useFavorites } from '@/context/FavoritesContext';
+import { useServiceContext } from '@/context/ServiceContext';
+import { FavoriteStationSummary } from '@/core/services/FavoritesService';
+import { formatCurrency, getShortFuelTypeName } from '@/utils/formatters';
+import { useDiscounts } from '@/hooks/useDiscounts';
+import { EffectivePriceLabel } from '@/components/price/EffectivePriceLabel';
+
+interface FavoritesSectionProps {
+  fuelType: string;
+}
+
+/**
+ * List of favorite stations with their latest DOE and community prices
+ */
+const FavoritesSection: React.FC<FavoritesSectionProps> = ({ fuelType }) => {
+  const { favoritesService } = useServiceContext();
+  const {
+    favorites,
+    loading: favoritesLoading,
+    removeFavorite,
+    moveFavorite,
+  } = useFavorites();
+  const { getEffectivePrice } = useDiscounts();
+  const [summaries, setSummaries] = useState<FavoriteStationSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchSummaries = async () => {
+      try {
+        setLoading(true);
+        const result = await favoritesService.getFavoriteSummaries(
+          favorites,
+          fuelType
+        );
+        if (isMounted) setSummaries(result);
+      } catch (err) {
+        console.error('Error loading favorite stations:', err);
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    fetchSummaries();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [favorites, fuelType, favoritesService]);
+
+  const renderContent = () => {
+    if ((favoritesLoading || loading) && summaries.length === 0) {
+      return <ActivityIndicator size='small' color='#2a9d8f' />;
+    }
+
+    if (favorites.length === 0) {
+      return (
+        <Text style={styles.emptyText}>
+          Tap the heart on a station to save it here.
+        </Text>
+      );
+    }
+
+    return summaries.map((summary, index) => (
+      <Pressable
+        key={summary.station.id}
+        style={styles.row}
+        onPress={() => router.push(`/station/${summary.station.id}`)}
+      >
+        <View style={styles.stationInfo}>
+          <Text style={styles.stationName} numberOfLines={1}>
+            {summary.station.name}
+          </Text>
+          <Text style={styles.stationBrand}>
+            {summary.station.brand} · {summary.station.city}
+          </Text>
+          <View style={styles.priceRow}>
+            <Text style={styles.priceLabel}>DOE</Text>
+            <Text style={styles.priceValue}>
+              {summary.doePrice ? formatCurrency(summary.doePrice) : '--'}
+            </Text>
+            <Text style={styles.priceLabel}>Community</Text>
+            <Text style={styles.priceValue}>
+              {summary.communityPrice
+                ? formatCurrency(summary.communityPrice)
+                : '--'}
+            </Text>
+          </View>
+          <EffectivePriceLabel
+            effectivePrice={getEffectivePrice(
+              summary.station.brand,
+              fuelType,
+              summary.communityPrice ?? summary.doePrice
+            )}
+          />
+        </View>
+
+        <View style={styles.actions}>
+          <Pressable
+            onPress={() => moveFavorite(index, index - 1)}
+            disabled={index === 0}
+            hitSlop={4}
+          >
+            <MaterialIcons
+              name='keyboard-arrow-up'
+              size={22}
+              color={index === 0 ? '#ddd' : '#666'}
+            />
+          </Pressable>
+          <Pressable
+            onPress={() => moveFavorite(index, index + 1)}
+            disabled={index === summaries.length - 1}
+            hitSlop={4}
+          >
+            <MaterialIcons
+              name='keyboard-arrow-down'
+              size={22}
+              color={index === summaries.length - 1 ? '#ddd' : '#666'}
+            />
+          </Pressable>
+          <Pressable
+            onPress={() => removeFavorite(summary.station.id)}
+            hitSlop={4}
+          >
+            <MaterialIcons name='favorite' size={20} color='#e74c3c' />
+          </Pressable>
+        </View>
+      </Pressable>
+    ));
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>
+        Favorite Stations · {getShortFuelTypeName(fuelType)}
+      </Text>
+      {renderContent()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    maxWidth: 300,
+    padding: 16,
+    marginBottom: 32,
+    borderRadius: 8,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+    color: '#333',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  stationInfo: {
+    flex: 1,
+  },
+  stationName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  stationBrand: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 4,
+  },
+  priceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  priceLabel: {
+    fontSize: 12,
+    color: '#888',
+    marginRight: 4,
+  },
+  priceValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2a9d8f',
+    marginRight: 12,
+  },
+  actions: {
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+});
+
+export default FavoritesSection;
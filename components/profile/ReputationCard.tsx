@@ -0,0 +1,110 @@
+// components/profile/ReputationCard.tsx
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useReputation } from '@/hooks/useReputation';
+import { getReputationLevel, ReputationLevel } from '@/utils/reputation';
+
+// Colour for each reputation level
+const LEVEL_COLORS: Record<ReputationLevel, string> = {
+  New: '#666',
+  Trusted: '#4caf50',
+  Established: '#2a9d8f',
+  Low: '#f44336',
+};
+
+/**
+ * The signed-in user's reporter reputation with a breakdown of their reports
+ */
+export const ReputationCard: React.FC = () => {
+  const { score, summary, loading } = useReputation();
+
+  if (score === null) return null;
+
+  const level = summary ? getReputationLevel(summary) : null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <MaterialIcons name='verified-user' size={18} color='#2a9d8f' />
+        <Text style={styles.title}>Reporter Reputation</Text>
+        {loading && <ActivityIndicator size='small' color='#2a9d8f' />}
+      </View>
+
+      <View style={styles.scoreRow}>
+        <Text style={styles.score}>{Math.round(score)}</Text>
+        <Text style={styles.scoreMax}>/ 100</Text>
+        {level && (
+          <Text style={[styles.level, { color: LEVEL_COLORS[level] }]}>
+            {level}
+          </Text>
+        )}
+      </View>
+
+      {summary && (
+        <Text style={styles.breakdown}>
+          {summary.reportCount} reports, {summary.confirmedCount} confirmed,{' '}
+          {summary.disputedCount} disputed
+        </Text>
+      )}
+      <Text style={styles.hint}>
+        Accurate reports that others confirm raise your score and give your
+        prices more weight.
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    marginTop: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginLeft: 6,
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+  },
+  score: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#2a9d8f',
+  },
+  scoreMax: {
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 4,
+  },
+  level: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 12,
+  },
+  breakdown: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
+});
+
+export default ReputationCard;
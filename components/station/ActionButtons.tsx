@@ -6,6 +6,7 @@ import { MaterialIcons } from '@expo/vector-icons';
 interface ActionButtonsProps {
   onGetDirections?: () => void;
   onSaveStation?: () => void;
+  isSaved?: boolean;
 }
 
 /**
@@ -14,6 +15,7 @@ interface ActionButtonsProps {
 export const ActionButtons: React.FC<ActionButtonsProps> = ({
   onGetDirections,
   onSaveStation,
+  isSaved = false,
 }) => {
   return (
     <View style={styles.actionButtons}>
@@ -23,8 +25,14 @@ export const ActionButtons: React.FC<ActionButtonsProps> = ({
       </Pressable>
 
       <Pressable style={styles.actionButton} onPress={onSaveStation}>
-        <MaterialIcons name='favorite-border' size={24} color='#fff' />
-        <Text style={styles.actionButtonText}>Save</Text>
+        <MaterialIcons
+          name={isSaved ? 'favorite' : 'favorite-border'}
+          size={24}
+          color='#fff'
+        />
+        <Text style={styles.actionButtonText}>
+          {isSaved ? 'Saved' : 'Save'}
+        </Text>
       </Pressable>
     </View>
   );
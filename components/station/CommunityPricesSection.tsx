@@ -1,14 +1,20 @@
 // components/station/CommunityPricesSection.tsx
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   Pressable,
   ActivityIndicator,
+  Image,
+  Modal,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import PriceCard from '@/components/price/PriceCard';
+import OutboxItemRow from '@/components/outbox/OutboxItemRow';
+import { OutboxItem } from '@/utils/outbox';
+import { VoteDirection } from '@/core/models/PriceVote';
+import { EffectivePrice } from '@/utils/discounts';
 
 // Type for price data returned by usePriceReporting hook
 interface StationPrice {
@@ -25,6 +31,11 @@ interface StationPrice {
     disputedCount: number;
     lastUpdated: string;
     reporterName?: string;
+    reporterCount?: number;
+    agreeingCount?: number;
+    minReportedPrice?: number;
+    maxReportedPrice?: number;
+    photoUrl?: string | null;
   } | null;
 }
 
@@ -39,9 +50,20 @@ interface CommunityPricesSectionProps {
   loading: boolean;
   cycle: CycleInfo;
   onAddPrice: () => void;
-  onConfirm: (reportId: string | null) => void;
-  onDispute: (reportId: string | null) => void;
+  // Called with the new vote, or null when the user withdraws their vote
+  onVote: (reportId: string, vote: VoteDirection | null) => void;
   onUpdate: (fuelType: string, price: number | null) => void;
+  // The signed-in user's votes keyed by report id
+  userVotes?: Record<string, VoteDirection>;
+  // The user's queued reports and votes for this station
+  outboxItems?: OutboxItem[];
+  onRetryOutboxItem?: (id: string) => void;
+  onRemoveOutboxItem?: (id: string) => void;
+  // Price after the user's discount at this station, if one applies
+  getEffectivePrice?: (
+    fuelType: string,
+    price: number | null
+  ) => EffectivePrice | null;
 }
 
 /**
@@ -52,10 +74,45 @@ export const CommunityPricesSection: React.FC<CommunityPricesSectionProps> = ({
   loading,
   cycle,
   onAddPrice,
-  onConfirm,
-  onDispute,
+  onVote,
   onUpdate,
+  userVotes = {},
+  outboxItems = [],
+  onRetryOutboxItem = () => {},
+  onRemoveOutboxItem = () => {},
+  getEffectivePrice = () => null,
 }) => {
+  // Full-size photo being viewed, if any
+  const [viewingPhoto, setViewingPhoto] = useState<string | null>(null);
+
+  const queuedReports = outboxItems.filter(
+    (item) => item.payload.kind === 'report'
+  );
+
+  // Latest queued vote on a report, if any
+  const getVoteItem = (reportId: string | null) =>
+    outboxItems.find(
+      (item) =>
+        item.payload.kind === 'vote' && item.payload.report_id === reportId
+    ) || null;
+
+  // A queued vote shows immediately; a failed one falls back to the server
+  const getUserVote = (reportId: string | null): VoteDirection | null => {
+    if (!reportId) return null;
+
+    const voteItem = getVoteItem(reportId);
+    if (voteItem?.payload.kind === 'vote' && voteItem.status !== 'failed') {
+      return voteItem.payload.vote;
+    }
+    return userVotes[reportId] ?? null;
+  };
+
+  // Pressing the button of the current vote withdraws it
+  const handleVote = (reportId: string | null, vote: VoteDirection) => {
+    if (!reportId) return;
+    onVote(reportId, getUserVote(reportId) === vote ? null : vote);
+  };
+
   // Render price cycle info
   const renderCycleInfo = () => {
     if (!cycle.currentCycle) {
@@ -87,22 +144,60 @@ export const CommunityPricesSection: React.FC<CommunityPricesSectionProps> = ({
         </Pressable>
       </View>
 
+      {queuedReports.length > 0 && (
+        <View style={styles.outboxContainer}>
+          <Text style={styles.outboxTitle}>Your Reports</Text>
+          {queuedReports.map((item) => (
+            <OutboxItemRow
+              key={item.id}
+              item={item}
+              onRetry={onRetryOutboxItem}
+              onRemove={onRemoveOutboxItem}
+            />
+          ))}
+        </View>
+      )}
+
       {loading ? (
         <ActivityIndicator size='small' color='#2a9d8f' />
       ) : prices.length > 0 ? (
         prices.map((priceData) => (
-          <PriceCard
-            key={priceData.fuelType}
-            fuelType={priceData.fuelType}
-            communityPrice={priceData.communityPrice}
-            doeData={priceData.doeData}
-            verificationData={priceData.verificationData}
-            onConfirm={() => onConfirm(priceData.reportId)}
-            onDispute={() => onDispute(priceData.reportId)}
-            onUpdate={() =>
-              onUpdate(priceData.fuelType, priceData.communityPrice)
-            }
-          />
+          <View key={priceData.fuelType}>
+            <PriceCard
+              fuelType={priceData.fuelType}
+              communityPrice={priceData.communityPrice}
+              doeData={priceData.doeData}
+              verificationData={priceData.verificationData}
+              onConfirm={() => handleVote(priceData.reportId, 'up')}
+              onDispute={() => handleVote(priceData.reportId, 'down')}
+              onUpdate={() =>
+                onUpdate(priceData.fuelType, priceData.communityPrice)
+              }
+              voteItem={getVoteItem(priceData.reportId)}
+              userVote={getUserVote(priceData.reportId)}
+              effectivePrice={getEffectivePrice(
+                priceData.fuelType,
+                priceData.communityPrice
+              )}
+            />
+            {priceData.verificationData?.photoUrl && (
+              <Pressable
+                style={styles.photoEvidence}
+                onPress={() =>
+                  setViewingPhoto(priceData.verificationData?.photoUrl || null)
+                }
+              >
+                <Image
+                  source={{ uri: priceData.verificationData.photoUrl }}
+                  style={styles.photoThumbnail}
+                />
+                <MaterialIcons name='photo-camera' size={14} color='#666' />
+                <Text style={styles.photoEvidenceText}>
+                  Photo evidence, tap to view
+                </Text>
+              </Pressable>
+            )}
+          </View>
         ))
       ) : (
         <View style={styles.noPricesContainer}>
@@ -114,6 +209,26 @@ export const CommunityPricesSection: React.FC<CommunityPricesSectionProps> = ({
           </Pressable>
         </View>
       )}
+
+      <Modal
+        visible={!!viewingPhoto}
+        transparent
+        animationType='fade'
+        onRequestClose={() => setViewingPhoto(null)}
+      >
+        <Pressable
+          style={styles.photoViewer}
+          onPress={() => setViewingPhoto(null)}
+        >
+          {viewingPhoto && (
+            <Image
+              source={{ uri: viewingPhoto }}
+              style={styles.photoFull}
+              resizeMode='contain'
+            />
+          )}
+        </Pressable>
+      </Modal>
     </View>
   );
 };
@@ -172,6 +287,42 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginLeft: 4,
   },
+  outboxContainer: {
+    marginBottom: 16,
+  },
+  outboxTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  photoEvidence: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  photoThumbnail: {
+    width: 40,
+    height: 40,
+    borderRadius: 4,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  photoEvidenceText: {
+    fontSize: 12,
+    color: '#666',
+    marginLeft: 4,
+  },
+  photoViewer: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.9)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  photoFull: {
+    width: '100%',
+    height: '80%',
+  },
   noPricesContainer: {
     alignItems: 'center',
     paddingVertical: 20,
@@ -0,0 +1,58 @@
+// components/station/FavoriteButton.tsx
+import React from 'react';
+import { Pressable, StyleSheet, Alert } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useFavorites } from '@/context/FavoritesContext';
+
+interface FavoriteButtonProps {
+  stationId: string;
+  size?: number;
+}
+
+/**
+ * Heart toggle that adds or removes a station from the user's favorites
+ */
+export const FavoriteButton: React.FC<FavoriteButtonProps> = ({
+  stationId,
+  size = 24,
+}) => {
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const favorite = isFavorite(stationId);
+
+  const handlePress = async () => {
+    try {
+      await toggleFavorite(stationId);
+    } catch {
+      Alert.alert(
+        'Error',
+        'Could not update your favorites. Please try again.'
+      );
+    }
+  };
+
+  return (
+    <Pressable
+      style={styles.button}
+      onPress={handlePress}
+      hitSlop={8}
+      accessibilityRole='button'
+      accessibilityLabel={
+        favorite ? 'Remove from favorites' : 'Add to favorites'
+      }
+    >
+      <MaterialIcons
+        name={favorite ? 'favorite' : 'favorite-border'}
+        size={size}
+        color={favorite ? '#e74c3c' : '#999'}
+      />
+    </Pressable>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    padding: 4,
+  },
+});
+
+export default FavoriteButton;
@@ -0,0 +1,66 @@
+// components/station/FullTankCost.tsx
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Vehicle } from '@/core/models/Vehicle';
+import { formatCurrency } from '@/utils/formatters';
+
+interface FullTankCostProps {
+  vehicle: Vehicle | null;
+  cost: number | null;
+  source: 'community' | 'doe';
+}
+
+/**
+ * What filling the active vehicle's tank costs at a station
+ */
+export const FullTankCost: React.FC<FullTankCostProps> = ({
+  vehicle,
+  cost,
+  source,
+}) => {
+  if (!vehicle || cost === null) return null;
+
+  return (
+    <View style={styles.container}>
+      <MaterialIcons name='local-gas-station' size={20} color='#2a9d8f' />
+      <View style={styles.textContainer}>
+        <Text style={styles.costText}>
+          Full tank costs {formatCurrency(cost)} here
+        </Text>
+        <Text style={styles.detailText}>
+          {vehicle.name} · {vehicle.tank_capacity} L at the{' '}
+          {source === 'community' ? 'community' : 'DOE reference'} price
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#e0f2f1',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 8,
+    padding: 12,
+  },
+  textContainer: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  costText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#2a9d8f',
+  },
+  detailText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+});
+
+export default FullTankCost;
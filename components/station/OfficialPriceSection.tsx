@@ -5,11 +5,18 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { ExtendedFuelPrice } from '@/utils/priceUtils';
 import { formatCurrency, formatDate, isValidPrice } from '@/utils/formatters';
 import { countValidPrices } from '@/utils/priceUtils';
+import { EffectivePrice } from '@/utils/discounts';
+import { EffectivePriceLabel } from '@/components/price/EffectivePriceLabel';
 
 interface OfficialPricesSectionProps {
   prices: ExtendedFuelPrice[];
   loading: boolean;
   weekOf?: string | null;
+  // Price after the user's discount at this station, if one applies
+  getEffectivePrice?: (
+    fuelType: string,
+    price: number | null
+  ) => EffectivePrice | null;
 }
 
 /**
@@ -19,6 +26,7 @@ export const OfficialPricesSection: React.FC<OfficialPricesSectionProps> = ({
   prices,
   loading,
   weekOf,
+  getEffectivePrice = () => null,
 }) => {
   if (loading) {
     return (
@@ -74,35 +82,50 @@ export const OfficialPricesSection: React.FC<OfficialPricesSectionProps> = ({
       </View>
 
       {/* One row per fuel type */}
-      {prices.map((price) => (
-        <View key={price.id} style={styles.priceRow}>
-          <Text style={styles.fuelType}>{price.display_type}:</Text>
-          <Text
-            style={[
-              styles.price,
-              !isValidPrice(price.min_price) && styles.noPrice,
-            ]}
-          >
-            {formatCurrency(price.min_price)}
-          </Text>
-          <Text
-            style={[
-              styles.price,
-              !isValidPrice(price.common_price) && styles.noPrice,
-            ]}
-          >
-            {formatCurrency(price.common_price)}
-          </Text>
-          <Text
-            style={[
-              styles.price,
-              !isValidPrice(price.max_price) && styles.noPrice,
-            ]}
-          >
-            {formatCurrency(price.max_price)}
-          </Text>
-        </View>
-      ))}
+      {prices.map((price) => {
+        const effectivePrice = getEffectivePrice(
+          price.fuel_type,
+          price.common_price
+        );
+
+        return (
+          <View key={price.id}>
+            <View style={styles.priceRow}>
+              <Text style={styles.fuelType}>{price.display_type}:</Text>
+              <Text
+                style={[
+                  styles.price,
+                  !isValidPrice(price.min_price) && styles.noPrice,
+                ]}
+              >
+                {formatCurrency(price.min_price)}
+              </Text>
+              <Text
+                style={[
+                  styles.price,
+                  !isValidPrice(price.common_price) && styles.noPrice,
+                ]}
+              >
+                {formatCurrency(price.common_price)}
+              </Text>
+              <Text
+                style={[
+                  styles.price,
+                  !isValidPrice(price.max_price) && styles.noPrice,
+                ]}
+              >
+                {formatCurrency(price.max_price)}
+              </Text>
+            </View>
+            {/* The discount applies to the common price people pay */}
+            {effectivePrice && (
+              <View style={styles.effectivePriceRow}>
+                <EffectivePriceLabel effectivePrice={effectivePrice} />
+              </View>
+            )}
+          </View>
+        );
+      })}
 
       <Text style={styles.officialNoteText}>
         As of {formatDate(weekOf || prices[0]?.week_of)}
@@ -203,6 +226,10 @@ const styles = StyleSheet.create({
     color: '#999',
     fontStyle: 'italic',
   },
+  effectivePriceRow: {
+    alignItems: 'flex-end',
+    paddingBottom: 4,
+  },
   officialNoteText: {
     fontSize: 12,
     color: '#757575',
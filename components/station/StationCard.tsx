@@ -11,6 +11,21 @@ import {
 } from '@/utils/formatters';
 import { ActivityIndicator } from 'react-native';
 import { PriceStationConnector } from '@/utils/priceStationConnector';
+import { FavoriteButton } from './FavoriteButton';
+import { getOpenStatus, OpenStatus } from '@/utils/operatingHours';
+
+const OPEN_STATUS_BADGES: Record<
+  OpenStatus,
+  { label: string; color: string; backgroundColor: string }
+> = {
+  open: { label: 'Open now', color: '#2e7d32', backgroundColor: '#e8f5e9' },
+  closing_soon: {
+    label: 'Closing soon',
+    color: '#e65100',
+    backgroundColor: '#fff3e0',
+  },
+  closed: { label: 'Closed', color: '#757575', backgroundColor: '#eeeeee' },
+};
 
 interface StationCardProps {
   station: GasStation;
@@ -236,11 +251,31 @@ export const StationCard: React.FC<StationCardProps> = ({
     );
   };
 
+  const openStatus = getOpenStatus(station, new Date());
+  const openBadge = openStatus && OPEN_STATUS_BADGES[openStatus];
+
   return (
     <Pressable style={styles.card} onPress={onPress}>
       <View style={styles.header}>
-        <Text style={styles.brand}>{station.brand}</Text>
-        <Text style={styles.distance}>{formatDistance(distance)}</Text>
+        <View style={styles.headerLeft}>
+          <Text style={styles.brand}>{station.brand}</Text>
+          {openBadge && (
+            <View
+              style={[
+                styles.openBadge,
+                { backgroundColor: openBadge.backgroundColor },
+              ]}
+            >
+              <Text style={[styles.openBadgeText, { color: openBadge.color }]}>
+                {openBadge.label}
+              </Text>
+            </View>
+          )}
+        </View>
+        <View style={styles.headerRight}>
+          <Text style={styles.distance}>{formatDistance(distance)}</Text>
+          <FavoriteButton stationId={station.id} size={20} />
+        </View>
       </View>
 
       <Text style={styles.name}>{station.name}</Text>
@@ -285,9 +320,28 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#444',
   },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  openBadge: {
+    paddingVertical: 2,
+    paddingHorizontal: 6,
+    borderRadius: 4,
+    marginLeft: 8,
+  },
+  openBadgeText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  headerRight: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   distance: {
     fontSize: 14,
     color: '#666',
+    marginRight: 4,
   },
   name: {
     fontSize: 18,
@@ -4,10 +4,13 @@ import { View, Text, Pressable, StyleSheet } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { GasStation } from '@/core/models/GasStation';
 import { StatusBadge } from './StatusBadge';
+import { FavoriteButton } from './FavoriteButton';
 
 interface StationHeaderProps {
   station: GasStation;
   onBack: () => void;
+  // Status confirmed by user reports, shown instead of the stored one
+  reportedStatus?: GasStation['status'] | null;
 }
 
 /**
@@ -16,6 +19,7 @@ interface StationHeaderProps {
 export const StationHeader: React.FC<StationHeaderProps> = ({
   station,
   onBack,
+  reportedStatus = null,
 }) => {
   return (
     <>
@@ -25,7 +29,13 @@ export const StationHeader: React.FC<StationHeaderProps> = ({
 
       <View style={styles.header}>
         <Text style={styles.brand}>{station.brand}</Text>
-        <StatusBadge status={station.status} />
+        <View style={styles.headerActions}>
+          <StatusBadge
+            status={reportedStatus ?? station.status}
+            reported={reportedStatus !== null}
+          />
+          <FavoriteButton stationId={station.id} />
+        </View>
       </View>
 
       <Text style={styles.name}>{station.name}</Text>
@@ -45,6 +55,11 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     marginBottom: 8,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   brand: {
     fontSize: 18,
     fontWeight: 'bold',
@@ -0,0 +1,335 @@
+// components/station/StationStatusSection.tsx
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { StationReport, StationReportType } from '@/core/models/StationReport';
+import { VoteDirection } from '@/core/models/PriceVote';
+import {
+  describeStationReport,
+  isReportConfirmed,
+  STATION_REPORT_LABELS,
+} from '@/utils/stationReports';
+
+const REPORT_TYPES: StationReportType[] = [
+  'out_of_stock',
+  'temporary_closed',
+  'permanently_closed',
+];
+
+interface StationStatusSectionProps {
+  reports: StationReport[];
+  loading: boolean;
+  submitting: boolean;
+  fuelTypes: string[];
+  // The signed-in user's votes keyed by report id
+  userVotes?: Record<string, VoteDirection>;
+  // Reporters cannot vote on their own reports
+  currentUserId?: string;
+  // Called with the new vote, or null when the user withdraws their vote
+  onVote: (reportId: string, vote: VoteDirection | null) => void;
+  // Resolves to whether the report was saved
+  onSubmit: (
+    reportType: StationReportType,
+    fuelType: string | null
+  ) => Promise<boolean>;
+}
+
+/**
+ * Component to display crowd reports of closures and fuel running out, with
+ * confirm and dispute votes and a form to add a report
+ */
+export const StationStatusSection: React.FC<StationStatusSectionProps> = ({
+  reports,
+  loading,
+  submitting,
+  fuelTypes,
+  userVotes = {},
+  currentUserId,
+  onVote,
+  onSubmit,
+}) => {
+  const [formOpen, setFormOpen] = useState(false);
+  const [reportType, setReportType] =
+    useState<StationReportType>('out_of_stock');
+  const [fuelType, setFuelType] = useState<string | null>(null);
+
+  // Pressing the button of the current vote withdraws it
+  const handleVote = (reportId: string, vote: VoteDirection) => {
+    onVote(reportId, userVotes[reportId] === vote ? null : vote);
+  };
+
+  const handleSubmit = async () => {
+    const saved = await onSubmit(reportType, fuelType);
+    if (saved) {
+      setFormOpen(false);
+      setFuelType(null);
+    }
+  };
+
+  const canSubmit =
+    !submitting && (reportType !== 'out_of_stock' || fuelType !== null);
+
+  const renderReport = (report: StationReport) => {
+    const userVote = userVotes[report.id];
+    const confirmed = isReportConfirmed(report);
+    const ownReport = report.user_id === currentUserId;
+
+    return (
+      <View key={report.id} style={styles.reportRow}>
+        <View style={styles.reportInfo}>
+          <Text style={styles.reportText}>{describeStationReport(report)}</Text>
+          <Text style={styles.reportMeta}>
+            {confirmed ? 'Confirmed' : 'Waiting for confirmation'} ·{' '}
+            {report.upvotes} yes, {report.downvotes} no
+          </Text>
+        </View>
+        {ownReport ? (
+          <Text style={styles.ownReportText}>Your report</Text>
+        ) : (
+          <>
+            <Pressable
+              style={styles.voteButton}
+              onPress={() => handleVote(report.id, 'up')}
+            >
+              <MaterialIcons
+                name='thumb-up'
+                size={18}
+                color={userVote === 'up' ? '#2a9d8f' : '#999'}
+              />
+            </Pressable>
+            <Pressable
+              style={styles.voteButton}
+              onPress={() => handleVote(report.id, 'down')}
+            >
+              <MaterialIcons
+                name='thumb-down'
+                size={18}
+                color={userVote === 'down' ? '#f44336' : '#999'}
+              />
+            </Pressable>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  const renderForm = () => (
+    <View style={styles.form}>
+      <View style={styles.chipRow}>
+        {REPORT_TYPES.map((type) => (
+          <Pressable
+            key={type}
+            style={[styles.chip, reportType === type && styles.selectedChip]}
+            onPress={() => setReportType(type)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                reportType === type && styles.selectedChipText,
+              ]}
+            >
+              {STATION_REPORT_LABELS[type]}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {reportType === 'out_of_stock' && (
+        <>
+          <Text style={styles.formLabel}>Which fuel ran out?</Text>
+          <View style={styles.chipRow}>
+            {fuelTypes.map((type) => (
+              <Pressable
+                key={type}
+                style={[styles.chip, fuelType === type && styles.selectedChip]}
+                onPress={() => setFuelType(type)}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    fuelType === type && styles.selectedChipText,
+                  ]}
+                >
+                  {type}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </>
+      )}
+
+      <Pressable
+        style={[styles.submitButton, !canSubmit && styles.disabledButton]}
+        onPress={handleSubmit}
+        disabled={!canSubmit}
+      >
+        {submitting ? (
+          <ActivityIndicator size='small' color='#fff' />
+        ) : (
+          <Text style={styles.submitText}>Send Report</Text>
+        )}
+      </Pressable>
+    </View>
+  );
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeaderControls}>
+        <Text style={styles.sectionTitle}>Station Status</Text>
+        <Pressable
+          style={styles.reportButton}
+          onPress={() => setFormOpen((open) => !open)}
+        >
+          <MaterialIcons
+            name={formOpen ? 'close' : 'report-problem'}
+            size={16}
+            color='#fff'
+          />
+          <Text style={styles.reportButtonText}>
+            {formOpen ? 'Cancel' : 'Report'}
+          </Text>
+        </Pressable>
+      </View>
+
+      {formOpen && renderForm()}
+
+      {loading ? (
+        <ActivityIndicator size='small' color='#2a9d8f' />
+      ) : reports.length > 0 ? (
+        reports.map(renderReport)
+      ) : (
+        <Text style={styles.noData}>
+          No reports of closures or fuel running out.
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 8,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 1,
+    elevation: 1,
+  },
+  sectionHeaderControls: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  reportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ff9800',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+  },
+  reportButtonText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '500',
+    marginLeft: 4,
+  },
+  form: {
+    marginBottom: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  formLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#2a9d8f',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  selectedChipText: {
+    color: '#fff',
+  },
+  submitButton: {
+    backgroundColor: '#2a9d8f',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  submitText: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  reportRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  reportInfo: {
+    flex: 1,
+  },
+  reportText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  reportMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  voteButton: {
+    padding: 8,
+  },
+  ownReportText: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+    paddingHorizontal: 8,
+  },
+  noData: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+});
+
+export default StationStatusSection;
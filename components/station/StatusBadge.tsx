@@ -1,15 +1,21 @@
 // components/station/StatusBadge.tsx
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
 
 interface StatusBadgeProps {
   status: 'active' | 'inactive' | 'temporary_closed' | 'permanently_closed';
+  // Set when confirmed user reports override the stored status
+  reported?: boolean;
 }
 
 /**
  * Component to display the station's status as a color-coded badge
  */
-export const StatusBadge: React.FC<StatusBadgeProps> = ({ status }) => {
+export const StatusBadge: React.FC<StatusBadgeProps> = ({
+  status,
+  reported = false,
+}) => {
   const getStatusColor = () => {
     switch (status) {
       case 'active':
@@ -26,6 +32,14 @@ export const StatusBadge: React.FC<StatusBadgeProps> = ({ status }) => {
 
   return (
     <View style={[styles.statusBadge, { backgroundColor: getStatusColor() }]}>
+      {reported && (
+        <MaterialIcons
+          name='groups'
+          size={14}
+          color='#fff'
+          style={styles.reportedIcon}
+        />
+      )}
       <Text style={styles.statusText}>{status.replace('_', ' ')}</Text>
     </View>
   );
@@ -33,10 +47,15 @@ export const StatusBadge: React.FC<StatusBadgeProps> = ({ status }) => {
 
 const styles = StyleSheet.create({
   statusBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
     paddingVertical: 4,
     paddingHorizontal: 8,
     borderRadius: 4,
   },
+  reportedIcon: {
+    marginRight: 4,
+  },
   statusText: {
     color: '#fff',
     fontSize: 12,
@@ -1,15 +1,12 @@
 // components/station/StationInfoSection.tsx
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
+import { GasStation } from '@/core/models/GasStation';
 import { formatOperatingHours } from '@/utils/formatters';
+import { formatWeeklyHours } from '@/utils/operatingHours';
 
 interface StationInfoSectionProps {
-  hours: {
-    open: string;
-    close: string;
-    is24_hours: boolean;
-    days_open: string[];
-  };
+  hours: GasStation['operating_hours'];
   amenities: string[];
 }
 
@@ -40,7 +37,18 @@ export const StationInfoSection: React.FC<StationInfoSectionProps> = ({
     <>
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Hours</Text>
-        <Text style={styles.sectionContent}>{formatOperatingHours(hours)}</Text>
+        {/* Per-day hours when known, otherwise the single summary line */}
+        {hours.periods && !hours.is24_hours ? (
+          formatWeeklyHours(hours).map((line) => (
+            <Text key={line} style={styles.sectionContent}>
+              {line}
+            </Text>
+          ))
+        ) : (
+          <Text style={styles.sectionContent}>
+            {formatOperatingHours(hours)}
+          </Text>
+        )}
       </View>
 
       <View style={styles.section}>
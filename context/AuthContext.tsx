@@ -0,0 +1,171 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from 'react';
+import * as Linking from 'expo-linking';
+import { Session } from '@supabase/supabase-js';
+import { authService } from '@/core/services/AuthService';
+import { userService } from '@/core/services/UserService';
+import { User } from '@/core/models/User';
+
+interface AuthContextType {
+  session: Session | null;
+  user: User | null;
+  loading: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (
+    email: string,
+    password: string,
+    displayName?: string
+  ) => Promise<{ needsConfirmation: boolean }>;
+  sendMagicLink: (email: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  updateProfile: (
+    updates: Partial<Omit<User, 'id' | 'email' | 'reputation'>>
+  ) => Promise<User | null>;
+  refreshProfile: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Load (or create) the profile row whenever the session changes
+  const loadProfile = useCallback(async (nextSession: Session | null) => {
+    if (!nextSession?.user) {
+      setUser(null);
+      return;
+    }
+
+    try {
+      const profile = await userService.ensureProfile(nextSession.user);
+      setUser(profile);
+    } catch (err) {
+      console.error('Error loading user profile:', err);
+      setUser(null);
+    }
+  }, []);
+
+  // Restore the persisted session and listen for auth changes
+  useEffect(() => {
+    let isMounted = true;
+
+    const init = async () => {
+      const initialSession = await authService.getSession();
+      if (!isMounted) return;
+
+      setSession(initialSession);
+      await loadProfile(initialSession);
+      if (isMounted) setLoading(false);
+    };
+
+    init();
+
+    const unsubscribe = authService.onAuthStateChange((nextSession) => {
+      if (!isMounted) return;
+      setSession(nextSession);
+      loadProfile(nextSession);
+    });
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, [loadProfile]);
+
+  // Complete magic link sign ins opened through a deep link
+  useEffect(() => {
+    const handleUrl = async (url: string | null) => {
+      if (!url) return;
+      try {
+        await authService.createSessionFromUrl(url);
+      } catch (err) {
+        console.error('Error handling auth redirect:', err);
+      }
+    };
+
+    Linking.getInitialURL().then(handleUrl);
+    const subscription = Linking.addEventListener('url', ({ url }) =>
+      handleUrl(url)
+    );
+
+    return () => subscription.remove();
+  }, []);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    await authService.signIn(email.trim(), password);
+  }, []);
+
+  const signUp = useCallback(
+    async (email: string, password: string, displayName?: string) => {
+      const newSession = await authService.signUp(
+        email.trim(),
+        password,
+        displayName?.trim() || undefined
+      );
+      return { needsConfirmation: !newSession };
+    },
+    []
+  );
+
+  const sendMagicLink = useCallback(async (email: string) => {
+    await authService.sendMagicLink(
+      email.trim(),
+      Linking.createURL('/profile')
+    );
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await authService.signOut();
+    setSession(null);
+    setUser(null);
+  }, []);
+
+  const updateProfile = useCallback(
+    async (updates: Partial<Omit<User, 'id' | 'email' | 'reputation'>>) => {
+      if (!user) return null;
+      const updated = await userService.updateProfile(user.id, updates);
+      setUser(updated);
+      return updated;
+    },
+    [user]
+  );
+
+  const refreshProfile = useCallback(async () => {
+    await loadProfile(session);
+  }, [session, loadProfile]);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        session,
+        user,
+        loading,
+        signIn,
+        signUp,
+        sendMagicLink,
+        signOut,
+        updateProfile,
+        refreshProfile,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
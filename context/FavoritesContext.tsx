@@ -0,0 +1,143 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from 'react';
+import { useServiceContext } from '@/context/ServiceContext';
+import { useAuth } from '@/context/AuthContext';
+import { addFavorite, moveFavorite, removeFavorite } from '@/utils/favorites';
+
+interface FavoritesContextType {
+  favorites: string[];
+  loading: boolean;
+  isFavorite: (stationId: string) => boolean;
+  toggleFavorite: (stationId: string) => Promise<void>;
+  removeFavorite: (stationId: string) => Promise<void>;
+  moveFavorite: (fromIndex: number, toIndex: number) => Promise<void>;
+}
+
+const FavoritesContext = createContext<FavoritesContextType | undefined>(
+  undefined
+);
+
+export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { favoritesService } = useServiceContext();
+  const { user, loading: authLoading } = useAuth();
+  const [favorites, setFavorites] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id ?? null;
+
+  // Load favorites for the current user, merging guest favorites on sign in
+  useEffect(() => {
+    if (authLoading) return;
+
+    let isMounted = true;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const list = userId
+          ? await favoritesService.mergeGuestFavorites(userId)
+          : await favoritesService.getFavorites(null);
+        if (isMounted) setFavorites(list);
+      } catch (err) {
+        console.error('Error loading favorites:', err);
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [userId, authLoading, favoritesService]);
+
+  // Apply a change locally first, then persist it and keep the saved list
+  const applyChange = useCallback(
+    async (
+      optimistic: (current: string[]) => string[],
+      persist: () => Promise<string[]>
+    ) => {
+      const previous = favorites;
+      setFavorites(optimistic(previous));
+      try {
+        setFavorites(await persist());
+      } catch (err) {
+        console.error('Error saving favorites:', err);
+        setFavorites(previous);
+        throw err;
+      }
+    },
+    [favorites]
+  );
+
+  const isFavorite = useCallback(
+    (stationId: string) => favorites.includes(stationId),
+    [favorites]
+  );
+
+  const toggleFavorite = useCallback(
+    async (stationId: string) => {
+      if (favorites.includes(stationId)) {
+        await applyChange(
+          (current) => removeFavorite(current, stationId),
+          () => favoritesService.removeFavorite(userId, stationId)
+        );
+      } else {
+        await applyChange(
+          (current) => addFavorite(current, stationId),
+          () => favoritesService.addFavorite(userId, stationId)
+        );
+      }
+    },
+    [favorites, applyChange, favoritesService, userId]
+  );
+
+  const remove = useCallback(
+    (stationId: string) =>
+      applyChange(
+        (current) => removeFavorite(current, stationId),
+        () => favoritesService.removeFavorite(userId, stationId)
+      ),
+    [applyChange, favoritesService, userId]
+  );
+
+  const move = useCallback(
+    (fromIndex: number, toIndex: number) =>
+      applyChange(
+        (current) => moveFavorite(current, fromIndex, toIndex),
+        () => favoritesService.reorderFavorites(userId, fromIndex, toIndex)
+      ),
+    [applyChange, favoritesService, userId]
+  );
+
+  return (
+    <FavoritesContext.Provider
+      value={{
+        favorites,
+        loading,
+        isFavorite,
+        toggleFavorite,
+        removeFavorite: remove,
+        moveFavorite: move,
+      }}
+    >
+      {children}
+    </FavoritesContext.Provider>
+  );
+};
+
+export const useFavorites = () => {
+  const context = useContext(FavoritesContext);
+  if (context === undefined) {
+    throw new Error('useFavorites must be used within a FavoritesProvider');
+  }
+  return context;
+};
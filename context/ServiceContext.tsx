@@ -5,6 +5,8 @@ import {
   locationService,
   googlePlacesService,
   gasStationImportService,
+  favoritesService,
+  vehicleService,
 } from '@/core/services';
 
 interface ServiceContextType {
@@ -13,6 +15,8 @@ interface ServiceContextType {
   locationService: typeof locationService;
   googlePlacesService: typeof googlePlacesService;
   gasStationImportService: typeof gasStationImportService;
+  favoritesService: typeof favoritesService;
+  vehicleService: typeof vehicleService;
 }
 
 const ServiceContext = createContext<ServiceContextType | undefined>(undefined);
@@ -28,6 +32,8 @@ export const ServiceProvider: React.FC<{ children: React.ReactNode }> = ({
         locationService,
         googlePlacesService,
         gasStationImportService,
+        favoritesService,
+        vehicleService,
       }}
     >
       {children}
@@ -0,0 +1,125 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from 'react';
+import { useServiceContext } from '@/context/ServiceContext';
+import { useAuth } from '@/context/AuthContext';
+import { Vehicle, VehicleProfile } from '@/core/models/Vehicle';
+import { getActiveVehicle, VehicleInput } from '@/utils/vehicles';
+import { FUEL_TYPES } from '@/utils/constants';
+
+interface VehicleContextType {
+  vehicles: Vehicle[];
+  activeVehicle: Vehicle | null;
+  // Fuel type screens start on: the active vehicle's, then the profile's
+  defaultFuelType: string;
+  loading: boolean;
+  saveVehicle: (input: VehicleInput, vehicleId?: string) => Promise<void>;
+  removeVehicle: (vehicleId: string) => Promise<void>;
+  setActiveVehicle: (vehicleId: string) => Promise<void>;
+}
+
+const VehicleContext = createContext<VehicleContextType | undefined>(undefined);
+
+export const VehicleProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { vehicleService } = useServiceContext();
+  const { user, loading: authLoading } = useAuth();
+  const [profile, setProfile] = useState<VehicleProfile>({
+    vehicles: [],
+    active_vehicle_id: null,
+  });
+  const [loading, setLoading] = useState(true);
+
+  const userId = user?.id ?? null;
+
+  // Load vehicles for the current user, merging guest vehicles on sign in
+  useEffect(() => {
+    if (authLoading) return;
+
+    let isMounted = true;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const result = userId
+          ? await vehicleService.mergeGuestVehicles(userId)
+          : await vehicleService.getVehicleProfile(null);
+        if (isMounted) setProfile(result);
+      } catch (err) {
+        console.error('Error loading vehicles:', err);
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [userId, authLoading, vehicleService]);
+
+  const saveVehicle = useCallback(
+    async (input: VehicleInput, vehicleId?: string) => {
+      setProfile(await vehicleService.saveVehicle(userId, input, vehicleId));
+    },
+    [vehicleService, userId]
+  );
+
+  const removeVehicle = useCallback(
+    async (vehicleId: string) => {
+      setProfile(await vehicleService.removeVehicle(userId, vehicleId));
+    },
+    [vehicleService, userId]
+  );
+
+  // Switch locally first so screens follow straight away
+  const setActiveVehicle = useCallback(
+    async (vehicleId: string) => {
+      const previous = profile;
+      setProfile({ ...previous, active_vehicle_id: vehicleId });
+      try {
+        setProfile(await vehicleService.setActiveVehicle(userId, vehicleId));
+      } catch (err) {
+        console.error('Error saving active vehicle:', err);
+        setProfile(previous);
+        throw err;
+      }
+    },
+    [profile, vehicleService, userId]
+  );
+
+  const activeVehicle = getActiveVehicle(profile);
+
+  return (
+    <VehicleContext.Provider
+      value={{
+        vehicles: profile.vehicles,
+        activeVehicle,
+        defaultFuelType:
+          activeVehicle?.fuel_type ||
+          user?.preferences.default_fuel_type ||
+          FUEL_TYPES[0],
+        loading,
+        saveVehicle,
+        removeVehicle,
+        setActiveVehicle,
+      }}
+    >
+      {children}
+    </VehicleContext.Provider>
+  );
+};
+
+export const useVehicles = () => {
+  const context = useContext(VehicleContext);
+  if (context === undefined) {
+    throw new Error('useVehicles must be used within a VehicleProvider');
+  }
+  return context;
+};
@@ -0,0 +1,10 @@
+export type AccountStatus = 'flagged' | 'shadow_banned' | 'cleared';
+
+export interface AccountFlag {
+  user_id: string;
+  status: AccountStatus;
+  reasons: string[]; // Why the account was flagged, newest last
+  flagged_at: string;
+  reviewed_at: string | null;
+  display_name?: string; // From the user's profile, for the review list
+}
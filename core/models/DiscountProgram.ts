@@ -0,0 +1,13 @@
+export type DiscountType = 'per_liter' | 'percent';
+
+export interface DiscountProgram {
+  id: string;
+  name: string; // e.g. "Petron Value Card" or a fleet card
+  brand: string;
+  fuel_type: string | null; // null when the discount applies to every fuel
+  discount_type: DiscountType;
+  amount: number; // Pesos off per liter, or a percentage of the pump price
+  valid_from: string | null; // YYYY-MM-DD, inclusive; null for no start date
+  valid_until: string | null; // YYYY-MM-DD, inclusive; null for no end date
+  created_at: string;
+}
@@ -1,3 +1,12 @@
+/**
+ * One opening period, as listed per day by Google Places
+ */
+export interface OpeningPeriod {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  open: string; // HH:MM
+  close: string; // HH:MM; at or before open when closing after midnight
+}
+
 export interface GasStation {
   id: string;
   name: string;
@@ -15,6 +24,10 @@ export interface GasStation {
     close: string;
     is24_hours: boolean;
     days_open: string[];
+    // Per-day hours; older stations only have the single pair above
+    periods?: OpeningPeriod[];
+    // Set when the source listed no hours; the fields above are then empty
+    is_unknown?: boolean;
   };
   status: 'active' | 'inactive' | 'temporary_closed' | 'permanently_closed';
   distance?: number;
@@ -0,0 +1,8 @@
+export interface PriceAdjustment {
+  id: string;
+  effective_date: string; // YYYY-MM-DD, usually the Tuesday the change applies
+  fuel_type: string;
+  brand: string | null; // null for an industry-wide adjustment
+  amount: number; // Pesos per liter; positive for an increase, negative for a rollback
+  created_at: string;
+}
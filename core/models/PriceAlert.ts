@@ -0,0 +1,25 @@
+export type PriceAlertType = 'price_below' | 'doe_change';
+
+export interface PriceAlertRule {
+  id: string;
+  user_id: string;
+  type: PriceAlertType;
+  fuel_type: string;
+  threshold: number; // Price for price_below, peso change for doe_change
+  area: string | null; // Only used by doe_change rules
+  enabled: boolean;
+  created_at: string;
+  last_triggered_at: string | null;
+}
+
+export interface PriceAlertTrigger {
+  ruleId: string;
+  type: PriceAlertType;
+  fuelType: string;
+  title: string;
+  message: string;
+  stationId?: string;
+  area?: string;
+  price: number;
+  change?: number;
+}
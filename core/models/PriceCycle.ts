@@ -0,0 +1,8 @@
+export interface PriceCycle {
+  id: string;
+  start_date: string;
+  end_date: string;
+  is_active: boolean;
+  doe_import_date: string | null; // When the DOE prices for the cycle's week were imported
+  created_at: string;
+}
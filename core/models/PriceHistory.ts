@@ -0,0 +1,15 @@
+import { FuelPrice } from './FuelPrice';
+
+export interface PriceHistoryWeek {
+  weekOf: string; // DOE week_of as YYYY-MM-DD
+  prices: FuelPrice[]; // One row per brand reported that week
+}
+
+export interface PriceHistory {
+  area: string;
+  fuelType: string;
+  brand: string | null; // Brand the prices are limited to, if any
+  since: string; // Earliest week_of included in the query
+  weeks: PriceHistoryWeek[]; // Oldest first, only weeks with data
+  missingWeeks: string[]; // Expected weeks between published ones with no data
+}
@@ -0,0 +1,8 @@
+export type VoteDirection = 'up' | 'down';
+
+export interface VoteTally {
+  report_id: string;
+  upvotes: number;
+  downvotes: number;
+  user_vote: VoteDirection | null; // The voter's own vote after the change
+}
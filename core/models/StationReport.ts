@@ -0,0 +1,16 @@
+export type StationReportType =
+  | 'permanently_closed'
+  | 'temporary_closed'
+  | 'out_of_stock';
+
+export interface StationReport {
+  id: string;
+  station_id: string;
+  user_id: string;
+  report_type: StationReportType;
+  fuel_type: string | null; // Only set for out_of_stock reports
+  reported_at: string;
+  expires_at: string;
+  upvotes: number;
+  downvotes: number;
+}
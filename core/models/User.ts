@@ -1,11 +1,17 @@
+import { Vehicle } from './Vehicle';
+
 export interface User {
   id: string;
   email: string;
   display_name: string; // Changed from displayName
   favorite_stations: string[]; // Changed from favoriteStations
+  reputation: number; // 0-100, computed by the database from the user's report history
+  vehicles: Vehicle[];
+  active_vehicle_id: string | null;
   preferences: {
     default_fuel_type: string; // Changed from defaultFuelType
     notifications_enabled: boolean; // Changed from notificationsEnabled
     radius_preference: number; // Changed from radiusPreference
+    discount_program_ids: string[]; // Loyalty cards and fleet programs held
   };
 }
@@ -0,0 +1,13 @@
+export interface Vehicle {
+  id: string;
+  name: string;
+  fuel_type: string;
+  tank_capacity: number; // Liters
+  fuel_economy: number; // Kilometers per liter
+}
+
+// A user's vehicles and the one prices are shown for
+export interface VehicleProfile {
+  vehicles: Vehicle[];
+  active_vehicle_id: string | null;
+}
@@ -0,0 +1,175 @@
+// core/services/AuthService.ts
+import { Session, User as AuthUser } from '@supabase/supabase-js';
+import { supabase } from '@/utils/supabase';
+
+/**
+ * Service wrapping Supabase auth: email/password, magic link and sign out
+ * Profile rows are handled separately by UserService
+ */
+export class AuthService {
+  /**
+   * Create an account with email and password
+   * @returns The new session, or null when email confirmation is required
+   */
+  async signUp(
+    email: string,
+    password: string,
+    displayName?: string
+  ): Promise<Session | null> {
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: {
+        data: displayName ? { display_name: displayName } : undefined,
+      },
+    });
+
+    if (error) {
+      this.handleAuthError(error, 'signing up');
+    }
+
+    return data.session;
+  }
+
+  /**
+   * Sign in with email and password
+   */
+  async signIn(email: string, password: string): Promise<Session> {
+    const { data, error } = await supabase.auth.signInWithPassword({
+      email,
+      password,
+    });
+
+    if (error) {
+      this.handleAuthError(error, 'signing in');
+    }
+
+    return data.session;
+  }
+
+  /**
+   * Email a one-time sign-in link
+   * @param redirectTo Deep link the email should open
+   */
+  async sendMagicLink(email: string, redirectTo: string): Promise<void> {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: redirectTo },
+    });
+
+    if (error) {
+      this.handleAuthError(error, 'sending magic link');
+    }
+  }
+
+  /**
+   * Complete a magic link sign in from the URL the app was opened with
+   * Supports both PKCE (?code=) and implicit (#access_token=) links.
+   * @returns The new session, or null if the URL is not an auth callback
+   */
+  async createSessionFromUrl(url: string): Promise<Session | null> {
+    const params = this.parseUrlParams(url);
+
+    if (params.error_description) {
+      throw new Error(params.error_description);
+    }
+
+    if (params.code) {
+      const { data, error } = await supabase.auth.exchangeCodeForSession(
+        params.code
+      );
+      if (error) {
+        this.handleAuthError(error, 'completing magic link sign in');
+      }
+      return data.session;
+    }
+
+    if (params.access_token && params.refresh_token) {
+      const { data, error } = await supabase.auth.setSession({
+        access_token: params.access_token,
+        refresh_token: params.refresh_token,
+      });
+      if (error) {
+        this.handleAuthError(error, 'completing magic link sign in');
+      }
+      return data.session;
+    }
+
+    return null;
+  }
+
+  /**
+   * Sign out of the current session
+   */
+  async signOut(): Promise<void> {
+    const { error } = await supabase.auth.signOut();
+
+    if (error) {
+      this.handleAuthError(error, 'signing out');
+    }
+  }
+
+  /**
+   * Get the persisted session, if any
+   */
+  async getSession(): Promise<Session | null> {
+    const { data, error } = await supabase.auth.getSession();
+
+    if (error) {
+      console.error('Error getting session:', error);
+      return null;
+    }
+
+    return data.session;
+  }
+
+  /**
+   * Subscribe to sign in / sign out events
+   * @returns Function that removes the listener
+   */
+  onAuthStateChange(
+    callback: (session: Session | null, user: AuthUser | null) => void
+  ): () => void {
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      callback(session, session?.user ?? null);
+    });
+
+    return () => data.subscription.unsubscribe();
+  }
+
+  /**
+   * Read query and fragment parameters from a deep link
+   * @private
+   */
+  private parseUrlParams(url: string): Record<string, string> {
+    const params: Record<string, string> = {};
+    const [beforeHash, hash = ''] = url.split('#');
+    const query = beforeHash.split('?')[1] || '';
+
+    [query, hash].forEach((part) => {
+      part
+        .split('&')
+        .filter(Boolean)
+        .forEach((pair) => {
+          const [key, value = ''] = pair.split('=');
+          params[decodeURIComponent(key)] = decodeURIComponent(
+            value.replace(/\+/g, ' ')
+          );
+        });
+    });
+
+    return params;
+  }
+
+  /**
+   * Log an auth error and rethrow it with a readable message
+   * @private
+   */
+  private handleAuthError(error: Error, context: string): never {
+    console.error(`Error ${context}:`, error);
+    throw new Error(error.message || `Failed ${context}`);
+  }
+}
+
+// Export a singleton instance
+export const authService = new AuthService();
@@ -0,0 +1,68 @@
+// core/services/DiscountProgramService.ts
+import { supabase } from '@/utils/supabase';
+import { DiscountProgram } from '@/core/models/DiscountProgram';
+import { DiscountProgramInput } from '@/utils/discounts';
+
+/**
+ * Service for brand loyalty cards and fleet discount programs
+ * Admins maintain the programs; users pick the ones they hold in their
+ * preferences. The discount rules live in utils/discounts so they can be
+ * tested.
+ */
+export class DiscountProgramService {
+  private readonly tableName = 'discount_programs';
+
+  /**
+   * Get every program, including ones that have ended
+   */
+  async getPrograms(): Promise<DiscountProgram[]> {
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .order('brand', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching discount programs:', error);
+      throw new Error('Failed to fetch discount programs');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Add a program, or update it when an id is given
+   */
+  async saveProgram(
+    input: DiscountProgramInput,
+    programId?: string
+  ): Promise<DiscountProgram> {
+    const query = programId
+      ? supabase.from(this.tableName).update(input).eq('id', programId)
+      : supabase.from(this.tableName).insert(input);
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      console.error('Error saving discount program:', error);
+      throw new Error('Failed to save discount program');
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete a program
+   */
+  async deleteProgram(id: string): Promise<void> {
+    const { error } = await supabase.from(this.tableName).delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting discount program:', error);
+      throw new Error('Failed to delete discount program');
+    }
+  }
+}
+
+// Export a singleton instance
+export const discountProgramService = new DiscountProgramService();
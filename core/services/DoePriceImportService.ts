@@ -0,0 +1,200 @@
+// core/services/DoePriceImportService.ts
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { supabase } from '@/utils/supabase';
+import { FuelPrice } from '@/core/models/FuelPrice';
+import {
+  DoePriceDiff,
+  DoePriceParseResult,
+  ParsedDoePrice,
+  PdfTextItem,
+  diffDoePrices,
+  groupTextItemsIntoLines,
+  parseDoePriceLines,
+} from '@/utils/doePriceParser';
+
+/**
+ * Stored prices used as the baseline for an import preview
+ */
+export interface DoeComparisonWeek {
+  weekOf: string | null;
+  isSameWeek: boolean;
+  prices: FuelPrice[];
+}
+
+/**
+ * Preview of an import before anything is written
+ */
+export interface DoeImportPreview {
+  parseResult: DoePriceParseResult;
+  comparison: DoeComparisonWeek;
+  diff: DoePriceDiff;
+}
+
+/**
+ * Service for importing DOE weekly price-monitoring reports into fuel_prices
+ * Parsing is kept in utils/doePriceParser so it can be tested without a device
+ */
+export class DoePriceImportService {
+  private readonly tableName = 'fuel_prices';
+
+  /**
+   * Extract positioned text lines from a PDF document
+   * @param data Raw PDF bytes
+   * @returns Report lines, page by page
+   */
+  async extractPdfLines(data: Uint8Array): Promise<string[]> {
+    const document = await pdfjs.getDocument({
+      data,
+      isEvalSupported: false,
+      useSystemFonts: true,
+    }).promise;
+
+    const lines: string[] = [];
+
+    try {
+      for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+        const page = await document.getPage(pageNumber);
+        const content = await page.getTextContent();
+
+        const items: PdfTextItem[] = content.items
+          .filter((item) => 'str' in item)
+          .map((item: any) => ({
+            str: item.str,
+            x: item.transform[4],
+            y: item.transform[5],
+          }));
+
+        lines.push(...groupTextItemsIntoLines(items));
+      }
+    } finally {
+      await document.destroy();
+    }
+
+    return lines;
+  }
+
+  /**
+   * Parse a DOE report PDF into fuel price rows
+   * @param data Raw PDF bytes
+   * @param fallbackWeekOf Week to use if the report does not state one
+   */
+  async parsePdf(
+    data: Uint8Array,
+    fallbackWeekOf: string | null = null
+  ): Promise<DoePriceParseResult> {
+    try {
+      const lines = await this.extractPdfLines(data);
+      return parseDoePriceLines(lines, fallbackWeekOf);
+    } catch (error) {
+      console.error('Error parsing DOE price report:', error);
+      throw new Error('Failed to parse DOE price report');
+    }
+  }
+
+  /**
+   * Build an import preview by diffing parsed rows against stored prices
+   * @param parseResult Output of parsePdf
+   */
+  async previewImport(
+    parseResult: DoePriceParseResult
+  ): Promise<DoeImportPreview> {
+    const comparison = await this.getComparisonWeek(parseResult.weekOf);
+
+    return {
+      parseResult,
+      comparison,
+      diff: diffDoePrices(comparison.prices, parseResult.rows),
+    };
+  }
+
+  /**
+   * Get the stored prices to compare an import against
+   * Re-imports compare with the same week; new weeks compare with the latest
+   * week stored before them so the preview shows week-over-week movement.
+   */
+  async getComparisonWeek(weekOf: string | null): Promise<DoeComparisonWeek> {
+    if (weekOf) {
+      const sameWeek = await this.getPricesForWeek(weekOf);
+      if (sameWeek.length > 0) {
+        return { weekOf, isSameWeek: true, prices: sameWeek };
+      }
+    }
+
+    let query = supabase
+      .from(this.tableName)
+      .select('week_of')
+      .order('week_of', { ascending: false })
+      .limit(1);
+
+    if (weekOf) {
+      query = query.lt('week_of', weekOf);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching comparison week:', error);
+      throw new Error('Failed to fetch comparison week');
+    }
+
+    const previousWeek: string | undefined = data?.[0]?.week_of;
+    if (!previousWeek) {
+      return { weekOf: null, isSameWeek: false, prices: [] };
+    }
+
+    return {
+      weekOf: previousWeek,
+      isSameWeek: false,
+      prices: await this.getPricesForWeek(previousWeek),
+    };
+  }
+
+  /**
+   * Upsert parsed rows into fuel_prices
+   * Rows are keyed on area, brand, fuel type and week.
+   * @returns Number of rows written
+   */
+  async commitImport(rows: ParsedDoePrice[], weekOf: string): Promise<number> {
+    if (rows.length === 0) return 0;
+
+    const updatedAt = new Date().toISOString();
+    const payload = rows.map((row) => ({
+      ...row,
+      week_of: weekOf,
+      updated_at: updatedAt,
+    }));
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .upsert(payload, { onConflict: 'area,brand,fuel_type,week_of' })
+      .select('id');
+
+    if (error) {
+      console.error('Error importing DOE prices:', error);
+      throw new Error('Failed to import DOE prices');
+    }
+
+    return data?.length ?? payload.length;
+  }
+
+  /**
+   * Fetch all stored prices for a week
+   * @private
+   */
+  private async getPricesForWeek(weekOf: string): Promise<FuelPrice[]> {
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .eq('week_of', weekOf);
+
+    if (error) {
+      console.error('Error fetching prices for week:', error);
+      throw new Error('Failed to fetch prices for week');
+    }
+
+    return data || [];
+  }
+}
+
+// Export a singleton instance
+export const doePriceImportService = new DoePriceImportService();
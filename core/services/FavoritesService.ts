@@ -0,0 +1,220 @@
+// core/services/FavoritesService.ts
+import { supabase } from '@/utils/supabase';
+import { loadData, removeData, saveData } from '@/utils/storage';
+import {
+  addFavorite,
+  mergeFavorites,
+  moveFavorite,
+  removeFavorite,
+} from '@/utils/favorites';
+import { PriceStationConnector } from '@/utils/priceStationConnector';
+import { normalizeFuelType } from '@/utils/formatters';
+import { GasStation } from '@/core/models/GasStation';
+import { UserService } from './UserService';
+import { StationService } from './StationService';
+
+// AsyncStorage key for favorites saved while signed out
+const GUEST_FAVORITES_KEY = 'guest_favorite_stations';
+
+/**
+ * A favorite station with its latest prices for one fuel type
+ */
+export interface FavoriteStationSummary {
+  station: GasStation;
+  fuelType: string;
+  doePrice: number | null;
+  communityPrice: number | null;
+  communityReportedAt: string | null;
+}
+
+/**
+ * Service for a user's favorite stations
+ * Signed-in users' favorites live on their profile row; guests' favorites
+ * live in AsyncStorage until they sign in and the lists are merged.
+ */
+export class FavoritesService {
+  private userService: UserService;
+  private stationService: StationService;
+
+  constructor(userService: UserService, stationService: StationService) {
+    this.userService = userService;
+    this.stationService = stationService;
+  }
+
+  /**
+   * Get favorite station ids in display order
+   * @param userId Signed-in user id, or null for a guest
+   */
+  async getFavorites(userId: string | null): Promise<string[]> {
+    if (!userId) {
+      return (await loadData<string[]>(GUEST_FAVORITES_KEY)) || [];
+    }
+
+    const profile = await this.userService.getProfile(userId);
+    return profile?.favorite_stations || [];
+  }
+
+  /**
+   * Add a station to the end of the favorites list
+   * @returns The updated list
+   */
+  async addFavorite(
+    userId: string | null,
+    stationId: string
+  ): Promise<string[]> {
+    const favorites = await this.getFavorites(userId);
+    return this.saveFavorites(userId, addFavorite(favorites, stationId));
+  }
+
+  /**
+   * Remove a station from the favorites list
+   * @returns The updated list
+   */
+  async removeFavorite(
+    userId: string | null,
+    stationId: string
+  ): Promise<string[]> {
+    const favorites = await this.getFavorites(userId);
+    return this.saveFavorites(userId, removeFavorite(favorites, stationId));
+  }
+
+  /**
+   * Move a favorite to a new position
+   * @returns The updated list
+   */
+  async reorderFavorites(
+    userId: string | null,
+    fromIndex: number,
+    toIndex: number
+  ): Promise<string[]> {
+    const favorites = await this.getFavorites(userId);
+    return this.saveFavorites(
+      userId,
+      moveFavorite(favorites, fromIndex, toIndex)
+    );
+  }
+
+  /**
+   * Merge favorites saved as a guest into the user's profile
+   * The guest list is cleared once it has been saved to the profile.
+   * @returns The merged list
+   */
+  async mergeGuestFavorites(userId: string): Promise<string[]> {
+    const [guestFavorites, userFavorites] = await Promise.all([
+      this.getFavorites(null),
+      this.getFavorites(userId),
+    ]);
+
+    if (guestFavorites.length === 0) {
+      return userFavorites;
+    }
+
+    const merged = await this.saveFavorites(
+      userId,
+      mergeFavorites(userFavorites, guestFavorites)
+    );
+    await removeData(GUEST_FAVORITES_KEY);
+
+    return merged;
+  }
+
+  /**
+   * Load favorite stations with their latest DOE and community prices
+   * @param stationIds Favorite station ids, in display order
+   * @param fuelType Fuel type to show prices for
+   */
+  async getFavoriteSummaries(
+    stationIds: string[],
+    fuelType: string
+  ): Promise<FavoriteStationSummary[]> {
+    if (stationIds.length === 0) return [];
+
+    try {
+      const stations = await this.stationService.getStationsByIds(stationIds);
+      const communityPrices = await this.getLatestCommunityPrices(
+        stationIds,
+        fuelType
+      );
+
+      const summaries = await Promise.all(
+        stations.map(async (station): Promise<FavoriteStationSummary> => {
+          const doeMatches = await PriceStationConnector.getPricesForStation(
+            station
+          );
+          const doeMatch = doeMatches.find(
+            (match) =>
+              normalizeFuelType(match.price.fuel_type) ===
+              normalizeFuelType(fuelType)
+          );
+          const community = communityPrices[station.id];
+
+          return {
+            station,
+            fuelType,
+            doePrice: doeMatch?.price.common_price || null,
+            communityPrice: community?.price ?? null,
+            communityReportedAt: community?.reported_at ?? null,
+          };
+        })
+      );
+
+      // Keep the user's order
+      return stationIds
+        .map((id) => summaries.find((summary) => summary.station.id === id))
+        .filter((summary): summary is FavoriteStationSummary => !!summary);
+    } catch (error) {
+      console.error('Error fetching favorite station prices:', error);
+      throw new Error('Failed to fetch favorite station prices');
+    }
+  }
+
+  /**
+   * Persist the favorites list for a user or guest
+   * @private
+   */
+  private async saveFavorites(
+    userId: string | null,
+    favorites: string[]
+  ): Promise<string[]> {
+    if (!userId) {
+      await saveData(GUEST_FAVORITES_KEY, favorites);
+      return favorites;
+    }
+
+    const profile = await this.userService.updateProfile(userId, {
+      favorite_stations: favorites,
+    });
+    return profile.favorite_stations;
+  }
+
+  /**
+   * Get the most recent active community report per station
+   * @private
+   */
+  private async getLatestCommunityPrices(
+    stationIds: string[],
+    fuelType: string
+  ): Promise<Record<string, { price: number; reported_at: string }>> {
+    const { data, error } = await supabase
+      .from('user_price_reports')
+      .select('station_id, price, reported_at')
+      .in('station_id', stationIds)
+      .eq('fuel_type', fuelType)
+      .gte('expires_at', new Date().toISOString())
+      .order('reported_at', { ascending: false });
+
+    if (error) throw error;
+
+    const latest: Record<string, { price: number; reported_at: string }> = {};
+    (data || []).forEach((report) => {
+      if (!latest[report.station_id]) {
+        latest[report.station_id] = {
+          price: report.price,
+          reported_at: report.reported_at,
+        };
+      }
+    });
+
+    return latest;
+  }
+}
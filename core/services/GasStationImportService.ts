@@ -6,15 +6,16 @@ import {
 } from '@/core/interfaces/IGooglePlacesService';
 import { GasStation } from '@/core/models/GasStation';
 import { BRANDS } from '@/utils/constants';
+import { periodsFromGoogle } from '@/utils/operatingHours';
+import { getBoundingBox } from '@/utils/geo';
+import {
+  EXACT_DUPLICATE_DISTANCE_KM,
+  findDuplicateOf,
+} from '@/utils/stationDuplicates';
 import { StationService } from './StationService';
 
 // Define clear interfaces for data structures
-interface OperatingHours {
-  open: string;
-  close: string;
-  is24_hours: boolean;
-  days_open: string[];
-}
+type OperatingHours = GasStation['operating_hours'];
 
 // Make StationData compatible with GasStation
 interface StationData extends Omit<GasStation, 'id' | 'coordinates'> {
@@ -157,22 +158,17 @@ export class GasStationImportService implements IGasStationImportService {
   }
 
   /**
-   * Check if the station is new based on name and coordinates
+   * Check if the station is new, comparing it with the stations around it
+   * Only a same-name station a few steps away is skipped. A station with a
+   * similar name is imported and shows up on the duplicate stations screen,
+   * so an admin decides whether to merge it.
    */
   private async isNewStation(stationData: StationData): Promise<boolean> {
-    const existingStations = await this.stationService.findByFilter({
-      name: stationData.name,
-    });
-
-    // No need to continue checks if no stations with this name exist
-    if (existingStations.length === 0) {
-      return true;
-    }
-
-    // Check if any existing station has similar coordinates
-    return !existingStations.some((existing) =>
-      this.areCoordinatesClose(existing.coordinates, stationData.coordinates)
+    const nearbyStations = await this.stationService.getStationsInBounds(
+      getBoundingBox(stationData.coordinates, EXACT_DUPLICATE_DISTANCE_KM)
     );
+
+    return findDuplicateOf(stationData, nearbyStations) === null;
   }
 
   /**
@@ -200,21 +196,6 @@ export class GasStationImportService implements IGasStationImportService {
     return enhancedData;
   }
 
-  /**
-   * Check if two sets of coordinates are close to each other
-   */
-  private areCoordinatesClose(
-    coord1: { latitude: number; longitude: number },
-    coord2: { latitude: number; longitude: number }
-  ): boolean {
-    // Consider coordinates close if within ~50 meters
-    const CLOSE_THRESHOLD = 0.0005;
-    return (
-      Math.abs(coord1.latitude - coord2.latitude) < CLOSE_THRESHOLD &&
-      Math.abs(coord1.longitude - coord2.longitude) < CLOSE_THRESHOLD
-    );
-  }
-
   /**
    * Create a delay for rate limiting
    */
@@ -317,22 +298,16 @@ export class GasStationImportService implements IGasStationImportService {
   }
 
   /**
-   * Get default operating hours (24/7)
+   * Hours for a station Google lists no hours for
+   * Marked unknown rather than guessed, so the app doesn't show it closed.
    */
   private getDefaultOperatingHours(): OperatingHours {
     return {
-      open: '00:00',
-      close: '23:59',
-      is24_hours: true,
-      days_open: [
-        'Monday',
-        'Tuesday',
-        'Wednesday',
-        'Thursday',
-        'Friday',
-        'Saturday',
-        'Sunday',
-      ],
+      open: '',
+      close: '',
+      is24_hours: false,
+      days_open: [],
+      is_unknown: true,
     };
   }
 
@@ -343,12 +318,7 @@ export class GasStationImportService implements IGasStationImportService {
     hours?: PlaceDetails['opening_hours']
   ): OperatingHours {
     if (!hours || !hours.periods) {
-      return {
-        open: '09:00',
-        close: '17:00',
-        is24_hours: false,
-        days_open: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
-      };
+      return this.getDefaultOperatingHours();
     }
 
     // Check if open 24/7 (has one period with no close time)
@@ -365,6 +335,8 @@ export class GasStationImportService implements IGasStationImportService {
       close: closeTime,
       is24_hours: is24Hours,
       days_open: daysOpen,
+      // Keep each day's own hours; the pair above only describes the first
+      periods: is24Hours ? [] : periodsFromGoogle(hours.periods),
     };
   }
 
@@ -0,0 +1,179 @@
+// core/services/ModerationService.ts
+import { supabase } from '@/utils/supabase';
+import { detectVoteRings, VoteEdge, VoteRing } from '@/utils/abuseProtection';
+import { AccountFlag, AccountStatus } from '@/core/models/AccountFlag';
+
+// How far back votes are scanned for rings
+const VOTE_RING_HISTORY_DAYS = 30;
+
+// Votes fetched per request during a ring scan
+const VOTE_PAGE_SIZE = 1000;
+
+/**
+ * Service for abuse protection on community prices
+ * Rate limits, flagging and shadow bans are enforced in the database, so a
+ * client can't skip them: the checks here only fetch the message to show,
+ * inserts over a limit are rejected by triggers, and row level security
+ * hides shadow-banned reporters from every read. Shadow-banned accounts can
+ * keep reporting, and still see their own reports. Vote ring detection
+ * lives in utils/abuseProtection so it can be tested; admins run it from
+ * the review screen.
+ */
+export class ModerationService {
+  /**
+   * Throw if the signed-in user has reported too often, for this station or
+   * overall; going over a limit flags the account
+   */
+  async enforceReportLimits(stationId: string): Promise<void> {
+    const { data, error } = await supabase.rpc('check_report_limits', {
+      p_station_id: stationId,
+    });
+
+    if (error) {
+      console.error('Error checking report limits:', error);
+      throw new Error('Failed to check report limits');
+    }
+
+    if (data) throw new Error(data);
+  }
+
+  /**
+   * Throw if the signed-in user has voted too often; going over the limit
+   * flags the account
+   */
+  async enforceVoteLimits(): Promise<void> {
+    const { data, error } = await supabase.rpc('check_vote_limits');
+
+    if (error) {
+      console.error('Error checking vote limits:', error);
+      throw new Error('Failed to check vote limits');
+    }
+
+    if (data) throw new Error(data);
+  }
+
+  /**
+   * Look for vote rings in recent votes and flag their members
+   * @returns The rings found
+   */
+  async scanForVoteRings(): Promise<VoteRing[]> {
+    const since = new Date();
+    since.setDate(since.getDate() - VOTE_RING_HISTORY_DAYS);
+
+    const rings = detectVoteRings(await this.getVoteEdges(since));
+
+    for (const ring of rings) {
+      const reason = `Vote ring with ${
+        ring.memberIds.length - 1
+      } other account${ring.memberIds.length > 2 ? 's' : ''} (${
+        ring.insideUpvotes
+      } upvotes between them)`;
+
+      for (const memberId of ring.memberIds) {
+        await this.flagAccount(memberId, reason);
+      }
+    }
+
+    return rings;
+  }
+
+  /**
+   * Flag an account for admin review
+   * Admin only. Shadow-banned accounts stay banned; the reason is still
+   * recorded.
+   */
+  async flagAccount(userId: string, reason: string): Promise<void> {
+    const { error } = await supabase.rpc('admin_flag_account', {
+      p_user_id: userId,
+      p_reason: reason,
+    });
+
+    if (error) {
+      console.error('Error flagging account:', error);
+      throw new Error('Failed to flag account');
+    }
+  }
+
+  /**
+   * Flagged and shadow-banned accounts, most recently flagged first
+   */
+  async getReviewQueue(): Promise<AccountFlag[]> {
+    const { data, error } = await supabase
+      .from('account_flags')
+      .select('*')
+      .in('status', ['flagged', 'shadow_banned'])
+      .order('flagged_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching review queue:', error);
+      throw new Error('Failed to fetch flagged accounts');
+    }
+
+    const flags: AccountFlag[] = data || [];
+    if (flags.length === 0) return [];
+
+    const { data: profiles, error: profileError } = await supabase
+      .from('profiles')
+      .select('id, display_name')
+      .in(
+        'id',
+        flags.map((flag) => flag.user_id)
+      );
+
+    if (profileError) {
+      console.error('Error fetching flagged profiles:', profileError);
+      throw new Error('Failed to fetch flagged accounts');
+    }
+
+    const names = new Map(
+      (profiles || []).map((profile) => [profile.id, profile.display_name])
+    );
+
+    return flags.map((flag) => ({
+      ...flag,
+      reasons: flag.reasons || [],
+      display_name: names.get(flag.user_id),
+    }));
+  }
+
+  /**
+   * Record an admin decision on a flagged account
+   */
+  async setAccountStatus(userId: string, status: AccountStatus): Promise<void> {
+    const { error } = await supabase
+      .from('account_flags')
+      .update({ status, reviewed_at: new Date().toISOString() })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error updating account status:', error);
+      throw new Error('Failed to update account status');
+    }
+  }
+
+  /**
+   * Price votes since a date with the reporter of each report, one page at
+   * a time so no request hits the row limit
+   * @private
+   */
+  private async getVoteEdges(since: Date): Promise<VoteEdge[]> {
+    const edges: VoteEdge[] = [];
+
+    for (let from = 0; ; from += VOTE_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .rpc('admin_vote_edges', { p_since: since.toISOString() })
+        .range(from, from + VOTE_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching votes for ring scan:', error);
+        throw new Error('Failed to fetch votes');
+      }
+
+      edges.push(...(data || []));
+      if (!data || data.length < VOTE_PAGE_SIZE) return edges;
+    }
+  }
+}
+
+// Export a singleton instance
+export const moderationService = new ModerationService();
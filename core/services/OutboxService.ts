@@ -0,0 +1,366 @@
+// core/services/OutboxService.ts
+import { supabase } from '@/utils/supabase';
+import { loadData, saveData } from '@/utils/storage';
+import {
+  enqueueOutboxItem,
+  getDueOutboxItems,
+  OutboxItem,
+  OutboxPayload,
+  pruneOutbox,
+  recordOutboxFailure,
+  resolveOutboxConflict,
+  updateOutboxItem,
+} from '@/utils/outbox';
+import { VoteDirection } from '@/core/models/PriceVote';
+import { PriceReportingService } from './PriceReportingService';
+import { PricePlausibilityService } from './PricePlausibilityService';
+import { ReportPhotoService } from './ReportPhotoService';
+import { authService } from './AuthService';
+
+// AsyncStorage key holding queued reports and votes
+const OUTBOX_KEY = 'price_outbox';
+
+type OutboxListener = (items: OutboxItem[]) => void;
+
+/**
+ * Service for price reports and votes queued on the device
+ * Every report and vote goes through the outbox so nothing is lost when the
+ * network drops; flush() sends whatever is due and records the outcome of
+ * each item. Queue rules live in utils/outbox so they can be tested.
+ */
+export class OutboxService {
+  private priceReportingService: PriceReportingService;
+  private pricePlausibilityService: PricePlausibilityService;
+  private reportPhotoService: ReportPhotoService;
+  private listeners = new Set<OutboxListener>();
+  // Serializes read-modify-write cycles on the stored queue
+  private pending: Promise<unknown> = Promise.resolve();
+  private flushing: Promise<OutboxItem[]> | null = null;
+  // Set when items are queued or a flush is requested mid-run
+  private flushAgain = false;
+
+  constructor(
+    priceReportingService: PriceReportingService,
+    pricePlausibilityService: PricePlausibilityService,
+    reportPhotoService: ReportPhotoService
+  ) {
+    this.priceReportingService = priceReportingService;
+    this.pricePlausibilityService = pricePlausibilityService;
+    this.reportPhotoService = reportPhotoService;
+  }
+
+  /**
+   * Get all queued items, oldest first
+   */
+  async getItems(): Promise<OutboxItem[]> {
+    return (await loadData<OutboxItem[]>(OUTBOX_KEY)) || [];
+  }
+
+  /**
+   * Queue a price report
+   * @param cycleId Active price cycle when the report was made, if known
+   * @param photoUri Compressed photo from ReportPhotoService.preparePhoto
+   */
+  async enqueueReport(
+    userId: string,
+    stationId: string,
+    fuelType: string,
+    price: number,
+    cycleId: string | null,
+    photoUri: string | null = null
+  ): Promise<OutboxItem> {
+    return this.enqueue(
+      userId,
+      {
+        kind: 'report',
+        station_id: stationId,
+        fuel_type: fuelType,
+        price,
+        photo_uri: photoUri,
+      },
+      cycleId
+    );
+  }
+
+  /**
+   * Queue a vote; replaces an unsent vote by the same user on the same report
+   * @param vote New vote, or null to withdraw the current one
+   */
+  async enqueueVote(
+    userId: string,
+    reportId: string,
+    stationId: string,
+    vote: VoteDirection | null
+  ): Promise<OutboxItem> {
+    return this.enqueue(
+      userId,
+      {
+        kind: 'vote',
+        report_id: reportId,
+        station_id: stationId,
+        vote,
+      },
+      null
+    );
+  }
+
+  /**
+   * Send every due item queued by the signed-in user
+   * Nothing is sent while signed out. Concurrent calls share the same run,
+   * which goes round again if items were queued while it was sending.
+   * @returns The queue after sending
+   */
+  flush(): Promise<OutboxItem[]> {
+    if (this.flushing) {
+      this.flushAgain = true;
+    } else {
+      this.flushing = this.sendUntilSettled().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Put a failed item back in the queue and try it now
+   */
+  async retryItem(id: string): Promise<OutboxItem[]> {
+    await this.mutate((queue) =>
+      updateOutboxItem(queue, id, {
+        status: 'pending',
+        attempts: 0,
+        error: null,
+        next_attempt_at: new Date().toISOString(),
+      })
+    );
+    return this.flush();
+  }
+
+  /**
+   * Discard an item without sending it
+   */
+  async removeItem(id: string): Promise<OutboxItem[]> {
+    const removed = (await this.getItems()).find((item) => item.id === id);
+    const queue = await this.mutate((queue) =>
+      queue.filter((item) => item.id !== id)
+    );
+
+    if (removed?.payload.kind === 'report' && removed.payload.photo_uri) {
+      await this.reportPhotoService.discardPhoto(removed.payload.photo_uri);
+    }
+
+    return queue;
+  }
+
+  /**
+   * Listen for queue changes
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async enqueue(
+    userId: string,
+    payload: OutboxPayload,
+    cycleId: string | null
+  ): Promise<OutboxItem> {
+    const now = new Date().toISOString();
+    const item: OutboxItem = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`,
+      user_id: userId,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      created_at: now,
+      next_attempt_at: now,
+      cycle_id: cycleId,
+      error: null,
+      sent_at: null,
+    };
+
+    const queue = await this.mutate((queue) => enqueueOutboxItem(queue, item));
+    if (this.flushing) this.flushAgain = true;
+
+    // A duplicate collapses into the item already queued
+    return (
+      queue.find((queued) => queued.id === item.id) ||
+      queue.find(
+        (queued) =>
+          queued.user_id === userId &&
+          queued.status !== 'sent' &&
+          JSON.stringify(queued.payload) === JSON.stringify(payload)
+      ) ||
+      item
+    );
+  }
+
+  private async sendUntilSettled(): Promise<OutboxItem[]> {
+    let queue: OutboxItem[];
+    do {
+      this.flushAgain = false;
+      queue = await this.sendDueItems();
+    } while (this.flushAgain);
+    return queue;
+  }
+
+  private async sendDueItems(): Promise<OutboxItem[]> {
+    const session = await authService.getSession();
+    if (!session) return this.getItems();
+
+    const due = getDueOutboxItems(
+      await this.getItems(),
+      Date.now(),
+      session.user.id
+    );
+
+    for (const item of due) {
+      try {
+        const resolution = resolveOutboxConflict(item, {
+          activeCycleId:
+            item.payload.kind === 'report'
+              ? await this.getActiveCycleId()
+              : null,
+          reportExpiresAt:
+            item.payload.kind === 'vote'
+              ? await this.getReportExpiry(item.payload.report_id)
+              : undefined,
+          now: Date.now(),
+        });
+
+        const rejection =
+          resolution.action === 'fail'
+            ? resolution.reason
+            : await this.getRejection(item);
+
+        if (rejection) {
+          await this.mutate((queue) =>
+            updateOutboxItem(queue, item.id, {
+              status: 'failed',
+              error: rejection,
+            })
+          );
+          continue;
+        }
+
+        await this.send(item);
+        await this.mutate((queue) =>
+          updateOutboxItem(queue, item.id, {
+            status: 'sent',
+            error: null,
+            sent_at: new Date().toISOString(),
+          })
+        );
+      } catch (error) {
+        console.error('Error sending outbox item:', error);
+        const message =
+          error instanceof Error ? error.message : 'Failed to send';
+        await this.mutate((queue) =>
+          recordOutboxFailure(queue, item.id, message, Date.now())
+        );
+      }
+    }
+
+    return this.mutate((queue) => pruneOutbox(queue, Date.now()));
+  }
+
+  private async send(item: OutboxItem): Promise<void> {
+    const { payload } = item;
+
+    if (payload.kind === 'report') {
+      const report = await this.priceReportingService.submitPriceReport(
+        payload.station_id,
+        payload.fuel_type,
+        payload.price,
+        item.user_id,
+        item.created_at
+      );
+
+      if (payload.photo_uri) {
+        try {
+          await this.reportPhotoService.attachPhoto(
+            report.id,
+            payload.photo_uri
+          );
+        } catch (error) {
+          // The report is already in; resending it would duplicate it
+          console.error('Error attaching photo to report:', error);
+        }
+      }
+    } else {
+      await this.priceReportingService.voteOnPriceReport(
+        payload.report_id,
+        payload.vote,
+        item.user_id
+      );
+    }
+  }
+
+  /**
+   * Re-check a report's price before sending; the user already confirmed
+   * warnings, so only rejections stop it
+   * @returns The rejection reason, or null if the item can be sent
+   */
+  private async getRejection(item: OutboxItem): Promise<string | null> {
+    if (item.payload.kind !== 'report') return null;
+
+    const result = await this.pricePlausibilityService.checkPrice(
+      item.payload.station_id,
+      item.payload.fuel_type,
+      item.payload.price
+    );
+
+    return result.verdict === 'reject' ? result.reasons.join('. ') : null;
+  }
+
+  private async getActiveCycleId(): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('price_reporting_cycles')
+      .select('id')
+      .eq('is_active', true)
+      .limit(1);
+
+    if (error) {
+      console.error('Error fetching active price cycle:', error);
+      throw new Error('Failed to fetch active price cycle');
+    }
+
+    return data?.[0]?.id ?? null;
+  }
+
+  /**
+   * Expiry of a report, or null if it has been deleted
+   */
+  private async getReportExpiry(reportId: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('user_price_reports')
+      .select('expires_at')
+      .eq('id', reportId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching report expiry:', error);
+      throw new Error('Failed to fetch price report');
+    }
+
+    return data?.expires_at ?? null;
+  }
+
+  private mutate(
+    change: (queue: OutboxItem[]) => OutboxItem[]
+  ): Promise<OutboxItem[]> {
+    const run = this.pending.then(async () => {
+      const queue = change(await this.getItems());
+      await saveData(OUTBOX_KEY, queue);
+      this.listeners.forEach((listener) => listener(queue));
+      return queue;
+    });
+
+    // Keep the chain alive after a failed write
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,65 @@
+// core/services/PhotoStorage.ts
+import * as FileSystem from 'expo-file-system';
+import { decode } from 'base64-arraybuffer';
+import { supabase } from '@/utils/supabase';
+
+// Supabase Storage bucket holding report photos
+const REPORT_PHOTO_BUCKET = 'report-photos';
+
+/**
+ * Where report photos are kept
+ * Implementations take a local file and turn its path into a URL an Image
+ * can load.
+ */
+export interface PhotoStorage {
+  upload(path: string, localUri: string): Promise<void>;
+  getUrl(path: string): string;
+  remove(path: string): Promise<void>;
+}
+
+/**
+ * Stores photos in a public Supabase Storage bucket
+ * Only the reporter may upload a report's photo, and an uploaded photo
+ * cannot be replaced.
+ */
+export class SupabasePhotoStorage implements PhotoStorage {
+  private bucket: string;
+
+  constructor(bucket: string = REPORT_PHOTO_BUCKET) {
+    this.bucket = bucket;
+  }
+
+  async upload(path: string, localUri: string): Promise<void> {
+    // React Native cannot send file URIs directly, so upload the bytes
+    const base64 = await FileSystem.readAsStringAsync(localUri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    const { error } = await supabase.storage
+      .from(this.bucket)
+      .upload(path, decode(base64), {
+        contentType: 'image/jpeg',
+      });
+
+    if (error) {
+      console.error('Error uploading photo:', error);
+      throw new Error('Failed to upload photo');
+    }
+  }
+
+  getUrl(path: string): string {
+    return supabase.storage.from(this.bucket).getPublicUrl(path).data.publicUrl;
+  }
+
+  async remove(path: string): Promise<void> {
+    const { error } = await supabase.storage.from(this.bucket).remove([path]);
+
+    if (error) {
+      console.error('Error removing photo:', error);
+      throw new Error('Failed to remove photo');
+    }
+  }
+}
+
+// Export a singleton instance
+export const photoStorage: PhotoStorage = new SupabasePhotoStorage();
@@ -0,0 +1,115 @@
+// core/services/PriceAdjustmentService.ts
+import { supabase } from '@/utils/supabase';
+import { PriceAdjustment } from '@/core/models/PriceAdjustment';
+import {
+  getUpcomingAdjustments,
+  NewPriceAdjustment,
+  projectDoePrices,
+  ProjectedDoePrice,
+} from '@/utils/priceAdjustments';
+
+/**
+ * Service for announced weekly price adjustments
+ * Oil companies announce each Monday how much prices move per liter on
+ * Tuesday; admins enter those announcements here so next week's prices can
+ * be projected. The rules live in utils/priceAdjustments so they can be
+ * tested.
+ */
+export class PriceAdjustmentService {
+  private readonly tableName = 'price_adjustments';
+
+  /**
+   * Get adjustments that have not taken effect yet
+   */
+  async getUpcomingAdjustments(): Promise<PriceAdjustment[]> {
+    // Start a day back so adjustments due this morning are still checked
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000)
+      .toISOString()
+      .split('T')[0];
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .gte('effective_date', since)
+      .order('effective_date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching price adjustments:', error);
+      throw new Error('Failed to fetch price adjustments');
+    }
+
+    return getUpcomingAdjustments(data || [], new Date());
+  }
+
+  /**
+   * Save announced adjustments
+   * Rows are keyed on effective date, fuel type and brand, so entering the
+   * same announcement again corrects it.
+   * @returns Number of rows written
+   */
+  async saveAdjustments(rows: NewPriceAdjustment[]): Promise<number> {
+    if (rows.length === 0) return 0;
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .upsert(rows, { onConflict: 'effective_date,fuel_type,brand' })
+      .select('id');
+
+    if (error) {
+      console.error('Error saving price adjustments:', error);
+      throw new Error('Failed to save price adjustments');
+    }
+
+    return data?.length ?? rows.length;
+  }
+
+  /**
+   * Delete an adjustment entered by mistake
+   */
+  async deleteAdjustment(id: string): Promise<void> {
+    const { error } = await supabase.from(this.tableName).delete().eq('id', id);
+
+    if (error) {
+      console.error('Error deleting price adjustment:', error);
+      throw new Error('Failed to delete price adjustment');
+    }
+  }
+
+  /**
+   * Project next week's DOE prices from the latest week and the upcoming
+   * adjustments
+   */
+  async getProjectedDoePrices(): Promise<ProjectedDoePrice[]> {
+    const adjustments = await this.getUpcomingAdjustments();
+    if (adjustments.length === 0) return [];
+
+    const { data: latestWeek, error: weekError } = await supabase
+      .from('fuel_prices')
+      .select('week_of')
+      .order('week_of', { ascending: false })
+      .limit(1);
+
+    if (weekError) {
+      console.error('Error fetching latest DOE week:', weekError);
+      throw new Error('Failed to fetch DOE prices');
+    }
+
+    const weekOf = latestWeek?.[0]?.week_of;
+    if (!weekOf) return [];
+
+    const { data, error } = await supabase
+      .from('fuel_prices')
+      .select('*')
+      .eq('week_of', weekOf);
+
+    if (error) {
+      console.error('Error fetching DOE prices:', error);
+      throw new Error('Failed to fetch DOE prices');
+    }
+
+    return projectDoePrices(data || [], adjustments);
+  }
+}
+
+// Export a singleton instance
+export const priceAdjustmentService = new PriceAdjustmentService();
@@ -0,0 +1,308 @@
+// core/services/PriceAlertService.ts
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { supabase } from '@/utils/supabase';
+import { loadData, saveData } from '@/utils/storage';
+import {
+  AlertEvaluationContext,
+  evaluateAlertRules,
+} from '@/utils/priceAlerts';
+import { PriceAlertRule, PriceAlertTrigger } from '@/core/models/PriceAlert';
+import { BaseService } from './BaseService';
+
+// AsyncStorage key prefix for the time and DOE week of each user's last
+// alert check
+const LAST_CHECK_KEY = 'price_alerts_last_check';
+
+// How far back the first check looks for community reports
+const FIRST_CHECK_LOOKBACK_HOURS = 24;
+
+interface LastAlertCheck {
+  checkedAt: string;
+  doeWeek: string | null;
+}
+
+export type NewPriceAlertRule = Pick<
+  PriceAlertRule,
+  'type' | 'fuel_type' | 'threshold' | 'area'
+>;
+
+/**
+ * Service for price alert rules and the local notifications they raise
+ * Rule evaluation itself lives in utils/priceAlerts so it can be tested
+ * without a device.
+ */
+export class PriceAlertService extends BaseService<PriceAlertRule> {
+  constructor() {
+    super('price_alert_rules');
+  }
+
+  /**
+   * Get all alert rules for a user, newest first
+   */
+  async getRulesForUser(userId: string): Promise<PriceAlertRule[]> {
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching price alert rules:', error);
+      throw new Error('Failed to fetch price alert rules');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Create an enabled alert rule for a user
+   */
+  async createRule(
+    userId: string,
+    rule: NewPriceAlertRule
+  ): Promise<PriceAlertRule> {
+    return this.create({
+      ...rule,
+      user_id: userId,
+      area: rule.type === 'doe_change' ? rule.area : null,
+      enabled: true,
+      created_at: new Date().toISOString(),
+      last_triggered_at: null,
+    });
+  }
+
+  /**
+   * Turn a rule on or off
+   */
+  async setRuleEnabled(
+    ruleId: string,
+    enabled: boolean
+  ): Promise<PriceAlertRule> {
+    return this.update(ruleId, { enabled });
+  }
+
+  /**
+   * Ask for permission to show notifications
+   * @returns True if notifications may be shown
+   */
+  async requestNotificationPermission(): Promise<boolean> {
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync('price-alerts', {
+        name: 'Price alerts',
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+
+    const existing = await Notifications.getPermissionsAsync();
+    if (existing.granted) return true;
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  }
+
+  /**
+   * Check a user's rules against prices published since their last check
+   * and show a local notification for each rule that fires.
+   * @param userId Signed-in user id
+   * @param favoriteStationIds The user's favorite stations
+   * @returns The triggers that were notified
+   */
+  async checkAlerts(
+    userId: string,
+    favoriteStationIds: string[]
+  ): Promise<PriceAlertTrigger[]> {
+    try {
+      const rules = await this.getRulesForUser(userId);
+      const lastCheckKey = `${LAST_CHECK_KEY}:${userId}`;
+      const lastCheck = await loadData<LastAlertCheck>(lastCheckKey);
+      const checkedAt = new Date().toISOString();
+
+      const context = await this.buildEvaluationContext(
+        favoriteStationIds,
+        lastCheck
+      );
+      const triggers = evaluateAlertRules(rules, context);
+
+      await Promise.all(
+        triggers.map((trigger) => this.notify(trigger, checkedAt))
+      );
+
+      await saveData<LastAlertCheck>(lastCheckKey, {
+        checkedAt,
+        doeWeek:
+          this.getWeekOf(context.currentDoePrices) ??
+          lastCheck?.doeWeek ??
+          null,
+      });
+
+      return triggers;
+    } catch (error) {
+      console.error('Error checking price alerts:', error);
+      throw new Error('Failed to check price alerts');
+    }
+  }
+
+  // ----- Private Helper Methods -----
+
+  /**
+   * Gather new community reports and, if a new DOE week was published,
+   * that week's prices along with the previous week's
+   * @private
+   */
+  private async buildEvaluationContext(
+    favoriteStationIds: string[],
+    lastCheck: LastAlertCheck | null
+  ): Promise<AlertEvaluationContext> {
+    const since =
+      lastCheck?.checkedAt ||
+      new Date(
+        Date.now() - FIRST_CHECK_LOOKBACK_HOURS * 60 * 60 * 1000
+      ).toISOString();
+
+    const [communityReports, stationNames, doeWeeks] = await Promise.all([
+      this.getReportsSince(favoriteStationIds, since),
+      this.getStationNames(favoriteStationIds),
+      this.getLatestDoeWeeks(),
+    ]);
+
+    const [currentWeek, previousWeek] = doeWeeks;
+    const hasNewDoeWeek =
+      !!currentWeek && !!previousWeek && currentWeek !== lastCheck?.doeWeek;
+
+    const [currentDoePrices, previousDoePrices] = hasNewDoeWeek
+      ? await Promise.all([
+          this.getDoePricesForWeek(currentWeek),
+          this.getDoePricesForWeek(previousWeek),
+        ])
+      : [[], []];
+
+    return {
+      favoriteStationIds,
+      stationNames,
+      communityReports,
+      currentDoePrices,
+      previousDoePrices,
+    };
+  }
+
+  /**
+   * Community reports for the given stations submitted after a time
+   * @private
+   */
+  private async getReportsSince(
+    stationIds: string[],
+    since: string
+  ): Promise<AlertEvaluationContext['communityReports']> {
+    if (stationIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('user_price_reports')
+      .select('id, station_id, fuel_type, price, reported_at')
+      .in('station_id', stationIds)
+      .gt('reported_at', since);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Station names keyed by id, for notification text
+   * @private
+   */
+  private async getStationNames(
+    stationIds: string[]
+  ): Promise<Record<string, string>> {
+    if (stationIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('gas_stations')
+      .select('id, name')
+      .in('id', stationIds);
+
+    if (error) throw error;
+
+    const names: Record<string, string> = {};
+    (data || []).forEach((station) => {
+      names[station.id] = station.name;
+    });
+    return names;
+  }
+
+  /**
+   * The two most recent DOE weeks, newest first
+   * @private
+   */
+  private async getLatestDoeWeeks(): Promise<string[]> {
+    const weeks: string[] = [];
+
+    for (let i = 0; i < 2; i++) {
+      let query = supabase
+        .from('fuel_prices')
+        .select('week_of')
+        .order('week_of', { ascending: false })
+        .limit(1);
+
+      if (weeks.length > 0) {
+        query = query.lt('week_of', weeks[weeks.length - 1]);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      if (!data?.[0]?.week_of) break;
+
+      weeks.push(String(data[0].week_of));
+    }
+
+    return weeks;
+  }
+
+  /**
+   * DOE prices for a week
+   * @private
+   */
+  private async getDoePricesForWeek(
+    weekOf: string
+  ): Promise<AlertEvaluationContext['currentDoePrices']> {
+    const { data, error } = await supabase
+      .from('fuel_prices')
+      .select('area, fuel_type, common_price, week_of')
+      .eq('week_of', weekOf);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Week of a set of DOE prices, if any
+   * @private
+   */
+  private getWeekOf(
+    prices: AlertEvaluationContext['currentDoePrices']
+  ): string | null {
+    return prices.length > 0 ? String(prices[0].week_of) : null;
+  }
+
+  /**
+   * Show a local notification and record when the rule fired
+   * @private
+   */
+  private async notify(
+    trigger: PriceAlertTrigger,
+    triggeredAt: string
+  ): Promise<void> {
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: trigger.title,
+        body: trigger.message,
+        data: { stationId: trigger.stationId, ruleId: trigger.ruleId },
+      },
+      trigger: null,
+    });
+
+    await this.update(trigger.ruleId, { last_triggered_at: triggeredAt });
+  }
+}
+
+// Export a singleton instance
+export const priceAlertService = new PriceAlertService();
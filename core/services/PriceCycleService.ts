@@ -0,0 +1,123 @@
+// core/services/PriceCycleService.ts
+import { supabase } from '@/utils/supabase';
+import { PriceCycle } from '@/core/models/PriceCycle';
+import { CyclePlan, planCycleRollover } from '@/utils/priceCycle';
+
+/**
+ * Service for weekly price-reporting cycles
+ * Cycles roll over on the Tuesday 6 AM DOE adjustment boundary, or as soon
+ * as a newer DOE week is imported. The rules live in utils/priceCycle so
+ * they can be tested.
+ */
+export class PriceCycleService {
+  private readonly tableName = 'price_reporting_cycles';
+
+  /**
+   * Get the active cycle, or null if there is none
+   */
+  async getActiveCycle(): Promise<PriceCycle | null> {
+    // Don't use .single() which causes an error when no rows exist
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .eq('is_active', true)
+      .order('start_date', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.error('Error fetching active price cycle:', error);
+      throw new Error('Failed to fetch active price cycle');
+    }
+
+    return data?.[0] ?? null;
+  }
+
+  /**
+   * Get recent cycles, newest first
+   */
+  async getCycles(limit: number = 12): Promise<PriceCycle[]> {
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .order('start_date', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching price cycles:', error);
+      throw new Error('Failed to fetch price cycles');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Open a new cycle if one is due, or record a DOE import on the active one
+   * Admin only. Weekly rollover itself runs as a scheduled job in the
+   * database; admins call this after a DOE import or to catch up by hand.
+   * @param doeWeekOf Week of a DOE import that just finished, if any
+   * @returns What was done
+   */
+  async runScheduler(doeWeekOf?: string): Promise<CyclePlan> {
+    const activeCycle = await this.getActiveCycle();
+    const plan = planCycleRollover(activeCycle, new Date(), doeWeekOf);
+    const importDate = doeWeekOf ? new Date().toISOString() : null;
+
+    if (plan.action === 'open') {
+      await this.openCycle(plan.startDate, plan.endDate, importDate);
+    } else if (plan.action === 'record_import' && activeCycle && importDate) {
+      await this.recordDoeImport(activeCycle.id, importDate);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Open a cycle and close the previous one
+   * Runs open_price_cycle through the admin-only admin_open_price_cycle RPC;
+   * it ends the active cycle, expires reports made before the new start and
+   * inserts the cycle in one transaction. A cycle that already starts at the
+   * same time is returned as is, so a repeated call only opens it once.
+   */
+  async openCycle(
+    startDate: string,
+    endDate: string,
+    doeImportDate: string | null = null
+  ): Promise<PriceCycle> {
+    const { data, error } = await supabase.rpc('admin_open_price_cycle', {
+      p_start_date: startDate,
+      p_end_date: endDate,
+      p_doe_import_date: doeImportDate,
+    });
+
+    if (error) {
+      console.error('Error opening price cycle:', error);
+      throw new Error('Failed to open price cycle');
+    }
+
+    // Set-returning functions come back as an array
+    const cycle = Array.isArray(data) ? data[0] : data;
+    if (!cycle) {
+      throw new Error('Failed to open price cycle');
+    }
+
+    return cycle;
+  }
+
+  /**
+   * Record when the DOE prices for a cycle's week were imported
+   */
+  async recordDoeImport(cycleId: string, importDate: string): Promise<void> {
+    const { error } = await supabase
+      .from(this.tableName)
+      .update({ doe_import_date: importDate })
+      .eq('id', cycleId);
+
+    if (error) {
+      console.error('Error recording DOE import:', error);
+      throw new Error('Failed to update price cycle');
+    }
+  }
+}
+
+// Export a singleton instance
+export const priceCycleService = new PriceCycleService();
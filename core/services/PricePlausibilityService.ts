@@ -0,0 +1,161 @@
+// core/services/PricePlausibilityService.ts
+import { supabase } from '@/utils/supabase';
+import { normalizeCityName } from '@/utils/areaMapping';
+import {
+  checkPricePlausibility,
+  PlausibilityContext,
+  PlausibilityResult,
+} from '@/utils/pricePlausibility';
+import { GasStation } from '@/core/models/GasStation';
+import { SearchRadius, StationService } from './StationService';
+
+// How far to look for stations of the same brand
+const NEARBY_BRAND_RADIUS_KM = 10;
+
+// Number of same-brand stations compared against
+const NEARBY_BRAND_STATION_COUNT = 5;
+
+/**
+ * Service for checking community price submissions before they are saved
+ * Gathers the reference prices for a station; the rules themselves live in
+ * utils/pricePlausibility so they can be tested.
+ */
+export class PricePlausibilityService {
+  private stationService: StationService;
+
+  constructor(stationService: StationService) {
+    this.stationService = stationService;
+  }
+
+  /**
+   * Check a price for a station and fuel type
+   * Reference data that cannot be loaded is left out, so an offline device
+   * still gets the absolute bounds check.
+   */
+  async checkPrice(
+    stationId: string,
+    fuelType: string,
+    price: number
+  ): Promise<PlausibilityResult> {
+    return checkPricePlausibility(
+      price,
+      await this.getContext(stationId, fuelType)
+    );
+  }
+
+  /**
+   * Load the reference prices a submission is compared with
+   */
+  async getContext(
+    stationId: string,
+    fuelType: string
+  ): Promise<PlausibilityContext> {
+    const context: PlausibilityContext = {
+      fuelType,
+      doeRange: null,
+      communityPrices: [],
+      nearbyBrandPrices: [],
+    };
+
+    try {
+      const station = await this.stationService.findById(stationId);
+      if (!station) return context;
+
+      const [doeRange, communityPrices, nearbyBrandPrices] = await Promise.all([
+        this.getDoeRange(station, fuelType),
+        this.getRecentReportPrices([stationId], fuelType, false),
+        this.getNearbyBrandPrices(station, fuelType),
+      ]);
+
+      return { ...context, doeRange, communityPrices, nearbyBrandPrices };
+    } catch (error) {
+      console.error('Error loading price plausibility context:', error);
+      return context;
+    }
+  }
+
+  /**
+   * Latest DOE range for the station's brand, area and fuel type
+   */
+  private async getDoeRange(
+    station: GasStation,
+    fuelType: string
+  ): Promise<PlausibilityContext['doeRange']> {
+    const { data, error } = await supabase
+      .from('fuel_prices')
+      .select('min_price, max_price')
+      .eq('area', normalizeCityName(station.city))
+      .ilike('brand', station.brand)
+      .eq('fuel_type', fuelType)
+      .order('week_of', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.error('Error fetching DOE range:', error);
+      throw new Error('Failed to fetch DOE range');
+    }
+
+    const row = data?.[0];
+    if (!row || !(row.min_price > 0) || !(row.max_price > 0)) return null;
+
+    return { minPrice: row.min_price, maxPrice: row.max_price };
+  }
+
+  /**
+   * Prices of unexpired reports for some stations
+   * @param latestPerStation Keep only the newest report of each station
+   */
+  private async getRecentReportPrices(
+    stationIds: string[],
+    fuelType: string,
+    latestPerStation: boolean
+  ): Promise<number[]> {
+    if (stationIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('user_price_reports')
+      .select('station_id, price')
+      .in('station_id', stationIds)
+      .eq('fuel_type', fuelType)
+      .gte('expires_at', new Date().toISOString())
+      .order('reported_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching recent price reports:', error);
+      throw new Error('Failed to fetch recent price reports');
+    }
+
+    const reports = data || [];
+    if (!latestPerStation) return reports.map((report) => report.price);
+
+    const seen = new Set<string>();
+    return reports
+      .filter((report) => {
+        if (seen.has(report.station_id)) return false;
+        seen.add(report.station_id);
+        return true;
+      })
+      .map((report) => report.price);
+  }
+
+  /**
+   * Latest report prices from the nearest stations of the same brand
+   */
+  private async getNearbyBrandPrices(
+    station: GasStation,
+    fuelType: string
+  ): Promise<number[]> {
+    const nearby = await this.stationService.getStationsNearby(
+      station.coordinates,
+      new SearchRadius(NEARBY_BRAND_RADIUS_KM),
+      { brands: [station.brand] }
+    );
+
+    const stationIds = nearby
+      .filter((candidate) => candidate.id !== station.id)
+      .slice(0, NEARBY_BRAND_STATION_COUNT)
+      .map((candidate) => candidate.id);
+
+    return this.getRecentReportPrices(stationIds, fuelType, true);
+  }
+}
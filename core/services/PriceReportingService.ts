@@ -1,6 +1,12 @@
 // services/PriceReportingService.ts
 import { supabase } from '@/utils/supabase';
 import { BaseService } from './BaseService';
+import { VoteDirection, VoteTally } from '@/core/models/PriceVote';
+import { applyReputation } from '@/utils/reputation';
+import { buildPriceConsensus, PriceConsensus } from '@/utils/priceConsensus';
+import { applyPhotoEvidence } from '@/utils/reportPhoto';
+import { moderationService } from './ModerationService';
+import { photoStorage } from './PhotoStorage';
 
 // Duration for which a price report is considered valid (24 hours)
 const PRICE_REPORT_VALIDITY_HOURS = 24;
@@ -15,6 +21,8 @@ export interface PriceReport {
   expires_at: string;
   upvotes: number;
   downvotes: number;
+  // Storage path of the report's photo, set once the upload is in
+  photo_path: string | null;
 }
 
 export interface VerificationStats {
@@ -22,6 +30,14 @@ export interface VerificationStats {
   disputedCount: number;
   lastUpdated: string;
   expiresAt: string;
+  // Distinct users with an active report, and how many agree on the price
+  reporterCount: number;
+  agreeingCount: number;
+  // Range of the active reports behind the price
+  minReportedPrice: number;
+  maxReportedPrice: number;
+  // Photo of the pump or price board behind the price, if any
+  photoUrl: string | null;
 }
 
 export interface DoeData {
@@ -43,17 +59,26 @@ export interface IPriceReportingService {
     station_id: string,
     fuel_type: string,
     price: number,
-    user_id: string
+    user_id: string,
+    reported_at?: string
   ): Promise<PriceReport>;
   voteOnPriceReport(
     report_id: string,
-    is_upvote: boolean,
+    vote: VoteDirection | null,
     user_id: string
-  ): Promise<PriceReport>;
+  ): Promise<VoteTally>;
+  getUserVotes(
+    report_ids: string[],
+    user_id: string
+  ): Promise<Record<string, VoteDirection>>;
   getVerifiedPrice(
     station_id: string,
     fuel_type: string
   ): Promise<PriceReport | null>;
+  getConsensusPrice(
+    station_id: string,
+    fuel_type: string
+  ): Promise<PriceConsensus | null>;
   getVerificationStats(report_id: string): Promise<VerificationStats>;
   getStationPrices(station_id: string): Promise<StationPrice[]>;
 }
@@ -72,19 +97,26 @@ export class PriceReportingService
 
   /**
    * Submit a new price report for a station
+   * Throws when the user is over their report limits.
+   * @param reported_at When the price was seen; defaults to now. Reports sent
+   * late from the offline outbox keep the time they were made.
    */
   async submitPriceReport(
     station_id: string,
     fuel_type: string,
     price: number,
-    user_id: string
+    user_id: string,
+    reported_at: string = new Date().toISOString()
   ): Promise<PriceReport> {
     try {
+      await moderationService.enforceReportLimits(station_id);
+
       const newReport = this.createReportObject(
         station_id,
         fuel_type,
         price,
-        user_id
+        user_id,
+        reported_at
       );
       const result = await this.saveNewReport(newReport);
       return result;
@@ -94,37 +126,105 @@ export class PriceReportingService
   }
 
   /**
-   * Update a user's vote on a price report
+   * Set, change or withdraw a user's vote on a price report
+   * Runs the cast_price_vote RPC, which locks the report row, keeps at most
+   * one vote per user per report and recounts the tallies in one
+   * transaction, so concurrent votes cannot overwrite each other. Throws
+   * when the user is over their vote limit; withdrawals are always allowed.
+   * @param vote New vote, or null to withdraw the current one
+   * @returns The report's tallies after the vote
    */
   async voteOnPriceReport(
     report_id: string,
-    is_upvote: boolean,
+    vote: VoteDirection | null,
     user_id: string
-  ): Promise<PriceReport> {
+  ): Promise<VoteTally> {
     try {
-      // Get current report and existing vote in parallel
-      const [report, existingVote] = await Promise.all([
-        this.getReportById(report_id),
-        this.getUserVote(report_id, user_id),
-      ]);
+      if (vote !== null) {
+        await moderationService.enforceVoteLimits();
+      }
 
-      // Calculate vote changes
-      const voteDeltas = this.calculateVoteChanges(existingVote, is_upvote);
+      // The RPC votes as the signed-in user
+      const { data, error } = await supabase.rpc('cast_price_vote', {
+        p_report_id: report_id,
+        p_vote: vote,
+      });
 
-      // Update or create vote record
-      await this.saveUserVote(report_id, user_id, is_upvote, existingVote);
+      if (error) throw error;
+
+      // Set-returning functions come back as an array
+      const tally = Array.isArray(data) ? data[0] : data;
+      if (!tally) {
+        throw new Error('Report not found');
+      }
 
-      // Update report vote counts
-      return await this.updateReportVotes(
+      return {
         report_id,
-        report.upvotes + voteDeltas.upvoteDelta,
-        report.downvotes + voteDeltas.downvoteDelta
-      );
+        upvotes: tally.upvotes,
+        downvotes: tally.downvotes,
+        user_vote: tally.user_vote ?? null,
+      };
     } catch (error) {
       this.handleServiceError(error, 'voting on price report');
     }
   }
 
+  /**
+   * Get a user's current votes on some reports
+   * @returns Vote direction keyed by report id; reports without a vote are
+   * left out
+   */
+  async getUserVotes(
+    report_ids: string[],
+    user_id: string
+  ): Promise<Record<string, VoteDirection>> {
+    if (this.isEmpty(report_ids)) return {};
+
+    const { data, error } = await supabase
+      .from('user_price_votes')
+      .select('report_id, is_upvote')
+      .in('report_id', report_ids)
+      .eq('user_id', user_id);
+
+    if (error) {
+      this.handleServiceError(error, 'fetching user votes');
+    }
+
+    const votes: Record<string, VoteDirection> = {};
+    (data || []).forEach((row) => {
+      votes[row.report_id] = row.is_upvote ? 'up' : 'down';
+    });
+    return votes;
+  }
+
+  /**
+   * Get reporter reputations keyed by user id
+   * Reporters without a stored score are left out and count as new.
+   */
+  async getReporterReputations(
+    user_ids: string[]
+  ): Promise<Record<string, number>> {
+    const uniqueIds = Array.from(new Set(user_ids));
+    if (this.isEmpty(uniqueIds)) return {};
+
+    const { data, error } = await supabase
+      .from('reporter_reputations')
+      .select('id, reputation')
+      .in('id', uniqueIds);
+
+    if (error) {
+      this.handleServiceError(error, 'fetching reporter reputations');
+    }
+
+    const reputations: Record<string, number> = {};
+    (data || []).forEach((profile) => {
+      if (typeof profile.reputation === 'number') {
+        reputations[profile.id] = profile.reputation;
+      }
+    });
+    return reputations;
+  }
+
   /**
    * Get the most reliable community price for a station and fuel type
    */
@@ -140,8 +240,11 @@ export class PriceReportingService
         return null;
       }
 
-      // Score and sort reports
-      const scoredReports = this.scoreReportsByConfidence(reports);
+      // Score and sort reports, trusting reporters with a good record more
+      const reputations = await this.getReporterReputations(
+        reports.map((report) => report.user_id)
+      );
+      const scoredReports = this.scoreReportsByConfidence(reports, reputations);
 
       // Return highest confidence report
       return scoredReports[0];
@@ -151,7 +254,41 @@ export class PriceReportingService
   }
 
   /**
-   * Get verification statistics for a price report
+   * Get the consensus community price for a station and fuel type
+   * Every active report counts, weighted by confidence, with outliers left
+   * out; see utils/priceConsensus.
+   */
+  async getConsensusPrice(
+    station_id: string,
+    fuel_type: string
+  ): Promise<PriceConsensus | null> {
+    try {
+      const reports = await this.getNonExpiredReports(station_id, fuel_type);
+
+      if (this.isEmpty(reports)) {
+        return null;
+      }
+
+      const reputations = await this.getReporterReputations(
+        reports.map((report) => report.user_id)
+      );
+
+      return buildPriceConsensus(
+        this.scoreReportsByConfidence(reports, reputations).map((report) => ({
+          id: report.id,
+          user_id: report.user_id,
+          price: report.price,
+          reported_at: report.reported_at,
+          confidence: report.confidenceScore,
+        }))
+      );
+    } catch (error) {
+      this.handleServiceError(error, 'getting consensus price');
+    }
+  }
+
+  /**
+   * Get verification statistics for a single price report
    */
   async getVerificationStats(report_id: string): Promise<VerificationStats> {
     try {
@@ -163,6 +300,13 @@ export class PriceReportingService
         disputedCount: reportData.downvotes,
         lastUpdated: lastUpdatedText,
         expiresAt: reportData.expires_at,
+        reporterCount: 1,
+        agreeingCount: 1,
+        minReportedPrice: reportData.price,
+        maxReportedPrice: reportData.price,
+        photoUrl: reportData.photo_path
+          ? photoStorage.getUrl(reportData.photo_path)
+          : null,
       };
     } catch (error) {
       this.handleServiceError(error, 'getting verification stats');
@@ -208,6 +352,33 @@ export class PriceReportingService
     }
   }
 
+  /**
+   * Get community reports for a set of stations and fuel type since a date,
+   * oldest first. Expired reports are included so history can be charted.
+   */
+  async getReportHistory(
+    station_ids: string[],
+    fuel_type: string,
+    since: string
+  ): Promise<PriceReport[]> {
+    if (this.isEmpty(station_ids)) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from(this.tableName)
+        .select('*')
+        .in('station_id', station_ids)
+        .eq('fuel_type', fuel_type)
+        .gte('reported_at', since)
+        .order('reported_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      this.handleServiceError(error, 'getting report history');
+    }
+  }
+
   // ----- Private Helper Methods -----
 
   /**
@@ -218,10 +389,11 @@ export class PriceReportingService
     station_id: string,
     fuel_type: string,
     price: number,
-    user_id: string
+    user_id: string,
+    reported_at: string
   ): any {
     // Calculate expiration time
-    const expires_at = new Date();
+    const expires_at = new Date(reported_at);
     expires_at.setHours(expires_at.getHours() + PRICE_REPORT_VALIDITY_HOURS);
 
     return {
@@ -229,10 +401,11 @@ export class PriceReportingService
       fuel_type,
       price,
       user_id,
-      reported_at: new Date().toISOString(),
+      reported_at,
       expires_at: expires_at.toISOString(),
       upvotes: 1, // Start with the reporter's implicit upvote
       downvotes: 0,
+      photo_path: null, // Set by the database once the photo is uploaded
     };
   }
 
@@ -254,134 +427,9 @@ export class PriceReportingService
     return data[0] as PriceReport;
   }
 
-  /**
-   * Fetch a price report by ID
-   * @private
-   */
-  private async getReportById(report_id: string): Promise<PriceReport> {
-    const { data, error } = await supabase
-      .from(this.tableName)
-      .select('*')
-      .eq('id', report_id)
-      .single();
-
-    if (error || !data) {
-      throw new Error('Report not found');
-    }
-
-    return data as PriceReport;
-  }
-
-  /**
-   * Check if user has already voted on a report
-   * @private
-   */
-  private async getUserVote(report_id: string, user_id: string): Promise<any> {
-    const { data } = await supabase
-      .from('user_price_votes')
-      .select('*')
-      .eq('report_id', report_id)
-      .eq('user_id', user_id)
-      .single();
-
-    return data; // Will be null if no vote exists
-  }
-
-  /**
-   * Calculate vote delta values based on existing vote and new vote
-   * @private
-   */
-  private calculateVoteChanges(
-    existingVote: any,
-    is_upvote: boolean
-  ): { upvoteDelta: number; downvoteDelta: number } {
-    // If no existing vote, simple case
-    if (!existingVote) {
-      return {
-        upvoteDelta: is_upvote ? 1 : 0,
-        downvoteDelta: is_upvote ? 0 : 1,
-      };
-    }
-
-    // If vote exists but is changing
-    if (existingVote.is_upvote !== is_upvote) {
-      return {
-        upvoteDelta: is_upvote ? 1 : -1,
-        downvoteDelta: is_upvote ? -1 : 1,
-      };
-    }
-
-    // Vote exists but unchanged (user clicked same button again)
-    return { upvoteDelta: 0, downvoteDelta: 0 };
-  }
-
-  /**
-   * Save user's vote to database
-   * @private
-   */
-  private async saveUserVote(
-    report_id: string,
-    user_id: string,
-    is_upvote: boolean,
-    existingVote: any
-  ): Promise<void> {
-    if (existingVote) {
-      // Only update if vote is changing
-      if (existingVote.is_upvote !== is_upvote) {
-        await supabase
-          .from('user_price_votes')
-          .update({ is_upvote })
-          .eq('id', existingVote.id);
-      }
-    } else {
-      // Create new vote
-      await supabase.from('user_price_votes').insert({
-        report_id,
-        user_id,
-        is_upvote,
-        created_at: new Date().toISOString(),
-      });
-    }
-  }
-
-  /**
-   * Update vote counts on a price report
-   * @private
-   */
-  private async updateReportVotes(
-    report_id: string,
-    upvotes: number,
-    downvotes: number
-  ): Promise<PriceReport> {
-    const { data, error } = await supabase
-      .from(this.tableName)
-      .update({ upvotes, downvotes })
-      .eq('id', report_id)
-      .select();
-
-    // Check error first
-    if (error) {
-      throw new Error(`Failed to update report votes: ${error.message}`);
-    }
-
-    // Then validate data
-    if (!this.isValidResponseData(data)) {
-      throw new Error('No data returned after updating report votes');
-    }
-
-    return data[0] as PriceReport;
-  }
-
-  /**
-   * Check if response data is valid and contains results
-   * @private
-   */
-  private isValidResponseData(data: any[] | null): boolean {
-    return !!data && data.length > 0;
-  }
-
   /**
    * Get non-expired price reports for a station and fuel type
+   * Shadow-banned reporters are already left out by row level security.
    * @private
    */
   private async getNonExpiredReports(
@@ -401,17 +449,25 @@ export class PriceReportingService
   }
 
   /**
-   * Score reports by confidence based on votes and recency
+   * Score reports by confidence based on votes, recency, reputation and
+   * photo evidence
    * @private
    */
   private scoreReportsByConfidence(
-    reports: PriceReport[]
+    reports: PriceReport[],
+    reputations: Record<string, number>
   ): (PriceReport & { confidenceScore: number })[] {
     type ScoredReport = PriceReport & { confidenceScore: number };
 
     // Calculate confidence scores
     const scoredReports: ScoredReport[] = reports.map((report) => {
-      const confidenceScore = this.calculateReportConfidence(report);
+      const confidenceScore = applyPhotoEvidence(
+        applyReputation(
+          this.calculateReportConfidence(report),
+          reputations[report.user_id]
+        ),
+        !!report.photo_path
+      );
       return { ...report, confidenceScore };
     });
 
@@ -462,7 +518,7 @@ export class PriceReportingService
   private async fetchReportBasicStats(report_id: string): Promise<any> {
     const { data, error } = await supabase
       .from(this.tableName)
-      .select('upvotes, downvotes, reported_at, expires_at')
+      .select('price, upvotes, downvotes, reported_at, expires_at, photo_path')
       .eq('id', report_id)
       .single();
 
@@ -564,19 +620,24 @@ export class PriceReportingService
     const results: StationPrice[] = [];
 
     for (const fuelType of fuelTypes) {
-      const verifiedPrice = await this.getVerifiedPrice(station_id, fuelType);
+      const consensus = await this.getConsensusPrice(station_id, fuelType);
 
-      if (verifiedPrice) {
-        const verificationStats = await this.getVerificationStats(
-          verifiedPrice.id
-        );
+      if (consensus) {
+        const reportStats = await this.getVerificationStats(consensus.reportId);
 
         results.push({
           fuelType,
-          communityPrice: verifiedPrice.price,
-          reportId: verifiedPrice.id,
+          communityPrice: consensus.price,
+          reportId: consensus.reportId,
           doeData: doeByFuelType[fuelType] || null,
-          verificationData: verificationStats,
+          verificationData: {
+            ...reportStats,
+            lastUpdated: this.formatTimeSince(consensus.reportedAt),
+            reporterCount: consensus.reporterCount,
+            agreeingCount: consensus.agreeingCount,
+            minReportedPrice: consensus.minPrice,
+            maxReportedPrice: consensus.maxPrice,
+          },
         });
       }
     }
@@ -1,5 +1,9 @@
 import { supabase } from '@/utils/supabase';
 import { FuelPrice } from '@/core/models/FuelPrice';
+import { PriceHistory } from '@/core/models/PriceHistory';
+import { normalizeCityName } from '@/utils/areaMapping';
+import { groupPricesByWeek } from '@/utils/priceConnector/transformers';
+import { findMissingWeeks } from '@/utils/priceHistory';
 import { BaseService } from './BaseService';
 
 export class PriceService extends BaseService<FuelPrice> {
@@ -80,48 +84,56 @@ export class PriceService extends BaseService<FuelPrice> {
     return data || [];
   }
 
+  /**
+   * Get DOE prices for an area and fuel type over recent weeks
+   * Runs a single ranged query on week_of, so weeks published on any day are
+   * included, and reports weeks missing between published ones.
+   * @param area Area or city name
+   * @param fuelType Fuel type
+   * @param weeks Number of weeks back from today to include
+   * @param brand Only include this brand's prices (case-insensitive)
+   */
   async getPriceHistory(
     area: string,
     fuelType: string,
-    weeks: number
-  ): Promise<FuelPrice[]> {
-    // Get current date
-    const now = new Date();
-
-    // Create array to hold results
-    const results: FuelPrice[] = [];
-
-    // Collect prices for each week going back 'weeks' number of weeks
-    for (let i = 0; i < weeks; i++) {
-      // Calculate the date for this week
-      const weekDate = new Date(now);
-      weekDate.setDate(weekDate.getDate() - i * 7);
-      const formattedDate = weekDate.toISOString().split('T')[0];
-
-      try {
-        // Find prices for this week
-        const { data, error } = await supabase
-          .from(this.tableName)
-          .select('*')
-          .eq('week_of', formattedDate);
-
-        if (error) {
-          console.error(`Error getting prices for week ${i}:`, error);
-          continue;
-        }
-
-        // Filter by area and fuel type
-        const filteredPrices = data.filter(
-          (price) => price.area === area && price.fuel_type === fuelType
-        );
-
-        // Add to results
-        results.push(...filteredPrices);
-      } catch (error) {
-        console.error(`Error getting prices for week ${i}:`, error);
-      }
+    weeks: number,
+    brand?: string
+  ): Promise<PriceHistory> {
+    const sinceDate = new Date();
+    sinceDate.setDate(sinceDate.getDate() - weeks * 7);
+    const since = sinceDate.toISOString().split('T')[0];
+    const normalizedArea = normalizeCityName(area);
+
+    let query = supabase
+      .from(this.tableName)
+      .select('*')
+      .eq('area', normalizedArea)
+      .eq('fuel_type', fuelType)
+      .gte('week_of', since);
+
+    if (brand) {
+      query = query.ilike('brand', brand);
+    }
+
+    const { data, error } = await query.order('week_of', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching price history:', error);
+      throw new Error('Failed to fetch price history');
     }
 
-    return results;
+    const pricesByWeek = groupPricesByWeek(data || []);
+    const historyWeeks = Array.from(pricesByWeek.keys())
+      .sort()
+      .map((weekOf) => ({ weekOf, prices: pricesByWeek.get(weekOf)! }));
+
+    return {
+      area: normalizedArea,
+      fuelType,
+      brand: brand ?? null,
+      since,
+      weeks: historyWeeks,
+      missingWeeks: findMissingWeeks(historyWeeks.map((week) => week.weekOf)),
+    };
   }
 }
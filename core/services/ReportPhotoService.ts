@@ -0,0 +1,104 @@
+// core/services/ReportPhotoService.ts
+import * as FileSystem from 'expo-file-system';
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+import { supabase } from '@/utils/supabase';
+import {
+  getPhotoResize,
+  getReportPhotoPath,
+  PHOTO_COMPRESSION,
+} from '@/utils/reportPhoto';
+import { PhotoStorage } from './PhotoStorage';
+
+// Compressed photos wait here until their report has been sent
+const PENDING_PHOTO_DIRECTORY = `${FileSystem.documentDirectory}pending-photos/`;
+
+/**
+ * A photo picked from the camera or library
+ */
+export interface PickedPhoto {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Service for photos attached to price reports
+ * Photos are compressed on the device as soon as they are picked and kept
+ * until the report is sent, then uploaded under the report's id. Reports
+ * store the photo's storage path, which the database sets once the upload
+ * is in.
+ */
+export class ReportPhotoService {
+  private storage: PhotoStorage;
+
+  constructor(storage: PhotoStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Compress a picked photo and keep it until its report is sent
+   * @returns URI of the compressed copy
+   */
+  async preparePhoto(photo: PickedPhoto): Promise<string> {
+    try {
+      const resize = getPhotoResize(photo.width, photo.height);
+      const compressed = await manipulateAsync(
+        photo.uri,
+        resize ? [{ resize }] : [],
+        { compress: PHOTO_COMPRESSION, format: SaveFormat.JPEG }
+      );
+
+      // The manipulator writes to the cache, which the OS may clear
+      await FileSystem.makeDirectoryAsync(PENDING_PHOTO_DIRECTORY, {
+        intermediates: true,
+      });
+      const pendingUri = `${PENDING_PHOTO_DIRECTORY}${Date.now()}.jpg`;
+      await FileSystem.moveAsync({ from: compressed.uri, to: pendingUri });
+
+      return pendingUri;
+    } catch (error) {
+      console.error('Error compressing photo:', error);
+      throw new Error('Failed to process photo');
+    }
+  }
+
+  /**
+   * Upload a report's photo and have the database link it to the report
+   * The database checks the upload is there and the report is the caller's.
+   * @returns The photo's URL
+   */
+  async attachPhoto(reportId: string, localUri: string): Promise<string> {
+    await this.storage.upload(getReportPhotoPath(reportId), localUri);
+
+    const { data: photoPath, error } = await supabase.rpc(
+      'attach_report_photo',
+      { p_report_id: reportId }
+    );
+
+    if (error) {
+      console.error('Error linking photo to report:', error);
+      throw new Error('Failed to attach photo');
+    }
+
+    await this.discardPhoto(localUri);
+    return this.getPhotoUrl(photoPath);
+  }
+
+  /**
+   * URL of a report photo from the path stored on the report
+   */
+  getPhotoUrl(photoPath: string): string {
+    return this.storage.getUrl(photoPath);
+  }
+
+  /**
+   * Delete a compressed photo that is no longer needed
+   */
+  async discardPhoto(localUri: string): Promise<void> {
+    try {
+      await FileSystem.deleteAsync(localUri, { idempotent: true });
+    } catch (error) {
+      console.error('Error deleting pending photo:', error);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+// core/services/ReputationService.ts
+import { supabase } from '@/utils/supabase';
+import { ReputationSummary } from '@/utils/reputation';
+
+/**
+ * Service for reporter reputation
+ * Scores are computed by the database whenever a user's reports or their
+ * votes change, and stored on the profile so report ranking can read them
+ * in one query. The rules live only in the reputation_summary function.
+ */
+export class ReputationService {
+  /**
+   * Get the signed-in user's reputation with a breakdown of their reports
+   */
+  async getMyReputation(): Promise<ReputationSummary | null> {
+    const { data, error } = await supabase.rpc('get_my_reputation');
+
+    if (error) {
+      console.error('Error fetching reputation:', error);
+      throw new Error('Failed to fetch reputation');
+    }
+
+    // Set-returning functions come back as an array
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) return null;
+
+    return {
+      score: row.score,
+      reportCount: row.report_count,
+      confirmedCount: row.confirmed_count,
+      disputedCount: row.disputed_count,
+    };
+  }
+}
@@ -0,0 +1,96 @@
+// core/services/StationMergeService.ts
+import { supabase } from '@/utils/supabase';
+import { GasStation } from '@/core/models/GasStation';
+import {
+  DuplicateCandidate,
+  findDuplicateCandidates,
+  getPairKey,
+} from '@/utils/stationDuplicates';
+import { StationService } from './StationService';
+
+/**
+ * Service for finding stations imported twice and merging them
+ * Admins review the candidate pairs; merging moves everything users added
+ * to the duplicate over to the station that is kept. The scoring lives in
+ * utils/stationDuplicates so it can be tested.
+ */
+export class StationMergeService {
+  private stationService: StationService;
+
+  constructor(stationService: StationService) {
+    this.stationService = stationService;
+  }
+
+  /**
+   * Find likely duplicate pairs in a city, best match first
+   * Pairs an admin dismissed are left out.
+   */
+  async findCandidates(
+    city: string
+  ): Promise<DuplicateCandidate<GasStation>[]> {
+    const [stations, dismissedKeys] = await Promise.all([
+      this.stationService.getStationsByCity(city),
+      this.getDismissedPairKeys(),
+    ]);
+
+    return findDuplicateCandidates(stations, dismissedKeys);
+  }
+
+  /**
+   * Record that two stations are different places so the pair stops
+   * coming up
+   */
+  async dismissPair(firstId: string, secondId: string): Promise<void> {
+    const [station_a_id, station_b_id] = [firstId, secondId].sort();
+
+    const { error } = await supabase
+      .from('station_duplicate_dismissals')
+      .insert({ station_a_id, station_b_id });
+
+    if (error) {
+      console.error('Error dismissing duplicate pair:', error);
+      throw new Error('Failed to dismiss duplicate pair');
+    }
+  }
+
+  /**
+   * Merge a duplicate into the station that is kept, then delete it
+   * Runs the admin_merge_stations RPC, which moves price reports, station
+   * reports and profile favorites over in one transaction; votes are keyed
+   * by report, so they follow.
+   */
+  async mergeStations(survivorId: string, duplicateId: string): Promise<void> {
+    if (survivorId === duplicateId) {
+      throw new Error('Cannot merge a station into itself');
+    }
+
+    const { error } = await supabase.rpc('admin_merge_stations', {
+      p_survivor_id: survivorId,
+      p_duplicate_id: duplicateId,
+    });
+
+    if (error) {
+      console.error('Error merging stations:', error);
+      throw new Error('Failed to merge stations');
+    }
+  }
+
+  /**
+   * Pair keys of every dismissed pair
+   * @private
+   */
+  private async getDismissedPairKeys(): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('station_duplicate_dismissals')
+      .select('station_a_id, station_b_id');
+
+    if (error) {
+      console.error('Error fetching dismissed duplicate pairs:', error);
+      throw new Error('Failed to fetch dismissed duplicate pairs');
+    }
+
+    return (data || []).map((row) =>
+      getPairKey(row.station_a_id, row.station_b_id)
+    );
+  }
+}
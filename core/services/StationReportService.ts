@@ -0,0 +1,163 @@
+// core/services/StationReportService.ts
+import { supabase } from '@/utils/supabase';
+import { StationReport, StationReportType } from '@/core/models/StationReport';
+import { VoteDirection, VoteTally } from '@/core/models/PriceVote';
+import { getReportExpiry } from '@/utils/stationReports';
+import { moderationService } from './ModerationService';
+
+/**
+ * Service for crowd-reported closures and out-of-stock fuel
+ * Reports expire and are confirmed by votes like price reports; the rules
+ * for when a report counts live in utils/stationReports so they can be
+ * tested.
+ */
+export class StationReportService {
+  private readonly tableName = 'station_reports';
+
+  /**
+   * Report a closure, or a fuel the station has run out of
+   * Throws when the user already has an active report saying the same thing.
+   * @param fuel_type Required for out_of_stock reports, ignored otherwise
+   */
+  async submitReport(
+    station_id: string,
+    report_type: StationReportType,
+    fuel_type: string | null,
+    user_id: string
+  ): Promise<StationReport> {
+    if (report_type === 'out_of_stock' && !fuel_type) {
+      throw new Error('Choose the fuel that ran out');
+    }
+
+    const reportFuelType = report_type === 'out_of_stock' ? fuel_type : null;
+    const existing = await this.getActiveReports([station_id]);
+    const duplicate = existing.some(
+      (report) =>
+        report.user_id === user_id &&
+        report.report_type === report_type &&
+        report.fuel_type === reportFuelType
+    );
+    if (duplicate) {
+      throw new Error('You have already reported this');
+    }
+
+    await moderationService.enforceReportLimits(station_id);
+
+    const reported_at = new Date().toISOString();
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .insert({
+        station_id,
+        user_id,
+        report_type,
+        fuel_type: reportFuelType,
+        reported_at,
+        expires_at: getReportExpiry(report_type, reported_at),
+        upvotes: 1, // Start with the reporter's implicit upvote
+        downvotes: 0,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error submitting station report:', error);
+      throw new Error('Failed to submit station report');
+    }
+
+    return data;
+  }
+
+  /**
+   * Set, change or withdraw a user's vote on a station report
+   * Runs the cast_station_report_vote RPC, which votes as the signed-in
+   * user, rejects votes on their own reports, keeps at most one vote per
+   * user per report and recounts the tallies in one transaction.
+   * @param vote New vote, or null to withdraw the current one
+   * @returns The report's tallies after the vote
+   */
+  async voteOnReport(
+    report_id: string,
+    vote: VoteDirection | null
+  ): Promise<VoteTally> {
+    if (vote !== null) {
+      await moderationService.enforceVoteLimits();
+    }
+
+    const { data, error } = await supabase.rpc('cast_station_report_vote', {
+      p_report_id: report_id,
+      p_vote: vote,
+    });
+
+    if (error) {
+      console.error('Error voting on station report:', error);
+      throw new Error('Failed to vote on station report');
+    }
+
+    // Set-returning functions come back as an array
+    const tally = Array.isArray(data) ? data[0] : data;
+    if (!tally) {
+      throw new Error('Report not found');
+    }
+
+    return {
+      report_id,
+      upvotes: tally.upvotes,
+      downvotes: tally.downvotes,
+      user_vote: tally.user_vote ?? null,
+    };
+  }
+
+  /**
+   * Get the active reports for some stations, newest first
+   * Shadow-banned reporters are left out by row level security.
+   */
+  async getActiveReports(station_ids: string[]): Promise<StationReport[]> {
+    if (station_ids.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .in('station_id', station_ids)
+      .gte('expires_at', new Date().toISOString())
+      .order('reported_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching station reports:', error);
+      throw new Error('Failed to fetch station reports');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get a user's current votes on some station reports
+   * @returns Vote direction keyed by report id; reports without a vote are
+   * left out
+   */
+  async getUserVotes(
+    report_ids: string[],
+    user_id: string
+  ): Promise<Record<string, VoteDirection>> {
+    if (report_ids.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('station_report_votes')
+      .select('report_id, is_upvote')
+      .in('report_id', report_ids)
+      .eq('user_id', user_id);
+
+    if (error) {
+      console.error('Error fetching station report votes:', error);
+      throw new Error('Failed to fetch station report votes');
+    }
+
+    const votes: Record<string, VoteDirection> = {};
+    (data || []).forEach((row) => {
+      votes[row.report_id] = row.is_upvote ? 'up' : 'down';
+    });
+    return votes;
+  }
+}
+
+// Export a singleton instance
+export const stationReportService = new StationReportService();
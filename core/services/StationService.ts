@@ -3,11 +3,45 @@ import { supabase } from '@/utils/supabase';
 import { BaseService } from './BaseService';
 import { GasStation } from '@/core/models/GasStation';
 import { Coordinates } from '@/core/interfaces/ILocationService';
+import { findNearestCity, normalizeCityName } from '@/utils/cityProximity';
+import { BoundingBox, getBoundingBox } from '@/utils/geo';
 import {
-  findNearestCity,
-  getCitiesWithinRadius,
-  normalizeCityName,
-} from '@/utils/cityProximity';
+  findAlongRoute,
+  getRouteBoundingBox,
+  RoutePosition,
+} from '@/utils/route';
+
+// Default number of stations per page for paginated nearby searches
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Optional filters for nearby station searches
+ */
+export interface StationFilters {
+  brands?: string[];
+  statuses?: GasStation['status'][];
+  amenities?: string[];
+}
+
+/**
+ * Paging and filter options for nearby station searches
+ */
+export interface NearbySearchOptions {
+  page?: number;
+  pageSize?: number;
+  filters?: StationFilters;
+}
+
+/**
+ * One page of nearby stations
+ */
+export interface PaginatedStations {
+  stations: GasStation[];
+  page: number;
+  pageSize: number;
+  total: number;
+  hasMore: boolean;
+}
 
 /**
  * SearchRadius domain class representing a search radius with validation
@@ -46,6 +80,11 @@ export class SearchRadius {
 }
 
 export class StationService extends BaseService<GasStation> {
+  // Full result of the last nearby search, so later pages are sliced from
+  // it instead of repeating the query
+  private lastNearbySearch: { key: string; stations: GasStation[] } | null =
+    null;
+
   constructor() {
     super('gas_stations');
   }
@@ -76,6 +115,20 @@ export class StationService extends BaseService<GasStation> {
     );
   }
 
+  /**
+   * Get stations by their ids
+   * @param ids Station ids to fetch
+   * @returns Array of gas stations (missing ids are skipped)
+   */
+  async getStationsByIds(ids: string[]): Promise<GasStation[]> {
+    if (ids.length === 0) return [];
+
+    return this.executeQuery(
+      supabase.from(this.tableName).select('*').in('id', ids),
+      'Error fetching gas stations by ids:'
+    );
+  }
+
   /**
    * Search for stations based on a query string
    * @param query The search query
@@ -95,69 +148,184 @@ export class StationService extends BaseService<GasStation> {
    * Get stations near a location within a specific radius
    * @param location Coordinates of the center point
    * @param radius Search radius
+   * @param filters Optional brand, status and amenity filters
    * @returns Array of gas stations within the radius, sorted by distance
+   * @throws On query errors, rather than returning no stations
    */
   async getStationsNearby(
     location: Coordinates,
-    radius: SearchRadius
+    radius: SearchRadius,
+    filters: StationFilters = {}
   ): Promise<GasStation[]> {
-    try {
-      const radiusKm = radius.kilometers;
+    return this.findStationsWithinRadius(location, radius, filters);
+  }
 
-      // Find nearby cities within the radius
-      const nearbyCities = getCitiesWithinRadius(
-        location.latitude,
-        location.longitude,
-        radiusKm
+  /**
+   * Get one page of stations near a location, sorted by true distance
+   * The first page runs the search; later pages of the same search are
+   * served from its stored result.
+   * @param location Coordinates of the center point
+   * @param radius Search radius
+   * @param options Page number (starting at 0), page size and filters
+   * @returns The requested page plus totals for further paging
+   */
+  async getStationsNearbyPage(
+    location: Coordinates,
+    radius: SearchRadius,
+    options: NearbySearchOptions = {}
+  ): Promise<PaginatedStations> {
+    const page = Math.max(0, options.page ?? 0);
+    const pageSize = Math.max(1, options.pageSize ?? DEFAULT_PAGE_SIZE);
+
+    const key = JSON.stringify([
+      location.latitude,
+      location.longitude,
+      radius.kilometers,
+      options.filters ?? {},
+    ]);
+
+    let stations =
+      page > 0 && this.lastNearbySearch?.key === key
+        ? this.lastNearbySearch.stations
+        : null;
+
+    if (!stations) {
+      stations = await this.findStationsWithinRadius(
+        location,
+        radius,
+        options.filters
       );
+      this.lastNearbySearch = { key, stations };
+    }
 
-      // If no cities found, return empty array
-      if (nearbyCities.length === 0) {
-        console.log(`No cities found within ${radiusKm}km`);
-        return [];
-      }
+    const start = page * pageSize;
 
-      // Collect stations from nearby cities
-      const stationsPromises = nearbyCities.map(async (city) => {
-        const { data, error } = await supabase
-          .from(this.tableName)
-          .select('*')
-          .eq('city', city.name);
+    return {
+      stations: stations.slice(start, start + pageSize),
+      page,
+      pageSize,
+      total: stations.length,
+      hasMore: start + pageSize < stations.length,
+    };
+  }
 
-        if (error) {
-          console.error(`Error fetching stations for ${city.name}:`, error);
-          return [];
-        }
+  /**
+   * Get stations inside a map bounding box
+   * @param bounds Visible map bounds
+   * @returns Array of gas stations inside the bounds, sorted by distance
+   * from the box center
+   */
+  async getStationsInBounds(bounds: BoundingBox): Promise<GasStation[]> {
+    const stations = await this.executeQuery(
+      supabase
+        .from(this.tableName)
+        .select('*')
+        .gte('coordinates->latitude', bounds.south)
+        .lte('coordinates->latitude', bounds.north)
+        .gte('coordinates->longitude', bounds.west)
+        .lte('coordinates->longitude', bounds.east),
+      'Error fetching gas stations in bounds:'
+    );
 
-        return data || [];
-      });
+    const center: Coordinates = {
+      latitude: (bounds.north + bounds.south) / 2,
+      longitude: (bounds.east + bounds.west) / 2,
+    };
 
-      // Wait for all city station queries
-      const stationResults = await Promise.all(stationsPromises);
+    return stations
+      .map((station) => ({
+        ...station,
+        distance: this.calculateDistance(station.coordinates, center),
+      }))
+      .sort((a, b) => a.distance - b.distance);
+  }
 
-      // Flatten and normalize stations
-      const allStations = stationResults.flat();
-      const normalizedStations = this.normalizeStations(allStations).map(
-        (station) => ({
-          ...station,
-          // Calculate actual distance from user location
-          distance: this.calculateDistance(station.coordinates, location),
-        })
-      );
+  /**
+   * Get stations within a corridor along a route
+   * A bounding-box query around the whole route narrows the candidates, then
+   * each station is measured against the route itself.
+   * @param path Route points in driving order
+   * @param corridorKm Maximum distance from the route in kilometers
+   * @returns Stations in the corridor in the order they are reached, with
+   * distance set to how far each is off the route
+   */
+  async getStationsAlongRoute(
+    path: Coordinates[],
+    corridorKm: number
+  ): Promise<(GasStation & RoutePosition)[]> {
+    if (path.length === 0) return [];
+
+    const stations = await this.getStationsInBounds(
+      getRouteBoundingBox(path, corridorKm)
+    );
 
-      // Sort by distance
-      return normalizedStations.sort(
-        (a, b) =>
-          (a.distance || Number.MAX_VALUE) - (b.distance || Number.MAX_VALUE)
-      );
-    } catch (error) {
-      console.error('Exception in getStationsNearby:', error);
-      return [];
-    }
+    return findAlongRoute(stations, path, corridorKm).map((station) => ({
+      ...station,
+      distance: station.distanceFromRoute,
+    }));
   }
 
   // Private helper methods
 
+  /**
+   * Find stations within a radius using their stored coordinates
+   * A bounding-box query narrows the candidates in the database, then the
+   * exact haversine distance removes the corners and orders the results.
+   * @param location Coordinates of the center point
+   * @param radius Search radius
+   * @param filters Optional brand, status and amenity filters
+   * @returns Stations within the radius, closest first
+   */
+  private async findStationsWithinRadius(
+    location: Coordinates,
+    radius: SearchRadius,
+    filters: StationFilters = {}
+  ): Promise<GasStation[]> {
+    const radiusKm = radius.kilometers;
+    const bounds = getBoundingBox(location, radiusKm);
+
+    let query = supabase
+      .from(this.tableName)
+      .select('*')
+      .gte('coordinates->latitude', bounds.south)
+      .lte('coordinates->latitude', bounds.north)
+      .gte('coordinates->longitude', bounds.west)
+      .lte('coordinates->longitude', bounds.east);
+
+    if (filters.brands?.length) {
+      query = query.in('brand', filters.brands);
+    }
+
+    if (filters.statuses?.length) {
+      query = query.in('status', filters.statuses);
+    }
+
+    const stations = await this.executeQuery(
+      query,
+      'Error fetching nearby gas stations:'
+    );
+
+    // Amenities are stored in mixed formats, so match after normalizing
+    const requiredAmenities = (filters.amenities || []).map((amenity) =>
+      amenity.toLowerCase()
+    );
+
+    return stations
+      .filter((station) =>
+        requiredAmenities.every((required) =>
+          station.amenities.some(
+            (amenity) => amenity.toLowerCase() === required
+          )
+        )
+      )
+      .map((station) => ({
+        ...station,
+        distance: this.calculateDistance(station.coordinates, location),
+      }))
+      .filter((station) => station.distance <= radiusKm)
+      .sort((a, b) => a.distance - b.distance);
+  }
+
   /**
    * Execute a query and process the results
    * @param query The Supabase query to execute
@@ -205,10 +373,23 @@ export class StationService extends BaseService<GasStation> {
 
   /**
    * Get coordinates for a station
+   * Falls back to the nearest city center when the stored coordinates
+   * are missing or invalid
    * @param station Station data
    * @returns Coordinates object
    */
   private getStationCoordinates(station: any): Coordinates {
+    const latitude = Number(station.coordinates?.latitude);
+    const longitude = Number(station.coordinates?.longitude);
+
+    if (
+      !isNaN(latitude) &&
+      !isNaN(longitude) &&
+      !(latitude === 0 && longitude === 0)
+    ) {
+      return { latitude, longitude };
+    }
+
     const nearestCity = findNearestCity(
       station.coordinates?.latitude,
       station.coordinates?.longitude
@@ -307,11 +488,13 @@ export class StationService extends BaseService<GasStation> {
    * @returns Structured operating hours object
    */
   private parseOperatingHours(hoursData: any): GasStation['operating_hours'] {
+    // Missing or unreadable hours are unknown, not guessed
     const defaultHours = {
-      open: '09:00',
-      close: '17:00',
+      open: '',
+      close: '',
       is24_hours: false,
-      days_open: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+      days_open: [],
+      is_unknown: true,
     };
 
     try {
@@ -336,6 +519,8 @@ export class StationService extends BaseService<GasStation> {
         days_open: Array.isArray(hours.days_open)
           ? hours.days_open
           : defaultHours.days_open,
+        ...(Array.isArray(hours.periods) ? { periods: hours.periods } : {}),
+        ...(hours.is_unknown ? { is_unknown: true } : {}),
       };
     } catch {
       return defaultHours;
@@ -0,0 +1,118 @@
+// core/services/UserService.ts
+import { supabase } from '@/utils/supabase';
+import { User } from '@/core/models/User';
+import { BaseService } from './BaseService';
+import { FUEL_TYPES } from '@/utils/constants';
+import { INITIAL_REPUTATION } from '@/utils/reputation';
+
+// Preferences given to a profile the first time a user signs in
+export const DEFAULT_USER_PREFERENCES: User['preferences'] = {
+  default_fuel_type: FUEL_TYPES[0],
+  notifications_enabled: false,
+  radius_preference: 5,
+  discount_program_ids: [],
+};
+
+/**
+ * Minimal shape of a Supabase auth user needed to create a profile
+ */
+export interface AuthUserInfo {
+  id: string;
+  email?: string | null;
+  user_metadata?: Record<string, any>;
+}
+
+/**
+ * Service for the persisted user profile rows backing core/models/User
+ */
+export class UserService extends BaseService<User> {
+  constructor() {
+    super('profiles');
+  }
+
+  /**
+   * Get a user's profile, or null if it has not been created yet
+   */
+  async getProfile(userId: string): Promise<User | null> {
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching user profile:', error);
+      throw new Error('Failed to fetch user profile');
+    }
+
+    return data ? this.normalizeProfile(data) : null;
+  }
+
+  /**
+   * Get the profile for an auth user, creating it on first sign in
+   */
+  async ensureProfile(authUser: AuthUserInfo): Promise<User> {
+    const existing = await this.getProfile(authUser.id);
+    if (existing) return existing;
+
+    const email = authUser.email || '';
+    const profile: User = {
+      id: authUser.id,
+      email,
+      display_name:
+        authUser.user_metadata?.display_name || email.split('@')[0] || 'User',
+      favorite_stations: [],
+      reputation: INITIAL_REPUTATION,
+      vehicles: [],
+      active_vehicle_id: null,
+      preferences: { ...DEFAULT_USER_PREFERENCES },
+    };
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .upsert(profile, { onConflict: 'id' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating user profile:', error);
+      throw new Error('Failed to create user profile');
+    }
+
+    return this.normalizeProfile(data);
+  }
+
+  /**
+   * Update editable profile fields
+   */
+  async updateProfile(
+    userId: string,
+    updates: Partial<Omit<User, 'id' | 'email' | 'reputation'>>
+  ): Promise<User> {
+    const updated = await this.update(userId, updates);
+    return this.normalizeProfile(updated);
+  }
+
+  /**
+   * Fill in defaults for columns that may be null in older rows
+   * @private
+   */
+  private normalizeProfile(data: any): User {
+    return {
+      id: data.id,
+      email: data.email || '',
+      display_name: data.display_name || '',
+      favorite_stations: data.favorite_stations || [],
+      reputation: data.reputation ?? INITIAL_REPUTATION,
+      vehicles: data.vehicles || [],
+      active_vehicle_id: data.active_vehicle_id ?? null,
+      preferences: {
+        ...DEFAULT_USER_PREFERENCES,
+        ...(data.preferences || {}),
+      },
+    };
+  }
+}
+
+// Export a singleton instance
+export const userService = new UserService();
@@ -0,0 +1,143 @@
+// core/services/VehicleService.ts
+import { loadData, removeData, saveData } from '@/utils/storage';
+import {
+  mergeVehicleProfiles,
+  removeVehicle,
+  saveVehicle,
+  VehicleInput,
+} from '@/utils/vehicles';
+import { Vehicle, VehicleProfile } from '@/core/models/Vehicle';
+import { UserService } from './UserService';
+
+// AsyncStorage key for vehicles saved while signed out
+const GUEST_VEHICLES_KEY = 'guest_vehicles';
+
+const EMPTY_PROFILE: VehicleProfile = { vehicles: [], active_vehicle_id: null };
+
+/**
+ * Service for a user's vehicles
+ * Signed-in users' vehicles live on their profile row; guests' vehicles
+ * live in AsyncStorage until they sign in and the lists are merged, the
+ * same way favorites are.
+ */
+export class VehicleService {
+  private userService: UserService;
+
+  constructor(userService: UserService) {
+    this.userService = userService;
+  }
+
+  /**
+   * Get vehicles and the active vehicle id
+   * @param userId Signed-in user id, or null for a guest
+   */
+  async getVehicleProfile(userId: string | null): Promise<VehicleProfile> {
+    if (!userId) {
+      return (
+        (await loadData<VehicleProfile>(GUEST_VEHICLES_KEY)) || EMPTY_PROFILE
+      );
+    }
+
+    const profile = await this.userService.getProfile(userId);
+    return profile
+      ? {
+          vehicles: profile.vehicles,
+          active_vehicle_id: profile.active_vehicle_id,
+        }
+      : EMPTY_PROFILE;
+  }
+
+  /**
+   * Add a vehicle, or update it when an id is given
+   * @returns The updated profile
+   */
+  async saveVehicle(
+    userId: string | null,
+    input: VehicleInput,
+    vehicleId?: string
+  ): Promise<VehicleProfile> {
+    const vehicle: Vehicle = {
+      ...input,
+      id:
+        vehicleId ||
+        `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`,
+    };
+
+    const profile = await this.getVehicleProfile(userId);
+    return this.saveProfile(userId, saveVehicle(profile, vehicle));
+  }
+
+  /**
+   * Remove a vehicle
+   * @returns The updated profile
+   */
+  async removeVehicle(
+    userId: string | null,
+    vehicleId: string
+  ): Promise<VehicleProfile> {
+    const profile = await this.getVehicleProfile(userId);
+    return this.saveProfile(userId, removeVehicle(profile, vehicleId));
+  }
+
+  /**
+   * Choose the vehicle prices are shown for
+   * @returns The updated profile
+   */
+  async setActiveVehicle(
+    userId: string | null,
+    vehicleId: string
+  ): Promise<VehicleProfile> {
+    const profile = await this.getVehicleProfile(userId);
+    return this.saveProfile(userId, {
+      ...profile,
+      active_vehicle_id: vehicleId,
+    });
+  }
+
+  /**
+   * Merge vehicles saved as a guest into the user's profile
+   * The guest vehicles are cleared once they have been saved to the profile.
+   * @returns The merged profile
+   */
+  async mergeGuestVehicles(userId: string): Promise<VehicleProfile> {
+    const [guestProfile, userProfile] = await Promise.all([
+      this.getVehicleProfile(null),
+      this.getVehicleProfile(userId),
+    ]);
+
+    if (guestProfile.vehicles.length === 0) {
+      return userProfile;
+    }
+
+    const merged = await this.saveProfile(
+      userId,
+      mergeVehicleProfiles(userProfile, guestProfile)
+    );
+    await removeData(GUEST_VEHICLES_KEY);
+
+    return merged;
+  }
+
+  /**
+   * Persist the vehicles for a user or guest
+   * @private
+   */
+  private async saveProfile(
+    userId: string | null,
+    vehicleProfile: VehicleProfile
+  ): Promise<VehicleProfile> {
+    if (!userId) {
+      await saveData(GUEST_VEHICLES_KEY, vehicleProfile);
+      return vehicleProfile;
+    }
+
+    const profile = await this.userService.updateProfile(userId, {
+      vehicles: vehicleProfile.vehicles,
+      active_vehicle_id: vehicleProfile.active_vehicle_id,
+    });
+    return {
+      vehicles: profile.vehicles,
+      active_vehicle_id: profile.active_vehicle_id,
+    };
+  }
+}
@@ -3,6 +3,16 @@ import { StationService } from './StationService';
 import { LocationService } from './LocationService';
 import { GooglePlacesService } from './GooglePlacesService';
 import { GasStationImportService } from './GasStationImportService';
+import { FavoritesService } from './FavoritesService';
+import { VehicleService } from './VehicleService';
+import { PricePlausibilityService } from './PricePlausibilityService';
+import { OutboxService } from './OutboxService';
+import { priceReportingService } from './PriceReportingService';
+import { ReputationService } from './ReputationService';
+import { StationMergeService } from './StationMergeService';
+import { userService } from './UserService';
+import { photoStorage } from './PhotoStorage';
+import { ReportPhotoService } from './ReportPhotoService';
 import Constants from 'expo-constants';
 
 // Get Google API key from environment variables or Constants
@@ -20,6 +30,23 @@ export const gasStationImportService = new GasStationImportService(
   googlePlacesService,
   stationService
 );
+export const favoritesService = new FavoritesService(
+  userService,
+  stationService
+);
+export const vehicleService = new VehicleService(userService);
+export const pricePlausibilityService = new PricePlausibilityService(
+  stationService
+);
+export const reputationService = new ReputationService();
+export const stationMergeService = new StationMergeService(stationService);
+export const reportPhotoService = new ReportPhotoService(photoStorage);
+export const outboxService = new OutboxService(
+  priceReportingService,
+  pricePlausibilityService,
+  reportPhotoService
+);
 
 export * from './PriceReportingService';
 export { priceReportingService } from './PriceReportingService';
+export { moderationService } from './ModerationService';
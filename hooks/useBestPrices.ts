@@ -1,5 +1,5 @@
 // hooks/useBestPrices.ts - revised to keep zero-price stations
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '@/utils/supabase';
 import { useServiceContext } from '@/context/ServiceContext';
 import { GasStation } from '@/core/models/GasStation';
@@ -7,6 +7,30 @@ import { Coordinates } from '@/core/interfaces/ILocationService';
 import { PriceStationConnector } from '@/utils/priceStationConnector';
 import { isValidPrice } from '@/utils/formatters';
 import { SearchRadius } from '@/core/services/StationService'; // Add this import
+import {
+  findNetSavingsReference,
+  NetSavings,
+  NetSavingsOptions,
+  PriceRankingMode,
+  rankByNetSavings,
+} from '@/utils/netSavings';
+import { EffectivePrice, getEffectivePrice } from '@/utils/discounts';
+import { DiscountProgram } from '@/core/models/DiscountProgram';
+import { stationReportService } from '@/core/services/StationReportService';
+import { getOutOfStockByStation, isOutOfStock } from '@/utils/stationReports';
+import {
+  cachedFetch,
+  CachedResult,
+  CACHE_TTL,
+  getLocationCacheKey,
+} from '@/utils/cache';
+
+// Prices shown per fuel type
+const MAX_RESULTS = 5;
+
+// Prices kept per fuel type so a nearby station that isn't among the
+// cheapest can still rank first once the drive is counted
+const CANDIDATES_PER_FUEL_TYPE = 20;
 
 // Default Manila coordinates
 const DEFAULT_COORDINATES = {
@@ -25,20 +49,166 @@ export interface BestPriceItem {
   distance?: number;
   source: 'doe' | 'community'; // Retain source information
   confidence?: number; // Keep internally but don't display
+  netSavings?: NetSavings; // Only set when ranking by net savings
+  effectivePrice?: EffectivePrice; // Set when the user holds a discount here
 }
 
-export function useBestPrices() {
+/**
+ * How best prices are ranked
+ * 'price' ranks by pump price alone; 'net_savings' also counts the fuel
+ * burned driving to each station.
+ */
+export interface BestPricesRanking extends NetSavingsOptions {
+  mode: PriceRankingMode;
+  // Running programs the user holds, used to work out effective prices
+  discountPrograms?: DiscountProgram[];
+  // Rank on the price after discounts instead of the pump price
+  useEffectivePrice?: boolean;
+}
+
+// Cheapest known price per station, keyed by fuel type then station id
+export type StationPriceLookup = Record<string, Record<string, number>>;
+
+interface BestPricesCache {
+  bestPrices: Record<string, BestPriceItem[]>;
+  stationPrices: StationPriceLookup;
+}
+
+/**
+ * Record a price for a station if it is cheaper than the one already stored
+ */
+function recordStationPrice(
+  lookup: StationPriceLookup,
+  fuelType: string,
+  stationId: string | undefined,
+  price: number | null
+) {
+  if (!stationId || !isValidPrice(price)) return;
+
+  const prices = lookup[fuelType] || (lookup[fuelType] = {});
+  const current = prices[stationId];
+  if (current === undefined || (price as number) < current) {
+    prices[stationId] = price as number;
+  }
+}
+
+/**
+ * Order prices with valid prices first, cheapest first, then by distance
+ */
+function compareBestPrices(a: BestPriceItem, b: BestPriceItem): number {
+  const aValid = isValidPrice(a.price);
+  const bValid = isValidPrice(b.price);
+  if (aValid !== bValid) return aValid ? -1 : 1;
+
+  if (aValid && bValid && a.price !== b.price) {
+    return (a.price as number) - (b.price as number);
+  }
+
+  return (a.distance ?? Number.MAX_VALUE) - (b.distance ?? Number.MAX_VALUE);
+}
+
+/**
+ * Rank on the price after discounts, keeping the pump price for display
+ */
+function rankOnEffectivePrice(
+  items: BestPriceItem[],
+  rank: (items: BestPriceItem[]) => BestPriceItem[]
+): BestPriceItem[] {
+  const keyOf = (item: BestPriceItem) => `${item.id}:${item.stationId}`;
+  const pumpPrices = new Map(items.map((item) => [keyOf(item), item.price]));
+
+  return rank(
+    items.map((item) => ({
+      ...item,
+      price: item.effectivePrice?.price ?? item.price,
+    }))
+  ).map((item) => ({ ...item, price: pumpPrices.get(keyOf(item)) ?? null }));
+}
+
+/**
+ * Put each fuel type's prices in ranking order and keep the top results
+ * Effective prices are attached whenever the user holds a discount, even
+ * when ranking on the pump price. Stations confirmed out of a fuel are left
+ * out of that fuel's results. Net savings are measured against the nearest
+ * priced station among all nearby ones, not just the candidates.
+ * @param outOfStock Normalized fuel types out of stock, keyed by station id
+ * @param nearbyStations Every nearby station, with its distance
+ * @param stationPrices Cheapest known price of every nearby station
+ */
+function rankBestPrices(
+  bestPrices: Record<string, BestPriceItem[]>,
+  ranking?: BestPricesRanking,
+  outOfStock: Record<string, string[]> = {},
+  nearbyStations: GasStation[] = [],
+  stationPrices: StationPriceLookup = {}
+): Record<string, BestPriceItem[]> {
+  const ranked: Record<string, BestPriceItem[]> = {};
+  const discountPrograms = ranking?.discountPrograms ?? [];
+
+  Object.entries(bestPrices).forEach(([fuelType, items]) => {
+    const pumpPrices = stationPrices[fuelType] || {};
+    const referencePrices: Record<string, number> = {};
+    nearbyStations.forEach((station) => {
+      const price = pumpPrices[station.id];
+      if (
+        price === undefined ||
+        isOutOfStock(outOfStock, station.id, fuelType)
+      ) {
+        return;
+      }
+
+      referencePrices[station.id] = ranking?.useEffectivePrice
+        ? getEffectivePrice(discountPrograms, station.brand, fuelType, price)
+            ?.price ?? price
+        : price;
+    });
+    const reference = findNetSavingsReference(nearbyStations, referencePrices);
+
+    const inStock = items.filter(
+      (item) => !isOutOfStock(outOfStock, item.stationId, item.fuelType)
+    );
+    const withDiscounts = inStock.map((item) => ({
+      ...item,
+      effectivePrice:
+        getEffectivePrice(
+          discountPrograms,
+          item.brand,
+          item.fuelType,
+          item.price
+        ) ?? undefined,
+    }));
+
+    const rank = (list: BestPriceItem[]) =>
+      ranking?.mode === 'net_savings'
+        ? rankByNetSavings(list, ranking, reference)
+        : [...list].sort(compareBestPrices);
+
+    ranked[fuelType] = (
+      ranking?.useEffectivePrice
+        ? rankOnEffectivePrice(withDiscounts, rank)
+        : rank(withDiscounts)
+    ).slice(0, MAX_RESULTS);
+  });
+
+  return ranked;
+}
+
+export function useBestPrices(ranking?: BestPricesRanking) {
   const { priceService, stationService, locationService } = useServiceContext();
 
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [bestPrices, setBestPrices] = useState<Record<string, BestPriceItem[]>>(
-    {}
-  );
+  const [candidatePrices, setCandidatePrices] = useState<
+    Record<string, BestPriceItem[]>
+  >({});
   const [userLocation, setUserLocation] =
     useState<Coordinates>(DEFAULT_COORDINATES);
   const [locationName, setLocationName] = useState<string>('Manila');
   const [nearbyStations, setNearbyStations] = useState<GasStation[]>([]);
+  const [stationPrices, setStationPrices] = useState<StationPriceLookup>({});
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [offline, setOffline] = useState(false);
+  const [outOfStock, setOutOfStock] = useState<Record<string, string[]>>({});
 
   // Initial location setup
   useEffect(() => {
@@ -79,12 +249,17 @@ export function useBestPrices() {
 
         // Get stations within a reasonable radius
         const radius = SearchRadius.createSafe(10); // 10km radius with safe creation
-        const stations = await stationService.getStationsNearby(
-          {
-            latitude: userLocation.latitude,
-            longitude: userLocation.longitude,
-          },
-          radius
+        const { data: stations } = await cachedFetch(
+          getLocationCacheKey('best_prices_stations', userLocation),
+          CACHE_TTL.NEARBY_STATIONS,
+          () =>
+            stationService.getStationsNearby(
+              {
+                latitude: userLocation.latitude,
+                longitude: userLocation.longitude,
+              },
+              radius
+            )
         );
 
         if (isMounted) {
@@ -112,230 +287,350 @@ export function useBestPrices() {
     };
   }, [userLocation, stationService]);
 
-  // Fetch and process combined prices using enhanced PriceStationConnector
-  const fetchBestPrices = useCallback(async () => {
-    if (nearbyStations.length === 0) {
-      console.log('No nearby stations available, skipping price fetch');
-      return;
-    }
+  // Match DOE and community prices to nearby stations using the enhanced
+  // PriceStationConnector
+  const loadBestPrices = useCallback(async (): Promise<BestPricesCache> => {
+    console.log(
+      'Fetching and matching prices with enhanced confidence scoring...'
+    );
+
+    // Use the enhanced PriceStationConnector to get best prices
+    const matchedPrices = await PriceStationConnector.getBestPricesForLocation(
+      userLocation.latitude,
+      userLocation.longitude,
+      nearbyStations,
+      CANDIDATES_PER_FUEL_TYPE
+    );
+
+    // Prepare result object
+    const bestPricesByFuelType: Record<string, BestPriceItem[]> = {};
+    const cheapestByStation: StationPriceLookup = {};
+
+    // Process each fuel type's matched prices
+    Object.entries(matchedPrices).forEach(([fuelType, priceMatches]) => {
+      priceMatches.forEach((match) =>
+        recordStationPrice(
+          cheapestByStation,
+          fuelType,
+          match.stationId,
+          match.price.common_price
+        )
+      );
 
-    try {
-      setLoading(true);
-      setError(null);
+      // Count valid prices for later reference
+      const validPriceCount = priceMatches.filter((match) =>
+        isValidPrice(match.price.common_price)
+      ).length;
+
+      const bestItems: BestPriceItem[] = priceMatches.map((match) => {
+        // Find the matching station if available
+        const matchingStation = match.stationId
+          ? nearbyStations.find((s) => s.id === match.stationId)
+          : undefined;
+
+        return {
+          id: match.price.id,
+          fuelType: match.price.fuel_type,
+          price: match.price.common_price, // Keep all prices, even zero values
+          brand: match.price.brand,
+          stationName: match.stationName || match.price.brand,
+          stationId: match.stationId || '',
+          area: match.price.area,
+          distance: matchingStation?.distance,
+          source: 'doe',
+          confidence: match.matchConfidence,
+        };
+      });
 
-      console.log(
-        'Fetching and matching prices with enhanced confidence scoring...'
-      );
+      // Sort bestItems primarily by price validity, then by price value, then by distance
+      bestItems.sort((a, b) => {
+        // First, prioritize valid prices
+        const aValid = isValidPrice(a.price);
+        const bValid = isValidPrice(b.price);
+        if (aValid && !bValid) return -1;
+        if (!aValid && bValid) return 1;
+
+        // If both are valid, sort by price value
+        if (aValid && bValid) {
+          return (a.price as number) - (b.price as number);
+        }
 
-      // Use the enhanced PriceStationConnector to get best prices
-      const matchedPrices =
-        await PriceStationConnector.getBestPricesForLocation(
-          userLocation.latitude,
-          userLocation.longitude,
-          nearbyStations
-        );
+        // For invalid prices, sort by distance
+        const distA = a.distance ?? Number.MAX_VALUE;
+        const distB = b.distance ?? Number.MAX_VALUE;
+        return distA - distB;
+      });
 
-      // Prepare result object
-      const bestPricesByFuelType: Record<string, BestPriceItem[]> = {};
-
-      // Process each fuel type's matched prices
-      Object.entries(matchedPrices).forEach(([fuelType, priceMatches]) => {
-        // Count valid prices for later reference
-        const validPriceCount = priceMatches.filter((match) =>
-          isValidPrice(match.price.common_price)
-        ).length;
-
-        const bestItems: BestPriceItem[] = priceMatches.map((match) => {
-          // Find the matching station if available
-          const matchingStation = match.stationId
-            ? nearbyStations.find((s) => s.id === match.stationId)
-            : undefined;
-
-          return {
-            id: match.price.id,
-            fuelType: match.price.fuel_type,
-            price: match.price.common_price, // Keep all prices, even zero values
-            brand: match.price.brand,
-            stationName: match.stationName || match.price.brand,
-            stationId: match.stationId || '',
-            area: match.price.area,
-            distance: matchingStation?.distance,
-            source: 'doe',
-            confidence: match.matchConfidence,
-          };
-        });
-
-        // Sort bestItems primarily by price validity, then by price value, then by distance
-        bestItems.sort((a, b) => {
-          // First, prioritize valid prices
-          const aValid = isValidPrice(a.price);
-          const bValid = isValidPrice(b.price);
-          if (aValid && !bValid) return -1;
-          if (!aValid && bValid) return 1;
-
-          // If both are valid, sort by price value
-          if (aValid && bValid) {
-            return (a.price as number) - (b.price as number);
-          }
-
-          // For invalid prices, sort by distance
-          const distA = a.distance ?? Number.MAX_VALUE;
-          const distB = b.distance ?? Number.MAX_VALUE;
-          return distA - distB;
-        });
-
-        // Take at most 5 results, but ensure we include stations with valid prices first
-        if (bestItems.length > 5) {
-          // If we have enough valid prices, keep top 5
-          if (validPriceCount >= 3) {
-            bestPricesByFuelType[fuelType] = bestItems.slice(0, 5);
-          } else {
-            // Take all valid prices then add zero-price items to reach 5 total
-            const validItems = bestItems.filter((item) =>
-              isValidPrice(item.price)
-            );
-            const zeroItems = bestItems.filter(
-              (item) => !isValidPrice(item.price)
-            );
-
-            bestPricesByFuelType[fuelType] = [
-              ...validItems,
-              ...zeroItems.slice(0, 5 - validItems.length),
-            ];
-          }
+      // Keep the top candidates, but ensure we include stations with valid prices first
+      if (bestItems.length > CANDIDATES_PER_FUEL_TYPE) {
+        // If we have enough valid prices, keep the top candidates
+        if (validPriceCount >= 3) {
+          bestPricesByFuelType[fuelType] = bestItems.slice(
+            0,
+            CANDIDATES_PER_FUEL_TYPE
+          );
         } else {
-          // If we have 5 or fewer items, keep them all
-          bestPricesByFuelType[fuelType] = bestItems;
+          // Take all valid prices then add zero-price items to fill the list
+          const validItems = bestItems.filter((item) =>
+            isValidPrice(item.price)
+          );
+          const zeroItems = bestItems.filter(
+            (item) => !isValidPrice(item.price)
+          );
+
+          bestPricesByFuelType[fuelType] = [
+            ...validItems,
+            ...zeroItems.slice(0, CANDIDATES_PER_FUEL_TYPE - validItems.length),
+          ];
         }
-      });
+      } else {
+        // If we have few enough items, keep them all
+        bestPricesByFuelType[fuelType] = bestItems;
+      }
+    });
 
-      console.log(
-        'Processed best prices for fuel types:',
-        Object.keys(bestPricesByFuelType).join(', ')
-      );
-      setBestPrices(bestPricesByFuelType);
+    console.log(
+      'Processed best prices for fuel types:',
+      Object.keys(bestPricesByFuelType).join(', ')
+    );
+    // Also fetch community prices and merge them
+    try {
+      const { data: communityPrices } = await supabase
+        .from('combined_prices')
+        .select('*')
+        .eq('source', 'community')
+        .order('price');
+
+      if (communityPrices && communityPrices.length > 0) {
+        console.log(
+          `Found ${communityPrices.length} community prices to integrate`
+        );
 
-      // Also fetch community prices and merge them
-      try {
-        const { data: communityPrices } = await supabase
-          .from('combined_prices')
-          .select('*')
-          .eq('source', 'community')
-          .order('price');
+        // Filter for valid community prices
+        const validCommunityPrices = communityPrices.filter((price: any) =>
+          isValidPrice(price.price)
+        );
 
-        if (communityPrices && communityPrices.length > 0) {
+        if (validCommunityPrices.length > 0) {
           console.log(
-            `Found ${communityPrices.length} community prices to integrate`
+            `${validCommunityPrices.length} valid community prices after filtering`
           );
 
-          // Filter for valid community prices
-          const validCommunityPrices = communityPrices.filter((price: any) =>
-            isValidPrice(price.price)
-          );
+          // Process each valid community price
+          validCommunityPrices.forEach((communityPrice: any) => {
+            const fuelType = communityPrice.fuel_type;
+
+            if (!bestPricesByFuelType[fuelType]) {
+              bestPricesByFuelType[fuelType] = [];
+            }
+
+            // Find matching station for this community price
+            const matchingStation = communityPrice.station_id
+              ? nearbyStations.find((s) => s.id === communityPrice.station_id)
+              : undefined;
+
+            // Only include community prices for stations that are nearby
+            if (matchingStation) {
+              recordStationPrice(
+                cheapestByStation,
+                fuelType,
+                matchingStation.id,
+                communityPrice.price
+              );
+
+              const communityItem: BestPriceItem = {
+                id: communityPrice.id,
+                fuelType: communityPrice.fuel_type,
+                price: communityPrice.price,
+                brand: communityPrice.brand,
+                stationName: matchingStation.name,
+                stationId: matchingStation.id,
+                area: communityPrice.area,
+                distance: matchingStation.distance,
+                source: 'community',
+                confidence: communityPrice.confidence,
+              };
+
+              bestPricesByFuelType[fuelType].push(communityItem);
+
+              // Re-sort with the same criteria: valid prices first, then price, then distance
+              bestPricesByFuelType[fuelType].sort((a, b) => {
+                // First, prioritize valid prices
+                const aValid = isValidPrice(a.price);
+                const bValid = isValidPrice(b.price);
+                if (aValid && !bValid) return -1;
+                if (!aValid && bValid) return 1;
+
+                // If both are valid, sort by price
+                if (aValid && bValid) {
+                  return (a.price as number) - (b.price as number);
+                }
 
-          if (validCommunityPrices.length > 0) {
-            console.log(
-              `${validCommunityPrices.length} valid community prices after filtering`
-            );
+                // Secondary sort by distance
+                const distA = a.distance ?? Number.MAX_VALUE;
+                const distB = b.distance ?? Number.MAX_VALUE;
+                return distA - distB;
+              });
+
+              // Keep the top candidates after including community prices
+              if (
+                bestPricesByFuelType[fuelType].length > CANDIDATES_PER_FUEL_TYPE
+              ) {
+                // Preserve valid prices first
+                const validItems = bestPricesByFuelType[fuelType].filter(
+                  (item) => isValidPrice(item.price)
+                );
+
+                const invalidItems = bestPricesByFuelType[fuelType].filter(
+                  (item) => !isValidPrice(item.price)
+                );
+
+                // Keep all valid prices (up to the limit), then fill with invalid prices if needed
+                if (validItems.length >= CANDIDATES_PER_FUEL_TYPE) {
+                  bestPricesByFuelType[fuelType] = validItems.slice(
+                    0,
+                    CANDIDATES_PER_FUEL_TYPE
+                  );
+                } else {
+                  bestPricesByFuelType[fuelType] = [
+                    ...validItems,
+                    ...invalidItems.slice(
+                      0,
+                      CANDIDATES_PER_FUEL_TYPE - validItems.length
+                    ),
+                  ];
+                }
+              }
+            }
+          });
+        }
+      }
+    } catch (communityError) {
+      console.error('Error fetching community prices:', communityError);
+      // Don't fail the whole operation if community prices fail
+    }
 
-            // Process each valid community price
-            validCommunityPrices.forEach((communityPrice: any) => {
-              const fuelType = communityPrice.fuel_type;
+    return {
+      bestPrices: bestPricesByFuelType,
+      stationPrices: cheapestByStation,
+    };
+  }, [nearbyStations, userLocation]);
 
-              if (!bestPricesByFuelType[fuelType]) {
-                bestPricesByFuelType[fuelType] = [];
-              }
+  const applyBestPrices = useCallback(
+    (result: CachedResult<BestPricesCache>) => {
+      setCandidatePrices(result.data.bestPrices);
+      setStationPrices(result.data.stationPrices);
+      setCachedAt(result.cachedAt);
+      setOffline(result.offline);
+    },
+    []
+  );
 
-              // Find matching station for this community price
-              const matchingStation = communityPrice.station_id
-                ? nearbyStations.find((s) => s.id === communityPrice.station_id)
-                : undefined;
-
-              // Only include community prices for stations that are nearby
-              if (matchingStation) {
-                const communityItem: BestPriceItem = {
-                  id: communityPrice.id,
-                  fuelType: communityPrice.fuel_type,
-                  price: communityPrice.price,
-                  brand: communityPrice.brand,
-                  stationName: matchingStation.name,
-                  stationId: matchingStation.id,
-                  area: communityPrice.area,
-                  distance: matchingStation.distance,
-                  source: 'community',
-                  confidence: communityPrice.confidence,
-                };
-
-                bestPricesByFuelType[fuelType].push(communityItem);
-
-                // Re-sort with the same criteria: valid prices first, then price, then distance
-                bestPricesByFuelType[fuelType].sort((a, b) => {
-                  // First, prioritize valid prices
-                  const aValid = isValidPrice(a.price);
-                  const bValid = isValidPrice(b.price);
-                  if (aValid && !bValid) return -1;
-                  if (!aValid && bValid) return 1;
-
-                  // If both are valid, sort by price
-                  if (aValid && bValid) {
-                    return (a.price as number) - (b.price as number);
-                  }
-
-                  // Secondary sort by distance
-                  const distA = a.distance ?? Number.MAX_VALUE;
-                  const distB = b.distance ?? Number.MAX_VALUE;
-                  return distA - distB;
-                });
-
-                // Keep top 5 after including community prices
-                if (bestPricesByFuelType[fuelType].length > 5) {
-                  // Preserve valid prices first
-                  const validItems = bestPricesByFuelType[fuelType].filter(
-                    (item) => isValidPrice(item.price)
-                  );
+  // Fetch best prices, served from the cache unless forced
+  const fetchBestPrices = useCallback(
+    async (forceRefresh: boolean = false) => {
+      if (nearbyStations.length === 0) {
+        console.log('No nearby stations available, skipping price fetch');
+        return;
+      }
 
-                  const invalidItems = bestPricesByFuelType[fuelType].filter(
-                    (item) => !isValidPrice(item.price)
-                  );
+      try {
+        setLoading(true);
+        setError(null);
 
-                  // Keep all valid prices (up to 5), then fill with invalid prices if needed
-                  if (validItems.length >= 5) {
-                    bestPricesByFuelType[fuelType] = validItems.slice(0, 5);
-                  } else {
-                    bestPricesByFuelType[fuelType] = [
-                      ...validItems,
-                      ...invalidItems.slice(0, 5 - validItems.length),
-                    ];
-                  }
-                }
-              }
-            });
-          }
-          setBestPrices(bestPricesByFuelType);
-        }
-      } catch (communityError) {
-        console.error('Error fetching community prices:', communityError);
-        // Don't fail the whole operation if community prices fail
+        const result = await cachedFetch(
+          getLocationCacheKey('best_prices', userLocation),
+          CACHE_TTL.BEST_PRICES,
+          loadBestPrices,
+          { forceRefresh, onRevalidate: applyBestPrices }
+        );
+        applyBestPrices(result);
+      } catch (err) {
+        console.error('Error fetching best prices:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error occurred');
+      } finally {
+        setLoading(false);
       }
+    },
+    [nearbyStations, userLocation, loadBestPrices, applyBestPrices]
+  );
+
+  // Fuel running out changes within hours, so reports are never cached
+  const fetchOutOfStock = useCallback(async () => {
+    if (nearbyStations.length === 0) return;
+
+    try {
+      const reports = await stationReportService.getActiveReports(
+        nearbyStations.map((station) => station.id)
+      );
+      setOutOfStock(getOutOfStockByStation(reports));
     } catch (err) {
-      console.error('Error fetching best prices:', err);
-      setError(err instanceof Error ? err.message : 'Unknown error occurred');
-    } finally {
-      setLoading(false);
+      // Keep showing every station if reports can't be loaded
+      console.error('Error fetching station reports:', err);
     }
-  }, [nearbyStations, userLocation]);
+  }, [nearbyStations]);
+
+  // Pull-to-refresh always goes to the network
+  const refreshPrices = useCallback(async () => {
+    await Promise.all([fetchBestPrices(true), fetchOutOfStock()]);
+  }, [fetchBestPrices, fetchOutOfStock]);
 
   // Fetch prices when nearby stations are available
   useEffect(() => {
     fetchBestPrices();
   }, [fetchBestPrices]);
 
+  useEffect(() => {
+    fetchOutOfStock();
+  }, [fetchOutOfStock]);
+
+  const rankingMode = ranking?.mode;
+  const fillUpLiters = ranking?.fillUpLiters;
+  const fuelEconomy = ranking?.fuelEconomy;
+  const discountPrograms = ranking?.discountPrograms;
+  const useEffectivePrice = ranking?.useEffectivePrice;
+
+  // Rank on the device so switching modes doesn't refetch
+  const bestPrices = useMemo(
+    () =>
+      rankBestPrices(
+        candidatePrices,
+        rankingMode && fillUpLiters && fuelEconomy
+          ? {
+              mode: rankingMode,
+              fillUpLiters,
+              fuelEconomy,
+              discountPrograms,
+              useEffectivePrice,
+            }
+          : undefined,
+        outOfStock,
+        nearbyStations,
+        stationPrices
+      ),
+    [
+      candidatePrices,
+      outOfStock,
+      nearbyStations,
+      stationPrices,
+      rankingMode,
+      fillUpLiters,
+      fuelEconomy,
+      discountPrograms,
+      useEffectivePrice,
+    ]
+  );
+
   return {
     bestPrices,
     loading,
     error,
     locationName,
     userLocation,
-    refreshPrices: fetchBestPrices,
+    nearbyStations,
+    stationPrices,
+    cachedAt,
+    offline,
+    refreshPrices,
   };
 }
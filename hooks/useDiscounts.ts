@@ -0,0 +1,81 @@
+// hooks/useDiscounts.ts
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { discountProgramService } from '@/core/services/DiscountProgramService';
+import { DiscountProgram } from '@/core/models/DiscountProgram';
+import { cachedFetch, CACHE_TTL } from '@/utils/cache';
+import { getEffectivePrice, getHeldPrograms } from '@/utils/discounts';
+
+/**
+ * Discount programs and the ones the signed-in user holds, cached so
+ * effective prices are available offline
+ */
+export function useDiscounts() {
+  const { user, updateProfile } = useAuth();
+  const [programs, setPrograms] = useState<DiscountProgram[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    cachedFetch(
+      'discount_programs',
+      CACHE_TTL.DISCOUNT_PROGRAMS,
+      () => discountProgramService.getPrograms(),
+      {
+        onRevalidate: (result) => {
+          if (!cancelled) setPrograms(result.data);
+        },
+      }
+    )
+      .then((result) => {
+        if (!cancelled) setPrograms(result.data);
+      })
+      .catch((err) => console.error('Error loading discount programs:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const heldIds = useMemo(
+    () => user?.preferences.discount_program_ids ?? [],
+    [user]
+  );
+
+  // Held programs running today; an ended program stops counting by itself
+  const heldPrograms = useMemo(
+    () => getHeldPrograms(programs, heldIds, new Date()),
+    [programs, heldIds]
+  );
+
+  // Add or remove a program from the user's preferences
+  const toggleProgram = useCallback(
+    async (programId: string) => {
+      if (!user) return;
+
+      const ids = heldIds.includes(programId)
+        ? heldIds.filter((id) => id !== programId)
+        : [...heldIds, programId];
+
+      await updateProfile({
+        preferences: { ...user.preferences, discount_program_ids: ids },
+      });
+    },
+    [user, heldIds, updateProfile]
+  );
+
+  // Price after the user's best discount, or null if none applies
+  const getEffectivePriceFor = useCallback(
+    (brand: string, fuelType: string, price: number | null) =>
+      getEffectivePrice(heldPrograms, brand, fuelType, price),
+    [heldPrograms]
+  );
+
+  return {
+    programs,
+    heldIds,
+    heldPrograms,
+    toggleProgram,
+    getEffectivePrice: getEffectivePriceFor,
+  };
+}
@@ -2,51 +2,135 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useServiceContext } from '@/context/ServiceContext';
 import { GasStation } from '@/core/models/GasStation';
-import { SearchRadius } from '@/core/services/StationService';
+import { SearchRadius, StationFilters } from '@/core/services/StationService';
 import { Coordinates } from '@/core/interfaces/ILocationService';
+import {
+  cachedFetch,
+  CachedResult,
+  CACHE_TTL,
+  getLocationCacheKey,
+} from '@/utils/cache';
 
-export function useLocationStations(radiusKm: number = 5) {
+// Number of stations loaded per page
+const PAGE_SIZE = 20;
+
+interface NearbyStationsCache {
+  stations: GasStation[];
+  hasMore: boolean;
+}
+
+export function useLocationStations(
+  radiusKm: number = 5,
+  filters: StationFilters = {}
+) {
   const { stationService, locationService } = useServiceContext();
   const [stations, setStations] = useState<GasStation[]>([]);
   const [location, setLocation] = useState<Coordinates | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
   const [error, setError] = useState<Error | null>(null);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [offline, setOffline] = useState(false);
 
-  // Fetch stations function that can be called to refresh data
-  const fetchStations = useCallback(async () => {
-    try {
-      setLoading(true);
+  // Compare filters by value so callers can pass object literals
+  const filtersKey = JSON.stringify(filters);
 
-      // Get current location
-      const currentLocation = await locationService.getCurrentLocation();
-      setLocation(currentLocation);
+  const applyResult = useCallback(
+    (result: CachedResult<NearbyStationsCache>) => {
+      setStations(result.data.stations);
+      setPage(0);
+      setHasMore(result.data.hasMore);
+      setCachedAt(result.cachedAt);
+      setOffline(result.offline);
+    },
+    []
+  );
 
-      // Create SearchRadius instance
-      const searchRadius = SearchRadius.createSafe(radiusKm);
+  // Fetch the first page of stations, served from the cache unless forced
+  const fetchStations = useCallback(
+    async (forceRefresh: boolean = false) => {
+      try {
+        setLoading(true);
 
-      // Get nearby stations
-      const data = await stationService.getStationsNearby(
-        currentLocation,
-        searchRadius
-      );
+        // Location works without signal, so it is not cached
+        const currentLocation = await locationService.getCurrentLocation();
+        setLocation(currentLocation);
+
+        const result = await cachedFetch<NearbyStationsCache>(
+          getLocationCacheKey(
+            `nearby_stations:${radiusKm}:${filtersKey}`,
+            currentLocation
+          ),
+          CACHE_TTL.NEARBY_STATIONS,
+          async () => {
+            // Get nearby stations, closest first
+            const firstPage = await stationService.getStationsNearbyPage(
+              currentLocation,
+              SearchRadius.createSafe(radiusKm),
+              { page: 0, pageSize: PAGE_SIZE, filters: JSON.parse(filtersKey) }
+            );
+
+            return {
+              stations: firstPage.stations,
+              hasMore: firstPage.hasMore,
+            };
+          },
+          { forceRefresh, onRevalidate: applyResult }
+        );
 
-      // Sort by distance (closest first)
-      const sortedStations = [...data].sort(
-        (a, b) =>
-          (a.distance || Number.MAX_VALUE) - (b.distance || Number.MAX_VALUE)
+        applyResult(result);
+        setError(null);
+      } catch (err) {
+        console.error('Error fetching nearby stations:', err);
+        setError(
+          err instanceof Error ? err : new Error('Unknown error occurred')
+        );
+      } finally {
+        setLoading(false);
+      }
+    },
+    [radiusKm, filtersKey, stationService, locationService, applyResult]
+  );
+
+  // Pull-to-refresh always goes to the network
+  const refreshStations = useCallback(
+    () => fetchStations(true),
+    [fetchStations]
+  );
+
+  // Append the next page of stations
+  const loadMore = useCallback(async () => {
+    if (!location || !hasMore || loading || loadingMore) return;
+
+    try {
+      setLoadingMore(true);
+      const nextPage = page + 1;
+      const result = await stationService.getStationsNearbyPage(
+        location,
+        SearchRadius.createSafe(radiusKm),
+        { page: nextPage, pageSize: PAGE_SIZE, filters: JSON.parse(filtersKey) }
       );
 
-      setStations(sortedStations);
-      setError(null);
+      setStations((current) => [...current, ...result.stations]);
+      setPage(nextPage);
+      setHasMore(result.hasMore);
     } catch (err) {
-      console.error('Error fetching nearby stations:', err);
-      setError(
-        err instanceof Error ? err : new Error('Unknown error occurred')
-      );
+      console.error('Error loading more stations:', err);
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
     }
-  }, [radiusKm, stationService, locationService]);
+  }, [
+    location,
+    hasMore,
+    loading,
+    loadingMore,
+    page,
+    radiusKm,
+    filtersKey,
+    stationService,
+  ]);
 
   // Initial fetch
   useEffect(() => {
@@ -57,7 +141,12 @@ export function useLocationStations(radiusKm: number = 5) {
     stations,
     location,
     loading,
+    loadingMore,
+    hasMore,
     error,
-    refreshStations: fetchStations, // Expose the refresh function
+    cachedAt,
+    offline,
+    refreshStations,
+    loadMore,
   };
 }
@@ -0,0 +1,97 @@
+// hooks/useOutbox.ts
+import { useState, useEffect, useCallback } from 'react';
+import { AppState } from 'react-native';
+import { useAuth } from '@/context/AuthContext';
+import { outboxService } from '@/core/services';
+import { OutboxItem } from '@/utils/outbox';
+
+// How often queued items are retried while the app is open
+const FLUSH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Queued reports and votes for the signed-in user
+ * @param stationId Only return items for this station
+ */
+export function useOutbox(stationId?: string) {
+  const { user } = useAuth();
+  const [allItems, setAllItems] = useState<OutboxItem[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+
+    outboxService
+      .getItems()
+      .then((queue) => {
+        if (mounted) setAllItems(queue);
+      })
+      .catch((err) => console.error('Error loading outbox:', err));
+
+    const unsubscribe = outboxService.subscribe(setAllItems);
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const items = allItems.filter(
+    (item) =>
+      item.user_id === user?.id &&
+      (!stationId || item.payload.station_id === stationId)
+  );
+
+  const retryItem = useCallback(async (id: string) => {
+    try {
+      await outboxService.retryItem(id);
+    } catch (err) {
+      console.error('Error retrying outbox item:', err);
+    }
+  }, []);
+
+  const removeItem = useCallback(async (id: string) => {
+    try {
+      await outboxService.removeItem(id);
+    } catch (err) {
+      console.error('Error removing outbox item:', err);
+    }
+  }, []);
+
+  return {
+    items,
+    retryItem,
+    removeItem,
+  };
+}
+
+/**
+ * Sends queued reports and votes on launch, on sign in, when the app
+ * returns to the foreground and periodically while it stays open
+ */
+export function useOutboxSync() {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const runFlush = async () => {
+      try {
+        await outboxService.flush();
+      } catch (err) {
+        console.error('Error flushing outbox:', err);
+      }
+    };
+
+    runFlush();
+
+    const interval = setInterval(runFlush, FLUSH_INTERVAL_MS);
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') runFlush();
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [userId]);
+}
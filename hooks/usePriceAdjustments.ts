@@ -0,0 +1,74 @@
+// hooks/usePriceAdjustments.ts
+import { useState, useEffect, useCallback } from 'react';
+import { priceAdjustmentService } from '@/core/services/PriceAdjustmentService';
+import { PriceAdjustment } from '@/core/models/PriceAdjustment';
+import { cachedFetch, CACHE_TTL } from '@/utils/cache';
+import {
+  describeAdjustment,
+  getUpcomingAdjustments,
+  projectPrice,
+  summarizeAdjustments,
+} from '@/utils/priceAdjustments';
+
+/**
+ * Announced price adjustments that have not taken effect yet, cached so the
+ * projection is available offline
+ */
+export function usePriceAdjustments() {
+  const [adjustments, setAdjustments] = useState<PriceAdjustment[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    cachedFetch(
+      'price_adjustments',
+      CACHE_TTL.PRICE_ADJUSTMENTS,
+      () => priceAdjustmentService.getUpcomingAdjustments(),
+      {
+        onRevalidate: (result) => {
+          if (!cancelled) {
+            setAdjustments(getUpcomingAdjustments(result.data, new Date()));
+          }
+        },
+      }
+    )
+      .then((result) => {
+        // Cached adjustments may have taken effect since they were stored
+        if (!cancelled) {
+          setAdjustments(getUpcomingAdjustments(result.data, new Date()));
+        }
+      })
+      .catch((err) => console.error('Error loading price adjustments:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Banner text for a fuel type, or null if nothing is announced
+  const getAnnouncement = useCallback(
+    (fuelType: string) => {
+      const summary = summarizeAdjustments(adjustments, fuelType);
+      return summary
+        ? {
+            direction: summary.direction,
+            message: describeAdjustment(summary, new Date()),
+          }
+        : null;
+    },
+    [adjustments]
+  );
+
+  // Price after the announced adjustment, or null if none applies
+  const getProjectedPrice = useCallback(
+    (brand: string, fuelType: string, price: number | null) =>
+      projectPrice(adjustments, brand, fuelType, price),
+    [adjustments]
+  );
+
+  return {
+    adjustments,
+    getAnnouncement,
+    getProjectedPrice,
+  };
+}
@@ -0,0 +1,127 @@
+// hooks/usePriceAlerts.ts
+import { useState, useEffect, useCallback } from 'react';
+import { AppState } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { useAuth } from '@/context/AuthContext';
+import { useFavorites } from '@/context/FavoritesContext';
+import {
+  NewPriceAlertRule,
+  priceAlertService,
+} from '@/core/services/PriceAlertService';
+import { PriceAlertRule } from '@/core/models/PriceAlert';
+
+// Minimum time between two background checks
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Show alerts even while the app is open
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowAlert: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+/**
+ * Custom hook for managing the signed-in user's price alert rules
+ */
+export function usePriceAlertRules() {
+  const { user } = useAuth();
+  const [rules, setRules] = useState<PriceAlertRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    if (!user) {
+      setRules([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setRules(await priceAlertService.getRulesForUser(user.id));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading price alerts:', err);
+      setError('Failed to load price alerts');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const addRule = useCallback(
+    async (rule: NewPriceAlertRule) => {
+      if (!user) return;
+      const created = await priceAlertService.createRule(user.id, rule);
+      setRules((current) => [created, ...current]);
+    },
+    [user]
+  );
+
+  const toggleRule = useCallback(async (rule: PriceAlertRule) => {
+    const updated = await priceAlertService.setRuleEnabled(
+      rule.id,
+      !rule.enabled
+    );
+    setRules((current) =>
+      current.map((item) => (item.id === updated.id ? updated : item))
+    );
+  }, []);
+
+  const deleteRule = useCallback(async (ruleId: string) => {
+    await priceAlertService.delete(ruleId);
+    setRules((current) => current.filter((item) => item.id !== ruleId));
+  }, []);
+
+  return {
+    rules,
+    loading,
+    error,
+    addRule,
+    toggleRule,
+    deleteRule,
+    refreshRules: fetchRules,
+  };
+}
+
+/**
+ * Custom hook that checks price alerts when the app starts or returns to
+ * the foreground, if the user has notifications enabled
+ */
+export function usePriceAlertChecker() {
+  const { user } = useAuth();
+  const { favorites, loading: favoritesLoading } = useFavorites();
+
+  const enabled = !!user?.preferences.notifications_enabled;
+  const userId = user?.id;
+
+  useEffect(() => {
+    // Checking before favorites load would skip their reports for good
+    if (!enabled || !userId || favoritesLoading) return;
+
+    let lastCheck = 0;
+
+    const runCheck = async () => {
+      if (Date.now() - lastCheck < CHECK_INTERVAL_MS) return;
+      lastCheck = Date.now();
+
+      try {
+        await priceAlertService.checkAlerts(userId, favorites);
+      } catch (err) {
+        console.error('Error running price alert check:', err);
+      }
+    };
+
+    runCheck();
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') runCheck();
+    });
+
+    return () => subscription.remove();
+  }, [enabled, userId, favorites, favoritesLoading]);
+}
@@ -1,15 +1,7 @@
 // hooks/usePriceCycle.ts
 import { useState, useEffect } from 'react';
-import { supabase } from '@/utils/supabase';
-
-interface PriceCycle {
-  id: string;
-  start_date: string;
-  end_date: string;
-  is_active: boolean;
-  doe_import_date: string;
-  created_at: string;
-}
+import { priceCycleService } from '@/core/services/PriceCycleService';
+import { PriceCycle } from '@/core/models/PriceCycle';
 
 export function usePriceCycle() {
   const [currentCycle, setCurrentCycle] = useState<PriceCycle | null>(null);
@@ -17,28 +9,13 @@ export function usePriceCycle() {
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    // hooks/usePriceCycle.ts - update the fetchCurrentCycle function
     const fetchCurrentCycle = async () => {
       try {
         setLoading(true);
-        // Don't use .single() which causes an error when no rows exist
-        const { data, error } = await supabase
-          .from('price_reporting_cycles')
-          .select('*')
-          .eq('is_active', true);
-
-        if (error) {
-          console.error('Error fetching current price cycle:', error);
-          setError(error.message);
-          return;
-        }
+        const cycle = await priceCycleService.getActiveCycle();
+        setCurrentCycle(cycle);
 
-        // Check if any data was returned
-        if (data && data.length > 0) {
-          setCurrentCycle(data[0]);
-        } else {
-          // No active cycle found, just set to null
-          setCurrentCycle(null);
+        if (!cycle) {
           console.log('No active price cycle found');
         }
 
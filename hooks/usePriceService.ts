@@ -5,20 +5,39 @@ import { supabase } from '@/utils/supabase';
 import { GasStation } from '@/core/models/GasStation';
 import { PriceReportData } from '@/components/price/PriceReportingModal';
 import { formatTime } from '@/utils/formatters';
-import { StationPrice } from '@/core/services/PriceReportingService';
-
-// Adjusted interface for UI needs
-
-// Mock user for testing without authentication
-const MOCK_USER = {
-  id: '9ccbda11-9ae7-4da5-9ca0-3608447c3efc',
-  email: 'test@example.com',
-};
+import {
+  priceReportingService,
+  StationPrice,
+} from '@/core/services/PriceReportingService';
+import { VoteDirection } from '@/core/models/PriceVote';
+import { useAuth } from '@/context/AuthContext';
+import { cachedFetch, CACHE_TTL } from '@/utils/cache';
+import { buildPriceConsensus } from '@/utils/priceConsensus';
+import { calculatePriceConfidence } from '@/utils/priceWeighting';
+import { applyPhotoEvidence } from '@/utils/reportPhoto';
+import {
+  outboxService,
+  pricePlausibilityService,
+  reportPhotoService,
+} from '@/core/services';
+import { PlausibilityResult } from '@/utils/pricePlausibility';
+
+interface UsePriceReportingOptions {
+  // Station whose reports are being voted on
+  stationId?: string;
+  // Active price cycle, recorded with queued reports
+  cycleId?: string | null;
+}
 
 /**
  * Custom hook for managing price reporting functionality
+ * Reports and votes are attributed to the signed-in user from AuthContext
+ * and sent through the offline outbox.
  */
-export function usePriceReporting(currentUser?: any) {
+export function usePriceReporting({
+  stationId: currentStationId,
+  cycleId = null,
+}: UsePriceReportingOptions = {}) {
   // State management
   const [isLoading, setIsLoading] = useState(false);
   const [isReportModalVisible, setIsReportModalVisible] = useState(false);
@@ -26,25 +45,9 @@ export function usePriceReporting(currentUser?: any) {
   const [currentFuelType, setCurrentFuelType] = useState<string | null>(null);
   const [initialPrice, setInitialPrice] = useState('');
   const [stationPrices, setStationPrices] = useState<StationPrice[]>([]);
-  const [user, setUser] = useState<any>(MOCK_USER);
-
-  // We'll keep this commented out until authentication is implemented
-  /*
-  useEffect(() => {
-    if (!currentUser) {
-      const getUser = async () => {
-        const { data } = await supabase.auth.getUser();
-        if (data?.user) {
-          setUser(data.user);
-        }
-      };
-      
-      getUser();
-    } else {
-      setUser(currentUser);
-    }
-  }, [currentUser]);
-  */
+  const [userVotes, setUserVotes] = useState<Record<string, VoteDirection>>({});
+  const { user } = useAuth();
+  const userId = user?.id;
 
   // Reset modal state when closed
   useEffect(() => {
@@ -55,6 +58,30 @@ export function usePriceReporting(currentUser?: any) {
     }
   }, [isReportModalVisible]);
 
+  // Load the signed-in user's votes on the reports being shown
+  useEffect(() => {
+    const reportIds = stationPrices
+      .map((price) => price.reportId)
+      .filter((id): id is string => !!id);
+
+    if (!userId || reportIds.length === 0) {
+      setUserVotes({});
+      return;
+    }
+
+    let cancelled = false;
+    priceReportingService
+      .getUserVotes(reportIds, userId)
+      .then((votes) => {
+        if (!cancelled) setUserVotes(votes);
+      })
+      .catch((error) => console.error('Error loading user votes:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stationPrices, userId]);
+
   // Modal management functions
   const openReportModal = useCallback(
     (
@@ -123,22 +150,51 @@ export function usePriceReporting(currentUser?: any) {
     }
   };
 
-  // Get community prices for a station
-  const fetchCommunityPrices = async (stationId: string): Promise<any[]> => {
-    try {
-      const { data } = await supabase
-        .from('user_price_reports')
-        .select('*')
-        .eq('station_id', stationId)
-        .gte('expires_at', new Date().toISOString())
-        .order('reported_at', { ascending: false });
+  // Get community prices for a station, cached so they are available offline
+  const fetchCommunityPrices = useCallback(
+    async (
+      stationId: string,
+      forceRefresh: boolean = false
+    ): Promise<any[]> => {
+      try {
+        const { data } = await cachedFetch(
+          `community_reports:${stationId}`,
+          CACHE_TTL.COMMUNITY_REPORTS,
+          async () => {
+            const { data, error } = await supabase
+              .from('user_price_reports')
+              .select('*')
+              .eq('station_id', stationId)
+              .gte('expires_at', new Date().toISOString())
+              .order('reported_at', { ascending: false });
+
+            if (error) throw error;
+
+            // Cache reporter reputations with the reports for offline ranking
+            const reports = data || [];
+            const reputations =
+              await priceReportingService.getReporterReputations(
+                reports.map((report) => report.user_id)
+              );
+            return reports.map((report) => ({
+              ...report,
+              reporter_reputation: reputations[report.user_id],
+            }));
+          },
+          { forceRefresh }
+        );
 
-      return data || [];
-    } catch (error) {
-      console.error('Error fetching community prices:', error);
-      return [];
-    }
-  };
+        // Cached reports may have expired since they were stored
+        return data.filter(
+          (report) => new Date(report.expires_at).getTime() >= Date.now()
+        );
+      } catch (error) {
+        console.error('Error fetching community prices:', error);
+        return [];
+      }
+    },
+    []
+  );
 
   // Process the price data for UI display
   // Process the price data for UI display
@@ -159,19 +215,32 @@ export function usePriceReporting(currentUser?: any) {
         (p) => p.fuel_type === fuelType
       );
 
-      if (pricesForType.length > 0) {
-        // Sort by most recent first
-        pricesForType.sort(
-          (a, b) =>
-            new Date(b.reported_at).getTime() -
-            new Date(a.reported_at).getTime()
-        );
+      const consensus = buildPriceConsensus(
+        pricesForType.map((report) => ({
+          id: report.id,
+          user_id: report.user_id,
+          price: report.price,
+          reported_at: report.reported_at,
+          confidence: applyPhotoEvidence(
+            calculatePriceConfidence(
+              report.upvotes,
+              report.downvotes,
+              report.reported_at,
+              report.reporter_reputation
+            ),
+            !!report.photo_path
+          ),
+        }))
+      );
 
-        // Get most recent price
-        const latestPrice = pricesForType[0];
+      if (consensus) {
+        // The report closest to the consensus carries the votes
+        const representative = pricesForType.find(
+          (report) => report.id === consensus.reportId
+        );
 
         // Format time ago for display
-        const reportTime = new Date(latestPrice.reported_at);
+        const reportTime = new Date(consensus.reportedAt);
         const now = new Date();
         const diffMinutes = Math.floor(
           (now.getTime() - reportTime.getTime()) / (1000 * 60)
@@ -188,17 +257,24 @@ export function usePriceReporting(currentUser?: any) {
           lastUpdatedText = `${days} day${days > 1 ? 's' : ''} ago`;
         }
 
-        // Add to results with properly populated community price data
+        // Add to results with the consensus of all active reports
         results.push({
           fuelType,
-          communityPrice: latestPrice.price, // Use actual price value
-          reportId: latestPrice.id, // Use actual report ID
+          communityPrice: consensus.price,
+          reportId: consensus.reportId,
           doeData: doePrices[fuelType] || null,
           verificationData: {
-            confirmedCount: latestPrice.upvotes,
-            disputedCount: latestPrice.downvotes,
+            confirmedCount: representative.upvotes,
+            disputedCount: representative.downvotes,
             lastUpdated: lastUpdatedText,
-            expiresAt: latestPrice.expires_at,
+            expiresAt: representative.expires_at,
+            reporterCount: consensus.reporterCount,
+            agreeingCount: consensus.agreeingCount,
+            minReportedPrice: consensus.minPrice,
+            maxReportedPrice: consensus.maxPrice,
+            photoUrl: representative.photo_path
+              ? reportPhotoService.getPhotoUrl(representative.photo_path)
+              : null,
           },
         });
       } else {
@@ -216,53 +292,62 @@ export function usePriceReporting(currentUser?: any) {
     return results;
   };
 
+  // Check a price against DOE ranges and other reports before submitting
+  const checkPrice = useCallback(
+    (reportData: PriceReportData): Promise<PlausibilityResult> =>
+      pricePlausibilityService.checkPrice(
+        reportData.stationId,
+        reportData.fuelType,
+        reportData.price
+      ),
+    []
+  );
+
   // Submit a price report
+  // Reports go through the outbox so they survive a dropped connection
   const submitPriceReport = useCallback(
     async (reportData: PriceReportData) => {
       if (!reportData.stationId) {
         return;
       }
 
+      if (!user) {
+        Alert.alert('Sign In Required', 'Please sign in to report prices.');
+        return;
+      }
+
       setIsLoading(true);
 
       try {
-        const userId = user?.id || MOCK_USER.id;
-        console.log('Submitting price report for user:', userId);
-
-        // Calculate expiration time (24 hours from now)
-        const expiresAt = new Date();
-        expiresAt.setHours(expiresAt.getHours() + 24);
-
-        // Create the report
-        const { data, error } = await supabase
-          .from('user_price_reports')
-          .insert({
-            station_id: reportData.stationId,
-            fuel_type: reportData.fuelType,
-            price: reportData.price,
-            user_id: userId,
-            reported_at: new Date().toISOString(),
-            expires_at: expiresAt.toISOString(),
-            upvotes: 1, // Start with 1 (the reporter's implicit upvote)
-            downvotes: 0,
-          })
-          .select();
-
-        if (error) {
-          console.error('Error inserting price report:', error);
-          throw error;
-        }
-
-        console.log('Price report submitted successfully:', data);
-
-        Alert.alert(
-          'Thank You!',
-          'Your price report has been submitted. It helps keep the community informed.'
+        // Compress the photo now so only the small copy waits in the outbox
+        const photoUri = reportData.photo
+          ? await reportPhotoService.preparePhoto(reportData.photo)
+          : null;
+
+        const item = await outboxService.enqueueReport(
+          user.id,
+          reportData.stationId,
+          reportData.fuelType,
+          reportData.price,
+          cycleId,
+          photoUri
         );
-
-        // Refresh prices after submission
-        if (currentStation) {
-          await getStationPrices(currentStation.id);
+        const queue = await outboxService.flush();
+        const sent = queue.find((queued) => queued.id === item.id);
+
+        if (sent?.status === 'sent') {
+          Alert.alert(
+            'Thank You!',
+            'Your price report has been submitted. It helps keep the community informed.'
+          );
+          await getStationPrices(reportData.stationId, true);
+        } else if (sent?.status === 'failed') {
+          Alert.alert('Report Not Sent', sent.error || 'Please try again.');
+        } else {
+          Alert.alert(
+            'Saved Offline',
+            'Your price report will be sent when you are back online.'
+          );
         }
 
         setIsReportModalVisible(false);
@@ -276,111 +361,39 @@ export function usePriceReporting(currentUser?: any) {
         setIsLoading(false);
       }
     },
-    [user, currentStation]
+    [user, cycleId]
   );
 
   // Vote on a price
+  // Repeated votes on the same report while offline only send the last one
+  // A null vote withdraws the user's current vote
   const voteOnPrice = useCallback(
-    async (reportId: string, isUpvote: boolean) => {
-      const userId = user?.id || MOCK_USER.id;
+    async (reportId: string, vote: VoteDirection | null) => {
+      if (!user) {
+        Alert.alert('Sign In Required', 'Please sign in to vote on prices.');
+        return;
+      }
+
+      if (!currentStationId) {
+        return;
+      }
+
       setIsLoading(true);
 
       try {
-        console.log(
-          'Voting on price:',
+        const item = await outboxService.enqueueVote(
+          user.id,
           reportId,
-          'upvote:',
-          isUpvote,
-          'user:',
-          userId
+          currentStationId,
+          vote
         );
+        const queue = await outboxService.flush();
+        const sent = queue.find((queued) => queued.id === item.id);
 
-        // Step 1: Check if user has already voted
-        const { data: existingVote, error: voteError } = await supabase
-          .from('user_price_votes')
-          .select('*')
-          .eq('report_id', reportId)
-          .eq('user_id', userId)
-          .single();
-
-        if (voteError && voteError.code !== 'PGRST116') {
-          console.error('Error checking existing votes:', voteError);
-        }
-
-        // Step 2: Get current report state
-        const { data: report, error: reportError } = await supabase
-          .from('user_price_reports')
-          .select('*')
-          .eq('id', reportId)
-          .single();
-
-        if (reportError) {
-          console.error('Error fetching report:', reportError);
-          throw reportError;
-        }
-
-        if (!report) {
-          throw new Error('Report not found');
-        }
-
-        // Step 3: Calculate vote changes
-        let upvoteDelta = 0;
-        let downvoteDelta = 0;
-
-        if (existingVote) {
-          // If vote exists but is changing
-          if (existingVote.is_upvote !== isUpvote) {
-            upvoteDelta = isUpvote ? 1 : -1;
-            downvoteDelta = isUpvote ? -1 : 1;
-
-            // Update vote record
-            const { error: updateError } = await supabase
-              .from('user_price_votes')
-              .update({ is_upvote: isUpvote })
-              .eq('id', existingVote.id);
-
-            if (updateError) {
-              console.error('Error updating vote:', updateError);
-              throw updateError;
-            }
-          }
-        } else {
-          // New vote
-          upvoteDelta = isUpvote ? 1 : 0;
-          downvoteDelta = isUpvote ? 0 : 1;
-
-          // Create vote record
-          const { error: insertError } = await supabase
-            .from('user_price_votes')
-            .insert({
-              report_id: reportId,
-              user_id: userId,
-              is_upvote: isUpvote,
-            });
-
-          if (insertError) {
-            console.error('Error inserting vote:', insertError);
-            throw insertError;
-          }
-        }
-
-        // Step 4: Update report vote counts
-        const { error: updateReportError } = await supabase
-          .from('user_price_reports')
-          .update({
-            upvotes: report.upvotes + upvoteDelta,
-            downvotes: report.downvotes + downvoteDelta,
-          })
-          .eq('id', reportId);
-
-        if (updateReportError) {
-          console.error('Error updating report counts:', updateReportError);
-          throw updateReportError;
-        }
-
-        // Step 5: Refresh prices
-        if (currentStation) {
-          await getStationPrices(currentStation.id);
+        if (sent?.status === 'sent') {
+          await getStationPrices(currentStationId, true);
+        } else if (sent?.status === 'failed') {
+          Alert.alert('Vote Not Sent', sent.error || 'Please try again.');
         }
       } catch (error) {
         Alert.alert(
@@ -392,12 +405,15 @@ export function usePriceReporting(currentUser?: any) {
         setIsLoading(false);
       }
     },
-    [user, currentStation]
+    [user, currentStationId]
   );
 
   // Get prices for a station
   const getStationPrices = useCallback(
-    async (stationId: string): Promise<StationPrice[]> => {
+    async (
+      stationId: string,
+      forceRefresh: boolean = false
+    ): Promise<StationPrice[]> => {
       setIsLoading(true);
 
       try {
@@ -406,7 +422,7 @@ export function usePriceReporting(currentUser?: any) {
         // Fetch DOE and community prices in parallel
         const [doePrices, communityPrices] = await Promise.all([
           fetchDoePrices(stationId),
-          fetchCommunityPrices(stationId),
+          fetchCommunityPrices(stationId, forceRefresh),
         ]);
 
         console.log('Found community prices:', communityPrices.length || 0);
@@ -424,7 +440,7 @@ export function usePriceReporting(currentUser?: any) {
         setIsLoading(false);
       }
     },
-    []
+    [fetchCommunityPrices]
   );
 
   // Return the hook public interface
@@ -435,8 +451,10 @@ export function usePriceReporting(currentUser?: any) {
     currentFuelType,
     initialPrice,
     stationPrices,
+    userVotes,
     openReportModal,
     closeReportModal,
+    checkPrice,
     submitPriceReport,
     voteOnPrice,
     getStationPrices,
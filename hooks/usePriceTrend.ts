@@ -0,0 +1,107 @@
+// hooks/usePriceTrend.ts
+import { useState, useEffect } from 'react';
+import { useServiceContext } from '@/context/ServiceContext';
+import { priceReportingService } from '@/core/services/PriceReportingService';
+import { buildPriceTrend, PriceTrendPoint } from '@/utils/priceHistory';
+
+interface PriceTrendOptions {
+  area: string;
+  fuelType: string;
+  weeks: number;
+  // Limits the DOE series to one brand where DOE lists it
+  brand?: string;
+  // Stations whose community reports are overlaid; defaults to every
+  // station in the area
+  stationIds?: string[];
+}
+
+/**
+ * Custom hook for a weekly DOE price trend with community report medians
+ */
+export function usePriceTrend({
+  area,
+  fuelType,
+  weeks,
+  brand,
+  stationIds,
+}: PriceTrendOptions) {
+  const { priceService, stationService } = useServiceContext();
+  const [points, setPoints] = useState<PriceTrendPoint[]>([]);
+  const [missingWeeks, setMissingWeeks] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Compare by value so callers can pass a fresh array each render
+  const stationKey = stationIds?.join(',');
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchTrend = async () => {
+      if (!area) return;
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const since = new Date(
+          Date.now() - weeks * 7 * 24 * 60 * 60 * 1000
+        ).toISOString();
+
+        const reportStationIds =
+          stationKey !== undefined
+            ? stationKey.split(',').filter(Boolean)
+            : (await stationService.getStationsByCity(area)).map(
+                (station) => station.id
+              );
+
+        const getHistory = async () => {
+          const history = await priceService.getPriceHistory(
+            area,
+            fuelType,
+            weeks,
+            brand
+          );
+
+          // DOE does not list every brand, so fall back to the whole area
+          return brand && history.weeks.length === 0
+            ? priceService.getPriceHistory(area, fuelType, weeks)
+            : history;
+        };
+
+        const [history, reports] = await Promise.all([
+          getHistory(),
+          priceReportingService.getReportHistory(
+            reportStationIds,
+            fuelType,
+            since
+          ),
+        ]);
+
+        if (isMounted) {
+          setPoints(
+            buildPriceTrend(
+              history.weeks.flatMap((week) => week.prices),
+              reports,
+              fuelType
+            )
+          );
+          setMissingWeeks(history.missingWeeks);
+        }
+      } catch (err) {
+        console.error('Error loading price trend:', err);
+        if (isMounted) setError('Failed to load price history');
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    fetchTrend();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [area, fuelType, weeks, brand, stationKey, priceService, stationService]);
+
+  return { points, missingWeeks, loading, error };
+}
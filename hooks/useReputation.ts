@@ -0,0 +1,47 @@
+// hooks/useReputation.ts
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { reputationService } from '@/core/services';
+import { ReputationSummary } from '@/utils/reputation';
+
+/**
+ * The signed-in user's reporter reputation with a breakdown of their reports
+ * Falls back to the score stored on the profile until the breakdown loads.
+ */
+export function useReputation() {
+  const { user } = useAuth();
+  const [summary, setSummary] = useState<ReputationSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setSummary(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    reputationService
+      .getMyReputation()
+      .then((result) => {
+        if (!cancelled) setSummary(result);
+      })
+      .catch((err) => console.error('Error loading reputation:', err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  return {
+    score: summary?.score ?? user?.reputation ?? null,
+    summary,
+    loading,
+  };
+}
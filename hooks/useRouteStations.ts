@@ -0,0 +1,137 @@
+// hooks/useRouteStations.ts
+import { useState, useCallback } from 'react';
+import { useServiceContext } from '@/context/ServiceContext';
+import { GasStation } from '@/core/models/GasStation';
+import { Coordinates } from '@/core/interfaces/ILocationService';
+import { PriceStationConnector } from '@/utils/priceStationConnector';
+import { normalizeFuelType } from '@/utils/formatters';
+import {
+  decodePolyline,
+  getRouteLength,
+  rankRouteStations,
+  RoutePosition,
+} from '@/utils/route';
+
+// Stations listed per search, cheapest first
+const MAX_ROUTE_STATIONS = 40;
+
+// Stations whose prices are looked up at the same time
+const PRICE_LOOKUP_BATCH_SIZE = 10;
+
+/**
+ * A route to search along: two addresses, or an encoded polyline
+ * Addresses are joined by a straight line, so a wider corridor suits them
+ * better than a polyline from a directions service.
+ */
+export type RouteQuery =
+  | { origin: string; destination: string }
+  | { polyline: string };
+
+export interface RouteStation extends RoutePosition {
+  station: GasStation;
+  price: number | null;
+}
+
+/**
+ * Custom hook for the cheapest stations along a route
+ */
+export function useRouteStations() {
+  const { stationService, locationService } = useServiceContext();
+  const [stations, setStations] = useState<RouteStation[]>([]);
+  const [routeLength, setRouteLength] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resolvePath = useCallback(
+    async (query: RouteQuery): Promise<Coordinates[]> => {
+      if ('polyline' in query) {
+        return decodePolyline(query.polyline.trim());
+      }
+
+      return Promise.all([
+        locationService.getCoordinatesFromAddress(query.origin),
+        locationService.getCoordinatesFromAddress(query.destination),
+      ]);
+    },
+    [locationService]
+  );
+
+  const searchRoute = useCallback(
+    async (query: RouteQuery, corridorKm: number, fuelType: string) => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        let path: Coordinates[];
+        try {
+          path = await resolvePath(query);
+        } catch {
+          setStations([]);
+          setRouteLength(null);
+          setError(
+            'polyline' in query
+              ? 'That route could not be read'
+              : 'Could not find one of those places'
+          );
+          return;
+        }
+
+        if (path.length < 2) {
+          setStations([]);
+          setRouteLength(null);
+          setError('The route needs a start and an end');
+          return;
+        }
+
+        const found = await stationService.getStationsAlongRoute(
+          path,
+          corridorKm
+        );
+
+        const priceStation = async ({
+          distanceFromRoute,
+          distanceAlongRoute,
+          ...station
+        }: GasStation & RoutePosition): Promise<RouteStation> => {
+          const matches = await PriceStationConnector.getPricesForStation(
+            station
+          );
+          const match = matches.find(
+            (item) =>
+              normalizeFuelType(item.price.fuel_type) ===
+              normalizeFuelType(fuelType)
+          );
+
+          return {
+            station,
+            price: match?.price.common_price ?? null,
+            distanceFromRoute,
+            distanceAlongRoute,
+          };
+        };
+
+        // Price the whole corridor in batches so cheaper stations further
+        // along are ranked too, then keep the best
+        const priced: RouteStation[] = [];
+        for (let i = 0; i < found.length; i += PRICE_LOOKUP_BATCH_SIZE) {
+          priced.push(
+            ...(await Promise.all(
+              found.slice(i, i + PRICE_LOOKUP_BATCH_SIZE).map(priceStation)
+            ))
+          );
+        }
+
+        setRouteLength(getRouteLength(path));
+        setStations(rankRouteStations(priced).slice(0, MAX_ROUTE_STATIONS));
+      } catch (err) {
+        console.error('Error searching along route:', err);
+        setError('Failed to load stations along the route');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [resolvePath, stationService]
+  );
+
+  return { stations, routeLength, loading, error, searchRoute };
+}
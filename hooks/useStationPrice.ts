@@ -1,7 +1,9 @@
 // hooks/useStationPrices.ts
 import { useState, useEffect } from 'react';
-import { supabase } from '@/utils/supabase';
+import { useServiceContext } from '@/context/ServiceContext';
 import { GasStation } from '@/core/models/GasStation';
+import { FuelPrice } from '@/core/models/FuelPrice';
+import { cachedFetch, CACHE_TTL } from '@/utils/cache';
 import { PriceStationConnector } from '@/utils/priceStationConnector';
 import { deduplicatePrices, ExtendedFuelPrice } from '@/utils/priceUtils';
 import {
@@ -10,15 +12,34 @@ import {
   isValidPrice,
 } from '@/utils/formatters';
 
+/**
+ * Prices for a brand in an area, matching the brand case-insensitively
+ */
+function findBrandPricesInArea(
+  prices: FuelPrice[],
+  area: string,
+  brand: string
+): FuelPrice[] {
+  return prices
+    .filter(
+      (price) =>
+        price.area === area && price.brand.toLowerCase() === brand.toLowerCase()
+    )
+    .sort((a, b) => a.fuel_type.localeCompare(b.fuel_type));
+}
+
 /**
  * Custom hook for fetching DOE prices for a specific station
  * Uses multiple strategies to find the best matching prices
  */
 export function useStationPrices(station: GasStation | null) {
+  const { priceService } = useServiceContext();
   const [doePrices, setDoePrices] = useState<ExtendedFuelPrice[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [weekOf, setWeekOf] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [offline, setOffline] = useState(false);
 
   useEffect(() => {
     const fetchDoePrices = async () => {
@@ -28,44 +49,24 @@ export function useStationPrices(station: GasStation | null) {
         setLoading(true);
         setError(null);
 
-        // Get latest week
-        const { data: latestWeek, error: weekError } = await supabase
-          .from('fuel_prices')
-          .select('week_of')
-          .order('week_of', { ascending: false })
-          .limit(1)
-          .single();
-
-        if (weekError) {
-          console.error('Error fetching latest week:', weekError);
-          setError('Failed to fetch price data week');
-          return;
-        }
+        // Latest DOE week, cached so prices are available offline
+        const latest = await cachedFetch(
+          'latest_fuel_prices',
+          CACHE_TTL.LATEST_FUEL_PRICES,
+          () => priceService.getLatestPrices()
+        );
+        const allPrices = latest.data;
 
-        if (!latestWeek) {
-          setLoading(false);
-          return;
-        }
+        setCachedAt(latest.cachedAt);
+        setOffline(latest.offline);
 
-        setWeekOf(latestWeek.week_of);
-
-        // Get all prices from latest week
-        const { data: allPrices, error: pricesError } = await supabase
-          .from('fuel_prices')
-          .select('*')
-          .eq('week_of', latestWeek.week_of);
-
-        if (pricesError) {
-          console.error('Error fetching all prices:', pricesError);
-          setError('Failed to fetch price data');
-          return;
-        }
-
-        if (!allPrices || allPrices.length === 0) {
+        if (allPrices.length === 0) {
           setLoading(false);
           return;
         }
 
+        setWeekOf(String(allPrices[0].week_of));
+
         // Strategy 1: Use PriceStationConnector for enhanced matching
         try {
           console.log('Trying enhanced connector method');
@@ -95,15 +96,13 @@ export function useStationPrices(station: GasStation | null) {
 
         // Strategy 2: Simple brand+city matching
         console.log('Trying simple brand+city matching');
-        const { data: simpleBrandCityMatches } = await supabase
-          .from('fuel_prices')
-          .select('*')
-          .eq('week_of', latestWeek.week_of)
-          .eq('area', station.city)
-          .ilike('brand', station.brand)
-          .order('fuel_type');
-
-        if (simpleBrandCityMatches && simpleBrandCityMatches.length > 0) {
+        const simpleBrandCityMatches = findBrandPricesInArea(
+          allPrices,
+          station.city,
+          station.brand
+        );
+
+        if (simpleBrandCityMatches.length > 0) {
           console.log(
             `Found ${simpleBrandCityMatches.length} prices using simple matching`
           );
@@ -121,15 +120,9 @@ export function useStationPrices(station: GasStation | null) {
 
         // Strategy 3: Try with NCR area as a last resort
         console.log('Trying NCR area matching as fallback');
-        const { data: ncrData } = await supabase
-          .from('fuel_prices')
-          .select('*')
-          .eq('week_of', latestWeek.week_of)
-          .eq('area', 'NCR')
-          .ilike('brand', station.brand)
-          .order('fuel_type');
-
-        if (ncrData && ncrData.length > 0) {
+        const ncrData = findBrandPricesInArea(allPrices, 'NCR', station.brand);
+
+        if (ncrData.length > 0) {
           console.log(`Found ${ncrData.length} prices using NCR area matching`);
 
           // Deduplicate these as well
@@ -152,7 +145,7 @@ export function useStationPrices(station: GasStation | null) {
     };
 
     fetchDoePrices();
-  }, [station]);
+  }, [station, priceService]);
 
-  return { doePrices, loading, error, weekOf };
+  return { doePrices, loading, error, weekOf, cachedAt, offline };
 }
@@ -0,0 +1,150 @@
+// hooks/useStationReports.ts
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Alert } from 'react-native';
+import { useAuth } from '@/context/AuthContext';
+import { stationReportService } from '@/core/services/StationReportService';
+import { StationReport, StationReportType } from '@/core/models/StationReport';
+import { VoteDirection } from '@/core/models/PriceVote';
+import {
+  getOutOfStockByStation,
+  getReportedStatus,
+} from '@/utils/stationReports';
+
+/**
+ * Active closure and out-of-stock reports for a station, with the status
+ * they confirm and the signed-in user's votes on them
+ */
+export function useStationReports(stationId?: string) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [reports, setReports] = useState<StationReport[]>([]);
+  const [userVotes, setUserVotes] = useState<Record<string, VoteDirection>>({});
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadReports = useCallback(async () => {
+    if (!stationId) return;
+
+    setLoading(true);
+    try {
+      const active = await stationReportService.getActiveReports([stationId]);
+      setReports(active);
+      setUserVotes(
+        userId
+          ? await stationReportService.getUserVotes(
+              active.map((report) => report.id),
+              userId
+            )
+          : {}
+      );
+    } catch (error) {
+      console.error('Error loading station reports:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [stationId, userId]);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  // Status confirmed by reports, or null if the stored status stands
+  const reportedStatus = useMemo(() => getReportedStatus(reports), [reports]);
+
+  // Normalized fuel types confirmed out of stock here
+  const outOfStockFuelTypes = useMemo(
+    () => (stationId ? getOutOfStockByStation(reports)[stationId] ?? [] : []),
+    [reports, stationId]
+  );
+
+  // Report a closure or an out-of-stock fuel
+  // @returns Whether the report was saved
+  const submitReport = useCallback(
+    async (
+      reportType: StationReportType,
+      fuelType: string | null = null
+    ): Promise<boolean> => {
+      if (!userId || !stationId) {
+        Alert.alert(
+          'Sign In Required',
+          'Please sign in to report station status.'
+        );
+        return false;
+      }
+
+      setSubmitting(true);
+      try {
+        await stationReportService.submitReport(
+          stationId,
+          reportType,
+          fuelType,
+          userId
+        );
+        await loadReports();
+        return true;
+      } catch (error) {
+        Alert.alert(
+          'Report Not Sent',
+          error instanceof Error ? error.message : 'Please try again.'
+        );
+        return false;
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [userId, stationId, loadReports]
+  );
+
+  // Confirm or dispute a report; a null vote withdraws the current one
+  const voteOnReport = useCallback(
+    async (reportId: string, vote: VoteDirection | null) => {
+      if (!userId) {
+        Alert.alert('Sign In Required', 'Please sign in to confirm reports.');
+        return;
+      }
+
+      try {
+        const tally = await stationReportService.voteOnReport(reportId, vote);
+
+        setReports((current) =>
+          current.map((report) =>
+            report.id === reportId
+              ? {
+                  ...report,
+                  upvotes: tally.upvotes,
+                  downvotes: tally.downvotes,
+                }
+              : report
+          )
+        );
+        setUserVotes((current) => {
+          const votes = { ...current };
+          if (tally.user_vote) {
+            votes[reportId] = tally.user_vote;
+          } else {
+            delete votes[reportId];
+          }
+          return votes;
+        });
+      } catch (error) {
+        Alert.alert(
+          'Vote Not Sent',
+          error instanceof Error ? error.message : 'Please try again.'
+        );
+      }
+    },
+    [userId]
+  );
+
+  return {
+    reports,
+    reportedStatus,
+    outOfStockFuelTypes,
+    userVotes,
+    loading,
+    submitting,
+    submitReport,
+    voteOnReport,
+    refreshReports: loadReports,
+  };
+}
@@ -7,6 +7,7 @@ import {
 } from '@/utils/testing/priceDataTester';
 import { FuelPrice } from '@/core/models/FuelPrice';
 import { GasStation } from '@/core/models/GasStation';
+import { SearchRadius } from '@/core/services/StationService';
 
 /**
  * A hook that runs tests on price and station data
@@ -37,9 +38,8 @@ export function useTestPriceData() {
 
       // Get nearby stations
       const stations = await stationService.getStationsNearby(
-        userLocation.latitude,
-        userLocation.longitude,
-        10 // 10km radius
+        userLocation,
+        SearchRadius.createSafe(10) // 10km radius
       );
       console.log(`🧪 Retrieved ${stations.length} stations for testing`);
 
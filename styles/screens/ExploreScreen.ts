@@ -5,12 +5,34 @@ export const exploreScreen = StyleSheet.create({
     flex: 1,
     backgroundColor: '#f5f5f5',
   },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginRight: 16,
+  },
   title: {
     fontSize: 24,
     fontWeight: 'bold',
     margin: 16,
     marginBottom: 8,
   },
+  routeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2a9d8f',
+    marginTop: 8,
+  },
+  routeButtonText: {
+    color: '#2a9d8f',
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 4,
+  },
   searchContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -36,6 +58,33 @@ export const exploreScreen = StyleSheet.create({
   clearIcon: {
     marginHorizontal: 8,
   },
+  filterRow: {
+    flexDirection: 'row',
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  filterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2a9d8f',
+    backgroundColor: '#fff',
+  },
+  selectedFilterChip: {
+    backgroundColor: '#2a9d8f',
+  },
+  filterChipText: {
+    color: '#2a9d8f',
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 4,
+  },
+  selectedFilterChipText: {
+    color: '#fff',
+  },
   listContainer: {
     paddingBottom: 16,
   },
@@ -45,6 +45,66 @@ export const mainScreenStyle = StyleSheet.create({
   filterItemTextSelected: {
     color: '#fff',
   },
+  rankingContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 4,
+  },
+  rankingSwitch: {
+    flexDirection: 'row',
+    backgroundColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 2,
+  },
+  rankingOption: {
+    flex: 1,
+    paddingVertical: 6,
+    alignItems: 'center',
+    borderRadius: 6,
+  },
+  rankingOptionSelected: {
+    backgroundColor: '#fff',
+  },
+  rankingOptionText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  rankingOptionTextSelected: {
+    color: '#2a9d8f',
+    fontWeight: '500',
+  },
+  fillUpRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  fillUpLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginRight: 8,
+  },
+  fillUpOption: {
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    backgroundColor: '#e0e0e0',
+    borderRadius: 16,
+  },
+  discountToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  discountToggleText: {
+    fontSize: 14,
+    color: '#333',
+    marginLeft: 6,
+  },
+  rankingNote: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 6,
+  },
   listContainer: {
     padding: 16,
     paddingTop: 8,
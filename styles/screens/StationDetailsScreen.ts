@@ -74,6 +74,12 @@ export const stationDetailsStyles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 16,
   },
+  sectionLink: {
+    fontSize: 14,
+    color: '#2a9d8f',
+    fontWeight: '500',
+    marginBottom: 12,
+  },
   cycleInfoContainer: {
     flexDirection: 'row',
     alignItems: 'center',
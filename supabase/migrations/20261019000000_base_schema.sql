@@ -0,0 +1,341 @@
+-- Tables, views and functions the app and the later migrations rely on.
+-- They were first created from the dashboard, so every statement here is
+-- safe to run on a project that already has them: it only adds what is
+-- missing.
+
+create extension if not exists pgcrypto;
+
+-- ----- Admins -----
+
+-- Users allowed to run admin RPCs. Managed from the dashboard; clients can
+-- neither read nor change it.
+create table if not exists public.admins (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.admins enable row level security;
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.admins where user_id = auth.uid());
+$$;
+
+-- ----- Stations and DOE prices -----
+
+create table if not exists public.gas_stations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  brand text not null,
+  address text not null default '',
+  city text not null,
+  province text,
+  -- { latitude, longitude }
+  coordinates jsonb not null,
+  amenities text[] not null default '{}',
+  -- { open, close, is24_hours, days_open, periods?, is_unknown? }
+  operating_hours jsonb not null default '{}',
+  status text not null default 'active'
+    check (status in ('active', 'inactive', 'temporary_closed', 'permanently_closed')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists gas_stations_city_idx on public.gas_stations (city);
+
+create table if not exists public.fuel_prices (
+  id uuid primary key default gen_random_uuid(),
+  area text not null,
+  brand text not null,
+  fuel_type text not null,
+  min_price numeric,
+  max_price numeric,
+  common_price numeric,
+  week_of date not null,
+  updated_at timestamptz not null default now(),
+  unique (area, brand, fuel_type, week_of)
+);
+
+create table if not exists public.station_duplicate_dismissals (
+  station_a_id uuid not null references public.gas_stations (id) on delete cascade,
+  station_b_id uuid not null references public.gas_stations (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (station_a_id, station_b_id)
+);
+
+-- ----- Profiles and moderation -----
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text not null default '',
+  display_name text not null default '',
+  favorite_stations uuid[] not null default '{}',
+  reputation integer not null default 50,
+  vehicles jsonb not null default '[]',
+  active_vehicle_id text,
+  preferences jsonb not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.account_flags (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  status text not null default 'flagged'
+    check (status in ('flagged', 'shadow_banned', 'cleared')),
+  -- Why the account was flagged, newest last
+  reasons text[] not null default '{}',
+  flagged_at timestamptz not null default now(),
+  reviewed_at timestamptz
+);
+
+-- ----- Community reports -----
+
+create table if not exists public.price_reporting_cycles (
+  id uuid primary key default gen_random_uuid(),
+  start_date timestamptz not null,
+  end_date timestamptz not null,
+  is_active boolean not null default true,
+  doe_import_date timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.user_price_reports (
+  id uuid primary key default gen_random_uuid(),
+  station_id uuid not null references public.gas_stations (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  fuel_type text not null,
+  price numeric not null,
+  reported_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  upvotes integer not null default 1,
+  downvotes integer not null default 0,
+  photo_url text
+);
+
+create index if not exists user_price_reports_station_idx
+  on public.user_price_reports (station_id, fuel_type, expires_at);
+create index if not exists user_price_reports_user_idx
+  on public.user_price_reports (user_id, reported_at);
+
+create table if not exists public.user_price_votes (
+  report_id uuid not null references public.user_price_reports (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  is_upvote boolean not null,
+  created_at timestamptz not null default now(),
+  primary key (report_id, user_id)
+);
+
+create table if not exists public.station_reports (
+  id uuid primary key default gen_random_uuid(),
+  station_id uuid not null references public.gas_stations (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  report_type text not null
+    check (report_type in ('permanently_closed', 'temporary_closed', 'out_of_stock')),
+  -- Only set for out_of_stock reports
+  fuel_type text,
+  reported_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  upvotes integer not null default 1,
+  downvotes integer not null default 0
+);
+
+create index if not exists station_reports_station_idx
+  on public.station_reports (station_id, expires_at);
+
+create table if not exists public.station_report_votes (
+  report_id uuid not null references public.station_reports (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  is_upvote boolean not null,
+  created_at timestamptz not null default now(),
+  primary key (report_id, user_id)
+);
+
+-- ----- Row level security -----
+-- Later migrations narrow these further.
+
+alter table public.gas_stations enable row level security;
+alter table public.fuel_prices enable row level security;
+alter table public.station_duplicate_dismissals enable row level security;
+alter table public.profiles enable row level security;
+alter table public.account_flags enable row level security;
+alter table public.price_reporting_cycles enable row level security;
+alter table public.user_price_reports enable row level security;
+alter table public.user_price_votes enable row level security;
+alter table public.station_reports enable row level security;
+alter table public.station_report_votes enable row level security;
+
+drop policy if exists "Stations are public" on public.gas_stations;
+create policy "Stations are public"
+  on public.gas_stations for select
+  using (true);
+
+drop policy if exists "Admins manage stations" on public.gas_stations;
+create policy "Admins manage stations"
+  on public.gas_stations for all to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+drop policy if exists "DOE prices are public" on public.fuel_prices;
+create policy "DOE prices are public"
+  on public.fuel_prices for select
+  using (true);
+
+drop policy if exists "Admins import DOE prices" on public.fuel_prices;
+create policy "Admins import DOE prices"
+  on public.fuel_prices for all to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+drop policy if exists "Admins manage duplicate dismissals" on public.station_duplicate_dismissals;
+create policy "Admins manage duplicate dismissals"
+  on public.station_duplicate_dismissals for all to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+drop policy if exists "Users read their own profile" on public.profiles;
+create policy "Users read their own profile"
+  on public.profiles for select to authenticated
+  using (id = auth.uid() or public.is_admin());
+
+drop policy if exists "Users create their own profile" on public.profiles;
+create policy "Users create their own profile"
+  on public.profiles for insert to authenticated
+  with check (id = auth.uid());
+
+drop policy if exists "Users update their own profile" on public.profiles;
+create policy "Users update their own profile"
+  on public.profiles for update to authenticated
+  using (id = auth.uid())
+  with check (id = auth.uid());
+
+drop policy if exists "Price cycles are public" on public.price_reporting_cycles;
+create policy "Price cycles are public"
+  on public.price_reporting_cycles for select
+  using (true);
+
+drop policy if exists "Admins record DOE imports" on public.price_reporting_cycles;
+create policy "Admins record DOE imports"
+  on public.price_reporting_cycles for update to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+drop policy if exists "Price reports are public" on public.user_price_reports;
+create policy "Price reports are public"
+  on public.user_price_reports for select
+  using (true);
+
+drop policy if exists "Users add their own price reports" on public.user_price_reports;
+create policy "Users add their own price reports"
+  on public.user_price_reports for insert to authenticated
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users read their own price votes" on public.user_price_votes;
+create policy "Users read their own price votes"
+  on public.user_price_votes for select to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Station reports are public" on public.station_reports;
+create policy "Station reports are public"
+  on public.station_reports for select
+  using (true);
+
+drop policy if exists "Users add their own station reports" on public.station_reports;
+create policy "Users add their own station reports"
+  on public.station_reports for insert to authenticated
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users read their own station report votes" on public.station_report_votes;
+create policy "Users read their own station report votes"
+  on public.station_report_votes for select to authenticated
+  using (user_id = auth.uid());
+
+-- Reporter scores for ranking reports, without the rest of each profile
+create or replace view public.reporter_reputations as
+  select id, reputation from public.profiles;
+
+revoke all on public.reporter_reputations from public, anon, authenticated;
+grant select on public.reporter_reputations to authenticated;
+
+-- ----- Combined prices -----
+
+-- Active community reports next to the latest DOE week, in one list
+do $$
+begin
+  if not exists (
+    select 1 from pg_views where schemaname = 'public' and viewname = 'combined_prices'
+  ) then
+    create view public.combined_prices as
+      select
+        r.id,
+        r.station_id,
+        s.brand,
+        s.city as area,
+        r.fuel_type,
+        r.price,
+        'community'::text as source,
+        r.upvotes::numeric / greatest(r.upvotes + r.downvotes, 1) as confidence,
+        r.reported_at as updated_at
+      from public.user_price_reports r
+      join public.gas_stations s on s.id = r.station_id
+      where r.expires_at > now()
+      union all
+      select
+        fp.id,
+        null::uuid,
+        fp.brand,
+        fp.area,
+        fp.fuel_type,
+        fp.common_price,
+        'doe'::text,
+        1::numeric,
+        fp.updated_at
+      from public.fuel_prices fp
+      where fp.week_of = (select max(week_of) from public.fuel_prices);
+  end if;
+end;
+$$;
+
+-- ----- Price cycles -----
+
+-- End the active cycle, expire reports made before the new start and open
+-- the new cycle, in one transaction. A cycle that already starts at the
+-- same time is returned as is, so opening a week twice is harmless.
+create or replace function public.open_price_cycle(
+  p_start_date timestamptz,
+  p_end_date timestamptz,
+  p_doe_import_date timestamptz default null
+)
+returns setof public.price_reporting_cycles
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- One opening at a time, so two callers cannot both insert the week
+  lock table public.price_reporting_cycles in share row exclusive mode;
+
+  if exists (
+    select 1 from public.price_reporting_cycles where start_date = p_start_date
+  ) then
+    return query
+      select * from public.price_reporting_cycles where start_date = p_start_date;
+    return;
+  end if;
+
+  update public.price_reporting_cycles
+  set is_active = false, end_date = least(end_date, p_start_date)
+  where is_active;
+
+  update public.user_price_reports
+  set expires_at = p_start_date
+  where reported_at < p_start_date and expires_at > p_start_date;
+
+  return query
+    insert into public.price_reporting_cycles (start_date, end_date, is_active, doe_import_date)
+    values (p_start_date, p_end_date, true, p_doe_import_date)
+    returning *;
+end;
+$$;
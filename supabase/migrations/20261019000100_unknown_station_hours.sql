@@ -0,0 +1,16 @@
+-- Stations imported while Google listed no hours were given a made-up
+-- Monday to Friday 09:00-17:00, which shows them closed on evenings and
+-- weekends. Mark those hours unknown instead.
+update public.gas_stations
+set operating_hours = jsonb_build_object(
+  'open', '',
+  'close', '',
+  'is24_hours', false,
+  'days_open', '[]'::jsonb,
+  'is_unknown', true
+)
+where operating_hours ->> 'open' = '09:00'
+  and operating_hours ->> 'close' = '17:00'
+  and not (operating_hours ? 'periods')
+  and operating_hours -> 'days_open' =
+    '["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"]'::jsonb;
@@ -0,0 +1,71 @@
+-- Price cycles roll over on the server instead of on every device.
+-- open_price_cycle expires reports for everyone, so clients may no longer
+-- call it; admins go through admin_open_price_cycle and a pg_cron job opens
+-- each week's cycle at the Tuesday 6 AM (Manila) boundary.
+
+revoke execute on function public.open_price_cycle(timestamptz, timestamptz, timestamptz)
+  from public, anon, authenticated;
+
+create or replace function public.admin_open_price_cycle(
+  p_start_date timestamptz,
+  p_end_date timestamptz,
+  p_doe_import_date timestamptz default null
+)
+returns setof public.price_reporting_cycles
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can open price cycles'
+      using errcode = '42501';
+  end if;
+
+  return query
+    select * from public.open_price_cycle(p_start_date, p_end_date, p_doe_import_date);
+end;
+$$;
+
+revoke execute on function public.admin_open_price_cycle(timestamptz, timestamptz, timestamptz)
+  from public, anon;
+grant execute on function public.admin_open_price_cycle(timestamptz, timestamptz, timestamptz)
+  to authenticated;
+
+-- Open the current week's cycle if none is running. Mirrors the schedule
+-- rule of planCycleRollover in utils/priceCycle.ts.
+create or replace function public.roll_over_price_cycle()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_start timestamptz;
+begin
+  -- Latest Tuesday 6 AM in Manila at or before now
+  v_start := (
+    date_trunc('week', (now() at time zone 'Asia/Manila') - interval '30 hours')
+      + interval '30 hours'
+  ) at time zone 'Asia/Manila';
+
+  if not exists (
+    select 1
+    from public.price_reporting_cycles
+    where is_active and end_date > now()
+  ) then
+    perform public.open_price_cycle(v_start, v_start + interval '7 days', null);
+  end if;
+end;
+$$;
+
+revoke execute on function public.roll_over_price_cycle() from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+-- Hourly, so a missed run at the boundary is caught up within the hour
+select cron.schedule(
+  'roll-over-price-cycle',
+  '0 * * * *',
+  $$select public.roll_over_price_cycle()$$
+);
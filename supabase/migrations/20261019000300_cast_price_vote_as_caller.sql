@@ -0,0 +1,100 @@
+-- Votes on price reports are cast as the signed-in user. The old function
+-- took the voter's id as a parameter, so a caller could vote as anyone.
+-- Reporters cannot vote on their own reports; a report starts with the
+-- reporter's implicit upvote instead.
+
+drop function if exists public.cast_price_vote(uuid, uuid, text);
+
+create or replace function public.cast_price_vote(
+  p_report_id uuid,
+  p_vote text
+)
+returns table (upvotes integer, downvotes integer, user_vote text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_user_id uuid := auth.uid();
+  v_reporter_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Sign in to vote' using errcode = '42501';
+  end if;
+
+  if p_vote is not null and p_vote not in ('up', 'down') then
+    raise exception 'Invalid vote: %', p_vote using errcode = '22023';
+  end if;
+
+  -- Lock the report so concurrent votes are counted one at a time
+  select user_id into v_reporter_id
+  from public.user_price_reports
+  where id = p_report_id
+  for update;
+  if not found then
+    return;
+  end if;
+
+  if v_reporter_id = v_user_id then
+    raise exception 'You cannot vote on your own report' using errcode = '42501';
+  end if;
+
+  if p_vote is null then
+    delete from public.user_price_votes
+    where report_id = p_report_id and user_id = v_user_id;
+  else
+    insert into public.user_price_votes (report_id, user_id, is_upvote)
+    values (p_report_id, v_user_id, p_vote = 'up')
+    on conflict (report_id, user_id)
+      do update set is_upvote = excluded.is_upvote;
+  end if;
+
+  return query
+    update public.user_price_reports r
+    set
+      -- Plus the reporter's implicit upvote
+      upvotes = 1 + (
+        select count(*)::integer from public.user_price_votes v
+        where v.report_id = p_report_id and v.is_upvote
+      ),
+      downvotes = (
+        select count(*)::integer from public.user_price_votes v
+        where v.report_id = p_report_id and not v.is_upvote
+      )
+    where r.id = p_report_id
+    returning r.upvotes, r.downvotes, p_vote;
+end;
+$$;
+
+revoke execute on function public.cast_price_vote(uuid, text) from public, anon;
+grant execute on function public.cast_price_vote(uuid, text) to authenticated;
+
+-- Votes are only written through cast_price_vote
+revoke insert, update, delete on public.user_price_votes from anon, authenticated;
+
+-- New reports start from the reporter's implicit upvote whatever the
+-- client sends, and only the vote function changes the tallies. The column
+-- revoke alone is not enough while clients hold table-wide update.
+create or replace function public.reset_price_report_tally()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.upvotes := 1;
+    new.downvotes := 0;
+  elsif current_user in ('anon', 'authenticated') then
+    new.upvotes := old.upvotes;
+    new.downvotes := old.downvotes;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists reset_price_report_tally on public.user_price_reports;
+create trigger reset_price_report_tally
+  before insert or update on public.user_price_reports
+  for each row execute function public.reset_price_report_tally();
+
+revoke update (upvotes, downvotes) on public.user_price_reports from anon, authenticated;
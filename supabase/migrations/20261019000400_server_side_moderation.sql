@@ -0,0 +1,468 @@
+-- Abuse protection runs in the database instead of the app.
+-- * Rate limits live in the rate_limits table. They are checked by RPCs
+--   the app calls before reporting or voting, and again by triggers, so a
+--   client that skips the check is still stopped.
+-- * Account flags are written only by these functions and read only by
+--   admins.
+-- * Shadow-banned reporters are hidden by row level security, so every read
+--   of reports, including the combined_prices view, leaves them out.
+
+-- ----- Account flags -----
+
+alter table public.account_flags enable row level security;
+
+do $$
+declare
+  v_policy record;
+begin
+  for v_policy in
+    select policyname from pg_policies
+    where schemaname = 'public' and tablename = 'account_flags'
+  loop
+    execute format('drop policy %I on public.account_flags', v_policy.policyname);
+  end loop;
+end;
+$$;
+
+create policy "Admins read account flags"
+  on public.account_flags for select to authenticated
+  using (public.is_admin());
+
+create policy "Admins decide on flagged accounts"
+  on public.account_flags for update to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+revoke insert, delete on public.account_flags from anon, authenticated;
+
+create or replace function public.is_shadow_banned(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.account_flags
+    where user_id = p_user_id and status = 'shadow_banned'
+  );
+$$;
+
+-- Flag an account for admin review. Shadow-banned accounts stay banned, and
+-- a reason already on an open flag is not added again.
+create or replace function public.flag_account(p_user_id uuid, p_reason text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.account_flags (user_id, status, reasons, flagged_at)
+  values (p_user_id, 'flagged', array[p_reason], now())
+  on conflict (user_id) do update
+  set
+    status = case
+      when account_flags.status = 'shadow_banned' then 'shadow_banned'
+      else 'flagged'
+    end,
+    reasons = case
+      when p_reason = any (coalesce(account_flags.reasons, '{}')) then account_flags.reasons
+      else coalesce(account_flags.reasons, '{}') || p_reason
+    end,
+    flagged_at = now()
+  where account_flags.status = 'cleared'
+    or not (p_reason = any (coalesce(account_flags.reasons, '{}')));
+end;
+$$;
+
+create or replace function public.admin_flag_account(p_user_id uuid, p_reason text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can flag accounts' using errcode = '42501';
+  end if;
+
+  perform public.flag_account(p_user_id, p_reason);
+end;
+$$;
+
+-- Recent price votes with the user who made each report, for the vote ring
+-- scan. Ordered so the app can page through them.
+create or replace function public.admin_vote_edges(p_since timestamptz)
+returns table (voter_id uuid, reporter_id uuid, is_upvote boolean)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can scan votes' using errcode = '42501';
+  end if;
+
+  return query
+    select v.user_id, r.user_id, v.is_upvote
+    from public.user_price_votes v
+    join public.user_price_reports r on r.id = v.report_id
+    where v.created_at >= p_since
+    order by v.report_id, v.user_id;
+end;
+$$;
+
+revoke execute on function public.admin_vote_edges(timestamptz) from public, anon;
+grant execute on function public.admin_vote_edges(timestamptz) to authenticated;
+
+-- ----- Rate limits -----
+
+-- The limits themselves; admins tune them here
+create table if not exists public.rate_limits (
+  action text primary key,
+  max_count integer not null check (max_count > 0),
+  window_minutes integer not null check (window_minutes > 0),
+  -- What is counted, e.g. "votes" in "30 votes per hour"
+  label text not null
+);
+
+insert into public.rate_limits (action, max_count, window_minutes, label)
+values
+  ('station_reports', 3, 60, 'reports for this station'),
+  ('reports', 20, 1440, 'price reports'),
+  ('votes', 30, 60, 'votes')
+on conflict (action) do nothing;
+
+alter table public.rate_limits enable row level security;
+
+create policy "Signed-in users read rate limits"
+  on public.rate_limits for select to authenticated
+  using (true);
+
+create policy "Admins change rate limits"
+  on public.rate_limits for update to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+-- Limit windows count from when the server received a report, not from the
+-- reported_at the client sends, so backdating a report does not get round
+-- them
+alter table public.user_price_reports
+  add column if not exists created_at timestamptz not null default now();
+alter table public.station_reports
+  add column if not exists created_at timestamptz not null default now();
+
+create or replace function public.stamp_created_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.created_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists stamp_created_at on public.user_price_reports;
+create trigger stamp_created_at
+  before insert on public.user_price_reports
+  for each row execute function public.stamp_created_at();
+
+drop trigger if exists stamp_created_at on public.station_reports;
+create trigger stamp_created_at
+  before insert on public.station_reports
+  for each row execute function public.stamp_created_at();
+
+-- A limit as text, e.g. "3 reports for this station per hour"
+create or replace function public.describe_rate_limit(p_action text)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select format(
+    '%s %s per %s',
+    max_count,
+    label,
+    case window_minutes
+      when 60 then 'hour'
+      when 1440 then 'day'
+      else window_minutes || ' minutes'
+    end
+  )
+  from public.rate_limits
+  where action = p_action;
+$$;
+
+-- Minutes until one more action fits a limit, or 0 if it fits now
+create or replace function public.rate_limit_wait_minutes(
+  p_action text,
+  p_times timestamptz[]
+)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with rule as (
+    select max_count, make_interval(mins => window_minutes) as window_length
+    from public.rate_limits
+    where action = p_action
+  ),
+  recent as (
+    select t from unnest(p_times) as t, rule
+    where t > now() - rule.window_length
+  )
+  select case
+    when (select count(*) from recent) < rule.max_count then 0
+    else greatest(
+      1,
+      ceil(
+        extract(epoch from (
+          (select t from recent order by t desc offset rule.max_count - 1 limit 1)
+          + rule.window_length
+          - now()
+        )) / 60
+      )::integer
+    )
+  end
+  from rule;
+$$;
+
+-- When a user's reports from the last day arrived, for one station or all
+create or replace function public.recent_report_times(
+  p_user_id uuid,
+  p_station_id uuid default null
+)
+returns timestamptz[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(array_agg(created_at), '{}')
+  from public.user_price_reports
+  where user_id = p_user_id
+    and (p_station_id is null or station_id = p_station_id)
+    and created_at > now() - interval '1 day';
+$$;
+
+-- The first limit one more report would break, if any
+create or replace function public.report_limit_breach(
+  p_user_id uuid,
+  p_station_id uuid
+)
+returns table (action text, wait_minutes integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select action, wait_minutes
+  from (
+    select 1 as priority, 'station_reports' as action,
+      public.rate_limit_wait_minutes(
+        'station_reports', public.recent_report_times(p_user_id, p_station_id)
+      ) as wait_minutes
+    union all
+    select 2, 'reports',
+      public.rate_limit_wait_minutes('reports', public.recent_report_times(p_user_id))
+  ) as limits
+  where wait_minutes > 0
+  order by priority
+  limit 1;
+$$;
+
+-- The vote limit, if one more vote would break it
+create or replace function public.vote_limit_breach(p_user_id uuid)
+returns table (action text, wait_minutes integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select 'votes', wait_minutes
+  from (
+    select public.rate_limit_wait_minutes(
+      'votes',
+      (
+        select coalesce(array_agg(created_at), '{}')
+        from public.user_price_votes
+        where user_id = p_user_id and created_at > now() - interval '1 hour'
+      )
+    ) as wait_minutes
+  ) as vote_limit
+  where wait_minutes > 0;
+$$;
+
+create or replace function public.rate_limit_message(
+  p_action text,
+  p_wait_minutes integer
+)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select format(
+    'You can send at most %s. Try again in %s minute%s.',
+    public.describe_rate_limit(p_action),
+    p_wait_minutes,
+    case when p_wait_minutes > 1 then 's' else '' end
+  );
+$$;
+
+-- Called by the app before reporting or voting. Going over a limit flags
+-- the account for review; the message is shown as is.
+create or replace function public.check_report_limits(p_station_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_breach record;
+begin
+  select * into v_breach from public.report_limit_breach(auth.uid(), p_station_id);
+  if not found then
+    return null;
+  end if;
+
+  perform public.flag_account(
+    auth.uid(), 'Hit the limit of ' || public.describe_rate_limit(v_breach.action)
+  );
+  return public.rate_limit_message(v_breach.action, v_breach.wait_minutes);
+end;
+$$;
+
+create or replace function public.check_vote_limits()
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_breach record;
+begin
+  select * into v_breach from public.vote_limit_breach(auth.uid());
+  if not found then
+    return null;
+  end if;
+
+  perform public.flag_account(
+    auth.uid(), 'Hit the limit of ' || public.describe_rate_limit(v_breach.action)
+  );
+  return public.rate_limit_message(v_breach.action, v_breach.wait_minutes);
+end;
+$$;
+
+-- Backstops for clients that skip the checks above. These only reject: a
+-- flag written here would be rolled back with the insert.
+create or replace function public.enforce_report_limits()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_breach record;
+begin
+  select * into v_breach from public.report_limit_breach(new.user_id, new.station_id);
+  if found then
+    raise exception '%', public.rate_limit_message(v_breach.action, v_breach.wait_minutes)
+      using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_report_limits on public.user_price_reports;
+create trigger enforce_report_limits
+  before insert on public.user_price_reports
+  for each row execute function public.enforce_report_limits();
+
+create or replace function public.enforce_vote_limits()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_breach record;
+begin
+  select * into v_breach from public.vote_limit_breach(new.user_id);
+  if found then
+    raise exception '%', public.rate_limit_message(v_breach.action, v_breach.wait_minutes)
+      using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_vote_limits on public.user_price_votes;
+create trigger enforce_vote_limits
+  before insert on public.user_price_votes
+  for each row execute function public.enforce_vote_limits();
+
+-- Internal helpers take any user id, so clients may not call them
+revoke execute on function public.flag_account(uuid, text) from public, anon, authenticated;
+revoke execute on function public.stamp_created_at() from public, anon, authenticated;
+revoke execute on function public.describe_rate_limit(text) from public, anon, authenticated;
+revoke execute on function public.rate_limit_wait_minutes(text, timestamptz[])
+  from public, anon, authenticated;
+revoke execute on function public.recent_report_times(uuid, uuid) from public, anon, authenticated;
+revoke execute on function public.report_limit_breach(uuid, uuid) from public, anon, authenticated;
+revoke execute on function public.vote_limit_breach(uuid) from public, anon, authenticated;
+revoke execute on function public.rate_limit_message(text, integer) from public, anon, authenticated;
+revoke execute on function public.enforce_report_limits() from public, anon, authenticated;
+revoke execute on function public.enforce_vote_limits() from public, anon, authenticated;
+
+revoke execute on function public.admin_flag_account(uuid, text) from public, anon;
+revoke execute on function public.check_report_limits(uuid) from public, anon;
+revoke execute on function public.check_vote_limits() from public, anon;
+grant execute on function public.admin_flag_account(uuid, text) to authenticated;
+grant execute on function public.check_report_limits(uuid) to authenticated;
+grant execute on function public.check_vote_limits() to authenticated;
+
+-- ----- Hiding shadow-banned reporters -----
+
+do $$
+declare
+  v_policy record;
+begin
+  for v_policy in
+    select tablename, policyname from pg_policies
+    where schemaname = 'public'
+      and tablename in ('user_price_reports', 'station_reports')
+      and cmd = 'SELECT'
+  loop
+    execute format(
+      'drop policy %I on public.%I', v_policy.policyname, v_policy.tablename
+    );
+  end loop;
+end;
+$$;
+
+-- A shadow-banned reporter still sees their own reports, so the ban is not
+-- visible to them
+create policy "Reports are visible unless the reporter is shadow-banned"
+  on public.user_price_reports for select
+  using (
+    user_id = auth.uid()
+    or public.is_admin()
+    or not public.is_shadow_banned(user_id)
+  );
+
+create policy "Reports are visible unless the reporter is shadow-banned"
+  on public.station_reports for select
+  using (
+    user_id = auth.uid()
+    or public.is_admin()
+    or not public.is_shadow_banned(user_id)
+  );
+
+-- Apply the policies above to the view's reads of user_price_reports
+alter view public.combined_prices set (security_invoker = true);
@@ -0,0 +1,168 @@
+-- Station report votes are cast as the signed-in user, and reporters cannot
+-- confirm their own reports. A report starts with the reporter's implicit
+-- upvote, so one vote from someone else is what confirms it.
+-- Station reports also count toward the report rate limits.
+
+drop function if exists public.cast_station_report_vote(uuid, uuid, text);
+
+create or replace function public.cast_station_report_vote(
+  p_report_id uuid,
+  p_vote text
+)
+returns table (upvotes integer, downvotes integer, user_vote text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_user_id uuid := auth.uid();
+  v_reporter_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Sign in to vote' using errcode = '42501';
+  end if;
+
+  if p_vote is not null and p_vote not in ('up', 'down') then
+    raise exception 'Invalid vote: %', p_vote using errcode = '22023';
+  end if;
+
+  -- Lock the report so concurrent votes are counted one at a time
+  select user_id into v_reporter_id
+  from public.station_reports
+  where id = p_report_id
+  for update;
+  if not found then
+    return;
+  end if;
+
+  if v_reporter_id = v_user_id then
+    raise exception 'You cannot vote on your own report' using errcode = '42501';
+  end if;
+
+  if p_vote is null then
+    delete from public.station_report_votes
+    where report_id = p_report_id and user_id = v_user_id;
+  else
+    insert into public.station_report_votes (report_id, user_id, is_upvote)
+    values (p_report_id, v_user_id, p_vote = 'up')
+    on conflict (report_id, user_id)
+      do update set is_upvote = excluded.is_upvote;
+  end if;
+
+  return query
+    update public.station_reports r
+    set
+      -- Plus the reporter's implicit upvote
+      upvotes = 1 + (
+        select count(*)::integer from public.station_report_votes v
+        where v.report_id = p_report_id and v.is_upvote
+      ),
+      downvotes = (
+        select count(*)::integer from public.station_report_votes v
+        where v.report_id = p_report_id and not v.is_upvote
+      )
+    where r.id = p_report_id
+    returning r.upvotes, r.downvotes, p_vote;
+end;
+$$;
+
+revoke execute on function public.cast_station_report_vote(uuid, text) from public, anon;
+grant execute on function public.cast_station_report_vote(uuid, text) to authenticated;
+
+-- Votes are only written through cast_station_report_vote
+revoke insert, update, delete on public.station_report_votes from anon, authenticated;
+
+-- New reports start from the reporter's implicit upvote whatever the
+-- client sends, and only the vote function changes the tallies. The column
+-- revoke alone is not enough while clients hold table-wide update.
+create or replace function public.reset_station_report_tally()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.upvotes := 1;
+    new.downvotes := 0;
+  elsif current_user in ('anon', 'authenticated') then
+    new.upvotes := old.upvotes;
+    new.downvotes := old.downvotes;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists reset_station_report_tally on public.station_reports;
+create trigger reset_station_report_tally
+  before insert or update on public.station_reports
+  for each row execute function public.reset_station_report_tally();
+
+revoke update (upvotes, downvotes) on public.station_reports from anon, authenticated;
+
+-- ----- Rate limits -----
+
+-- Price and station reports share the report limits
+create or replace function public.recent_report_times(
+  p_user_id uuid,
+  p_station_id uuid default null
+)
+returns timestamptz[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(array_agg(created_at), '{}')
+  from (
+    select created_at from public.user_price_reports
+    where user_id = p_user_id
+      and (p_station_id is null or station_id = p_station_id)
+      and created_at > now() - interval '1 day'
+    union all
+    select created_at from public.station_reports
+    where user_id = p_user_id
+      and (p_station_id is null or station_id = p_station_id)
+      and created_at > now() - interval '1 day'
+  ) as recent;
+$$;
+
+revoke execute on function public.recent_report_times(uuid, uuid) from public, anon, authenticated;
+
+drop trigger if exists enforce_report_limits on public.station_reports;
+create trigger enforce_report_limits
+  before insert on public.station_reports
+  for each row execute function public.enforce_report_limits();
+
+-- Votes on station reports count toward the vote limit
+create or replace function public.vote_limit_breach(p_user_id uuid)
+returns table (action text, wait_minutes integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select 'votes', wait_minutes
+  from (
+    select public.rate_limit_wait_minutes(
+      'votes',
+      (
+        select coalesce(array_agg(created_at), '{}')
+        from (
+          select created_at from public.user_price_votes
+          where user_id = p_user_id and created_at > now() - interval '1 hour'
+          union all
+          select created_at from public.station_report_votes
+          where user_id = p_user_id and created_at > now() - interval '1 hour'
+        ) as recent
+      )
+    ) as wait_minutes
+  ) as vote_limit
+  where wait_minutes > 0;
+$$;
+
+revoke execute on function public.vote_limit_breach(uuid) from public, anon, authenticated;
+
+drop trigger if exists enforce_vote_limits on public.station_report_votes;
+create trigger enforce_vote_limits
+  before insert on public.station_report_votes
+  for each row execute function public.enforce_vote_limits();
@@ -0,0 +1,203 @@
+-- Reporter reputation is computed by the database whenever a user's reports
+-- or their votes change, instead of by the app when a user opens their own
+-- profile. Users can no longer write their own score. The rules live only
+-- here; the app reads the results.
+
+-- Mirrors normalizeFuelType in utils/formatters.ts
+create or replace function public.normalize_fuel_type(p_fuel_type text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when coalesce(p_fuel_type, '') = '' then ''
+    when lower(p_fuel_type) like '%diesel%' then
+      case
+        when lower(p_fuel_type) like '%plus%' or lower(p_fuel_type) like '%premium%'
+          then 'Diesel Plus'
+        else 'Diesel'
+      end
+    when lower(p_fuel_type) like '%ron 91%' then 'Gasoline (RON 91)'
+    when lower(p_fuel_type) like '%ron 95%' then 'Gasoline (RON 95)'
+    when lower(p_fuel_type) like '%ron 97%' then 'Gasoline (RON 97)'
+    when lower(p_fuel_type) like '%ron 100%' then 'Gasoline (RON 100)'
+    when lower(p_fuel_type) like '%kerosene%' then 'Kerosene'
+    when lower(p_fuel_type) like '%lpg%' then 'Auto LPG'
+    else p_fuel_type
+  end;
+$$;
+
+-- Score and outcome counts from a user's reports of the last 180 days.
+-- Each report is compared with the latest DOE common price published on or
+-- before it for the station's brand, area and fuel. DOE areas are matched
+-- to the station's city by name, or by the city containing the area name.
+-- Scores start at 50 and stay within 0 to 100. Per report:
+--   rejected (3+ downvotes, at least twice the upvotes)  -6
+--   disputed (more downvotes than upvotes)               -3
+--   confirmed (net votes of 2 or more)                   +2
+--   within 3% of the DOE price                           +1
+--   more than 15% off the DOE price                      -2
+create or replace function public.reputation_summary(p_user_id uuid)
+returns table (
+  score integer,
+  report_count integer,
+  confirmed_count integer,
+  disputed_count integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with reports as (
+    select
+      r.upvotes,
+      r.downvotes,
+      r.price,
+      (
+        select fp.common_price
+        from public.fuel_prices fp
+        where fp.common_price > 0
+          and lower(fp.brand) = lower(s.brand)
+          and (
+            lower(trim(fp.area)) = lower(trim(s.city))
+            or position(lower(trim(fp.area)) in lower(s.city)) > 0
+          )
+          and public.normalize_fuel_type(fp.fuel_type) = public.normalize_fuel_type(r.fuel_type)
+          and fp.week_of <= r.reported_at
+        order by fp.week_of desc
+        limit 1
+      ) as doe_common_price
+    from public.user_price_reports r
+    left join public.gas_stations s on s.id = r.station_id
+    where r.user_id = p_user_id
+      and r.reported_at >= now() - interval '180 days'
+  ),
+  outcomes as (
+    select
+      upvotes,
+      downvotes,
+      case
+        when downvotes >= 3 and downvotes >= upvotes * 2 then -6
+        when upvotes - downvotes < 0 then -3
+        when upvotes - downvotes >= 2 then 2
+        else 0
+      end
+      + case
+        when doe_common_price is null then 0
+        when abs(price - doe_common_price) / doe_common_price <= 0.03 then 1
+        when abs(price - doe_common_price) / doe_common_price > 0.15 then -2
+        else 0
+      end as delta
+    from reports
+  )
+  select
+    least(100, greatest(0, 50 + coalesce(sum(delta), 0)))::integer,
+    count(*)::integer,
+    (count(*) filter (where upvotes - downvotes >= 2))::integer,
+    (count(*) filter (where downvotes > upvotes))::integer
+  from outcomes;
+$$;
+
+create or replace function public.refresh_reputation(p_user_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.profiles
+  set reputation = (select score from public.reputation_summary(p_user_id))
+  where id = p_user_id;
+$$;
+
+-- Votes reach reports through their tallies, so watching the reports covers
+-- new reports, edits and votes alike
+create or replace function public.refresh_reporter_reputation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.refresh_reputation(old.user_id);
+  end if;
+  if tg_op = 'INSERT' or (tg_op = 'UPDATE' and new.user_id is distinct from old.user_id) then
+    perform public.refresh_reputation(new.user_id);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists refresh_reporter_reputation on public.user_price_reports;
+create trigger refresh_reporter_reputation
+  after insert or delete
+    or update of upvotes, downvotes, price, fuel_type, station_id, user_id
+  on public.user_price_reports
+  for each row execute function public.refresh_reporter_reputation();
+
+-- Reports age out of the window and DOE weeks are imported later, so every
+-- score is also recomputed once a day
+create or replace function public.refresh_all_reputations()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.profiles p
+  set reputation = (select score from public.reputation_summary(p.id));
+$$;
+
+select cron.schedule(
+  'refresh-reputations',
+  '30 22 * * *', -- 6:30 AM Manila
+  $$select public.refresh_all_reputations()$$
+);
+
+-- The signed-in user's own summary for their profile
+create or replace function public.get_my_reputation()
+returns table (
+  score integer,
+  report_count integer,
+  confirmed_count integer,
+  disputed_count integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from public.reputation_summary(auth.uid());
+$$;
+
+revoke execute on function public.reputation_summary(uuid) from public, anon, authenticated;
+revoke execute on function public.refresh_reputation(uuid) from public, anon, authenticated;
+revoke execute on function public.refresh_reporter_reputation() from public, anon, authenticated;
+revoke execute on function public.refresh_all_reputations() from public, anon, authenticated;
+revoke execute on function public.get_my_reputation() from public, anon;
+grant execute on function public.get_my_reputation() to authenticated;
+
+-- Users keep writing their own profiles, but the score they send is
+-- ignored: new profiles start at 50 and updates keep the stored score
+create or replace function public.protect_profile_reputation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user in ('anon', 'authenticated') then
+    if tg_op = 'INSERT' then
+      new.reputation := 50;
+    else
+      new.reputation := old.reputation;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_profile_reputation on public.profiles;
+create trigger protect_profile_reputation
+  before insert or update on public.profiles
+  for each row execute function public.protect_profile_reputation();
+
+select public.refresh_all_reputations();
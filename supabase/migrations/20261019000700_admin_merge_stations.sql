@@ -0,0 +1,61 @@
+-- Merging duplicate stations runs as one admin-only function, so a merge
+-- either moves everything and deletes the duplicate or changes nothing.
+-- Before, the app ran each step as a separate update from the client.
+
+create or replace function public.admin_merge_stations(
+  p_survivor_id uuid,
+  p_duplicate_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can merge stations' using errcode = '42501';
+  end if;
+
+  if p_survivor_id = p_duplicate_id then
+    raise exception 'Cannot merge a station into itself' using errcode = '22023';
+  end if;
+
+  -- Lock both stations so they cannot be merged into something else meanwhile
+  perform 1 from public.gas_stations
+  where id in (p_survivor_id, p_duplicate_id)
+  for update;
+  if not exists (select 1 from public.gas_stations where id = p_survivor_id)
+    or not exists (select 1 from public.gas_stations where id = p_duplicate_id)
+  then
+    raise exception 'Station not found' using errcode = 'P0002';
+  end if;
+
+  -- Votes are keyed by report, so they follow their reports
+  update public.user_price_reports
+  set station_id = p_survivor_id
+  where station_id = p_duplicate_id;
+
+  update public.station_reports
+  set station_id = p_survivor_id
+  where station_id = p_duplicate_id;
+
+  -- Swap the duplicate for the survivor in place, or drop it if the
+  -- survivor is already a favorite. Guests' favorites live on their
+  -- devices and are not reached.
+  update public.profiles
+  set favorite_stations = case
+    when p_survivor_id = any (favorite_stations::uuid[])
+      then array_remove(favorite_stations::uuid[], p_duplicate_id)
+    else array_replace(favorite_stations::uuid[], p_duplicate_id, p_survivor_id)
+  end
+  where p_duplicate_id = any (favorite_stations::uuid[]);
+
+  delete from public.station_duplicate_dismissals
+  where p_duplicate_id in (station_a_id, station_b_id);
+
+  delete from public.gas_stations where id = p_duplicate_id;
+end;
+$$;
+
+revoke execute on function public.admin_merge_stations(uuid, uuid) from public, anon;
+grant execute on function public.admin_merge_stations(uuid, uuid) to authenticated;
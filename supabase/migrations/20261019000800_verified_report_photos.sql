@@ -0,0 +1,124 @@
+-- Report photos are linked by the database once their upload is in storage,
+-- and only the reporter can upload or link a photo for their report. Before,
+-- clients wrote any URL into the report and could overwrite any photo.
+-- Reports keep the photo's storage path; the app builds the URL from it.
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('report-photos', 'report-photos', true, 2097152, '{image/jpeg}')
+on conflict (id) do nothing;
+
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'user_price_reports'
+      and column_name = 'photo_url'
+  ) then
+    alter table public.user_price_reports rename column photo_url to photo_path;
+  end if;
+end;
+$$;
+
+alter table public.user_price_reports add column if not exists photo_path text;
+
+-- Keep the path of links that point at the bucket and drop the rest
+update public.user_price_reports
+set photo_path = substring(photo_path from '/report-photos/(reports/[^/?]+\.jpg)$')
+where photo_path is not null and photo_path !~ '^reports/[^/]+\.jpg$';
+
+-- Report id from a photo path, or null for any other object name
+create or replace function public.report_photo_report_id(p_name text)
+returns uuid
+language sql
+immutable
+as $$
+  select substring(
+    p_name from '^reports/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.jpg$'
+  )::uuid;
+$$;
+
+-- Anyone can view photos through the public bucket URL. Uploads go to the
+-- path of a report the uploader made, and with no update or delete policy
+-- a photo cannot be replaced once it is in.
+drop policy if exists "Reporters upload photos for their own reports" on storage.objects;
+create policy "Reporters upload photos for their own reports"
+  on storage.objects for insert to authenticated
+  with check (
+    bucket_id = 'report-photos'
+    and exists (
+      select 1 from public.user_price_reports r
+      where r.id = public.report_photo_report_id(name)
+        and r.user_id = auth.uid()
+    )
+  );
+
+-- Link an uploaded photo to the caller's report
+create or replace function public.attach_report_photo(p_report_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_reporter_id uuid;
+  v_path text := 'reports/' || p_report_id || '.jpg';
+begin
+  if v_user_id is null then
+    raise exception 'Sign in to add photos' using errcode = '42501';
+  end if;
+
+  select user_id into v_reporter_id
+  from public.user_price_reports
+  where id = p_report_id
+  for update;
+  if not found then
+    raise exception 'Report not found' using errcode = 'P0002';
+  end if;
+
+  if v_reporter_id <> v_user_id then
+    raise exception 'Only the reporter can add a photo' using errcode = '42501';
+  end if;
+
+  if not exists (
+    select 1 from storage.objects
+    where bucket_id = 'report-photos' and name = v_path
+  ) then
+    raise exception 'Photo has not been uploaded' using errcode = 'P0002';
+  end if;
+
+  update public.user_price_reports
+  set photo_path = v_path
+  where id = p_report_id;
+
+  return v_path;
+end;
+$$;
+
+revoke execute on function public.attach_report_photo(uuid) from public, anon;
+grant execute on function public.attach_report_photo(uuid) to authenticated;
+
+-- Only attach_report_photo sets the path, whatever the client sends
+create or replace function public.protect_report_photo()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user in ('anon', 'authenticated') then
+    if tg_op = 'INSERT' then
+      new.photo_path := null;
+    else
+      new.photo_path := old.photo_path;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_report_photo on public.user_price_reports;
+create trigger protect_report_photo
+  before insert or update on public.user_price_reports
+  for each row execute function public.protect_report_photo();
+
+revoke update (photo_path) on public.user_price_reports from anon, authenticated;
@@ -0,0 +1,80 @@
+-- Scoring rules of reputation_summary. Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'accurate@example.com'),
+  ('00000000-0000-0000-0000-0000000000a2', 'disputed@example.com'),
+  ('00000000-0000-0000-0000-0000000000a3', 'city@example.com'),
+  ('00000000-0000-0000-0000-0000000000a4', 'new@example.com');
+
+-- One station per report keeps the fixtures under the per-station limit
+insert into public.gas_stations (name, brand, city, coordinates)
+select 'NCR station ' || n, 'Petron', 'NCR', '{"latitude": 14.6, "longitude": 121.0}'
+from generate_series(1, 10) as n;
+
+insert into public.gas_stations (name, brand, city, coordinates) values
+  ('QC station', 'Petron', 'Quezon City, Metro Manila', '{"latitude": 14.65, "longitude": 121.05}');
+
+insert into public.fuel_prices (area, brand, fuel_type, common_price, week_of) values
+  ('NCR', 'Petron', 'Diesel', 58, (now() - interval '7 days')::date),
+  ('Quezon City', 'PETRON', 'DIESEL', 50, (now() - interval '20 days')::date),
+  ('Quezon City', 'PETRON', 'DIESEL', 58, (now() - interval '5 days')::date),
+  ('Quezon City', 'PETRON', 'DIESEL', 70, (now() + interval '2 days')::date);
+
+insert into public.user_price_reports (station_id, user_id, fuel_type, price, reported_at, expires_at)
+select s.id, u.id::uuid, 'Diesel', 58, now() - interval '3 days', now() + interval '4 days'
+from public.gas_stations s
+cross join (values
+  ('00000000-0000-0000-0000-0000000000a1'),
+  ('00000000-0000-0000-0000-0000000000a2')
+) as u (id)
+where s.name like 'NCR station %';
+
+insert into public.user_price_reports (station_id, user_id, fuel_type, price, reported_at, expires_at)
+select id, '00000000-0000-0000-0000-0000000000a3', 'Diesel', 58,
+  now() - interval '3 days', now() + interval '4 days'
+from public.gas_stations
+where name = 'QC station';
+
+-- Tallies are set after the insert trigger resets them
+update public.user_price_reports set upvotes = 4, downvotes = 0
+where user_id = '00000000-0000-0000-0000-0000000000a1';
+
+update public.user_price_reports set upvotes = 1, downvotes = 5
+where user_id = '00000000-0000-0000-0000-0000000000a2';
+
+select results_eq(
+  $$select score, report_count, confirmed_count, disputed_count
+    from public.reputation_summary('00000000-0000-0000-0000-0000000000a4')$$,
+  $$values (50, 0, 0, 0)$$,
+  'new reporters start at 50'
+);
+
+select results_eq(
+  $$select score, report_count, confirmed_count, disputed_count
+    from public.reputation_summary('00000000-0000-0000-0000-0000000000a1')$$,
+  $$values (80, 10, 10, 0)$$,
+  'confirmed reports at the DOE price gain 3 each'
+);
+
+select results_eq(
+  $$select score, report_count, confirmed_count, disputed_count
+    from public.reputation_summary('00000000-0000-0000-0000-0000000000a2')$$,
+  $$values (0, 10, 0, 10)$$,
+  'rejected reports lose points down to 0'
+);
+
+-- Only the latest week on or before the report counts, matched by brand
+-- in any case and by the station city containing the DOE area
+select results_eq(
+  $$select score from public.reputation_summary('00000000-0000-0000-0000-0000000000a3')$$,
+  $$values (51)$$,
+  'reports are compared with the DOE week that applied to them'
+);
+
+select * from finish();
+rollback;
@@ -0,0 +1,116 @@
+// utils/abuseProtection.ts
+// Vote ring detection for community price reports; the rate limits are
+// kept in the database
+
+/**
+ * A vote on a report, with the user who made the report
+ */
+export interface VoteEdge {
+  voter_id: string;
+  reporter_id: string;
+  is_upvote: boolean;
+}
+
+export interface VoteRingOptions {
+  // Upvotes each way before two accounts count as trading votes
+  minMutualUpvotes: number;
+  // Share of a member's upvotes that must go to the rest of the ring
+  minInsideShare: number;
+  // Larger groups are more likely a busy area than a ring
+  maxRingSize: number;
+}
+
+export interface VoteRing {
+  memberIds: string[];
+  // Upvotes members gave each other
+  insideUpvotes: number;
+}
+
+export const DEFAULT_VOTE_RING_OPTIONS: VoteRingOptions = {
+  minMutualUpvotes: 3,
+  minInsideShare: 0.8,
+  maxRingSize: 6,
+};
+
+/**
+ * Find small groups of accounts that mostly upvote each other
+ * Pairs that upvote each other often are linked, linked accounts are grouped,
+ * and a group counts as a ring when it is small and every member gives most
+ * of their upvotes to the rest of it.
+ */
+export function detectVoteRings(
+  votes: VoteEdge[],
+  options: VoteRingOptions = DEFAULT_VOTE_RING_OPTIONS
+): VoteRing[] {
+  // upvotes[voter][reporter] = count, ignoring self votes
+  const upvotes = new Map<string, Map<string, number>>();
+  const totalUpvotes = new Map<string, number>();
+
+  votes.forEach((vote) => {
+    if (!vote.is_upvote || vote.voter_id === vote.reporter_id) return;
+
+    const given = upvotes.get(vote.voter_id) || new Map<string, number>();
+    given.set(vote.reporter_id, (given.get(vote.reporter_id) || 0) + 1);
+    upvotes.set(vote.voter_id, given);
+    totalUpvotes.set(vote.voter_id, (totalUpvotes.get(vote.voter_id) || 0) + 1);
+  });
+
+  const countUpvotes = (from: string, to: string) =>
+    upvotes.get(from)?.get(to) || 0;
+
+  // Link accounts that upvote each other enough
+  const links = new Map<string, Set<string>>();
+  upvotes.forEach((given, voter) => {
+    given.forEach((count, reporter) => {
+      if (
+        count >= options.minMutualUpvotes &&
+        countUpvotes(reporter, voter) >= options.minMutualUpvotes
+      ) {
+        links.set(voter, (links.get(voter) || new Set()).add(reporter));
+        links.set(reporter, (links.get(reporter) || new Set()).add(voter));
+      }
+    });
+  });
+
+  // Group linked accounts
+  const rings: VoteRing[] = [];
+  const visited = new Set<string>();
+
+  links.forEach((_, start) => {
+    if (visited.has(start)) return;
+
+    const members: string[] = [];
+    const stack = [start];
+    visited.add(start);
+
+    while (stack.length > 0) {
+      const member = stack.pop()!;
+      members.push(member);
+      links.get(member)?.forEach((linked) => {
+        if (!visited.has(linked)) {
+          visited.add(linked);
+          stack.push(linked);
+        }
+      });
+    }
+
+    if (members.length > options.maxRingSize) return;
+
+    const memberSet = new Set(members);
+    let insideUpvotes = 0;
+    const isClosed = members.every((member) => {
+      let inside = 0;
+      upvotes.get(member)?.forEach((count, reporter) => {
+        if (memberSet.has(reporter)) inside += count;
+      });
+      insideUpvotes += inside;
+      return inside / (totalUpvotes.get(member) || 1) >= options.minInsideShare;
+    });
+
+    if (isClosed) {
+      rings.push({ memberIds: members.sort(), insideUpvotes });
+    }
+  });
+
+  return rings;
+}
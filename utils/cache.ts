@@ -0,0 +1,148 @@
+// utils/cache.ts
+// Offline-first cache on top of AsyncStorage with TTLs and
+// stale-while-revalidate
+
+import { loadData, saveData } from './storage';
+
+const CACHE_KEY_PREFIX = 'cache:';
+
+/**
+ * How long cached data is served without revalidating
+ */
+export const CACHE_TTL = {
+  // DOE prices are published once a week
+  LATEST_FUEL_PRICES: 6 * 60 * 60 * 1000,
+  NEARBY_STATIONS: 30 * 60 * 1000,
+  BEST_PRICES: 15 * 60 * 1000,
+  COMMUNITY_REPORTS: 5 * 60 * 1000,
+  // Adjustments are announced once a week, usually on Monday
+  PRICE_ADJUSTMENTS: 60 * 60 * 1000,
+  // Loyalty and fleet programs change a few times a year
+  DISCOUNT_PROGRAMS: 24 * 60 * 60 * 1000,
+};
+
+export interface CacheEntry<T> {
+  data: T;
+  cachedAt: string;
+}
+
+export interface CachedResult<T> {
+  data: T;
+  // When the data was fetched from the network
+  cachedAt: string;
+  // True when the network could not be reached and cached data is shown
+  offline: boolean;
+}
+
+export interface CachedFetchOptions<T> {
+  // Skip the cache, e.g. for pull-to-refresh
+  forceRefresh?: boolean;
+  // Called when stale data was returned and revalidation finished; offline
+  // is set if the network request failed
+  onRevalidate?: (result: CachedResult<T>) => void;
+}
+
+/**
+ * Cache key for location-based data
+ * Coordinates are rounded to about 1km so nearby positions share an entry.
+ */
+export function getLocationCacheKey(
+  prefix: string,
+  coordinates: { latitude: number; longitude: number }
+): string {
+  const latitude = coordinates.latitude.toFixed(2);
+  const longitude = coordinates.longitude.toFixed(2);
+  return `${prefix}:${latitude},${longitude}`;
+}
+
+/**
+ * Check whether a cache entry is younger than its TTL
+ */
+export function isCacheFresh(
+  entry: CacheEntry<unknown>,
+  ttlMs: number,
+  now: number = Date.now()
+): boolean {
+  const cachedAt = new Date(entry.cachedAt).getTime();
+  return !isNaN(cachedAt) && now - cachedAt < ttlMs;
+}
+
+/**
+ * Read a cache entry; unreadable entries are treated as missing
+ */
+export async function readCache<T>(key: string): Promise<CacheEntry<T> | null> {
+  try {
+    return await loadData<CacheEntry<T>>(CACHE_KEY_PREFIX + key);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store data with the current time
+ */
+export async function writeCache<T>(
+  key: string,
+  data: T
+): Promise<CacheEntry<T>> {
+  const entry = { data, cachedAt: new Date().toISOString() };
+
+  try {
+    await saveData(CACHE_KEY_PREFIX + key, entry);
+  } catch (error) {
+    // A failed write only costs us the offline copy
+    console.error('Error writing cache:', error);
+  }
+
+  return entry;
+}
+
+/**
+ * Fetch data through the cache
+ * - Fresh cache: returned without a network request
+ * - Stale cache: returned immediately, then revalidated in the background
+ * - No cache or forced refresh: fetched from the network, falling back to
+ *   any cached copy if the request fails
+ * @param key Cache key
+ * @param ttlMs How long cached data counts as fresh
+ * @param fetcher Loads the data from the network
+ * @throws The fetcher's error if it fails and nothing is cached
+ */
+export async function cachedFetch<T>(
+  key: string,
+  ttlMs: number,
+  fetcher: () => Promise<T>,
+  options: CachedFetchOptions<T> = {}
+): Promise<CachedResult<T>> {
+  const cached = await readCache<T>(key);
+
+  const fetchAndStore = async (): Promise<CachedResult<T>> => {
+    const entry = await writeCache(key, await fetcher());
+    return { ...entry, offline: false };
+  };
+
+  if (cached && !options.forceRefresh) {
+    if (isCacheFresh(cached, ttlMs)) {
+      return { ...cached, offline: false };
+    }
+
+    fetchAndStore()
+      .then((result) => options.onRevalidate?.(result))
+      .catch((error) => {
+        console.error(`Error revalidating ${key}:`, error);
+        options.onRevalidate?.({ ...cached, offline: true });
+      });
+
+    return { ...cached, offline: false };
+  }
+
+  try {
+    return await fetchAndStore();
+  } catch (error) {
+    if (cached) {
+      console.error(`Error fetching ${key}, using cached data:`, error);
+      return { ...cached, offline: true };
+    }
+    throw error;
+  }
+}
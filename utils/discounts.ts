@@ -0,0 +1,140 @@
+// utils/discounts.ts
+// Loyalty card and fleet discounts, and the effective price they lead to
+
+import { DiscountProgram } from '@/core/models/DiscountProgram';
+import { normalizeBrandName } from './brandNormalization';
+import { isValidPrice, normalizeFuelType } from './formatters';
+
+export type DiscountProgramInput = Omit<DiscountProgram, 'id' | 'created_at'>;
+
+export interface EffectivePrice {
+  // Price per liter after the discount
+  price: number;
+  // Program giving the discount
+  program: DiscountProgram;
+}
+
+// Philippine time is UTC+8 all year
+const MANILA_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check a discount program before saving it
+ * @returns An error message, or null if the program is valid
+ */
+export function validateDiscountProgram(
+  input: DiscountProgramInput
+): string | null {
+  if (!input.name.trim()) return 'Please enter the program name';
+  if (!input.brand.trim()) return 'Please enter the brand';
+
+  if (!(input.amount > 0)) return 'Please enter a discount above zero';
+  if (input.discount_type === 'percent' && input.amount >= 100) {
+    return 'A percentage discount must be below 100%';
+  }
+
+  for (const date of [input.valid_from, input.valid_until]) {
+    if (date && !DATE_PATTERN.test(date)) {
+      return 'Dates must be in YYYY-MM-DD format';
+    }
+  }
+
+  if (
+    input.valid_from &&
+    input.valid_until &&
+    input.valid_until < input.valid_from
+  ) {
+    return 'The end date must not be before the start date';
+  }
+
+  return null;
+}
+
+/**
+ * Whether a program is running on the given day, in Philippine time
+ */
+export function isProgramActive(program: DiscountProgram, now: Date): boolean {
+  const today = new Date(now.getTime() + MANILA_OFFSET_MS)
+    .toISOString()
+    .split('T')[0];
+
+  if (program.valid_from && today < program.valid_from) return false;
+  if (program.valid_until && today > program.valid_until) return false;
+  return true;
+}
+
+/**
+ * Programs the user holds that are running today
+ * @param heldIds Ids saved in the user's preferences
+ */
+export function getHeldPrograms(
+  programs: DiscountProgram[],
+  heldIds: string[],
+  now: Date
+): DiscountProgram[] {
+  return programs.filter(
+    (program) => heldIds.includes(program.id) && isProgramActive(program, now)
+  );
+}
+
+/**
+ * Price per liter after one program's discount
+ */
+export function applyDiscount(program: DiscountProgram, price: number): number {
+  const discounted =
+    program.discount_type === 'percent'
+      ? price * (1 - program.amount / 100)
+      : price - program.amount;
+
+  return Math.max(0, Math.round(discounted * 100) / 100);
+}
+
+/**
+ * Lowest price the user can pay at a brand with the programs they hold
+ * Stations take one card per purchase, so discounts are not stacked.
+ * @param programs Programs the user holds and that are running
+ * @returns The effective price, or null if no program applies
+ */
+export function getEffectivePrice(
+  programs: DiscountProgram[],
+  brand: string,
+  fuelType: string,
+  price: number | null
+): EffectivePrice | null {
+  if (!isValidPrice(price)) return null;
+
+  const normalizedBrand = normalizeBrandName(brand).toLowerCase();
+  const fuel = normalizeFuelType(fuelType);
+
+  let best: EffectivePrice | null = null;
+
+  programs
+    .filter(
+      (program) =>
+        normalizeBrandName(program.brand).toLowerCase() === normalizedBrand &&
+        (!program.fuel_type || normalizeFuelType(program.fuel_type) === fuel)
+    )
+    .forEach((program) => {
+      const discounted = applyDiscount(program, price as number);
+      if (!best || discounted < best.price) {
+        best = { price: discounted, program };
+      }
+    });
+
+  return best;
+}
+
+/**
+ * Describe a program's discount, e.g. "₱1.50/L off Diesel" or "3% off"
+ */
+export function describeDiscount(program: DiscountProgram): string {
+  const amount =
+    program.discount_type === 'percent'
+      ? `${program.amount}%`
+      : `₱${program.amount.toFixed(2)}/L`;
+
+  return program.fuel_type
+    ? `${amount} off ${program.fuel_type}`
+    : `${amount} off`;
+}
@@ -0,0 +1,402 @@
+// utils/doePriceParser.ts
+// Pure parsing helpers for DOE "Prevailing Retail Pump Prices" reports
+
+import { FuelPrice } from '@/core/models/FuelPrice';
+import { BRAND_ALIASES, normalizeBrandName } from './brandNormalization';
+import { CITIES, normalizeCityName } from './areaMapping';
+import { FUEL_TYPES } from './constants';
+import { normalizeFuelType } from './formatters';
+
+/**
+ * A positioned piece of text extracted from a PDF page
+ */
+export interface PdfTextItem {
+  str: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * A single area/brand/fuel row parsed from a DOE report
+ */
+export type ParsedDoePrice = Omit<
+  FuelPrice,
+  'id' | 'updated_at' | 'week_of'
+> & {
+  week_of: string;
+};
+
+/**
+ * Result of parsing a DOE report
+ */
+export interface DoePriceParseResult {
+  weekOf: string | null;
+  rows: ParsedDoePrice[];
+  skippedLines: string[];
+}
+
+/**
+ * A stored price whose values differ from the incoming row
+ */
+export interface DoePriceChange {
+  previous: FuelPrice;
+  next: ParsedDoePrice;
+  commonDelta: number;
+}
+
+/**
+ * Comparison of parsed rows against stored prices
+ */
+export interface DoePriceDiff {
+  added: ParsedDoePrice[];
+  changed: DoePriceChange[];
+  unchanged: ParsedDoePrice[];
+  removed: FuelPrice[];
+}
+
+// Vertical distance (in PDF units) under which two items share a line
+const LINE_TOLERANCE = 2;
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+// Matches "March 18, 2025" as well as ranges like "March 18-24, 2025"
+const DATE_PATTERN = new RegExp(
+  `(${MONTHS.join('|')})\\s+(\\d{1,2})(?:\\s*[-–]\\s*\\d{1,2})?,?\\s+(\\d{4})`,
+  'i'
+);
+
+// A price cell is a decimal number or a placeholder; requiring decimals keeps
+// the "95" in "RON 95" from reading as a price
+const PRICE_TOKEN = /^(?:\d{1,3}(?:,\d{3})*\.\d{1,2}|-+|—|n\/a)$/i;
+
+const AREA_KEYWORDS = /\b(city|municipality)\b/i;
+const REGION_HEADING = /^(ncr|metro manila)$/i;
+
+// Headings longer than this are titles, not area names
+const MAX_AREA_WORDS = 4;
+
+const KNOWN_FUEL_TYPES = new Set([...FUEL_TYPES, 'Diesel Plus']);
+const KNOWN_BRANDS = new Set(Object.keys(BRAND_ALIASES));
+const KNOWN_CITIES = new Set(CITIES.map((city) => city.standardName));
+
+/**
+ * Group positioned text items into reading-order lines
+ * @param items Text items from a single PDF page
+ * @returns Lines from top to bottom, with items joined left to right
+ */
+export function groupTextItemsIntoLines(items: PdfTextItem[]): string[] {
+  const lines: { y: number; items: PdfTextItem[] }[] = [];
+
+  items
+    .filter((item) => item.str.trim().length > 0)
+    .forEach((item) => {
+      const line = lines.find((l) => Math.abs(l.y - item.y) <= LINE_TOLERANCE);
+      if (line) {
+        line.items.push(item);
+      } else {
+        lines.push({ y: item.y, items: [item] });
+      }
+    });
+
+  // PDF coordinates grow upwards, so higher y values come first
+  return lines
+    .sort((a, b) => b.y - a.y)
+    .map((line) =>
+      line.items
+        .sort((a, b) => a.x - b.x)
+        .map((item) => item.str.trim())
+        .join(' ')
+        .replace(/\s+/g, ' ')
+    );
+}
+
+/**
+ * Extract the report week from a line such as "as of March 18, 2025"
+ * @param line A line of report text
+ * @returns ISO date (YYYY-MM-DD) or null when the line has no date
+ */
+export function parseReportDate(line: string): string | null {
+  const match = line.match(DATE_PATTERN);
+  if (!match) return null;
+
+  const month = MONTHS.indexOf(match[1].toLowerCase()) + 1;
+  const day = parseInt(match[2], 10);
+  const year = parseInt(match[3], 10);
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(
+    2,
+    '0'
+  )}`;
+}
+
+/**
+ * Convert a price cell to a number, treating placeholders as zero
+ */
+function parsePriceToken(token: string): number {
+  const value = parseFloat(token.replace(/,/g, ''));
+  return isNaN(value) ? 0 : value;
+}
+
+/**
+ * Split trailing price cells (at most three) from the descriptive label
+ */
+function splitPriceCells(line: string): { label: string; cells: string[] } {
+  const tokens = line.split(' ');
+  const cells: string[] = [];
+
+  while (
+    tokens.length > 0 &&
+    cells.length < 3 &&
+    PRICE_TOKEN.test(tokens[tokens.length - 1])
+  ) {
+    cells.unshift(tokens.pop() as string);
+  }
+
+  return { label: tokens.join(' '), cells };
+}
+
+/**
+ * Detect a known fuel type in a label
+ * @returns Normalized fuel type or null if none is recognized
+ */
+function detectFuelType(label: string): string | null {
+  const normalized = normalizeFuelType(label);
+  return KNOWN_FUEL_TYPES.has(normalized) ? normalized : null;
+}
+
+/**
+ * Detect a known brand in a label
+ * @returns Standard brand name or null if none is recognized
+ */
+function detectBrand(label: string): string | null {
+  const normalized = normalizeBrandName(label);
+  return KNOWN_BRANDS.has(normalized) ? normalized : null;
+}
+
+/**
+ * Convert an all-caps heading to title case ("QUEZON CITY" -> "Quezon City")
+ */
+function toTitleCase(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/(^|\s)\S/g, (letter) => letter.toUpperCase());
+}
+
+/**
+ * Detect an area heading such as "CITY OF MANILA" or "QUEZON CITY"
+ * @returns Normalized city/area name or null if the line is not an area
+ */
+function detectArea(line: string): string | null {
+  if (REGION_HEADING.test(line)) return 'NCR';
+
+  const normalized = normalizeCityName(toTitleCase(line));
+  if (KNOWN_CITIES.has(normalized)) return normalized;
+
+  if (!AREA_KEYWORDS.test(line) || line.split(' ').length > MAX_AREA_WORDS) {
+    return null;
+  }
+
+  // "City of San Juan" reads as "San Juan City" elsewhere in the app
+  const cityOf = toTitleCase(line).match(/^City Of (.+)$/);
+  return cityOf ? normalizeCityName(`${cityOf[1]} City`) : normalized;
+}
+
+/**
+ * Map one to three price cells to min/max/common values
+ * - one cell: a single prevailing price
+ * - two cells: a min-max range without a common price
+ * - three cells: min, max and common price
+ */
+function mapPriceCells(
+  cells: string[]
+): Pick<FuelPrice, 'min_price' | 'max_price' | 'common_price'> {
+  const values = cells.map(parsePriceToken);
+
+  if (values.length === 1) {
+    return {
+      min_price: values[0],
+      max_price: values[0],
+      common_price: values[0],
+    };
+  }
+
+  return {
+    min_price: values[0],
+    max_price: values[1],
+    common_price: values[2] ?? 0,
+  };
+}
+
+/**
+ * Parse DOE report lines into per-area, per-brand, per-fuel-type rows
+ *
+ * The report is read top to bottom. Area headings ("QUEZON CITY") and brand
+ * headings ("PETRON") set the context for the product rows that follow. A
+ * product row is a fuel label, optionally prefixed by a brand, followed by
+ * one to three price cells. Placeholder cells ("-", "n/a") become zero.
+ *
+ * @param lines Report text, one line per entry
+ * @param fallbackWeekOf Week to use if the report does not state one
+ * @returns Parsed rows plus any product-looking lines that could not be placed
+ */
+export function parseDoePriceLines(
+  lines: string[],
+  fallbackWeekOf: string | null = null
+): DoePriceParseResult {
+  let weekOf: string | null = null;
+  let currentArea: string | null = null;
+  let currentBrand: string | null = null;
+  const rowsByKey = new Map<string, ParsedDoePrice>();
+  const pendingRows: Omit<ParsedDoePrice, 'week_of'>[] = [];
+  const skippedLines: string[] = [];
+
+  lines.forEach((rawLine) => {
+    const line = rawLine.replace(/\s+/g, ' ').trim();
+    if (!line) return;
+
+    const { label, cells } = splitPriceCells(line);
+
+    if (cells.length === 0) {
+      // Heading lines: report date, area or brand
+      if (!weekOf) {
+        weekOf = parseReportDate(line);
+        if (weekOf) return;
+      }
+
+      const area = detectArea(line);
+      if (area) {
+        currentArea = area;
+        currentBrand = null;
+        return;
+      }
+
+      const brand = detectBrand(line);
+      if (brand && !detectFuelType(line)) {
+        currentBrand = brand;
+      }
+      return;
+    }
+
+    const fuelType = detectFuelType(label);
+    if (!fuelType) return;
+
+    const brand = detectBrand(label) || currentBrand;
+    if (!currentArea || !brand) {
+      skippedLines.push(line);
+      return;
+    }
+
+    pendingRows.push({
+      area: currentArea,
+      brand,
+      fuel_type: fuelType,
+      ...mapPriceCells(cells),
+    });
+  });
+
+  const resolvedWeek: string | null = weekOf || fallbackWeekOf;
+
+  // Later rows for the same key replace earlier ones
+  pendingRows.forEach((row) => {
+    rowsByKey.set(getDoePriceKey(row), {
+      ...row,
+      week_of: resolvedWeek || '',
+    });
+  });
+
+  return {
+    weekOf: resolvedWeek,
+    rows: Array.from(rowsByKey.values()),
+    skippedLines,
+  };
+}
+
+/**
+ * Build a lookup key for an area/brand/fuel-type combination
+ */
+export function getDoePriceKey(
+  price: Pick<FuelPrice, 'area' | 'brand' | 'fuel_type'>
+): string {
+  return [
+    normalizeCityName(price.area),
+    normalizeBrandName(price.brand),
+    normalizeFuelType(price.fuel_type),
+  ]
+    .join('|')
+    .toLowerCase();
+}
+
+/**
+ * Check whether two price rows carry the same values
+ */
+function hasSamePrices(
+  a: Pick<FuelPrice, 'min_price' | 'max_price' | 'common_price'>,
+  b: Pick<FuelPrice, 'min_price' | 'max_price' | 'common_price'>
+): boolean {
+  return (
+    a.min_price === b.min_price &&
+    a.max_price === b.max_price &&
+    a.common_price === b.common_price
+  );
+}
+
+/**
+ * Compare parsed rows with stored prices for preview before importing
+ * @param existing Prices already stored for the comparison week
+ * @param incoming Rows parsed from the report
+ * @returns Rows grouped into added, changed, unchanged and removed
+ */
+export function diffDoePrices(
+  existing: FuelPrice[],
+  incoming: ParsedDoePrice[]
+): DoePriceDiff {
+  const existingByKey = new Map(
+    existing.map((price) => [getDoePriceKey(price), price])
+  );
+  const incomingKeys = new Set<string>();
+
+  const diff: DoePriceDiff = {
+    added: [],
+    changed: [],
+    unchanged: [],
+    removed: [],
+  };
+
+  incoming.forEach((row) => {
+    const key = getDoePriceKey(row);
+    incomingKeys.add(key);
+
+    const previous = existingByKey.get(key);
+    if (!previous) {
+      diff.added.push(row);
+    } else if (hasSamePrices(previous, row)) {
+      diff.unchanged.push(row);
+    } else {
+      diff.changed.push({
+        previous,
+        next: row,
+        commonDelta:
+          Math.round((row.common_price - previous.common_price) * 100) / 100,
+      });
+    }
+  });
+
+  diff.removed = existing.filter(
+    (price) => !incomingKeys.has(getDoePriceKey(price))
+  );
+
+  return diff;
+}
@@ -0,0 +1,55 @@
+// utils/favorites.ts
+
+/**
+ * Merge a guest's favorites into a signed-in user's list
+ * The user's order is kept; guest-only stations are appended in their order.
+ * @param userFavorites Favorites stored on the user's profile
+ * @param guestFavorites Favorites saved on the device while signed out
+ * @returns Combined list without duplicates
+ */
+export function mergeFavorites(
+  userFavorites: string[],
+  guestFavorites: string[]
+): string[] {
+  return Array.from(new Set([...userFavorites, ...guestFavorites]));
+}
+
+/**
+ * Add a station to the end of the favorites list
+ * @returns A new list; unchanged if the station is already a favorite
+ */
+export function addFavorite(favorites: string[], stationId: string): string[] {
+  return favorites.includes(stationId) ? favorites : [...favorites, stationId];
+}
+
+/**
+ * Remove a station from the favorites list
+ * @returns A new list without the station
+ */
+export function removeFavorite(
+  favorites: string[],
+  stationId: string
+): string[] {
+  return favorites.filter((id) => id !== stationId);
+}
+
+/**
+ * Move a favorite to a new position
+ * @param favorites Current favorites, in display order
+ * @param fromIndex Current position of the station
+ * @param toIndex Target position (clamped to the list bounds)
+ * @returns A new list in the updated order
+ */
+export function moveFavorite(
+  favorites: string[],
+  fromIndex: number,
+  toIndex: number
+): string[] {
+  if (fromIndex < 0 || fromIndex >= favorites.length) return favorites;
+
+  const target = Math.max(0, Math.min(toIndex, favorites.length - 1));
+  const result = [...favorites];
+  const [moved] = result.splice(fromIndex, 1);
+  result.splice(target, 0, moved);
+  return result;
+}
@@ -83,6 +83,7 @@ interface OperatingHours {
   close: string;
   is24_hours: boolean;
   days_open: string[];
+  is_unknown?: boolean;
 }
 
 /**
@@ -91,7 +92,7 @@ interface OperatingHours {
 export const formatOperatingHours = (
   operatingHours: OperatingHours | null | undefined
 ): string => {
-  if (!operatingHours) return 'Hours unknown';
+  if (!operatingHours || operatingHours.is_unknown) return 'Hours unknown';
 
   if (operatingHours.is24_hours) {
     return 'Open 24 hours';
@@ -1,6 +1,19 @@
 // utils/geo.ts
 import { Coordinates } from '@/core/interfaces/ILocationService';
 
+/**
+ * Latitude/longitude bounds of an area
+ */
+export interface BoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// Kilometers per degree of latitude (roughly constant everywhere)
+export const KM_PER_DEGREE_LATITUDE = 111.32;
+
 /**
  * Calculate the distance between two geographical coordinates using the Haversine formula
  * @param from Starting coordinates
@@ -21,6 +34,31 @@ export function calculateDistance(from: Coordinates, to: Coordinates): number {
   return R * c;
 }
 
+/**
+ * Get the bounding box that encloses a circle around a point
+ * Used to narrow a database query before filtering by exact distance.
+ * @param center Center of the search
+ * @param radiusKm Radius in kilometers
+ * @returns Bounds that contain every point within the radius
+ */
+export function getBoundingBox(
+  center: Coordinates,
+  radiusKm: number
+): BoundingBox {
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  // Longitude degrees shrink towards the poles
+  const lonDelta =
+    radiusKm /
+    (KM_PER_DEGREE_LATITUDE * Math.max(Math.cos(toRad(center.latitude)), 0.01));
+
+  return {
+    north: center.latitude + latDelta,
+    south: center.latitude - latDelta,
+    east: center.longitude + lonDelta,
+    west: center.longitude - lonDelta,
+  };
+}
+
 function toRad(value: number): number {
   return (value * Math.PI) / 180;
 }
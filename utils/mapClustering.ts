@@ -0,0 +1,162 @@
+// utils/mapClustering.ts
+import { Coordinates } from '@/core/interfaces/ILocationService';
+import { GasStation } from '@/core/models/GasStation';
+import { BoundingBox } from './geo';
+
+/**
+ * Visible map area, in the shape react-native-maps reports it
+ */
+export interface MapRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+/**
+ * One or more stations drawn as a single marker
+ */
+export interface StationCluster {
+  id: string;
+  coordinates: Coordinates;
+  stations: GasStation[];
+}
+
+export type PriceTier = 'cheap' | 'average' | 'expensive' | 'unknown';
+
+// Stations are only clustered when more than this many degrees are visible
+export const CLUSTER_ZOOM_THRESHOLD = 0.08;
+
+// Number of grid cells across the visible width used for clustering
+const CLUSTER_GRID_SIZE = 6;
+
+export const PRICE_TIER_COLORS: Record<PriceTier, string> = {
+  cheap: '#2a9d8f',
+  average: '#f4a261',
+  expensive: '#e76f51',
+  unknown: '#999999',
+};
+
+/**
+ * Convert a map region to its bounding box
+ * @param region Center and span of the visible map
+ * @returns North/south/east/west bounds
+ */
+export function regionToBoundingBox(region: MapRegion): BoundingBox {
+  return {
+    north: region.latitude + region.latitudeDelta / 2,
+    south: region.latitude - region.latitudeDelta / 2,
+    east: region.longitude + region.longitudeDelta / 2,
+    west: region.longitude - region.longitudeDelta / 2,
+  };
+}
+
+/**
+ * Check whether a station has usable coordinates
+ */
+export function hasValidCoordinates(station: GasStation): boolean {
+  const { latitude, longitude } = station.coordinates || {};
+  return (
+    typeof latitude === 'number' &&
+    typeof longitude === 'number' &&
+    !isNaN(latitude) &&
+    !isNaN(longitude) &&
+    !(latitude === 0 && longitude === 0)
+  );
+}
+
+/**
+ * Group stations into grid-based clusters for the current zoom level
+ * Each station becomes its own cluster once the map is zoomed in past
+ * CLUSTER_ZOOM_THRESHOLD.
+ * @param stations Stations to plot
+ * @param region Visible map region
+ * @returns Clusters positioned at the average of their stations
+ */
+export function clusterStations(
+  stations: GasStation[],
+  region: MapRegion
+): StationCluster[] {
+  const plottable = stations.filter(hasValidCoordinates);
+
+  if (region.longitudeDelta <= CLUSTER_ZOOM_THRESHOLD) {
+    return plottable.map((station) => ({
+      id: station.id,
+      coordinates: station.coordinates,
+      stations: [station],
+    }));
+  }
+
+  const cellSize = region.longitudeDelta / CLUSTER_GRID_SIZE;
+  const cells = new Map<string, GasStation[]>();
+
+  plottable.forEach((station) => {
+    const row = Math.floor(station.coordinates.latitude / cellSize);
+    const col = Math.floor(station.coordinates.longitude / cellSize);
+    const key = `${row}:${col}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(station);
+    } else {
+      cells.set(key, [station]);
+    }
+  });
+
+  return Array.from(cells.entries()).map(([key, members]) => ({
+    id: members.length === 1 ? members[0].id : `cluster-${key}`,
+    coordinates: {
+      latitude:
+        members.reduce((sum, s) => sum + s.coordinates.latitude, 0) /
+        members.length,
+      longitude:
+        members.reduce((sum, s) => sum + s.coordinates.longitude, 0) /
+        members.length,
+    },
+    stations: members,
+  }));
+}
+
+/**
+ * Build a region that fits all stations in a cluster
+ * @param cluster Cluster to zoom into
+ * @param padding Extra span around the stations, as a fraction
+ */
+export function getClusterRegion(
+  cluster: StationCluster,
+  padding: number = 0.5
+): MapRegion {
+  const latitudes = cluster.stations.map((s) => s.coordinates.latitude);
+  const longitudes = cluster.stations.map((s) => s.coordinates.longitude);
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+  const minLng = Math.min(...longitudes);
+  const maxLng = Math.max(...longitudes);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * (1 + padding), 0.01),
+    longitudeDelta: Math.max((maxLng - minLng) * (1 + padding), 0.01),
+  };
+}
+
+/**
+ * Classify a price against the cheapest and most expensive visible prices
+ * The range is split into thirds: cheap, average and expensive.
+ * @param price Station price, or null/undefined if unknown
+ * @param minPrice Cheapest visible price
+ * @param maxPrice Most expensive visible price
+ */
+export function getPriceTier(
+  price: number | null | undefined,
+  minPrice: number,
+  maxPrice: number
+): PriceTier {
+  if (price === null || price === undefined || price <= 0) return 'unknown';
+  if (maxPrice <= minPrice) return 'cheap';
+
+  const position = (price - minPrice) / (maxPrice - minPrice);
+  if (position < 1 / 3) return 'cheap';
+  if (position < 2 / 3) return 'average';
+  return 'expensive';
+}
@@ -0,0 +1,179 @@
+// utils/netSavings.ts
+// Ranking stations by what a fill-up really costs once the drive is counted
+import { isValidPrice } from './formatters';
+
+export type PriceRankingMode = 'price' | 'net_savings';
+
+export interface NetSavingsOptions {
+  // Liters the user plans to buy
+  fillUpLiters: number;
+  // Kilometers per liter of the vehicle making the trip
+  fuelEconomy: number;
+}
+
+export interface NetSavings {
+  // Fill-up plus the fuel burned driving there and back
+  effectiveCost: number;
+  // Peso saving over the nearest priced station; negative if it costs more
+  savings: number;
+  // Extra kilometers driven compared with the nearest priced station
+  detourKm: number;
+  // Whether this is the nearest priced station the others are compared with
+  isReference: boolean;
+}
+
+// The station savings are measured against
+export interface NetSavingsReference {
+  price: number;
+  distance: number;
+}
+
+// Used when the user has not added a vehicle
+export const DEFAULT_FUEL_ECONOMY = 10;
+export const DEFAULT_FILL_UP_LITERS = 20;
+
+// Savings smaller than this are shown as the same cost
+const MIN_SAVINGS_SHOWN = 1;
+
+interface RankablePrice {
+  price: number | null;
+  distance?: number;
+}
+
+/**
+ * Cost of buying fuel at a station, counting the round trip to it
+ * @param price Price per liter at the station
+ * @param distanceKm One-way distance to the station
+ */
+export function getEffectiveCost(
+  price: number,
+  distanceKm: number,
+  options: NetSavingsOptions
+): number {
+  const tripLiters = (distanceKm * 2) / options.fuelEconomy;
+  return roundToCents(price * (options.fillUpLiters + tripLiters));
+}
+
+/**
+ * Find the nearest station with a known price, the one the user would
+ * otherwise go to
+ * @param stations Stations to choose from, with their distances
+ * @param prices Price per liter keyed by station id
+ * @returns The station's price and distance, or null if none has both
+ */
+export function findNetSavingsReference(
+  stations: { id: string; distance?: number }[],
+  prices: Record<string, number>
+): NetSavingsReference | null {
+  let reference: NetSavingsReference | null = null;
+
+  stations.forEach((station) => {
+    const price = prices[station.id];
+    if (station.distance === undefined || !isValidPrice(price)) return;
+
+    if (!reference || station.distance < reference.distance) {
+      reference = { price, distance: station.distance };
+    }
+  });
+
+  return reference;
+}
+
+/**
+ * Rank prices by effective cost and work out the saving of each
+ * Savings are measured against the nearest station with a price. Pass it in
+ * when the items are only a shortlist; otherwise the nearest priced item is
+ * used. Prices without a distance can't be costed and follow in their
+ * original order, with invalid prices last.
+ */
+export function rankByNetSavings<T extends RankablePrice>(
+  items: T[],
+  options: NetSavingsOptions,
+  reference?: NetSavingsReference | null
+): (T & { netSavings?: NetSavings })[] {
+  const costable = items.filter(
+    (item) => isValidPrice(item.price) && item.distance !== undefined
+  );
+  const uncostable = items.filter((item) => !costable.includes(item));
+
+  if (costable.length === 0 || !(options.fuelEconomy > 0)) {
+    return items;
+  }
+
+  const nearestItem = costable.reduce((nearest, item) =>
+    (item.distance as number) < (nearest.distance as number) ? item : nearest
+  );
+  const { price: referencePrice, distance: referenceDistance } = reference ?? {
+    price: nearestItem.price as number,
+    distance: nearestItem.distance as number,
+  };
+  const referenceCost = getEffectiveCost(
+    referencePrice,
+    referenceDistance,
+    options
+  );
+
+  const ranked = costable
+    .map((item) => {
+      const effectiveCost = getEffectiveCost(
+        item.price as number,
+        item.distance as number,
+        options
+      );
+
+      return {
+        ...item,
+        netSavings: {
+          effectiveCost,
+          savings: roundToCents(referenceCost - effectiveCost),
+          detourKm:
+            Math.round(
+              Math.max(0, ((item.distance as number) - referenceDistance) * 2) *
+                10
+            ) / 10,
+          isReference: reference
+            ? item.price === referencePrice &&
+              item.distance === referenceDistance
+            : item === nearestItem,
+        },
+      };
+    })
+    .sort((a, b) => a.netSavings.effectiveCost - b.netSavings.effectiveCost);
+
+  return [
+    ...ranked,
+    ...uncostable.filter((item) => isValidPrice(item.price)),
+    ...uncostable.filter((item) => !isValidPrice(item.price)),
+  ];
+}
+
+/**
+ * Explain a station's net saving, e.g. "Saves ₱42 even after 3.1 km detour"
+ */
+export function describeNetSavings(netSavings: NetSavings): string {
+  if (netSavings.isReference) return 'Nearest station with a price';
+
+  const amount = `₱${Math.round(Math.abs(netSavings.savings))}`;
+  const detour =
+    netSavings.detourKm > 0
+      ? `${netSavings.detourKm.toFixed(1)} km detour`
+      : '';
+
+  if (netSavings.savings >= MIN_SAVINGS_SHOWN) {
+    return detour
+      ? `Saves ${amount} even after ${detour}`
+      : `Saves ${amount} with no extra driving`;
+  }
+
+  if (netSavings.savings <= -MIN_SAVINGS_SHOWN) {
+    return detour
+      ? `Costs ${amount} more after ${detour}`
+      : `Costs ${amount} more`;
+  }
+
+  return 'Same as the nearest station';
+}
+
+function roundToCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
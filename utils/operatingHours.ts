@@ -0,0 +1,282 @@
+// utils/operatingHours.ts
+// Per-day station hours and whether a station is open at a given time
+
+import { GasStation, OpeningPeriod } from '@/core/models/GasStation';
+import { formatTime } from './formatters';
+
+export type OpenStatus = 'open' | 'closing_soon' | 'closed';
+
+/**
+ * Opening period as returned by the Google Places Details API
+ * Times are HHMM; a missing close means open around the clock.
+ */
+export interface GooglePeriod {
+  open: { day: number; time: string };
+  close?: { day: number; time: string };
+}
+
+type OperatingHours = GasStation['operating_hours'];
+
+// Philippine time is UTC+8 all year
+const MANILA_OFFSET_MS = 8 * 60 * 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+// A station closing within this many minutes is shown as closing soon
+export const CLOSING_SOON_MINUTES = 60;
+
+export const DAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+// Public holidays that fall on the same date every year (MM-DD). Moveable
+// ones such as Holy Week and Eid are passed in by the caller.
+export const FIXED_HOLIDAYS = [
+  '01-01',
+  '04-09',
+  '05-01',
+  '06-12',
+  '08-21',
+  '11-01',
+  '11-30',
+  '12-08',
+  '12-25',
+  '12-30',
+  '12-31',
+];
+
+/**
+ * Convert Google's opening periods into per-day periods
+ * A period longer than a day is split at midnight so each day lists its
+ * own hours. Around-the-clock hours (a period with no close) give no
+ * periods; they are stored as is24_hours instead.
+ */
+export function periodsFromGoogle(periods: GooglePeriod[]): OpeningPeriod[] {
+  const result: OpeningPeriod[] = [];
+
+  periods.forEach((period) => {
+    if (!period.close) return;
+
+    let start =
+      period.open.day * MINUTES_PER_DAY + parseGoogleTime(period.open.time);
+    let end =
+      period.close.day * MINUTES_PER_DAY + parseGoogleTime(period.close.time);
+    if (end <= start) end += MINUTES_PER_WEEK;
+
+    while (end - start > MINUTES_PER_DAY) {
+      // Run to the next midnight, then continue from there
+      const midnight =
+        (Math.floor(start / MINUTES_PER_DAY) + 1) * MINUTES_PER_DAY;
+      result.push(toPeriod(start, midnight));
+      start = midnight;
+    }
+
+    result.push(toPeriod(start, end));
+  });
+
+  return result.sort(
+    (a, b) => a.day - b.day || toMinutes(a.open) - toMinutes(b.open)
+  );
+}
+
+/**
+ * Whether a station's hours are known
+ * Stations the source listed no hours for have nothing to show or check.
+ */
+export function hasKnownHours(
+  hours: OperatingHours | null | undefined
+): boolean {
+  return !!hours && !hours.is_unknown;
+}
+
+/**
+ * Per-day periods for a station
+ * Stations imported before per-day hours were kept fall back to their
+ * single open/close pair on each listed day.
+ * @returns The periods, or null if the station never closes
+ */
+export function getOpeningPeriods(
+  hours: OperatingHours | null | undefined
+): OpeningPeriod[] | null {
+  if (!hours) return [];
+  if (hours.is24_hours) return null;
+  if (hours.periods) return hours.periods;
+
+  const days = (hours.days_open || []).map((day) =>
+    DAY_NAMES.findIndex((name) => name.toLowerCase() === day.toLowerCase())
+  );
+
+  return days
+    .filter((day) => day >= 0)
+    .map((day) => ({ day, open: hours.open, close: hours.close }));
+}
+
+/**
+ * Whether a date is a public holiday in the Philippines
+ * @param holidays Extra holiday dates as YYYY-MM-DD
+ */
+export function isHoliday(date: Date, holidays: string[] = []): boolean {
+  const manilaDate = toManilaDate(date);
+  return (
+    FIXED_HOLIDAYS.includes(manilaDate.slice(5)) ||
+    holidays.includes(manilaDate)
+  );
+}
+
+/**
+ * Minutes until a station closes
+ * Stations keep their Sunday hours on public holidays. Periods that run
+ * into the next one, such as an overnight close at midnight followed by an
+ * early opening, count as one stretch.
+ * @param holidays Extra holiday dates as YYYY-MM-DD
+ * @returns Minutes until closing, Infinity if it never closes, or null if
+ * the station is closed
+ */
+export function getMinutesUntilClose(
+  station: GasStation,
+  date: Date,
+  holidays: string[] = []
+): number | null {
+  if (
+    station.status === 'temporary_closed' ||
+    station.status === 'permanently_closed'
+  ) {
+    return null;
+  }
+
+  const periods = getOpeningPeriods(station.operating_hours);
+  if (periods === null) return Infinity;
+
+  const manila = new Date(date.getTime() + MANILA_OFFSET_MS);
+  const now = manila.getUTCHours() * 60 + manila.getUTCMinutes();
+  const weekday = manila.getUTCDay();
+
+  // Opening stretches from yesterday to tomorrow, in minutes from today's
+  // midnight, so overnight hours and back-to-back periods are covered
+  const intervals = [-1, 0, 1].flatMap((offset) => {
+    const day = new Date(date.getTime() + offset * MINUTES_PER_DAY * 60000);
+    const hoursDay = isHoliday(day, holidays) ? 0 : (weekday + offset + 7) % 7;
+
+    return periods
+      .filter((period) => period.day === hoursDay)
+      .map((period) => {
+        const start = offset * MINUTES_PER_DAY + toMinutes(period.open);
+        let length = toMinutes(period.close) - toMinutes(period.open);
+        if (length <= 0) length += MINUTES_PER_DAY;
+        return { start, end: start + length };
+      });
+  });
+
+  const current = intervals.find(
+    (interval) => interval.start <= now && now < interval.end
+  );
+  if (!current) return null;
+
+  let end = current.end;
+  let next = intervals.find(
+    (interval) => interval.start <= end && interval.end > end
+  );
+  while (next) {
+    end = next.end;
+    next = intervals.find(
+      (interval) => interval.start <= end && interval.end > end
+    );
+  }
+
+  return end - now;
+}
+
+/**
+ * Whether a station is open at the given time
+ * @param holidays Extra holiday dates as YYYY-MM-DD
+ */
+export function isOpenAt(
+  station: GasStation,
+  date: Date,
+  holidays: string[] = []
+): boolean {
+  return getMinutesUntilClose(station, date, holidays) !== null;
+}
+
+/**
+ * Open, closing soon or closed, for the station badge
+ * @param holidays Extra holiday dates as YYYY-MM-DD
+ * @returns The status, or null if the station's hours are unknown
+ */
+export function getOpenStatus(
+  station: GasStation,
+  date: Date,
+  holidays: string[] = []
+): OpenStatus | null {
+  if (!hasKnownHours(station.operating_hours)) return null;
+
+  const minutes = getMinutesUntilClose(station, date, holidays);
+  if (minutes === null) return 'closed';
+  return minutes <= CLOSING_SOON_MINUTES ? 'closing_soon' : 'open';
+}
+
+/**
+ * Hours for each day of the week, starting on Monday
+ * e.g. ["Monday: 6:00 AM - 10:00 PM", ..., "Sunday: Closed"]
+ */
+export function formatWeeklyHours(
+  hours: OperatingHours | null | undefined
+): string[] {
+  if (!hasKnownHours(hours)) return ['Hours unknown'];
+
+  const periods = getOpeningPeriods(hours);
+  if (periods === null) return ['Open 24 hours'];
+
+  return [1, 2, 3, 4, 5, 6, 0].map((day) => {
+    const dayPeriods = periods.filter((period) => period.day === day);
+    const text =
+      dayPeriods.length === 0
+        ? 'Closed'
+        : dayPeriods
+            .map((period) =>
+              period.open === period.close
+                ? 'Open 24 hours'
+                : `${formatTime(period.open)} - ${formatTime(period.close)}`
+            )
+            .join(', ');
+
+    return `${DAY_NAMES[day]}: ${text}`;
+  });
+}
+
+function toPeriod(start: number, end: number): OpeningPeriod {
+  return {
+    day: Math.floor(start / MINUTES_PER_DAY) % 7,
+    open: fromMinutes(start % MINUTES_PER_DAY),
+    close: fromMinutes(end % MINUTES_PER_DAY),
+  };
+}
+
+function parseGoogleTime(time: string): number {
+  return parseInt(time.slice(0, 2), 10) * 60 + parseInt(time.slice(2), 10);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+function fromMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(
+    2,
+    '0'
+  )}`;
+}
+
+function toManilaDate(date: Date): string {
+  return new Date(date.getTime() + MANILA_OFFSET_MS)
+    .toISOString()
+    .split('T')[0];
+}
@@ -0,0 +1,231 @@
+// utils/outbox.ts
+// Pure queue operations for price reports and votes made while offline
+
+import { VoteDirection } from '@/core/models/PriceVote';
+
+export type OutboxStatus = 'pending' | 'sent' | 'failed';
+
+export interface OutboxReportPayload {
+  kind: 'report';
+  station_id: string;
+  fuel_type: string;
+  price: number;
+  // Compressed photo on the device, uploaded once the report is sent
+  photo_uri?: string | null;
+}
+
+export interface OutboxVotePayload {
+  kind: 'vote';
+  report_id: string;
+  station_id: string;
+  // null withdraws the user's vote
+  vote: VoteDirection | null;
+}
+
+export type OutboxPayload = OutboxReportPayload | OutboxVotePayload;
+
+export interface OutboxItem {
+  id: string;
+  user_id: string;
+  payload: OutboxPayload;
+  status: OutboxStatus;
+  attempts: number;
+  created_at: string;
+  next_attempt_at: string;
+  // Active price cycle when the item was created, if known
+  cycle_id: string | null;
+  error: string | null;
+  sent_at: string | null;
+}
+
+/**
+ * What the server looked like when an item was about to be sent
+ */
+export interface OutboxConflictContext {
+  activeCycleId: string | null;
+  // Expiry of the report a vote targets; null if the report no longer exists
+  reportExpiresAt?: string | null;
+  now: number;
+}
+
+export type ConflictResolution =
+  | { action: 'send' }
+  | { action: 'fail'; reason: string };
+
+// Retries stop after this many failed attempts
+export const MAX_OUTBOX_ATTEMPTS = 5;
+
+// Backoff starts at 30 seconds and doubles up to 30 minutes
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+// Sent items stay visible briefly so the UI can confirm them
+const SENT_ITEM_RETENTION_MS = 60 * 60 * 1000;
+
+// Reports are only useful while they would still be valid
+const REPORT_VALIDITY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Delay before the next attempt after a number of failures
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)),
+    MAX_RETRY_DELAY_MS
+  );
+}
+
+/**
+ * Check whether two items describe the same user action
+ * Votes on the same report by the same user replace each other; reports are
+ * only duplicates when every field matches.
+ */
+function isSameAction(a: OutboxItem, b: OutboxItem): boolean {
+  if (a.user_id !== b.user_id || a.payload.kind !== b.payload.kind) {
+    return false;
+  }
+
+  if (a.payload.kind === 'vote' && b.payload.kind === 'vote') {
+    return a.payload.report_id === b.payload.report_id;
+  }
+
+  if (a.payload.kind === 'report' && b.payload.kind === 'report') {
+    return (
+      a.payload.station_id === b.payload.station_id &&
+      a.payload.fuel_type === b.payload.fuel_type &&
+      a.payload.price === b.payload.price
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Add an item, collapsing it into an unsent item for the same action
+ * A repeated vote or withdrawal keeps its place in the queue but takes the
+ * newest direction; a repeated report is ignored.
+ */
+export function enqueueOutboxItem(
+  queue: OutboxItem[],
+  item: OutboxItem
+): OutboxItem[] {
+  const existing = queue.find(
+    (queued) => queued.status !== 'sent' && isSameAction(queued, item)
+  );
+
+  if (!existing) return [...queue, item];
+  if (item.payload.kind === 'report') return queue;
+
+  return queue.map((queued) =>
+    queued.id === existing.id
+      ? {
+          ...queued,
+          payload: item.payload,
+          status: 'pending',
+          attempts: 0,
+          next_attempt_at: item.next_attempt_at,
+          error: null,
+        }
+      : queued
+  );
+}
+
+/**
+ * A user's pending items whose next attempt is due, oldest first
+ * Items queued by another account on the device wait until it signs in
+ * again, so they are never sent as the wrong user.
+ */
+export function getDueOutboxItems(
+  queue: OutboxItem[],
+  now: number,
+  userId: string
+): OutboxItem[] {
+  return queue
+    .filter(
+      (item) =>
+        item.user_id === userId &&
+        item.status === 'pending' &&
+        new Date(item.next_attempt_at).getTime() <= now
+    )
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Decide whether an item can still be sent
+ */
+export function resolveOutboxConflict(
+  item: OutboxItem,
+  context: OutboxConflictContext
+): ConflictResolution {
+  if (item.payload.kind === 'vote') {
+    if (!context.reportExpiresAt) {
+      return { action: 'fail', reason: 'The report no longer exists' };
+    }
+    if (new Date(context.reportExpiresAt).getTime() < context.now) {
+      return { action: 'fail', reason: 'The report expired before sending' };
+    }
+    return { action: 'send' };
+  }
+
+  if (
+    item.cycle_id &&
+    context.activeCycleId &&
+    item.cycle_id !== context.activeCycleId
+  ) {
+    return {
+      action: 'fail',
+      reason: 'The price cycle ended before sending',
+    };
+  }
+
+  if (context.now - new Date(item.created_at).getTime() > REPORT_VALIDITY_MS) {
+    return { action: 'fail', reason: 'The report is too old to send' };
+  }
+
+  return { action: 'send' };
+}
+
+/**
+ * Update one item in the queue
+ */
+export function updateOutboxItem(
+  queue: OutboxItem[],
+  id: string,
+  changes: Partial<OutboxItem>
+): OutboxItem[] {
+  return queue.map((item) => (item.id === id ? { ...item, ...changes } : item));
+}
+
+/**
+ * Record a failed attempt, scheduling a retry or giving up
+ */
+export function recordOutboxFailure(
+  queue: OutboxItem[],
+  id: string,
+  error: string,
+  now: number
+): OutboxItem[] {
+  const item = queue.find((queued) => queued.id === id);
+  if (!item) return queue;
+
+  const attempts = item.attempts + 1;
+
+  return updateOutboxItem(queue, id, {
+    attempts,
+    error,
+    status: attempts >= MAX_OUTBOX_ATTEMPTS ? 'failed' : 'pending',
+    next_attempt_at: new Date(now + getRetryDelay(attempts)).toISOString(),
+  });
+}
+
+/**
+ * Drop sent items once they have been shown for a while
+ */
+export function pruneOutbox(queue: OutboxItem[], now: number): OutboxItem[] {
+  return queue.filter(
+    (item) =>
+      item.status !== 'sent' ||
+      !item.sent_at ||
+      now - new Date(item.sent_at).getTime() < SENT_ITEM_RETENTION_MS
+  );
+}
@@ -0,0 +1,285 @@
+// utils/priceAdjustments.ts
+// Announced weekly pump price adjustments and the prices they lead to
+
+import { FuelPrice } from '@/core/models/FuelPrice';
+import { PriceAdjustment } from '@/core/models/PriceAdjustment';
+import { normalizeBrandName } from './brandNormalization';
+import { normalizeFuelType } from './formatters';
+import { getCycleWindow } from './priceCycle';
+
+export type NewPriceAdjustment = Omit<PriceAdjustment, 'id' | 'created_at'>;
+
+export interface AdjustmentCsvResult {
+  rows: NewPriceAdjustment[];
+  errors: string[];
+}
+
+export interface AdjustmentSummary {
+  fuelType: string;
+  direction: 'increase' | 'rollback';
+  // Size of the change per liter; brands may differ
+  minAmount: number;
+  maxAmount: number;
+  effectiveAt: Date;
+}
+
+export interface ProjectedDoePrice {
+  area: string;
+  brand: string;
+  fuel_type: string;
+  currentPrice: number;
+  projectedPrice: number;
+  adjustment: number;
+}
+
+// Philippine time is UTC+8 all year
+const MANILA_OFFSET_MS = 8 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+const CSV_COLUMNS = ['effective_date', 'fuel_type', 'brand', 'amount'];
+
+// Brand values that mean the adjustment applies to every brand
+const ALL_BRANDS = ['', 'all', 'all brands', '*'];
+
+/**
+ * Parse adjustments from CSV with effective_date, fuel_type, brand and
+ * amount columns. A blank brand or "All" applies to every brand; amounts are
+ * signed, so a rollback is negative.
+ */
+export function parseAdjustmentCsv(text: string): AdjustmentCsvResult {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const errors: string[] = [];
+  const rows: NewPriceAdjustment[] = [];
+
+  if (lines.length === 0) {
+    return { rows, errors: ['The file is empty'] };
+  }
+
+  const header = lines[0].split(',').map((cell) => cell.trim().toLowerCase());
+  const indexes = CSV_COLUMNS.map((column) => header.indexOf(column));
+  const missing = CSV_COLUMNS.filter((_, i) => indexes[i] === -1);
+
+  if (missing.length > 0) {
+    return { rows, errors: [`Missing columns: ${missing.join(', ')}`] };
+  }
+
+  lines.slice(1).forEach((line, i) => {
+    const cells = line.split(',').map((cell) => cell.trim());
+    const [date, fuelType, brand, amountText] = indexes.map(
+      (index) => cells[index] ?? ''
+    );
+    const amount = parseFloat(amountText.replace(/^\+/, ''));
+    const lineNumber = i + 2;
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      errors.push(`Line ${lineNumber}: date must be YYYY-MM-DD`);
+    } else if (!fuelType) {
+      errors.push(`Line ${lineNumber}: fuel type is missing`);
+    } else if (isNaN(amount)) {
+      errors.push(`Line ${lineNumber}: amount is not a number`);
+    } else {
+      rows.push({
+        effective_date: date,
+        fuel_type: normalizeFuelType(fuelType),
+        brand: ALL_BRANDS.includes(brand.toLowerCase())
+          ? null
+          : normalizeBrandName(brand),
+        amount,
+      });
+    }
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * When an adjustment takes effect: 6 AM on its effective date
+ */
+export function getAdjustmentStart(adjustment: {
+  effective_date: string;
+}): Date {
+  return new Date(`${adjustment.effective_date}T06:00:00+08:00`);
+}
+
+/**
+ * Date of the next Tuesday adjustment as YYYY-MM-DD, the usual effective
+ * date for a new announcement
+ */
+export function getNextAdjustmentDate(now: Date): string {
+  const { end } = getCycleWindow(now);
+  return new Date(end.getTime() + MANILA_OFFSET_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Adjustments that have not taken effect yet
+ */
+export function getUpcomingAdjustments(
+  adjustments: PriceAdjustment[],
+  now: Date
+): PriceAdjustment[] {
+  return adjustments.filter(
+    (adjustment) => getAdjustmentStart(adjustment).getTime() > now.getTime()
+  );
+}
+
+/**
+ * Find the adjustment for a brand and fuel type
+ * A brand's own announcement wins over an industry-wide one.
+ */
+export function findAdjustment(
+  adjustments: PriceAdjustment[],
+  brand: string,
+  fuelType: string
+): PriceAdjustment | null {
+  const fuel = normalizeFuelType(fuelType);
+  const normalizedBrand = normalizeBrandName(brand).toLowerCase();
+  const forFuel = adjustments.filter(
+    (adjustment) => normalizeFuelType(adjustment.fuel_type) === fuel
+  );
+
+  return (
+    forFuel.find(
+      (adjustment) =>
+        adjustment.brand &&
+        normalizeBrandName(adjustment.brand).toLowerCase() === normalizedBrand
+    ) ||
+    forFuel.find((adjustment) => !adjustment.brand) ||
+    null
+  );
+}
+
+/**
+ * Price after the announced adjustment, or null if none applies
+ */
+export function projectPrice(
+  adjustments: PriceAdjustment[],
+  brand: string,
+  fuelType: string,
+  price: number | null
+): number | null {
+  if (price === null || price <= 0) return null;
+
+  const adjustment = findAdjustment(adjustments, brand, fuelType);
+  if (!adjustment) return null;
+
+  return Math.round((price + adjustment.amount) * 100) / 100;
+}
+
+/**
+ * Projected next-week prices from the latest DOE week
+ * Rows without an adjustment or a common price are left out.
+ */
+export function projectDoePrices(
+  doePrices: FuelPrice[],
+  adjustments: PriceAdjustment[]
+): ProjectedDoePrice[] {
+  return doePrices.flatMap((price) => {
+    const adjustment = findAdjustment(
+      adjustments,
+      price.brand,
+      price.fuel_type
+    );
+    if (!adjustment || !(price.common_price > 0)) return [];
+
+    return [
+      {
+        area: price.area,
+        brand: price.brand,
+        fuel_type: price.fuel_type,
+        currentPrice: price.common_price,
+        projectedPrice:
+          Math.round((price.common_price + adjustment.amount) * 100) / 100,
+        adjustment: adjustment.amount,
+      },
+    ];
+  });
+}
+
+/**
+ * Summarize the next adjustment for a fuel type across brands
+ * @returns The summary, or null if nothing is announced
+ */
+export function summarizeAdjustments(
+  adjustments: PriceAdjustment[],
+  fuelType: string
+): AdjustmentSummary | null {
+  const fuel = normalizeFuelType(fuelType);
+  const forFuel = adjustments.filter(
+    (adjustment) =>
+      normalizeFuelType(adjustment.fuel_type) === fuel &&
+      adjustment.amount !== 0
+  );
+  if (forFuel.length === 0) return null;
+
+  // Only the soonest announcement matters
+  const soonest = forFuel.reduce((earliest, adjustment) =>
+    adjustment.effective_date < earliest.effective_date ? adjustment : earliest
+  );
+  const amounts = forFuel
+    .filter(
+      (adjustment) => adjustment.effective_date === soonest.effective_date
+    )
+    .map((adjustment) => adjustment.amount);
+
+  const total = amounts.reduce((sum, amount) => sum + amount, 0);
+  const direction = total >= 0 ? 'increase' : 'rollback';
+  const sameDirection = amounts
+    .filter((amount) => (direction === 'increase' ? amount > 0 : amount < 0))
+    .map(Math.abs);
+
+  return {
+    fuelType: fuel,
+    direction,
+    minAmount: Math.min(...sameDirection),
+    maxAmount: Math.max(...sameDirection),
+    effectiveAt: getAdjustmentStart(soonest),
+  };
+}
+
+/**
+ * Banner text such as "Prices go up ₱1.20/L on Diesel tomorrow — fill up today"
+ */
+export function describeAdjustment(
+  summary: AdjustmentSummary,
+  now: Date
+): string {
+  const formatAmount = (amount: number) => `₱${amount.toFixed(2)}`;
+  const amount =
+    summary.minAmount === summary.maxAmount
+      ? formatAmount(summary.maxAmount)
+      : `${formatAmount(summary.minAmount)}-${formatAmount(summary.maxAmount)}`;
+
+  // Calendar days apart in Philippine time
+  const manilaDay = (date: Date) =>
+    Math.floor((date.getTime() + MANILA_OFFSET_MS) / DAY_MS);
+  const daysAway = manilaDay(summary.effectiveAt) - manilaDay(now);
+  const when =
+    daysAway <= 0
+      ? 'today'
+      : daysAway === 1
+      ? 'tomorrow'
+      : `on ${
+          WEEKDAYS[
+            new Date(
+              summary.effectiveAt.getTime() + MANILA_OFFSET_MS
+            ).getUTCDay()
+          ]
+        }`;
+
+  return summary.direction === 'increase'
+    ? `Prices go up ${amount}/L on ${summary.fuelType} ${when} — fill up today`
+    : `Prices drop ${amount}/L on ${summary.fuelType} ${when} — wait to fill up if you can`;
+}
@@ -0,0 +1,189 @@
+// utils/priceAlerts.ts
+// Pure evaluation of price alert rules; no network or device access
+
+import { FuelPrice } from '@/core/models/FuelPrice';
+import { PriceAlertRule, PriceAlertTrigger } from '@/core/models/PriceAlert';
+import { normalizeCityName } from './areaMapping';
+import { formatCurrency, isValidPrice, normalizeFuelType } from './formatters';
+
+/**
+ * Minimal community report needed to evaluate alerts
+ */
+export interface AlertPriceReport {
+  id: string;
+  station_id: string;
+  fuel_type: string;
+  price: number;
+  reported_at: string;
+}
+
+/**
+ * Everything the evaluator looks at for one check
+ */
+export interface AlertEvaluationContext {
+  favoriteStationIds: string[];
+  stationNames: Record<string, string>;
+  // Community reports submitted since the last check
+  communityReports: AlertPriceReport[];
+  // DOE prices for the newest week and the week before it; leave empty when
+  // no new DOE week has been published since the last check
+  currentDoePrices: Pick<
+    FuelPrice,
+    'area' | 'fuel_type' | 'common_price' | 'week_of'
+  >[];
+  previousDoePrices: Pick<
+    FuelPrice,
+    'area' | 'fuel_type' | 'common_price' | 'week_of'
+  >[];
+}
+
+/**
+ * Check whether two fuel type labels refer to the same fuel
+ */
+function isSameFuelType(a: string, b: string): boolean {
+  return normalizeFuelType(a) === normalizeFuelType(b);
+}
+
+/**
+ * Average DOE common price for an area and fuel type
+ * @returns Average rounded to 2 decimals, or null if there is no valid price
+ */
+export function getAverageDoePrice(
+  prices: AlertEvaluationContext['currentDoePrices'],
+  area: string,
+  fuelType: string
+): number | null {
+  const targetArea = normalizeCityName(area).toLowerCase();
+  const values = prices
+    .filter(
+      (price) =>
+        normalizeCityName(price.area).toLowerCase() === targetArea &&
+        isSameFuelType(price.fuel_type, fuelType) &&
+        isValidPrice(price.common_price)
+    )
+    .map((price) => price.common_price);
+
+  if (values.length === 0) return null;
+
+  const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.round(average * 100) / 100;
+}
+
+/**
+ * Evaluate a "price below" rule against new community reports
+ * Only reports for favorite stations count. When several match, the
+ * cheapest one is reported so a single check produces one notification.
+ * @returns A trigger, or null if no report is under the threshold
+ */
+export function evaluatePriceBelowRule(
+  rule: PriceAlertRule,
+  context: AlertEvaluationContext
+): PriceAlertTrigger | null {
+  const favorites = new Set(context.favoriteStationIds);
+
+  const matches = context.communityReports.filter(
+    (report) =>
+      favorites.has(report.station_id) &&
+      isSameFuelType(report.fuel_type, rule.fuel_type) &&
+      isValidPrice(report.price) &&
+      report.price < rule.threshold
+  );
+
+  if (matches.length === 0) return null;
+
+  const cheapest = matches.reduce((best, report) =>
+    report.price < best.price ? report : best
+  );
+  const stationName =
+    context.stationNames[cheapest.station_id] || 'A favorite station';
+
+  return {
+    ruleId: rule.id,
+    type: rule.type,
+    fuelType: rule.fuel_type,
+    title: `${rule.fuel_type} below ${formatCurrency(rule.threshold)}`,
+    message: `${stationName} is reporting ${formatCurrency(
+      cheapest.price
+    )} for ${rule.fuel_type}.`,
+    stationId: cheapest.station_id,
+    price: cheapest.price,
+  };
+}
+
+/**
+ * Evaluate a week-over-week DOE change rule for an area
+ * @returns A trigger when the average common price moved by at least the
+ * threshold in either direction, otherwise null
+ */
+export function evaluateDoeChangeRule(
+  rule: PriceAlertRule,
+  context: AlertEvaluationContext
+): PriceAlertTrigger | null {
+  if (!rule.area) return null;
+
+  const current = getAverageDoePrice(
+    context.currentDoePrices,
+    rule.area,
+    rule.fuel_type
+  );
+  const previous = getAverageDoePrice(
+    context.previousDoePrices,
+    rule.area,
+    rule.fuel_type
+  );
+
+  if (current === null || previous === null) return null;
+
+  const change = Math.round((current - previous) * 100) / 100;
+  if (Math.abs(change) < rule.threshold) return null;
+
+  const direction = change > 0 ? 'up' : 'down';
+
+  return {
+    ruleId: rule.id,
+    type: rule.type,
+    fuelType: rule.fuel_type,
+    title: `${rule.fuel_type} ${direction} in ${rule.area}`,
+    message: `The DOE common price moved ${direction} by ${formatCurrency(
+      Math.abs(change)
+    )} to ${formatCurrency(current)} this week.`,
+    area: rule.area,
+    price: current,
+    change,
+  };
+}
+
+/**
+ * Evaluate all enabled rules
+ * @param rules The user's alert rules
+ * @param context New prices to check against
+ * @returns One trigger per rule that fired
+ */
+export function evaluateAlertRules(
+  rules: PriceAlertRule[],
+  context: AlertEvaluationContext
+): PriceAlertTrigger[] {
+  return rules
+    .filter((rule) => rule.enabled)
+    .map((rule) =>
+      rule.type === 'price_below'
+        ? evaluatePriceBelowRule(rule, context)
+        : evaluateDoeChangeRule(rule, context)
+    )
+    .filter((trigger): trigger is PriceAlertTrigger => trigger !== null);
+}
+
+/**
+ * Describe a rule for display in the alert list
+ */
+export function describeAlertRule(rule: PriceAlertRule): string {
+  if (rule.type === 'price_below') {
+    return `${
+      rule.fuel_type
+    } at a favorite station drops below ${formatCurrency(rule.threshold)}`;
+  }
+
+  return `DOE ${rule.fuel_type} in ${
+    rule.area || 'your area'
+  } moves more than ${formatCurrency(rule.threshold)} week-over-week`;
+}
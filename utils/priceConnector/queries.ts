@@ -6,27 +6,23 @@ import { FuelPrice } from '@/core/models/FuelPrice';
 
 /**
  * Get the latest week data from the fuel_prices table
- * @returns The latest week_of date or null if not found
+ * Query errors are thrown so callers can fall back to cached prices.
+ * @returns The latest week_of date or null if there are no prices
  */
 export async function getLatestWeek(): Promise<string | null> {
-  try {
-    const { data, error } = await supabase
-      .from('fuel_prices')
-      .select('week_of')
-      .order('week_of', { ascending: false })
-      .limit(1)
-      .single();
-
-    if (error || !data) {
-      console.error('Error fetching latest week:', error);
-      return null;
-    }
+  const { data, error } = await supabase
+    .from('fuel_prices')
+    .select('week_of')
+    .order('week_of', { ascending: false })
+    .limit(1)
+    .maybeSingle();
 
-    return data.week_of;
-  } catch (error) {
+  if (error) {
     console.error('Error fetching latest week:', error);
-    return null;
+    throw new Error('Failed to fetch latest week');
   }
+
+  return data?.week_of ?? null;
 }
 
 /**
@@ -55,29 +51,25 @@ export async function getPricesForWeek(weekOf: string): Promise<FuelPrice[]> {
 
 /**
  * Get NCR/Metro Manila prices for the specified week
+ * Throws on query errors, like getLatestWeek.
  * @param weekOf The week date to get prices for
  * @returns Array of fuel prices for NCR/Metro Manila
  */
 export async function getNCRPricesForWeek(
   weekOf: string
 ): Promise<FuelPrice[]> {
-  try {
-    const { data, error } = await supabase
-      .from('fuel_prices')
-      .select('*')
-      .eq('week_of', weekOf)
-      .or('area.eq.NCR,area.eq.Metro Manila,area.ilike.%City%');
-
-    if (error) {
-      console.error('Error fetching NCR prices:', error);
-      return [];
-    }
+  const { data, error } = await supabase
+    .from('fuel_prices')
+    .select('*')
+    .eq('week_of', weekOf)
+    .or('area.eq.NCR,area.eq.Metro Manila,area.ilike.%City%');
 
-    return data || [];
-  } catch (error) {
-    console.error('Error in getNCRPricesForWeek:', error);
-    return [];
+  if (error) {
+    console.error('Error fetching NCR prices:', error);
+    throw new Error('Failed to fetch NCR prices');
   }
+
+  return data || [];
 }
 
 /**
@@ -0,0 +1,153 @@
+// utils/priceConsensus.ts
+// Combines all active community reports for a station and fuel type into one
+// consensus price
+
+/**
+ * An active report with its confidence score
+ */
+export interface ConsensusReport {
+  id: string;
+  user_id: string;
+  price: number;
+  reported_at: string;
+  // Confidence from votes, recency and reputation (0-1)
+  confidence: number;
+}
+
+export interface PriceConsensus {
+  // Confidence-weighted median of the reports that are not outliers
+  price: number;
+  // Report closest to the consensus, used for voting
+  reportId: string;
+  // Newest report that went into the consensus
+  reportedAt: string;
+  reportCount: number;
+  // Distinct users behind the reports
+  reporterCount: number;
+  // Reporters whose price is within the agreement tolerance
+  agreeingCount: number;
+  // agreeingCount / reporterCount (0-1)
+  agreement: number;
+  // Range of everything reported, outliers included
+  minPrice: number;
+  maxPrice: number;
+  outlierIds: string[];
+}
+
+// Reporters needed before any report can be called an outlier
+const MIN_REPORTERS_FOR_OUTLIERS = 3;
+
+// Reports further than this fraction from the median are outliers
+const OUTLIER_FRACTION = 0.05;
+
+// Prices within this many pesos of the consensus agree with it
+const AGREEMENT_TOLERANCE = 0.5;
+
+// Reports with no confidence still count a little
+const MIN_WEIGHT = 0.01;
+
+/**
+ * Median where each value counts in proportion to its weight
+ * @returns The weighted median, or null for an empty list
+ */
+export function weightedMedian(
+  entries: { value: number; weight: number }[]
+): number | null {
+  if (entries.length === 0) return null;
+
+  const sorted = [...entries].sort((a, b) => a.value - b.value);
+  const half =
+    sorted.reduce((sum, entry) => sum + Math.max(entry.weight, 0), 0) / 2;
+
+  let cumulative = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    cumulative += Math.max(sorted[i].weight, 0);
+
+    if (cumulative > half) return sorted[i].value;
+    // Exactly half the weight on each side: split the difference
+    if (cumulative === half && i < sorted.length - 1) {
+      return (sorted[i].value + sorted[i + 1].value) / 2;
+    }
+  }
+
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * Keep only each user's newest report so one person counts once
+ */
+function latestPerReporter(reports: ConsensusReport[]): ConsensusReport[] {
+  const latest = new Map<string, ConsensusReport>();
+
+  reports.forEach((report) => {
+    const current = latest.get(report.user_id);
+    if (!current || report.reported_at > current.reported_at) {
+      latest.set(report.user_id, report);
+    }
+  });
+
+  return Array.from(latest.values());
+}
+
+function toWeighted(reports: ConsensusReport[]) {
+  return reports.map((report) => ({
+    value: report.price,
+    weight: Math.max(report.confidence, MIN_WEIGHT),
+  }));
+}
+
+/**
+ * Build the consensus price from all active reports
+ * @returns The consensus, or null if there are no reports
+ */
+export function buildPriceConsensus(
+  reports: ConsensusReport[]
+): PriceConsensus | null {
+  if (reports.length === 0) return null;
+
+  const independent = latestPerReporter(reports);
+  const initialMedian = weightedMedian(toWeighted(independent))!;
+
+  const inliers =
+    independent.length >= MIN_REPORTERS_FOR_OUTLIERS
+      ? independent.filter(
+          (report) =>
+            Math.abs(report.price - initialMedian) / initialMedian <=
+            OUTLIER_FRACTION
+        )
+      : independent;
+  const included = inliers.length > 0 ? inliers : independent;
+  const includedIds = new Set(included.map((report) => report.id));
+
+  const price = Math.round(weightedMedian(toWeighted(included))! * 100) / 100;
+
+  const representative = [...included].sort(
+    (a, b) =>
+      Math.abs(a.price - price) - Math.abs(b.price - price) ||
+      b.confidence - a.confidence
+  )[0];
+
+  const agreeingCount = independent.filter(
+    (report) => Math.abs(report.price - price) <= AGREEMENT_TOLERANCE
+  ).length;
+  const prices = reports.map((report) => report.price);
+
+  return {
+    price,
+    reportId: representative.id,
+    reportedAt: included.reduce(
+      (latest, report) =>
+        report.reported_at > latest ? report.reported_at : latest,
+      included[0].reported_at
+    ),
+    reportCount: reports.length,
+    reporterCount: independent.length,
+    agreeingCount,
+    agreement: agreeingCount / independent.length,
+    minPrice: Math.min(...prices),
+    maxPrice: Math.max(...prices),
+    outlierIds: independent
+      .filter((report) => !includedIds.has(report.id))
+      .map((report) => report.id),
+  };
+}
@@ -0,0 +1,180 @@
+// utils/priceCycle.ts
+// Weekly price-cycle boundaries and rollover rules
+// Pump prices change every Tuesday at 6 AM Philippine time, so community
+// reports are grouped into cycles that start at that moment.
+
+import { PriceCycle } from '@/core/models/PriceCycle';
+
+// Philippine time is UTC+8 all year
+const MANILA_OFFSET_MS = 8 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Tuesday, as returned by Date.getUTCDay()
+const CYCLE_START_DAY = 2;
+const CYCLE_START_HOUR = 6;
+
+export interface CycleWindow {
+  start: Date;
+  end: Date;
+}
+
+export type CycleRolloverReason = 'no_active_cycle' | 'schedule' | 'doe_import';
+
+export type CyclePlan =
+  | { action: 'none' }
+  | { action: 'record_import' }
+  | {
+      action: 'open';
+      reason: CycleRolloverReason;
+      startDate: string;
+      endDate: string;
+    };
+
+export type CycleTimelineStatus = 'past' | 'active' | 'upcoming';
+
+export interface CycleTimelineEntry {
+  key: string;
+  status: CycleTimelineStatus;
+  start_date: string;
+  end_date: string;
+  doe_import_date: string | null;
+  // Stored cycle; missing for projected upcoming cycles
+  cycle?: PriceCycle;
+}
+
+/**
+ * Latest Tuesday 6 AM (Manila) boundary at or before a time
+ */
+export function getCycleStart(date: Date): Date {
+  const manila = new Date(date.getTime() + MANILA_OFFSET_MS);
+  const daysSinceStart = (manila.getUTCDay() - CYCLE_START_DAY + 7) % 7;
+
+  let start =
+    Date.UTC(
+      manila.getUTCFullYear(),
+      manila.getUTCMonth(),
+      manila.getUTCDate() - daysSinceStart,
+      CYCLE_START_HOUR
+    ) - MANILA_OFFSET_MS;
+
+  // Tuesday before 6 AM still belongs to the previous week
+  if (start > date.getTime()) start -= WEEK_MS;
+
+  return new Date(start);
+}
+
+/**
+ * The weekly cycle window containing a time
+ */
+export function getCycleWindow(date: Date): CycleWindow {
+  const start = getCycleStart(date);
+  return { start, end: new Date(start.getTime() + WEEK_MS) };
+}
+
+/**
+ * The cycle window a DOE report week applies to
+ * @param weekOf Report date as YYYY-MM-DD
+ */
+export function getDoeWeekWindow(weekOf: string): CycleWindow {
+  // End of the report day in Manila, so a Tuesday report maps to that Tuesday
+  const endOfDay = new Date(`${weekOf}T23:59:59+08:00`);
+  return getCycleWindow(endOfDay);
+}
+
+/**
+ * Decide whether a new cycle should be opened
+ * A cycle is opened when there is none, when the active one has reached its
+ * end, or when a DOE week the active cycle does not cover is imported; in the
+ * last case the new cycle starts straight away rather than waiting for the
+ * Tuesday boundary. Importing a week older than the active cycle changes
+ * nothing.
+ * @param doeWeekOf Week of a DOE import that just happened, if any
+ */
+export function planCycleRollover(
+  activeCycle: PriceCycle | null,
+  now: Date,
+  doeWeekOf?: string
+): CyclePlan {
+  const current = getCycleWindow(now);
+  const doeWindow = doeWeekOf ? getDoeWeekWindow(doeWeekOf) : null;
+
+  // Opening for an imported week that has not started yet begins now
+  const open = (reason: CycleRolloverReason): CyclePlan => {
+    const window =
+      doeWindow && doeWindow.end.getTime() > current.end.getTime()
+        ? doeWindow
+        : current;
+    const start = Math.min(window.start.getTime(), now.getTime());
+
+    return {
+      action: 'open',
+      reason,
+      startDate: new Date(start).toISOString(),
+      endDate: window.end.toISOString(),
+    };
+  };
+
+  if (!activeCycle) return open('no_active_cycle');
+
+  const activeEnd = new Date(activeCycle.end_date).getTime();
+
+  if (activeEnd <= now.getTime()) return open('schedule');
+
+  const activeStart = new Date(activeCycle.start_date).getTime();
+
+  if (doeWindow && doeWindow.end.getTime() > activeStart) {
+    if (activeEnd < doeWindow.end.getTime()) return open('doe_import');
+    if (!activeCycle.doe_import_date) return { action: 'record_import' };
+  }
+
+  return { action: 'none' };
+}
+
+/**
+ * Stored cycles followed by projected upcoming ones, newest first
+ * @param upcomingCount How many future weekly cycles to project
+ */
+export function buildCycleTimeline(
+  cycles: PriceCycle[],
+  now: Date,
+  upcomingCount: number = 3
+): CycleTimelineEntry[] {
+  const stored: CycleTimelineEntry[] = cycles.map((cycle) => ({
+    key: cycle.id,
+    status: cycle.is_active ? 'active' : 'past',
+    start_date: cycle.start_date,
+    end_date: cycle.end_date,
+    doe_import_date: cycle.doe_import_date,
+    cycle,
+  }));
+
+  // Upcoming cycles follow the latest stored end, or the current week
+  const latestEnd = cycles.reduce(
+    (latest, cycle) => Math.max(latest, new Date(cycle.end_date).getTime()),
+    getCycleWindow(now).end.getTime()
+  );
+  let nextStart = getCycleStart(new Date(latestEnd)).getTime();
+  if (nextStart < latestEnd) nextStart += WEEK_MS;
+
+  const upcoming: CycleTimelineEntry[] = [];
+  for (let i = 0; i < upcomingCount; i++) {
+    const start = new Date(nextStart + i * WEEK_MS);
+    const end = new Date(start.getTime() + WEEK_MS);
+    upcoming.push({
+      key: `upcoming-${start.toISOString()}`,
+      status: 'upcoming',
+      start_date: start.toISOString(),
+      end_date: end.toISOString(),
+      doe_import_date: null,
+    });
+  }
+
+  return [
+    ...upcoming.reverse(),
+    ...stored.sort(
+      (a, b) =>
+        new Date(b.start_date).getTime() - new Date(a.start_date).getTime()
+    ),
+  ];
+}
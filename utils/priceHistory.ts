@@ -0,0 +1,186 @@
+// utils/priceHistory.ts
+// Builds weekly price trends from DOE history and community reports
+
+import { FuelPrice } from '@/core/models/FuelPrice';
+import { isValidPrice, normalizeFuelType } from './formatters';
+import { groupPricesByWeek } from './priceConnector/transformers';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MS_PER_WEEK = 7 * MS_PER_DAY;
+
+// DOE weeks occasionally shift by a day or two without a week being missed
+const WEEK_TOLERANCE_MS = 3 * MS_PER_DAY;
+
+/**
+ * Selectable chart ranges, in weeks
+ */
+export const TREND_RANGES = [4, 12, 52] as const;
+export type TrendRange = (typeof TREND_RANGES)[number];
+
+/**
+ * Minimal community report needed for a trend
+ */
+export interface TrendReport {
+  price: number;
+  reported_at: string;
+}
+
+/**
+ * One week of a price trend
+ */
+export interface PriceTrendPoint {
+  weekOf: string;
+  minPrice: number | null;
+  commonPrice: number | null;
+  maxPrice: number | null;
+  // Median of community reports submitted during this DOE week
+  communityMedian: number | null;
+  communityCount: number;
+  // Change in common price from the previous point
+  change: number | null;
+}
+
+/**
+ * Median of a list of numbers
+ * @returns The median, or null for an empty list
+ */
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+function roundPrice(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 100) / 100;
+}
+
+/**
+ * Build a weekly trend, oldest week first
+ * Multiple DOE rows for a week (e.g. several brands) are combined into the
+ * lowest minimum, highest maximum and median common price. Community
+ * reports are assigned to the DOE week they were submitted in.
+ * @param doePrices DOE prices for the area
+ * @param reports Community reports for the same fuel type
+ * @param fuelType Fuel type to include
+ * @returns Trend points sorted by week ascending
+ */
+export function buildPriceTrend(
+  doePrices: FuelPrice[],
+  reports: TrendReport[],
+  fuelType: string
+): PriceTrendPoint[] {
+  const normalizedType = normalizeFuelType(fuelType);
+  const pricesByWeek = groupPricesByWeek(
+    doePrices.filter(
+      (price) => normalizeFuelType(price.fuel_type) === normalizedType
+    )
+  );
+
+  const weeks = Array.from(pricesByWeek.keys()).sort();
+  const weekStarts = weeks.map((week) => new Date(week).getTime());
+  const trendEnd =
+    weekStarts.length > 0 ? weekStarts[weekStarts.length - 1] + MS_PER_WEEK : 0;
+
+  // Bucket reports by the latest week that started before them
+  const reportsByWeek: number[][] = weeks.map(() => []);
+  reports.forEach((report) => {
+    const reportedAt = new Date(report.reported_at).getTime();
+    if (!isValidPrice(report.price) || reportedAt >= trendEnd) return;
+
+    for (let i = weeks.length - 1; i >= 0; i--) {
+      if (reportedAt >= weekStarts[i]) {
+        reportsByWeek[i].push(report.price);
+        return;
+      }
+    }
+  });
+
+  let previousCommon: number | null = null;
+
+  return weeks.map((week, index) => {
+    const weekPrices = pricesByWeek.get(week) || [];
+
+    const mins = weekPrices
+      .map((price) => price.min_price)
+      .filter((value) => isValidPrice(value));
+    const maxes = weekPrices
+      .map((price) => price.max_price)
+      .filter((value) => isValidPrice(value));
+    const commons = weekPrices
+      .map((price) => price.common_price)
+      .filter((value) => isValidPrice(value));
+
+    const commonPrice = roundPrice(median(commons));
+    const change =
+      commonPrice !== null && previousCommon !== null
+        ? roundPrice(commonPrice - previousCommon)
+        : null;
+
+    if (commonPrice !== null) previousCommon = commonPrice;
+
+    return {
+      weekOf: week,
+      minPrice: mins.length > 0 ? Math.min(...mins) : null,
+      commonPrice,
+      maxPrice: maxes.length > 0 ? Math.max(...maxes) : null,
+      communityMedian: roundPrice(median(reportsByWeek[index])),
+      communityCount: reportsByWeek[index].length,
+      change,
+    };
+  });
+}
+
+/**
+ * Lowest and highest value across a trend, for scaling a chart
+ * @returns The range, or null if the trend has no prices
+ */
+export function getTrendPriceRange(
+  points: PriceTrendPoint[]
+): { low: number; high: number } | null {
+  const values = points.flatMap((point) =>
+    [
+      point.minPrice,
+      point.commonPrice,
+      point.maxPrice,
+      point.communityMedian,
+    ].filter((value): value is number => value !== null)
+  );
+
+  if (values.length === 0) return null;
+
+  return { low: Math.min(...values), high: Math.max(...values) };
+}
+
+/**
+ * Find weeks missing between published DOE weeks
+ * Only gaps between the first and last week are reported, since data before
+ * the first week may simply not have been imported.
+ * @param weekOfs Published week_of dates (YYYY-MM-DD), in any order
+ * @returns Expected week_of dates with no data, oldest first
+ */
+export function findMissingWeeks(weekOfs: string[]): string[] {
+  const times = Array.from(new Set(weekOfs))
+    .map((week) => new Date(week).getTime())
+    .filter((time) => !isNaN(time))
+    .sort((a, b) => a - b);
+
+  const missing: string[] = [];
+
+  for (let i = 1; i < times.length; i++) {
+    // Step a week at a time until within tolerance of the next published week
+    for (
+      let expected = times[i - 1] + MS_PER_WEEK;
+      times[i] - expected > WEEK_TOLERANCE_MS;
+      expected += MS_PER_WEEK
+    ) {
+      missing.push(new Date(expected).toISOString().split('T')[0]);
+    }
+  }
+
+  return missing;
+}
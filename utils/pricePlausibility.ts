@@ -0,0 +1,140 @@
+// utils/pricePlausibility.ts
+// Checks a community price submission against DOE ranges and other reports
+
+import { formatCurrency } from './formatters';
+import { median } from './priceHistory';
+
+export type PlausibilityVerdict = 'accept' | 'warn' | 'reject';
+
+export interface PlausibilityResult {
+  verdict: PlausibilityVerdict;
+  // Human readable explanations, empty when accepted
+  reasons: string[];
+}
+
+/**
+ * Reference prices a submission is compared with; missing data is skipped
+ */
+export interface PlausibilityContext {
+  fuelType: string;
+  // DOE range for the station's brand, area and fuel type
+  doeRange: { minPrice: number; maxPrice: number } | null;
+  // Recent community reports for the same station and fuel type
+  communityPrices: number[];
+  // Latest reports from the nearest stations of the same brand
+  nearbyBrandPrices: number[];
+}
+
+// No fuel sold in the Philippines is priced outside these bounds
+export const MIN_PLAUSIBLE_PRICE = 20;
+export const MAX_PLAUSIBLE_PRICE = 150;
+
+// Pump prices move a little between DOE publications
+const DOE_RANGE_TOLERANCE = 2;
+
+// Beyond this fraction outside the DOE range a price is rejected
+const DOE_REJECT_MARGIN = 0.2;
+
+// Deviation from other reports that asks the user to double-check
+const PEER_WARN_DEVIATION = 0.08;
+
+// Fewer peer reports than this are too noisy to compare against
+const MIN_PEER_REPORTS = 2;
+
+const VERDICT_SEVERITY: Record<PlausibilityVerdict, number> = {
+  accept: 0,
+  warn: 1,
+  reject: 2,
+};
+
+/**
+ * Compare a price with the median of other reports
+ * @returns A reason if the price deviates too far, otherwise null
+ */
+function checkAgainstPeers(
+  price: number,
+  peerPrices: number[],
+  description: string
+): string | null {
+  if (peerPrices.length < MIN_PEER_REPORTS) return null;
+
+  const peerMedian = median(peerPrices)!;
+  const deviation = (price - peerMedian) / peerMedian;
+
+  if (Math.abs(deviation) <= PEER_WARN_DEVIATION) return null;
+
+  const percent = Math.round(Math.abs(deviation) * 100);
+  return `${formatCurrency(price)} is ${percent}% ${
+    deviation > 0 ? 'above' : 'below'
+  } ${description} (${formatCurrency(peerMedian)})`;
+}
+
+/**
+ * Decide whether a submitted price is believable
+ * - Outside the absolute bounds or far outside the DOE range: reject
+ * - Slightly outside the DOE range, or far from the community or
+ *   same-brand median: warn
+ * @param price Submitted price
+ * @param context Reference prices to compare with
+ */
+export function checkPricePlausibility(
+  price: number,
+  context: PlausibilityContext
+): PlausibilityResult {
+  if (!(price > 0)) {
+    return { verdict: 'reject', reasons: ['Please enter a valid price'] };
+  }
+
+  if (price < MIN_PLAUSIBLE_PRICE || price > MAX_PLAUSIBLE_PRICE) {
+    return {
+      verdict: 'reject',
+      reasons: [
+        `${formatCurrency(price)} is outside the possible range of ` +
+          `${formatCurrency(MIN_PLAUSIBLE_PRICE)} to ` +
+          `${formatCurrency(MAX_PLAUSIBLE_PRICE)}`,
+      ],
+    };
+  }
+
+  let verdict: PlausibilityVerdict = 'accept';
+  const reasons: string[] = [];
+
+  const flag = (level: PlausibilityVerdict, reason: string) => {
+    if (VERDICT_SEVERITY[level] > VERDICT_SEVERITY[verdict]) verdict = level;
+    reasons.push(reason);
+  };
+
+  if (context.doeRange) {
+    const { minPrice, maxPrice } = context.doeRange;
+    const doeText =
+      `the DOE range of ${formatCurrency(minPrice)} to ` +
+      `${formatCurrency(maxPrice)} for ${context.fuelType}`;
+
+    if (price < minPrice * (1 - DOE_REJECT_MARGIN)) {
+      flag('reject', `${formatCurrency(price)} is far below ${doeText}`);
+    } else if (price > maxPrice * (1 + DOE_REJECT_MARGIN)) {
+      flag('reject', `${formatCurrency(price)} is far above ${doeText}`);
+    } else if (
+      price < minPrice - DOE_RANGE_TOLERANCE ||
+      price > maxPrice + DOE_RANGE_TOLERANCE
+    ) {
+      flag('warn', `${formatCurrency(price)} is outside ${doeText}`);
+    }
+  }
+
+  const communityReason = checkAgainstPeers(
+    price,
+    context.communityPrices,
+    'other recent reports for this station'
+  );
+  if (communityReason) flag('warn', communityReason);
+
+  const nearbyReason = checkAgainstPeers(
+    price,
+    context.nearbyBrandPrices,
+    'nearby stations of the same brand'
+  );
+  if (nearbyReason) flag('warn', nearbyReason);
+
+  return { verdict, reasons };
+}
@@ -386,54 +386,55 @@ export const PriceStationConnector = {
    * @param latitude Latitude coordinate
    * @param longitude Longitude coordinate
    * @param stations Nearby stations to match with prices
+   * @param maxResults Matches to keep per fuel type
    * @returns Object with fuel types as keys and best price matches as values
+   * @throws If the DOE prices can't be loaded
    */
   async getBestPricesForLocation(
     latitude: number,
     longitude: number,
-    stations: GasStation[]
+    stations: GasStation[],
+    maxResults: number = 5
   ): Promise<Record<string, PriceMatchResult[]>> {
-    try {
-      // Get latest week
-      const latestWeek = await getLatestWeek();
-      if (!latestWeek) {
-        return {};
-      }
+    // Get latest week
+    const latestWeek = await getLatestWeek();
+    if (!latestWeek) {
+      return {};
+    }
 
-      // Get prices for NCR/Metro Manila
-      const prices = await getNCRPricesForWeek(latestWeek);
-      if (prices.length === 0) {
-        return {};
-      }
+    // Get prices for NCR/Metro Manila
+    const prices = await getNCRPricesForWeek(latestWeek);
+    if (prices.length === 0) {
+      return {};
+    }
 
-      // Group stations by city for efficient lookup
-      const stationsByCity = groupStationsByCity(stations);
+    // Group stations by city for efficient lookup
+    const stationsByCity = groupStationsByCity(stations);
 
-      // Process prices and match with stations
-      const normalizedPricesByFuelType = await this.processPricesForLocation(
-        prices,
-        stations,
-        stationsByCity
-      );
+    // Process prices and match with stations
+    const normalizedPricesByFuelType = await this.processPricesForLocation(
+      prices,
+      stations,
+      stationsByCity
+    );
 
-      // Process each fuel type to limit results
-      const bestPricesByFuelType: Record<string, PriceMatchResult[]> = {};
+    // Process each fuel type to limit results
+    const bestPricesByFuelType: Record<string, PriceMatchResult[]> = {};
 
-      Object.entries(normalizedPricesByFuelType).forEach(
-        ([fuelType, matches]) => {
-          bestPricesByFuelType[fuelType] = processMatchesForFuelType(matches);
+    Object.entries(normalizedPricesByFuelType).forEach(
+      ([fuelType, matches]) => {
+        bestPricesByFuelType[fuelType] = processMatchesForFuelType(
+          matches,
+          maxResults
+        );
 
-          console.log(
-            `Normalized ${fuelType}: ${matches.length} matches → ${bestPricesByFuelType[fuelType].length} results`
-          );
-        }
-      );
+        console.log(
+          `Normalized ${fuelType}: ${matches.length} matches → ${bestPricesByFuelType[fuelType].length} results`
+        );
+      }
+    );
 
-      return bestPricesByFuelType;
-    } catch (error) {
-      console.error('Error in getBestPricesForLocation:', error);
-      return {};
-    }
+    return bestPricesByFuelType;
   },
 
   /**
@@ -3,18 +3,22 @@ import { calculateBrandSimilarity } from './brandNormalization';
 import { calculateAreaCityMatchConfidence } from './areaMapping';
 import { FuelPrice } from '@/core/models/FuelPrice';
 import { GasStation } from '@/core/models/GasStation';
+import { applyReputation } from './reputation';
 
 /**
  * Calculate confidence score for a price report
  * @param upvotes Number of upvotes
  * @param downvotes Number of downvotes
  * @param reportedAt When the price was reported
+ * @param reporterReputation Reporter's reputation (0-100); omit to score on
+ * votes and recency alone
  * @returns Confidence score (0-1)
  */
 export function calculatePriceConfidence(
   upvotes: number,
   downvotes: number,
-  reportedAt: string
+  reportedAt: string,
+  reporterReputation?: number
 ): number {
   // Calculate vote ratio (with a minimum to avoid division by zero)
   const totalVotes = upvotes + downvotes;
@@ -30,7 +34,11 @@ export function calculatePriceConfidence(
   const voteVolume = Math.min(1, totalVotes / 10); // Max out at 10 votes
 
   // Combined weight (adjust multipliers as needed)
-  return voteRatio * 0.5 + recencyScore * 0.3 + voteVolume * 0.2;
+  const confidence = voteRatio * 0.5 + recencyScore * 0.3 + voteVolume * 0.2;
+
+  return reporterReputation === undefined
+    ? confidence
+    : applyReputation(confidence, reporterReputation);
 }
 
 /**
@@ -0,0 +1,51 @@
+// utils/reportPhoto.ts
+// Sizing, naming and scoring rules for photos attached to price reports
+
+// Longest side of an uploaded photo; enough to read a pump display
+export const MAX_PHOTO_DIMENSION = 1280;
+
+// JPEG quality used when compressing (0-1)
+export const PHOTO_COMPRESSION = 0.6;
+
+// Confidence added to reports that come with a photo
+const PHOTO_CONFIDENCE_BOOST = 0.1;
+
+/**
+ * Size to scale a photo to so its longest side fits maxDimension
+ * @returns The new size, or null if the photo is already small enough
+ */
+export function getPhotoResize(
+  width: number,
+  height: number,
+  maxDimension: number = MAX_PHOTO_DIMENSION
+): { width: number; height: number } | null {
+  const longest = Math.max(width, height);
+  if (!longest || longest <= maxDimension) return null;
+
+  const scale = maxDimension / longest;
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale),
+  };
+}
+
+/**
+ * Storage path for a report's photo
+ */
+export function getReportPhotoPath(reportId: string): string {
+  return `reports/${reportId}.jpg`;
+}
+
+/**
+ * Raise a report's confidence when a photo backs it up
+ * @param confidence Confidence before the photo is considered (0-1)
+ * @returns Adjusted confidence (0-1)
+ */
+export function applyPhotoEvidence(
+  confidence: number,
+  hasPhoto: boolean
+): number {
+  return hasPhoto
+    ? Math.min(1, confidence + PHOTO_CONFIDENCE_BOOST)
+    : confidence;
+}
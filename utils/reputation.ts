@@ -0,0 +1,53 @@
+// utils/reputation.ts
+// Reporter reputation and how it weighs into report confidence
+
+/**
+ * A reporter's score with how their reports held up
+ * Computed by reputation_summary in the database, which holds the rules.
+ */
+export interface ReputationSummary {
+  score: number;
+  reportCount: number;
+  confirmedCount: number;
+  disputedCount: number;
+}
+
+export type ReputationLevel = 'New' | 'Trusted' | 'Established' | 'Low';
+
+// Every account starts in the middle of the 0-100 scale
+export const INITIAL_REPUTATION = 50;
+const MAX_REPUTATION = 100;
+
+// Share of a report's confidence that comes from its reporter
+const REPUTATION_CONFIDENCE_WEIGHT = 0.2;
+
+// Reports needed before a reputation is shown as more than "New"
+const MIN_REPORTS_FOR_LEVEL = 3;
+
+/**
+ * Blend a report's confidence with its reporter's reputation
+ * @param confidence Confidence from votes and recency (0-1)
+ * @param reputation Reporter reputation (0-100)
+ * @returns Adjusted confidence (0-1)
+ */
+export function applyReputation(
+  confidence: number,
+  reputation: number = INITIAL_REPUTATION
+): number {
+  return (
+    confidence * (1 - REPUTATION_CONFIDENCE_WEIGHT) +
+    (reputation / MAX_REPUTATION) * REPUTATION_CONFIDENCE_WEIGHT
+  );
+}
+
+/**
+ * Label for a reputation score
+ */
+export function getReputationLevel(
+  summary: ReputationSummary
+): ReputationLevel {
+  if (summary.reportCount < MIN_REPORTS_FOR_LEVEL) return 'New';
+  if (summary.score >= 75) return 'Trusted';
+  if (summary.score >= 40) return 'Established';
+  return 'Low';
+}
@@ -0,0 +1,197 @@
+// utils/route.ts
+// Corridor search along a driving route
+import { Coordinates } from '@/core/interfaces/ILocationService';
+import {
+  BoundingBox,
+  calculateDistance,
+  getBoundingBox,
+  KM_PER_DEGREE_LATITUDE,
+} from './geo';
+import { isValidPrice } from './formatters';
+
+/**
+ * Where a point sits relative to a route
+ */
+export interface RoutePosition {
+  // Shortest distance from the point to the route, in kilometers
+  distanceFromRoute: number;
+  // Kilometers from the start of the route to the nearest point on it
+  distanceAlongRoute: number;
+}
+
+/**
+ * Decode an encoded polyline, as returned by the Google Directions API
+ * @param encoded Polyline string using the precision-5 algorithm
+ * @returns Route points in order
+ */
+export function decodePolyline(encoded: string): Coordinates[] {
+  const points: Coordinates[] = [];
+  let index = 0;
+  let latitude = 0;
+  let longitude = 0;
+
+  const readValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+
+    do {
+      if (index >= encoded.length) {
+        throw new Error('Invalid encoded polyline');
+      }
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    latitude += readValue();
+    longitude += readValue();
+    points.push({ latitude: latitude / 1e5, longitude: longitude / 1e5 });
+  }
+
+  return points;
+}
+
+/**
+ * Total length of a route in kilometers
+ */
+export function getRouteLength(path: Coordinates[]): number {
+  let length = 0;
+  for (let i = 1; i < path.length; i++) {
+    length += calculateDistance(path[i - 1], path[i]);
+  }
+  return length;
+}
+
+/**
+ * Find where a point sits relative to a route
+ * Each segment is short enough to treat as flat, so the point is projected
+ * onto it in a local kilometer grid.
+ */
+export function locateOnRoute(
+  point: Coordinates,
+  path: Coordinates[]
+): RoutePosition {
+  if (path.length === 0) {
+    return { distanceFromRoute: Infinity, distanceAlongRoute: 0 };
+  }
+
+  if (path.length === 1) {
+    return {
+      distanceFromRoute: calculateDistance(point, path[0]),
+      distanceAlongRoute: 0,
+    };
+  }
+
+  let best: RoutePosition = {
+    distanceFromRoute: Infinity,
+    distanceAlongRoute: 0,
+  };
+  let travelled = 0;
+
+  for (let i = 1; i < path.length; i++) {
+    const start = path[i - 1];
+    const end = path[i];
+    const segmentLength = calculateDistance(start, end);
+
+    // Local grid in kilometers with the segment start at the origin
+    const kmPerDegreeLongitude =
+      KM_PER_DEGREE_LATITUDE * Math.cos((start.latitude * Math.PI) / 180);
+    const toGrid = (coordinates: Coordinates) => ({
+      x: (coordinates.longitude - start.longitude) * kmPerDegreeLongitude,
+      y: (coordinates.latitude - start.latitude) * KM_PER_DEGREE_LATITUDE,
+    });
+
+    const segment = toGrid(end);
+    const target = toGrid(point);
+    const lengthSquared = segment.x * segment.x + segment.y * segment.y;
+
+    // Fraction of the way along the segment, clamped to its ends
+    const fraction =
+      lengthSquared === 0
+        ? 0
+        : Math.max(
+            0,
+            Math.min(
+              1,
+              (target.x * segment.x + target.y * segment.y) / lengthSquared
+            )
+          );
+
+    const distanceFromRoute = Math.hypot(
+      target.x - segment.x * fraction,
+      target.y - segment.y * fraction
+    );
+
+    if (distanceFromRoute < best.distanceFromRoute) {
+      best = {
+        distanceFromRoute,
+        distanceAlongRoute: travelled + segmentLength * fraction,
+      };
+    }
+
+    travelled += segmentLength;
+  }
+
+  return best;
+}
+
+/**
+ * Bounding box around a route widened by the corridor
+ * Used to narrow a database query before the exact corridor check.
+ */
+export function getRouteBoundingBox(
+  path: Coordinates[],
+  corridorKm: number
+): BoundingBox {
+  const boxes = path.map((point) => getBoundingBox(point, corridorKm));
+
+  return {
+    north: Math.max(...boxes.map((box) => box.north)),
+    south: Math.min(...boxes.map((box) => box.south)),
+    east: Math.max(...boxes.map((box) => box.east)),
+    west: Math.min(...boxes.map((box) => box.west)),
+  };
+}
+
+/**
+ * Keep places within a corridor of a route, in the order they are passed
+ * @param corridorKm Maximum distance from the route in kilometers
+ */
+export function findAlongRoute<T extends { coordinates: Coordinates }>(
+  places: T[],
+  path: Coordinates[],
+  corridorKm: number
+): (T & RoutePosition)[] {
+  return places
+    .map((place) => ({ ...place, ...locateOnRoute(place.coordinates, path) }))
+    .filter((place) => place.distanceFromRoute <= corridorKm)
+    .sort((a, b) => a.distanceAlongRoute - b.distanceAlongRoute);
+}
+
+/**
+ * Rank stations on a route by price, then by how soon they are reached
+ * Stations without a valid price follow in route order.
+ */
+export function rankRouteStations<
+  T extends { price: number | null; distanceAlongRoute: number }
+>(stations: T[]): T[] {
+  return [...stations].sort((a, b) => {
+    const aValid = isValidPrice(a.price);
+    const bValid = isValidPrice(b.price);
+
+    if (aValid !== bValid) {
+      return aValid ? -1 : 1;
+    }
+
+    if (aValid && bValid && a.price !== b.price) {
+      return (a.price as number) - (b.price as number);
+    }
+
+    return a.distanceAlongRoute - b.distanceAlongRoute;
+  });
+}
@@ -0,0 +1,255 @@
+// utils/stationDuplicates.ts
+// Finds stations imported twice under slightly different names; no network
+// or device access
+
+import { GasStation } from '@/core/models/GasStation';
+import {
+  BRAND_ALIASES,
+  calculateBrandSimilarity,
+  normalizeBrandName,
+} from './brandNormalization';
+import { calculateDistance, KM_PER_DEGREE_LATITUDE } from './geo';
+
+type DuplicateStationInput = Pick<GasStation, 'name' | 'brand' | 'coordinates'>;
+
+/**
+ * A pair of stations that are probably the same place
+ */
+export interface DuplicateCandidate<T> {
+  first: T;
+  second: T;
+  // Weighted score from distance, brand and name (0-1)
+  score: number;
+  distanceKm: number;
+  nameSimilarity: number;
+}
+
+// Stations further apart than this are never duplicates
+export const MAX_DUPLICATE_DISTANCE_KM = 0.2;
+
+// Pairs scoring at least this are shown to admins as likely duplicates
+export const DUPLICATE_SCORE_THRESHOLD = 0.7;
+
+// Stations with the same name this close are skipped on import
+export const EXACT_DUPLICATE_DISTANCE_KM = 0.05;
+
+// Name tokens at least this similar count as the same word, e.g. typos
+const TOKEN_MATCH_SIMILARITY = 0.8;
+
+// How much each signal counts towards the score
+const DISTANCE_WEIGHT = 0.3;
+const BRAND_WEIGHT = 0.2;
+const NAME_WEIGHT = 0.5;
+
+// Words that say nothing about which branch a station is
+const GENERIC_NAME_WORDS = [
+  'gas',
+  'gasoline',
+  'station',
+  'service',
+  'services',
+  'filling',
+  'fuel',
+  'fuels',
+  'branch',
+  'inc',
+  'corp',
+  'corporation',
+  'co',
+];
+
+/**
+ * Similarity of two strings from their edit distance (0-1)
+ */
+export function stringSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+
+  // Single-row Levenshtein distance
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / longest;
+}
+
+/**
+ * Words of a station name that identify the branch
+ * Punctuation, the brand and its aliases, and generic words such as
+ * "station" are dropped, so "Petron - EDSA Kamuning" gives
+ * ["edsa", "kamuning"].
+ */
+export function getNameTokens(name: string, brand: string): string[] {
+  const standardBrand = normalizeBrandName(brand);
+  const brandWords = [
+    brand,
+    standardBrand,
+    ...(BRAND_ALIASES[standardBrand] || []),
+  ].flatMap((value) => value.toLowerCase().split(/\s+/));
+
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(
+      (token) =>
+        token.length > 0 &&
+        !brandWords.includes(token) &&
+        !GENERIC_NAME_WORDS.includes(token)
+    );
+}
+
+/**
+ * How alike two station names are once brand and generic words are dropped
+ * (0-1). Every word of the shorter name is matched to its closest word in
+ * the longer one, so a name that only adds the street still matches.
+ */
+export function getNameSimilarity(
+  first: Pick<GasStation, 'name' | 'brand'>,
+  second: Pick<GasStation, 'name' | 'brand'>
+): number {
+  const firstTokens = getNameTokens(first.name, first.brand);
+  const secondTokens = getNameTokens(second.name, second.brand);
+
+  // A name that is only the brand says nothing either way
+  if (firstTokens.length === 0 && secondTokens.length === 0) return 1;
+  if (firstTokens.length === 0 || secondTokens.length === 0) return 0.5;
+
+  const [shorter, longer] =
+    firstTokens.length <= secondTokens.length
+      ? [firstTokens, secondTokens]
+      : [secondTokens, firstTokens];
+
+  const tokenScore =
+    shorter.reduce((sum, token) => {
+      const best = Math.max(
+        ...longer.map((other) => stringSimilarity(token, other))
+      );
+      return sum + (best >= TOKEN_MATCH_SIMILARITY ? best : 0);
+    }, 0) / shorter.length;
+
+  return Math.max(
+    tokenScore,
+    stringSimilarity(firstTokens.join(' '), secondTokens.join(' '))
+  );
+}
+
+/**
+ * Score how likely two stations are the same place
+ * @returns The candidate pair, or null if they are too far apart or belong
+ * to different brands
+ */
+export function scoreDuplicatePair<T extends DuplicateStationInput>(
+  first: T,
+  second: T
+): DuplicateCandidate<T> | null {
+  const distanceKm = calculateDistance(first.coordinates, second.coordinates);
+  if (distanceKm > MAX_DUPLICATE_DISTANCE_KM) return null;
+
+  const brandSimilarity = calculateBrandSimilarity(first.brand, second.brand);
+  if (brandSimilarity === 0) return null;
+
+  const nameSimilarity = getNameSimilarity(first, second);
+  const score =
+    (1 - distanceKm / MAX_DUPLICATE_DISTANCE_KM) * DISTANCE_WEIGHT +
+    brandSimilarity * BRAND_WEIGHT +
+    nameSimilarity * NAME_WEIGHT;
+
+  return {
+    first,
+    second,
+    score: Math.round(score * 100) / 100,
+    distanceKm,
+    nameSimilarity,
+  };
+}
+
+/**
+ * Whether two stations are certainly the same place
+ * Only the same brand, a few steps apart, with the same branch words
+ * counts. Names that merely look alike, e.g. "Shell EDSA Northbound" and
+ * "Shell EDSA Southbound", are left for an admin to review.
+ */
+export function isExactDuplicate(
+  first: DuplicateStationInput,
+  second: DuplicateStationInput
+): boolean {
+  if (
+    calculateDistance(first.coordinates, second.coordinates) >
+    EXACT_DUPLICATE_DISTANCE_KM
+  ) {
+    return false;
+  }
+  if (calculateBrandSimilarity(first.brand, second.brand) !== 1) return false;
+
+  const firstTokens = getNameTokens(first.name, first.brand).sort();
+  const secondTokens = getNameTokens(second.name, second.brand).sort();
+  return firstTokens.join(' ') === secondTokens.join(' ');
+}
+
+/**
+ * The existing station a new one certainly duplicates, if any
+ * Fuzzy matches are not returned; they come up in findDuplicateCandidates
+ * once both stations are saved.
+ */
+export function findDuplicateOf<T extends DuplicateStationInput>(
+  station: DuplicateStationInput,
+  existing: T[]
+): T | null {
+  return (
+    existing.find((candidate) => isExactDuplicate(station, candidate)) ?? null
+  );
+}
+
+/**
+ * Key for a pair of stations that is the same in either order
+ */
+export function getPairKey(firstId: string, secondId: string): string {
+  return [firstId, secondId].sort().join(':');
+}
+
+/**
+ * Find likely duplicate pairs among stations, best match first
+ * Stations are swept in latitude order so only neighbours are compared.
+ * @param dismissedKeys Pair keys an admin marked as different stations
+ */
+export function findDuplicateCandidates<
+  T extends DuplicateStationInput & { id: string }
+>(stations: T[], dismissedKeys: string[] = []): DuplicateCandidate<T>[] {
+  const dismissed = new Set(dismissedKeys);
+  const sorted = [...stations].sort(
+    (a, b) => a.coordinates.latitude - b.coordinates.latitude
+  );
+  const latitudeWindow = MAX_DUPLICATE_DISTANCE_KM / KM_PER_DEGREE_LATITUDE;
+  const candidates: DuplicateCandidate<T>[] = [];
+
+  sorted.forEach((station, index) => {
+    for (let j = index + 1; j < sorted.length; j++) {
+      const other = sorted[j];
+      if (
+        other.coordinates.latitude - station.coordinates.latitude >
+        latitudeWindow
+      ) {
+        break;
+      }
+      if (dismissed.has(getPairKey(station.id, other.id))) continue;
+
+      const pair = scoreDuplicatePair(station, other);
+      if (pair && pair.score >= DUPLICATE_SCORE_THRESHOLD) {
+        candidates.push(pair);
+      }
+    }
+  });
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,133 @@
+// utils/stationReports.ts
+// Crowd-reported closures and out-of-stock fuel; no network or device access
+
+import { GasStation } from '@/core/models/GasStation';
+import { StationReport, StationReportType } from '@/core/models/StationReport';
+import { normalizeFuelType } from './formatters';
+
+type StationStatus = GasStation['status'];
+
+// Hours a report stays active; fuel deliveries come quickly, closures last
+export const STATION_REPORT_VALIDITY_HOURS: Record<StationReportType, number> =
+  {
+    out_of_stock: 12,
+    temporary_closed: 24,
+    permanently_closed: 7 * 24,
+  };
+
+// Upvotes, the reporter's own included, before a report is trusted
+export const MIN_REPORT_CONFIRMATIONS = 2;
+
+export const STATION_REPORT_LABELS: Record<StationReportType, string> = {
+  out_of_stock: 'Out of fuel',
+  temporary_closed: 'Temporarily closed',
+  permanently_closed: 'Permanently closed',
+};
+
+/**
+ * When a new report of a type stops counting
+ */
+export function getReportExpiry(
+  reportType: StationReportType,
+  reportedAt: string
+): string {
+  const expiresAt = new Date(reportedAt);
+  expiresAt.setHours(
+    expiresAt.getHours() + STATION_REPORT_VALIDITY_HOURS[reportType]
+  );
+  return expiresAt.toISOString();
+}
+
+/**
+ * Whether a report has not expired yet
+ */
+export function isReportActive(
+  report: Pick<StationReport, 'expires_at'>,
+  now: Date = new Date()
+): boolean {
+  return new Date(report.expires_at).getTime() > now.getTime();
+}
+
+/**
+ * Whether enough users confirmed a report, and more confirmed than disputed
+ */
+export function isReportConfirmed(
+  report: Pick<StationReport, 'upvotes' | 'downvotes' | 'expires_at'>,
+  now: Date = new Date()
+): boolean {
+  return (
+    isReportActive(report, now) &&
+    report.upvotes >= MIN_REPORT_CONFIRMATIONS &&
+    report.upvotes > report.downvotes
+  );
+}
+
+/**
+ * Status to show for a station once confirmed reports are counted
+ * A confirmed permanent closure wins over a temporary one. Reports only
+ * ever close a station; an imported closure stays until the next import.
+ * @returns The reported status, or null if no confirmed closure overrides it
+ */
+export function getReportedStatus(
+  reports: StationReport[],
+  now: Date = new Date()
+): StationStatus | null {
+  const confirmed = reports.filter((report) => isReportConfirmed(report, now));
+
+  if (confirmed.some((report) => report.report_type === 'permanently_closed')) {
+    return 'permanently_closed';
+  }
+  if (confirmed.some((report) => report.report_type === 'temporary_closed')) {
+    return 'temporary_closed';
+  }
+  return null;
+}
+
+/**
+ * Normalized fuel types with a confirmed out-of-stock report, per station
+ */
+export function getOutOfStockByStation(
+  reports: StationReport[],
+  now: Date = new Date()
+): Record<string, string[]> {
+  const outOfStock: Record<string, string[]> = {};
+
+  reports
+    .filter(
+      (report) =>
+        report.report_type === 'out_of_stock' &&
+        report.fuel_type &&
+        isReportConfirmed(report, now)
+    )
+    .forEach((report) => {
+      const fuelTypes =
+        outOfStock[report.station_id] || (outOfStock[report.station_id] = []);
+      const fuelType = normalizeFuelType(report.fuel_type as string);
+      if (!fuelTypes.includes(fuelType)) fuelTypes.push(fuelType);
+    });
+
+  return outOfStock;
+}
+
+/**
+ * Whether a station is confirmed out of a fuel
+ */
+export function isOutOfStock(
+  outOfStock: Record<string, string[]>,
+  stationId: string,
+  fuelType: string
+): boolean {
+  return (outOfStock[stationId] || []).includes(normalizeFuelType(fuelType));
+}
+
+/**
+ * Short description of a report, e.g. "Out of fuel: Diesel"
+ */
+export function describeStationReport(
+  report: Pick<StationReport, 'report_type' | 'fuel_type'>
+): string {
+  const label = STATION_REPORT_LABELS[report.report_type];
+  return report.report_type === 'out_of_stock' && report.fuel_type
+    ? `${label}: ${report.fuel_type}`
+    : label;
+}
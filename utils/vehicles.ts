@@ -0,0 +1,115 @@
+// utils/vehicles.ts
+import { Vehicle, VehicleProfile } from '@/core/models/Vehicle';
+import { isValidPrice, normalizeFuelType } from './formatters';
+
+// Fields a user fills in for a vehicle
+export type VehicleInput = Omit<Vehicle, 'id'>;
+
+/**
+ * Check a vehicle before it is saved
+ * @returns An error message, or null if the vehicle is valid
+ */
+export function validateVehicle(input: VehicleInput): string | null {
+  if (!input.name.trim()) return 'Please enter a name for the vehicle';
+  if (!input.fuel_type) return 'Please choose a fuel type';
+  if (!(input.tank_capacity > 0) || input.tank_capacity > 500) {
+    return 'Please enter the tank capacity in liters';
+  }
+  if (!(input.fuel_economy > 0) || input.fuel_economy > 100) {
+    return 'Please enter the fuel economy in km/L';
+  }
+  return null;
+}
+
+/**
+ * The vehicle prices are shown for
+ * Falls back to the first vehicle when the active one was removed.
+ */
+export function getActiveVehicle(profile: VehicleProfile): Vehicle | null {
+  return (
+    profile.vehicles.find(
+      (vehicle) => vehicle.id === profile.active_vehicle_id
+    ) ||
+    profile.vehicles[0] ||
+    null
+  );
+}
+
+/**
+ * Add a vehicle, or replace the one with the same id
+ * The first vehicle added becomes the active one.
+ * @returns A new profile
+ */
+export function saveVehicle(
+  profile: VehicleProfile,
+  vehicle: Vehicle
+): VehicleProfile {
+  const exists = profile.vehicles.some((item) => item.id === vehicle.id);
+
+  return {
+    vehicles: exists
+      ? profile.vehicles.map((item) =>
+          item.id === vehicle.id ? vehicle : item
+        )
+      : [...profile.vehicles, vehicle],
+    active_vehicle_id: profile.active_vehicle_id ?? vehicle.id,
+  };
+}
+
+/**
+ * Remove a vehicle
+ * Removing the active vehicle makes the first remaining one active.
+ * @returns A new profile
+ */
+export function removeVehicle(
+  profile: VehicleProfile,
+  vehicleId: string
+): VehicleProfile {
+  const vehicles = profile.vehicles.filter((item) => item.id !== vehicleId);
+
+  return {
+    vehicles,
+    active_vehicle_id:
+      profile.active_vehicle_id === vehicleId
+        ? vehicles[0]?.id ?? null
+        : profile.active_vehicle_id,
+  };
+}
+
+/**
+ * Merge vehicles saved as a guest into a signed-in user's profile
+ * The user's vehicles and active choice are kept; guest-only vehicles are
+ * appended.
+ */
+export function mergeVehicleProfiles(
+  userProfile: VehicleProfile,
+  guestProfile: VehicleProfile
+): VehicleProfile {
+  const userIds = new Set(userProfile.vehicles.map((item) => item.id));
+
+  return {
+    vehicles: [
+      ...userProfile.vehicles,
+      ...guestProfile.vehicles.filter((item) => !userIds.has(item.id)),
+    ],
+    active_vehicle_id:
+      userProfile.active_vehicle_id ?? guestProfile.active_vehicle_id,
+  };
+}
+
+/**
+ * Cost of filling a vehicle's tank from empty
+ * @returns The cost, or null if the price is missing or for another fuel
+ */
+export function getFullTankCost(
+  vehicle: Vehicle | null,
+  fuelType: string,
+  price: number | null | undefined
+): number | null {
+  if (!vehicle || !isValidPrice(price)) return null;
+  if (normalizeFuelType(vehicle.fuel_type) !== normalizeFuelType(fuelType)) {
+    return null;
+  }
+
+  return Math.round(vehicle.tank_capacity * (price as number) * 100) / 100;
+}